@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { parseCsv } from "@/lib/csv";
+import { MAX_BATCH_ROWS, runBatch } from "@/lib/batch";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Body: text/csv with a header row, a JSON array of GenReq rows, or { rows: [...] }.
+async function readRows(req: Request): Promise<unknown[] | null> {
+  const type = req.headers.get("content-type") || "";
+  const text = await req.text();
+  if (type.includes("csv") || (!type.includes("json") && !/^\s*[[{]/.test(text))) return parseCsv(text);
+  const j = JSON.parse(text);
+  if (Array.isArray(j)) return j;
+  if (Array.isArray(j?.rows)) return j.rows;
+  return null;
+}
+
+/* ========== MAIN HANDLER ========== */
+// Streams newline-delimited JSON events: start, one per row as it finishes, then done.
+export async function POST(req: Request) {
+  let rows: unknown[] | null;
+  try {
+    rows = await readRows(req);
+  } catch {
+    return NextResponse.json({ error: "Body must be CSV or a JSON array of rows" }, { status: 400 });
+  }
+  if (!rows || !rows.length) return NextResponse.json({ error: "No rows" }, { status: 400 });
+  if (rows.length > MAX_BATCH_ROWS) {
+    return NextResponse.json({ error: `At most ${MAX_BATCH_ROWS} rows per batch` }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        await runBatch(rows, (e) => controller.enqueue(encoder.encode(JSON.stringify(e) + "\n")));
+      } catch (e) {
+        controller.enqueue(encoder.encode(JSON.stringify({ type: "error", error: String(e) }) + "\n"));
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
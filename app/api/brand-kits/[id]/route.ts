@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { deleteBrandKit, getBrandKit, parseBrandKitInput, updateBrandKit } from "@/lib/brandKits";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const kit = await getBrandKit((await params).id);
+    if (!kit) return NextResponse.json({ error: "Brand kit not found" }, { status: 404 });
+    return NextResponse.json({ kit }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request, { params }: Ctx) {
+  try {
+    const parsed = parseBrandKitInput(await req.json().catch(() => null));
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const kit = await updateBrandKit((await params).id, parsed.input);
+    if (!kit) return NextResponse.json({ error: "Brand kit not found" }, { status: 404 });
+    return NextResponse.json({ kit });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    const ok = await deleteBrandKit((await params).id);
+    if (!ok) return NextResponse.json({ error: "Brand kit not found" }, { status: 404 });
+    return NextResponse.json({ ok });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
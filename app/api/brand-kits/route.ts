@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { createBrandKit, listBrandKits, parseBrandKitInput } from "@/lib/brandKits";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET() {
+  try {
+    return NextResponse.json({ kits: await listBrandKits() }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const parsed = parseBrandKitInput(await req.json().catch(() => null));
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const kit = await createBrandKit(parsed.input);
+    return NextResponse.json({ kit }, { status: 201 });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
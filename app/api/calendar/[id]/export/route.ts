@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { exportFileName, getPlan, planToCsv, planToIcs } from "@/lib/calendar";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// ?format=ics (default) or csv
+export async function GET(req: Request, { params }: Ctx) {
+  try {
+    const format = new URL(req.url).searchParams.get("format") || "ics";
+    if (format !== "ics" && format !== "csv") return NextResponse.json({ error: "format: ics or csv" }, { status: 400 });
+    const plan = await getPlan((await params).id);
+    if (!plan) return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+
+    const body = format === "ics" ? planToIcs(plan) : planToCsv(plan);
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "ics" ? "text/calendar; charset=utf-8" : "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${exportFileName(plan, format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
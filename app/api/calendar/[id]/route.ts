@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { deletePlan, getPlan, updatePlan } from "@/lib/calendar";
+import { invalidRequest, moderationBlocked } from "@/lib/validate";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const plan = await getPlan((await params).id);
+    if (!plan) return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+    return NextResponse.json({ plan }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// Body: { name?, posts? } — posts replace the plan's list; each needs the id of a planned post.
+export async function PUT(req: Request, { params }: Ctx) {
+  try {
+    const result = await updatePlan((await params).id, await req.json().catch(() => null));
+    if (!result) return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+    if ("errors" in result) return NextResponse.json(invalidRequest(result.errors), { status: 400 });
+    if ("blocked" in result) return NextResponse.json(moderationBlocked(result.blocked), { status: 422 });
+    return NextResponse.json({ plan: result.plan, moderation: result.moderation });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    const ok = await deletePlan((await params).id);
+    if (!ok) return NextResponse.json({ error: "Plan not found" }, { status: 404 });
+    return NextResponse.json({ ok });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
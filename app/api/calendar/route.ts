@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { listPlans, planCalendar, savePlan, validateCalendarReq } from "@/lib/calendar";
+import { invalidRequest } from "@/lib/validate";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET() {
+  try {
+    return NextResponse.json({ plans: await listPlans() }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// Body: { brief: GenReq, start, end, launchDate?, cadence?, platforms?, time?, timezone?, name? }
+export async function POST(req: Request) {
+  try {
+    const checked = validateCalendarReq(await req.json().catch(() => null));
+    if ("errors" in checked) return NextResponse.json(invalidRequest(checked.errors), { status: 400 });
+    const outcome = await planCalendar(checked.value);
+    if (!outcome.ok) return NextResponse.json(outcome.error, { status: outcome.status });
+    return NextResponse.json({ plan: await savePlan(outcome.plan) });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -1,33 +1,27 @@
 import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/apiAuth";
+import { apiError } from "@/lib/validate";
+import { generateWithProvider, resolveProvider } from "@/lib/llm";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
+// Spends provider credits, so it needs an API key like the public API.
 export async function POST(req: Request) {
+  const auth = authenticate(req);
+  if (!auth.ok) return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers });
   try {
     const { product = "test" } = await req.json().catch(() => ({}));
-    const key = process.env.GROQ_API_KEY;
-    if (!key) return NextResponse.json({ error: "No GROQ_API_KEY" }, { status: 500 });
+    const { provider, reason } = resolveProvider();
+    if (!provider) return NextResponse.json(apiError("server_error", `No LLM provider (${reason})`), { status: 500 });
 
-    const res = await fetch("https://api.groq.com/openai/v1/chat/completions", {
-      method: "POST",
-      headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}` },
-      body: JSON.stringify({
-        model: "llama3-8b-8192",
-        temperature: 0.7,
-        messages: [
-          { role: "system", content: "Return ONLY a JSON object. No code fences." },
-          { role: "user", content: `Give {"tagline":"...", "caption":"...", "shortDescription":"...", "hashtags":["#a","#b","#c","#d","#e"]} for product: ${product}` },
-        ],
-      }),
-      cache: "no-store",
-    });
-
-    const json = await res.json();
-    const raw = json?.choices?.[0]?.message?.content ?? "";
-    return NextResponse.json({ ok: res.ok, raw, apiJson: json }, { headers: { "Cache-Control": "no-store" } });
-  } catch (e) {
-    return NextResponse.json({ error: String(e) }, { status: 500 });
+    const result = await generateWithProvider(provider, { product: String(product).slice(0, 120) });
+    return NextResponse.json(
+      { ok: result.ok, provider: provider.name, model: provider.model, result },
+      { headers: { ...auth.headers, "Cache-Control": "no-store" } }
+    );
+  } catch {
+    return NextResponse.json(apiError("server_error", "Server error"), { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -1,24 +1,46 @@
 import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/apiAuth";
+import { probeProviders, resolveProvider } from "@/lib/llm";
+import { imageSearchStats, probeImageProviders } from "@/lib/images";
+import { cachedProbes, metricsSummary } from "@/lib/observability";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-export async function GET() {
+// With an API key the response adds the metrics summary, and ?probe=1 also calls every configured provider
+// (LLM model list, one-photo image page) and reports reachability and latency. Probe runs are reused for 30s.
+export async function GET(req: Request) {
+  const probe = new URL(req.url).searchParams.get("probe");
+  const wantsProbe = probe === "1" || probe === "true";
+  const auth = req.headers.has("authorization") || req.headers.has("x-api-key") || wantsProbe ? authenticate(req) : null;
+  if (auth && !auth.ok) return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers });
   const hasGroq   = !!process.env.GROQ_API_KEY;
   const hasOpenAI = !!process.env.OPENAI_API_KEY;
   const pexelsSet = !!process.env.PEXELS_API_KEY;
   const providerEnv = process.env.AI_PROVIDER || "(unset)";
   const isVercel  = process.env.VERCEL === "1";
 
-  let willUse: "openai"|"groq"|"ollama"|"demo" = "demo";
-  if (hasOpenAI) willUse = "openai";
-  else if (hasGroq) willUse = "groq";
-  else if (!isVercel && providerEnv === "ollama") willUse = "ollama";
-  else willUse = "demo";
+  // Same selection the generate route uses, so the two can't drift.
+  const { provider, reason } = resolveProvider();
+  const willUse = provider?.name || "local";
+  const health = wantsProbe ? await cachedProbes(async () => (await Promise.all([probeProviders(), probeImageProviders()])).flat()) : null;
 
   return NextResponse.json(
-    { isVercel, providerEnv, hasGroq, hasOpenAI, pexelsSet, willUse, model: process.env.GROQ_MODEL || "mixtral-8x7b-32768" },
-    { headers: { "Cache-Control": "no-store" } }
+    {
+      isVercel,
+      providerEnv,
+      hasGroq,
+      hasOpenAI,
+      pexelsSet,
+      unsplashSet: !!process.env.UNSPLASH_ACCESS_KEY,
+      willUse,
+      reason,
+      model: provider?.model ?? null,
+      images: imageSearchStats(),
+      ...(auth ? { metrics: metricsSummary() } : {}),
+      ...(health ? { health: { ok: health.probes.every((p) => p.ok), ...health } } : {}),
+    },
+    { headers: { ...auth?.headers, "Cache-Control": "no-store" } }
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { buildCampaignZip, type ExportItem } from "@/lib/export";
+import { PLATFORM_PROFILES, type PlatformId } from "@/lib/platforms";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const MAX_ITEMS = 50;
+
+/* ------------ request types ------------ */
+type ExportReq = {
+  generations?: ExportItem[];
+  generation?: ExportItem; // single-generation shorthand
+  platforms?: PlatformId[];
+};
+
+const isCopy = (c: unknown) => {
+  const o = (c || {}) as Record<string, unknown>;
+  return typeof o.tagline === "string" && typeof o.caption === "string" && Array.isArray(o.hashtags);
+};
+
+export async function POST(req: Request) {
+  try {
+    const body = ((await req.json().catch(() => null)) || {}) as ExportReq;
+    const items = body.generations || (body.generation ? [body.generation] : []);
+
+    if (!items.length) return NextResponse.json({ error: "Nothing to export" }, { status: 400 });
+    if (items.length > MAX_ITEMS) return NextResponse.json({ error: `At most ${MAX_ITEMS} generations per export` }, { status: 400 });
+    const bad = items.findIndex((it) => !it?.request?.product || !isCopy(it.copy));
+    if (bad >= 0) return NextResponse.json({ error: `Generation ${bad + 1} needs request.product and copy` }, { status: 400 });
+
+    const known = new Set(PLATFORM_PROFILES.map((p) => p.id));
+    const platforms = (body.platforms || []).filter((p) => known.has(p));
+
+    const zip = await buildCampaignZip(
+      items.map((it) => ({ ...it, copy: { ...it.copy, shortDescription: it.copy.shortDescription || "" } })),
+      platforms
+    );
+    const stamp = new Date().toISOString().slice(0, 10);
+    return new NextResponse(new Uint8Array(zip), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="campaign-${stamp}.zip"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { framesFileName, framesZip, generateFrames, validateFramesReq } from "@/lib/frames";
+import { invalidRequest } from "@/lib/validate";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Body: { brief: GenReq, format?: "carousel" | "story", layout? }; ?download=zip returns every frame in one archive.
+export async function POST(req: Request) {
+  try {
+    const checked = validateFramesReq(await req.json().catch(() => null));
+    if ("errors" in checked) return NextResponse.json(invalidRequest(checked.errors), { status: 400 });
+    const outcome = await generateFrames(checked.value);
+    if (!outcome.ok) return NextResponse.json(outcome.error, { status: outcome.status });
+
+    if (new URL(req.url).searchParams.get("download") === "zip") {
+      return new NextResponse(new Uint8Array(framesZip(outcome.set)), {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="${framesFileName(outcome.set)}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+    return NextResponse.json(outcome.set, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/apiAuth";
+import { validateHashtagDictionary } from "@/lib/hashtags";
+import { getHashtagDictionary, resetHashtagDictionary, saveHashtagDictionary } from "@/lib/hashtagStore";
+import { invalidRequest, lineFields } from "@/lib/validate";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getHashtagDictionary(), { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// Replaces the whole dictionary; send the GET result back with edits. Changing or resetting it needs an API key,
+// like the moderation settings.
+export async function PUT(req: Request) {
+  const auth = authenticate(req);
+  if (!auth.ok) return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers });
+  try {
+    const checked = validateHashtagDictionary(await req.json().catch(() => null));
+    if ("errors" in checked) return NextResponse.json(invalidRequest(lineFields(checked.errors)), { status: 400 });
+    await saveHashtagDictionary(checked.dictionary);
+    return NextResponse.json({ dictionary: checked.dictionary, custom: true });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// Back to the bundled hashtags/default.json.
+export async function DELETE(req: Request) {
+  const auth = authenticate(req);
+  if (!auth.ok) return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers });
+  try {
+    await resetHashtagDictionary();
+    return NextResponse.json(await getHashtagDictionary());
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
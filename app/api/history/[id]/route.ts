@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { deleteGeneration, getGeneration } from "@/lib/history";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const generation = await getGeneration((await params).id);
+    if (!generation) return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+    return NextResponse.json({ generation }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    const ok = await deleteGeneration((await params).id);
+    if (!ok) return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+    return NextResponse.json({ ok });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
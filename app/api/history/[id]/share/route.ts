@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { shareGeneration } from "@/lib/history";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// Idempotent: sharing the same version twice returns the same review link.
+export async function POST(_req: Request, { params }: Ctx) {
+  try {
+    const generation = await shareGeneration((await params).id);
+    if (!generation?.shareToken) return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+    return NextResponse.json({ token: generation.shareToken, path: `/review/${generation.shareToken}` });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
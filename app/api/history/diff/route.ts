@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { getGeneration } from "@/lib/history";
+import { diffCopies } from "@/lib/diff";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// GET ?from=<id>&to=<id> — word-level diff of every copy field plus the image.
+export async function GET(req: Request) {
+  try {
+    const p = new URL(req.url).searchParams;
+    const [from, to] = await Promise.all([getGeneration(p.get("from") || ""), getGeneration(p.get("to") || "")]);
+    if (!from || !to) return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+    const meta = (g: typeof from) => ({ id: g.id, threadId: g.threadId, version: g.version, kind: g.kind, createdAt: g.createdAt });
+    return NextResponse.json(
+      { from: meta(from), to: meta(to), fields: diffCopies(from, to) },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
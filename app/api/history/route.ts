@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { listHistory, parseCopy, saveEdit, type SavedImage } from "@/lib/history";
+import { moderationBlocked } from "@/lib/validate";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const MAX_IMAGE_CHARS = 700_000; // same cap as brand kit logos; bigger uploads aren't kept in history
+const SOURCES = ["upload", "pexels", "unsplash", "library", "generated"];
+
+// ?q= searches product, category and tagline; provider/language/platform/status/thread filter exactly.
+export async function GET(req: Request) {
+  try {
+    const p = new URL(req.url).searchParams;
+    const opt = (k: string) => p.get(k) || undefined;
+    const result = await listHistory({
+      q: opt("q"),
+      provider: opt("provider"),
+      language: opt("language"),
+      platform: opt("platform"),
+      status: opt("status"),
+      thread: opt("thread"),
+      limit: Number(p.get("limit")) || undefined,
+      offset: Number(p.get("offset")) || undefined,
+    });
+    return NextResponse.json(result, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// Saves edited copy (and optionally a different image) as a new version of `parentId`'s thread.
+export async function POST(req: Request) {
+  try {
+    const body = (await req.json().catch(() => null)) as { parentId?: unknown; copy?: unknown; image?: unknown } | null;
+    if (typeof body?.parentId !== "string") return NextResponse.json({ error: "Missing parentId" }, { status: 400 });
+    const copy = parseCopy(body.copy);
+    if (!copy) return NextResponse.json({ error: "copy: tagline, caption, shortDescription and hashtags required" }, { status: 400 });
+
+    let image: SavedImage | null | undefined;
+    if (body.image === null) image = null;
+    else if (body.image !== undefined) {
+      const img = body.image as Partial<SavedImage>;
+      if (typeof img.url !== "string" || !img.url || img.url.length > MAX_IMAGE_CHARS) {
+        return NextResponse.json({ error: "image.url: missing or too large" }, { status: 400 });
+      }
+      image = {
+        url: img.url,
+        source: img.url.startsWith("data:") ? "upload" : SOURCES.includes(String(img.source)) ? img.source : undefined,
+        attribution: typeof img.attribution === "string" ? img.attribution.slice(0, 300) : undefined,
+      };
+    }
+
+    const saved = await saveEdit(body.parentId, { copy, image });
+    if (!saved) return NextResponse.json({ error: "Generation not found" }, { status: 404 });
+    if ("blocked" in saved) return NextResponse.json(moderationBlocked(saved.blocked), { status: 422 });
+    return NextResponse.json(saved);
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
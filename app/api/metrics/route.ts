@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/apiAuth";
+import { metricsText } from "@/lib/observability";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Prometheus scrape target: request and provider counts, error ratios and p50/p95 latencies since the process started.
+// Needs an API key (Prometheus: `authorization: { credentials: <key> }` in the scrape config).
+export async function GET(req: Request) {
+  const auth = authenticate(req);
+  if (!auth.ok) return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers });
+  return new Response(metricsText(), {
+    headers: { ...auth.headers, "Content-Type": "text/plain; version=0.0.4; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/apiAuth";
+import { validateModerationConfig } from "@/lib/moderation";
+import { getModerationConfig, resetModerationConfig, saveModerationConfig } from "@/lib/moderationStore";
+import { invalidRequest, lineFields } from "@/lib/validate";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getModerationConfig(), { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// Replaces the whole config (policy and every list); a policy left out keeps the bundled action.
+// Changing or resetting what gets blocked needs an API key, like the public API.
+export async function PUT(req: Request) {
+  const auth = authenticate(req);
+  if (!auth.ok) return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers });
+  try {
+    const checked = validateModerationConfig(await req.json().catch(() => null));
+    if ("errors" in checked) return NextResponse.json(invalidRequest(lineFields(checked.errors)), { status: 400 });
+    await saveModerationConfig(checked.config);
+    return NextResponse.json({ config: checked.config, custom: true });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// Back to the bundled moderation/default.json.
+export async function DELETE(req: Request) {
+  const auth = authenticate(req);
+  if (!auth.ok) return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers });
+  try {
+    await resetModerationConfig();
+    return NextResponse.json(await getModerationConfig());
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { getPack } from "@/lib/packFiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// Returns the resolved pack, i.e. with anything inherited via `extends` filled in.
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const pack = await getPack((await params).id);
+    if (!pack) return NextResponse.json({ error: "Template pack not found" }, { status: 404 });
+    return NextResponse.json({ pack }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import type { GenReq } from "@/lib/types";
+import { composeCopy } from "@/lib/compose";
+import { resolveLanguage } from "@/lib/languages";
+import { lintCopy } from "@/lib/compliance";
+import { getPack, validateDraftPack } from "@/lib/packFiles";
+import type { TemplatePack } from "@/lib/packs";
+import { getHashtagDictionary } from "@/lib/hashtagStore";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/* ------------ sample brief ------------ */
+const SAMPLE_BRIEF: GenReq = {
+  product: "Pumpkin Spice Cold Brew",
+  category: "Beverage",
+  keyBenefit: "smooth caffeine",
+  audience: "commuters",
+  tone: "friendly",
+  platform: "instagram-feed",
+};
+
+type PreviewBody = { packId?: string; pack?: unknown; brief?: Partial<GenReq>; language?: string };
+
+/* ========== preview ========== */
+// Renders every template of a saved pack (`packId`) or an unsaved draft (`pack`) once, against the
+// sample brief or the caller's, so authors can check wording before dropping the file in place.
+export async function POST(req: Request) {
+  try {
+    const body = ((await req.json().catch(() => null)) || {}) as PreviewBody;
+
+    let pack: TemplatePack | null;
+    if (body.pack !== undefined) {
+      const checked = await validateDraftPack(body.pack);
+      if ("errors" in checked) return NextResponse.json({ error: "Invalid template pack", errors: checked.errors }, { status: 400 });
+      pack = checked.pack;
+    } else {
+      pack = await getPack(body.packId);
+      if (!pack) return NextResponse.json({ error: "Template pack not found" }, { status: 404 });
+    }
+
+    const language = body.language ? resolveLanguage(body.language) : "en";
+    if (!language) return NextResponse.json({ error: `Unsupported language "${body.language}"` }, { status: 400 });
+    const bank = pack.languages[language];
+    if (!bank) return NextResponse.json({ error: `Template pack "${pack.id}" has no ${language} templates` }, { status: 400 });
+
+    const fields = Object.entries(body.brief || {}).filter(([, v]) => typeof v === "string");
+    const brief: GenReq = { ...SAMPLE_BRIEF, ...Object.fromEntries(fields) };
+    if (!brief.product.trim()) return NextResponse.json({ error: "Missing product" }, { status: 400 });
+
+    const { dictionary } = await getHashtagDictionary();
+    // Seed i always lands on template i, so each template is shown exactly once.
+    const samples = bank.templates.map((_, i) => {
+      const { copy, debug } = composeCopy(
+        brief.product, brief.category, brief.keyBenefit, brief.audience, brief.tone, brief.platform, i, undefined, language, pack, dictionary
+      );
+      return { templateIndex: debug.templateIndex, copy, lint: lintCopy(copy, { category: brief.category, language, pack }) };
+    });
+
+    return NextResponse.json({ pack: pack.id, language, brief, samples }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { listPacks, PACKS_DIR } from "@/lib/packFiles";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Invalid packs are listed with `errors` so a broken edit is visible instead of silently missing.
+export async function GET() {
+  try {
+    return NextResponse.json({ dir: PACKS_DIR, packs: await listPacks() }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import {
+  checkImage,
+  decodeDataUrl,
+  fetchPosterImage,
+  pngDataUrl,
+  POSTER_LAYOUTS,
+  renderPoster,
+  svgDataUrl,
+  type PosterLayout,
+} from "@/lib/poster";
+import { paletteFor } from "@/lib/palette";
+import { invalidRequest, type FieldError } from "@/lib/validate";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/* ------------ request types ------------ */
+type PosterReq = {
+  imageUrl?: string;  // selected candidate (Pexels etc.)
+  imageData?: string; // uploaded image as a data URL
+  tagline?: string;
+  caption?: string;
+  colorHint?: string;
+  layout?: PosterLayout;
+  width?: number;
+  height?: number;
+  format?: "json" | "png" | "svg";
+};
+
+// Accepts JSON, or multipart form-data with an `image` file plus the same text fields; null when neither parses.
+async function readPosterReq(req: Request): Promise<{ body: PosterReq; upload: Buffer | null } | null> {
+  if ((req.headers.get("content-type") || "").startsWith("multipart/form-data")) {
+    const form = await req.formData().catch(() => null);
+    if (!form) return null;
+    const file = form.get("image");
+    const field = (k: string) => (typeof form.get(k) === "string" ? (form.get(k) as string) : undefined);
+    return {
+      body: {
+        imageUrl: field("imageUrl"),
+        tagline: field("tagline"),
+        caption: field("caption"),
+        colorHint: field("colorHint"),
+        layout: field("layout") as PosterLayout | undefined,
+        width: Number(field("width")) || undefined,
+        height: Number(field("height")) || undefined,
+        format: field("format") as PosterReq["format"],
+      },
+      upload: file instanceof Blob ? Buffer.from(await file.arrayBuffer()) : null,
+    };
+  }
+  const body = await req.json().catch(() => null);
+  return body && typeof body === "object" && !Array.isArray(body) ? { body: body as PosterReq, upload: null } : null;
+}
+
+// JSON bodies can carry anything; form fields are always strings, so only their values can be wrong.
+function checkPosterReq(body: PosterReq): FieldError[] {
+  const b = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  if (typeof b.tagline !== "string" || !b.tagline.trim()) errors.push({ path: "tagline", message: "expected a non-empty string" });
+  for (const key of ["caption", "colorHint", "imageUrl", "imageData"]) {
+    if (b[key] != null && typeof b[key] !== "string") errors.push({ path: key, message: "expected a string" });
+  }
+  if (b.layout != null && !POSTER_LAYOUTS.includes(b.layout as PosterLayout)) errors.push({ path: "layout", message: `must be one of ${POSTER_LAYOUTS.join(", ")}` });
+  for (const key of ["width", "height"]) {
+    if (b[key] != null && !(typeof b[key] === "number" && Number.isFinite(b[key]))) errors.push({ path: key, message: "expected a number" });
+  }
+  if (b.format != null && !["json", "png", "svg"].includes(b.format as string)) errors.push({ path: "format", message: "must be one of json, png, svg" });
+  return errors;
+}
+
+export async function POST(req: Request) {
+  try {
+    const parsed = await readPosterReq(req);
+    if (!parsed) return NextResponse.json(invalidRequest([{ path: "body", message: "expected a JSON object or multipart/form-data" }]), { status: 400 });
+    const { body, upload } = parsed;
+    const errors = checkPosterReq(body);
+    if (errors.length) return NextResponse.json(invalidRequest(errors), { status: 400 });
+
+    let image: Buffer | null = upload;
+    try {
+      if (!image && body.imageData) image = decodeDataUrl(body.imageData);
+      if (!image && body.imageUrl) image = await fetchPosterImage(body.imageUrl);
+      if (image) image = await checkImage(image);
+    } catch (e) {
+      const path = upload ? "image" : body.imageData ? "imageData" : "imageUrl";
+      return NextResponse.json(invalidRequest([{ path, message: e instanceof Error ? e.message : "Bad image" }]), { status: 400 });
+    }
+
+    // The palette follows the photo actually used, so picking another candidate re-tints the poster.
+    const palette = await paletteFor(body.colorHint, image);
+    const poster = await renderPoster({ ...body, tagline: body.tagline as string, image, accent: palette.swatches[0].hex });
+
+    if (body.format === "png") {
+      return new NextResponse(new Uint8Array(poster.png), {
+        headers: { "Content-Type": "image/png", "Content-Disposition": 'attachment; filename="poster.png"', "Cache-Control": "no-store" },
+      });
+    }
+    if (body.format === "svg") {
+      return new NextResponse(poster.svg, {
+        headers: { "Content-Type": "image/svg+xml", "Content-Disposition": 'attachment; filename="poster.svg"', "Cache-Control": "no-store" },
+      });
+    }
+    return NextResponse.json(
+      {
+        layout: poster.layout,
+        width: poster.width,
+        height: poster.height,
+        pngDataUrl: pngDataUrl(poster.png),
+        svgDataUrl: svgDataUrl(poster.svg),
+        palette,
+        text: poster.text,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { addReview, fieldDecisions, getByShareToken, parseReviewInput, type Generation } from "@/lib/history";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ token: string }> };
+
+// Reviewers see the copy and image, not the full request (brand kit ids, seeds, prompts).
+const reviewView = (g: Generation) => ({
+  product: g.request.product,
+  platform: g.request.platform,
+  language: g.language,
+  version: g.version,
+  createdAt: g.createdAt,
+  copy: g.copy,
+  image: g.image,
+  reviews: g.reviews,
+  decisions: fieldDecisions(g.reviews),
+});
+
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const generation = await getByShareToken((await params).token);
+    if (!generation) return NextResponse.json({ error: "Review link not found" }, { status: 404 });
+    return NextResponse.json({ review: reviewView(generation) }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// { field, decision?: "approved" | "rejected", comment?, reviewer? } — appended, never edited.
+export async function POST(req: Request, { params }: Ctx) {
+  try {
+    const parsed = parseReviewInput(await req.json().catch(() => null));
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const generation = await addReview((await params).token, parsed.input);
+    if (!generation) return NextResponse.json({ error: "Review link not found" }, { status: 404 });
+    return NextResponse.json({ review: reviewView(generation) });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { readUpload } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+// The stored photo, or its JPEG thumbnail with ?size=thumb. Ids are never reused, so the bytes never change.
+export async function GET(req: Request, { params }: Ctx) {
+  try {
+    const thumb = new URL(req.url).searchParams.get("size") === "thumb";
+    const file = await readUpload((await params).id, thumb);
+    if (!file) return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    return new NextResponse(new Uint8Array(file.buffer), {
+      headers: {
+        "Content-Type": file.mime,
+        "Content-Length": String(file.buffer.length),
+        "Cache-Control": "private, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
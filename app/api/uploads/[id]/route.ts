@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { deleteUpload, getUpload, uploadUrl } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const upload = await getUpload((await params).id);
+    if (!upload) return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    return NextResponse.json(
+      { upload: { ...upload, url: uploadUrl(upload.id), thumbUrl: uploadUrl(upload.id, true) } },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    const ok = await deleteUpload((await params).id);
+    if (!ok) return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    return NextResponse.json({ ok });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
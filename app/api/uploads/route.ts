@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { getBrandKit } from "@/lib/brandKits";
+import { findUploads, saveUpload, UPLOAD_MAX_BYTES, UPLOAD_MAX_FILES, uploadCandidate, uploadUrl, type UploadedPhoto } from "@/lib/uploads";
+import { apiError, invalidRequest, type FieldError } from "@/lib/validate";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+export const maxDuration = 60;
+
+// Each upload with its URLs, plus the same photos as picker candidates (what generate would return for them).
+const present = (uploads: UploadedPhoto[]) => ({
+  uploads: uploads.map((u) => ({ ...u, url: uploadUrl(u.id), thumbUrl: uploadUrl(u.id, true) })),
+  candidates: uploads.map((u) => uploadCandidate(u, u.product || "")),
+});
+
+const text = (v: FormDataEntryValue | string | null, max: number) => (typeof v === "string" ? v.trim().slice(0, max) : "") || undefined;
+
+// ?product=Glow Serum&brandKitId=… → the photos generate would use for that brief; neither → every upload.
+export async function GET(req: Request) {
+  try {
+    const q = new URL(req.url).searchParams;
+    const uploads = await findUploads(text(q.get("product"), 120), text(q.get("brandKitId"), 100));
+    return NextResponse.json(present(uploads), { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// multipart/form-data: file (one or more), product?, brandKitId?, alt?
+// Without a product the photos are shared by every product of the brand kit. Good files are kept even if others fail.
+export async function POST(req: Request) {
+  try {
+    const length = Number(req.headers.get("content-length") || 0);
+    if (length > UPLOAD_MAX_FILES * UPLOAD_MAX_BYTES + 64 * 1024) {
+      return NextResponse.json(apiError("invalid_request", "Request body too large"), { status: 413 });
+    }
+    const form = await req.formData().catch(() => null);
+    if (!form) return NextResponse.json(invalidRequest([{ path: "body", message: "expected multipart/form-data" }]), { status: 400 });
+
+    const files = form.getAll("file").filter((f): f is File => typeof f !== "string");
+    const product = text(form.get("product"), 120);
+    const brandKitId = text(form.get("brandKitId"), 100);
+    const fields: FieldError[] = [];
+    if (!files.length) fields.push({ path: "file", message: "at least one image file is required" });
+    if (files.length > UPLOAD_MAX_FILES) fields.push({ path: "file", message: `at most ${UPLOAD_MAX_FILES} files per request` });
+    if (!product && !brandKitId) fields.push({ path: "product", message: "a product or a brandKitId is required" });
+    if (fields.length) return NextResponse.json(invalidRequest(fields), { status: 400 });
+    if (brandKitId && !(await getBrandKit(brandKitId))) {
+      return NextResponse.json(apiError("not_found", "Brand kit not found", [{ path: "brandKitId", message: "not found" }]), { status: 404 });
+    }
+
+    const saved: UploadedPhoto[] = [];
+    const errors: FieldError[] = [];
+    for (const [i, f] of files.entries()) {
+      const out = await saveUpload(Buffer.from(await f.arrayBuffer()), { name: f.name.slice(0, 200), product, brandKitId, alt: text(form.get("alt"), 300) });
+      if ("error" in out) errors.push({ path: `file[${i}]`, message: `${f.name}: ${out.error}` });
+      else saved.push(out.upload);
+    }
+    if (!saved.length) return NextResponse.json(invalidRequest(errors), { status: 400 });
+    return NextResponse.json({ ...present(saved), ...(errors.length ? { errors } : {}) }, { status: 201 });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { authenticate } from "@/lib/apiAuth";
+import { generate } from "@/lib/generate";
+import { apiError, invalidRequest, validateGenReq } from "@/lib/validate";
+import { errorFields, log, withRequest } from "@/lib/observability";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/* ========== MAIN HANDLER ========== */
+// Public, key-authenticated version of /api/generate; the request and response shapes are in /api/v1/openapi.json.
+export async function POST(req: Request) {
+  return withRequest(req, "v1/generate", () => handle(req));
+}
+
+async function handle(req: Request) {
+  const auth = authenticate(req);
+  if (!auth.ok) return NextResponse.json(auth.error, { status: auth.status, headers: auth.headers });
+  const headers = { ...auth.headers, "Cache-Control": "no-store" };
+  try {
+    const raw = await req.json().catch(() => undefined);
+    if (raw === undefined) return NextResponse.json(apiError("invalid_request", "Body must be JSON"), { status: 400, headers });
+    const checked = validateGenReq(raw);
+    if ("errors" in checked) return NextResponse.json(invalidRequest(checked.errors), { status: 400, headers });
+
+    const out = await generate(checked.value);
+    if (!out.ok) return NextResponse.json(out.error, { status: out.status, headers });
+    return NextResponse.json(out.body, { headers });
+  } catch (e) {
+    log("error", "unhandled", errorFields(e));
+    return NextResponse.json(apiError("server_error", "Server error"), { status: 500, headers });
+  }
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { openApiDocument } from "@/lib/openapi";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+// Public on purpose: the spec describes the API, it doesn't grant access to it.
+export async function GET(req: Request) {
+  return NextResponse.json(openApiDocument(new URL(req.url).origin), { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { deleteVoice, getVoice, parseVoiceInput, updateVoice } from "@/lib/voices";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type Ctx = { params: Promise<{ id: string }> };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const voice = await getVoice((await params).id);
+    if (!voice) return NextResponse.json({ error: "Voice not found" }, { status: 404 });
+    return NextResponse.json({ voice }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request, { params }: Ctx) {
+  try {
+    const parsed = parseVoiceInput(await req.json().catch(() => null));
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const voice = await updateVoice((await params).id, parsed.input);
+    if (voice === "missing") return NextResponse.json({ error: "Voice not found" }, { status: 404 });
+    if (voice === "taken") return NextResponse.json({ error: "A voice with that name already exists" }, { status: 409 });
+    return NextResponse.json({ voice });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    const ok = await deleteVoice((await params).id);
+    if (!ok) return NextResponse.json({ error: "Voice not found" }, { status: 404 });
+    return NextResponse.json({ ok });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { createVoice, listVoices, parseVoiceInput } from "@/lib/voices";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function GET() {
+  try {
+    return NextResponse.json({ voices: await listVoices() }, { headers: { "Cache-Control": "no-store" } });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
+
+// Body: { name, words?: string[] | "a, b", base?: "playful luxury", sentenceLength?, punctuation? }
+export async function POST(req: Request) {
+  try {
+    const parsed = parseVoiceInput(await req.json().catch(() => null));
+    if ("error" in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+    const voice = await createVoice(parsed.input);
+    if (!voice) return NextResponse.json({ error: "A voice with that name already exists" }, { status: 409 });
+    return NextResponse.json({ voice }, { status: 201 });
+  } catch {
+    return NextResponse.json({ error: "Server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import type { BatchEvent, BatchRowResult } from "@/lib/batch";
+import { toCsv } from "@/lib/csv";
+
+const SAMPLE = `product,category,keyBenefit,audience,tone,platform,language,imageQuery
+Pumpkin Spice Cold Brew,Beverage,smooth caffeine,commuters,playful,instagram-feed,en,iced coffee glass
+Glow Serum,Skincare,piel jugosa,,luxury,tiktok,es,serum bottle marble`;
+
+const CSV_HEADER = ["row", "status", "product", "platform", "language", "seed", "tagline", "caption", "shortDescription", "hashtags", "photo", "photo_credit", "lint", "errors"];
+
+function download(name: string, body: string, type: string) {
+  const url = URL.createObjectURL(new Blob([body], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function BatchPage() {
+  const [input, setInput] = useState(SAMPLE);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [rows, setRows] = useState<BatchRowResult[]>([]);
+  const [summary, setSummary] = useState<{ succeeded: number; failed: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadFile(file: File | undefined) {
+    if (file) setInput(await file.text());
+  }
+
+  async function runBatch() {
+    setRunning(true);
+    setError(null);
+    setRows([]);
+    setSummary(null);
+    setProgress(null);
+    try {
+      const isJson = /^\s*[[{]/.test(input);
+      const res = await fetch("/api/batch", {
+        method: "POST",
+        headers: { "Content-Type": isJson ? "application/json" : "text/csv" },
+        body: input,
+      });
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null);
+        throw new Error(typeof data?.error === "string" ? data.error : "Batch failed");
+      }
+
+      // NDJSON: handle each complete line as it arrives.
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buf = "";
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buf += decoder.decode(value, { stream: true });
+        const lines = buf.split("\n");
+        buf = lines.pop() || "";
+        for (const line of lines.filter(Boolean)) {
+          const e = JSON.parse(line) as BatchEvent | { type: "error"; error: string };
+          if (e.type === "start") setProgress({ done: 0, total: e.total });
+          else if (e.type === "row") {
+            setProgress({ done: e.done, total: e.total });
+            setRows((r) => [...r, e.row].sort((a, b) => a.index - b.index));
+          } else if (e.type === "done") setSummary({ succeeded: e.succeeded, failed: e.failed });
+          else if (e.type === "error") setError(e.error);
+        }
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  function exportCsv() {
+    const out = rows.map((r) => ({
+      row: r.index + 1,
+      status: r.ok ? "ok" : "error",
+      product: r.request?.product,
+      platform: r.request?.platform,
+      language: r.request?.language || "en",
+      seed: r.ok ? r.seed : "",
+      tagline: r.ok ? r.copy.tagline : "",
+      caption: r.ok ? r.copy.caption : "",
+      shortDescription: r.ok ? r.copy.shortDescription : "",
+      hashtags: r.ok ? r.copy.hashtags : "",
+      photo: r.ok ? r.candidates[0]?.url || "" : "",
+      photo_credit: r.ok && r.candidates[0] ? `${r.candidates[0].photographer || ""} (${r.candidates[0].license})` : "",
+      lint: r.ok ? r.lint.findings.filter((f) => f.severity !== "info").map((f) => `${f.field}: ${f.message}`).join("; ") : "",
+      errors: r.ok ? "" : r.errors.join("; "),
+    }));
+    download("batch-results.csv", toCsv(CSV_HEADER, out), "text/csv");
+  }
+
+  return (
+    <main className="min-h-screen p-6 flex flex-col items-center bg-gray-50 text-gray-900">
+      <div className="w-full max-w-5xl space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-3xl font-bold">Batch generation</h1>
+          <Link href="/" className="underline text-sm">
+            ← Single product
+          </Link>
+        </div>
+        <p className="text-gray-900">
+          Paste a CSV (header row: product, category, keyBenefit, audience, tone, platform, language, imageStyle,
+          colorHint, imageQuery, brandKitId) or a JSON array of briefs.
+        </p>
+
+        <div className="grid gap-3 bg-white p-4 rounded-xl shadow">
+          <textarea
+            className="border p-2 rounded font-mono text-xs h-48 text-gray-900"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+          />
+          <div className="flex items-center gap-4 text-sm">
+            <label className="underline cursor-pointer">
+              Load file
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => loadFile(e.target.files?.[0])}
+              />
+            </label>
+            <button
+              type="button"
+              disabled={running || !input.trim()}
+              onClick={runBatch}
+              className="bg-black text-white rounded px-4 py-2 disabled:opacity-50"
+            >
+              {running ? "Running…" : "Run batch"}
+            </button>
+          </div>
+          {progress && (
+            <div>
+              <div className="h-2 bg-gray-200 rounded overflow-hidden">
+                <div
+                  className="h-full bg-black transition-all"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-600 mt-1">
+                {progress.done}/{progress.total} rows
+                {summary && ` · ${summary.succeeded} ok, ${summary.failed} failed`}
+              </p>
+            </div>
+          )}
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+
+        {rows.length > 0 && (
+          <section className="bg-white p-4 rounded-xl shadow space-y-3">
+            <div className="flex justify-between items-center">
+              <h2 className="font-semibold text-xl">Results</h2>
+              <span className="flex gap-4 text-sm">
+                <button type="button" className="underline" onClick={exportCsv}>
+                  Download CSV
+                </button>
+                <button
+                  type="button"
+                  className="underline"
+                  onClick={() => download("batch-results.json", JSON.stringify(rows, null, 2), "application/json")}
+                >
+                  Download JSON
+                </button>
+              </span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="p-1">#</th>
+                    <th className="p-1">Product</th>
+                    <th className="p-1">Tagline</th>
+                    <th className="p-1">Caption</th>
+                    <th className="p-1">Hashtags</th>
+                    <th className="p-1">Checks</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr key={r.index} className={`border-b align-top ${r.ok ? "" : "bg-red-50"}`}>
+                      <td className="p-1">{r.index + 1}</td>
+                      <td className="p-1">{r.request?.product || "—"}</td>
+                      {r.ok ? (
+                        <>
+                          <td className="p-1">{r.copy.tagline}</td>
+                          <td className="p-1">{r.copy.caption}</td>
+                          <td className="p-1">{r.copy.hashtags.join(" ")}</td>
+                          <td className="p-1 text-xs" title={r.lint.findings.map((f) => `${f.field}: ${f.message}`).join("\n")}>
+                            {r.lint.findings.some((f) => f.severity === "error") ? (
+                              <span className="text-red-700">⚠ {r.lint.findings.filter((f) => f.severity === "error").length} issues</span>
+                            ) : (
+                              "✓"
+                            )}
+                          </td>
+                        </>
+                      ) : (
+                        <td className="p-1 text-red-700" colSpan={4}>
+                          {r.errors.join("; ")}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
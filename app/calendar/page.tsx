@@ -0,0 +1,448 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import type { Cadence, ContentPlan, PlanSummary, PlannedPost } from "@/lib/calendar";
+import { LAUNCH_PHASES, type LaunchPhase } from "@/lib/packs";
+import { PLATFORM_PROFILES, type PlatformId } from "@/lib/platforms";
+import { LANGUAGES, type Language } from "@/lib/languages";
+
+type Form = {
+  product: string;
+  category: string;
+  keyBenefit: string;
+  audience: string;
+  tone: string;
+  language: Language;
+  start: string;
+  end: string;
+  launchDate: string;
+  cadence: Cadence;
+  time: string;
+  timezone: string;
+  platforms: PlatformId[];
+};
+
+const CADENCE_LABELS: Record<Cadence, string> = {
+  daily: "Every day",
+  weekdays: "Weekdays",
+  "3-per-week": "Mon / Wed / Fri",
+  "2-per-week": "Tue / Thu",
+  weekly: "Once a week",
+};
+const PHASE_LABELS: Record<LaunchPhase, string> = { teaser: "Teaser", launch: "Launch", "social-proof": "Social proof", reminder: "Reminder" };
+const PHASE_STYLE: Record<LaunchPhase, string> = {
+  teaser: "bg-purple-100 text-purple-900",
+  launch: "bg-green-100 text-green-900",
+  "social-proof": "bg-blue-100 text-blue-900",
+  reminder: "bg-amber-100 text-amber-900",
+};
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const DAY_MS = 86_400_000;
+
+const isoDate = (t: number) => new Date(t).toISOString().slice(0, 10);
+const today = () => isoDate(Date.now());
+
+// Monday-start weeks covering start..end, as rows of seven YYYY-MM-DD dates.
+function weeksBetween(start: string, end: string): string[][] {
+  const first = Date.parse(`${start}T00:00:00Z`);
+  const last = Date.parse(`${end}T00:00:00Z`);
+  let t = first - ((new Date(first).getUTCDay() + 6) % 7) * DAY_MS;
+  const weeks: string[][] = [];
+  while (t <= last) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => isoDate(t + i * DAY_MS)));
+    t += 7 * DAY_MS;
+  }
+  return weeks;
+}
+
+export default function CalendarPage() {
+  const [form, setForm] = useState<Form>(() => ({
+    product: "",
+    category: "",
+    keyBenefit: "",
+    audience: "",
+    tone: "",
+    language: "en",
+    start: today(),
+    end: isoDate(Date.now() + 27 * DAY_MS),
+    launchDate: "",
+    cadence: "3-per-week",
+    time: "10:00",
+    timezone: "UTC",
+    platforms: ["instagram-feed"],
+  }));
+  const [plans, setPlans] = useState<PlanSummary[]>([]);
+  const [plan, setPlan] = useState<ContentPlan | null>(null);
+  const [editing, setEditing] = useState<PlannedPost | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setForm((f) => ({ ...f, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC" }));
+    fetch("/api/calendar", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((d) => setPlans(d.plans || []))
+      .catch(() => undefined);
+  }, []);
+
+  const set = (key: keyof Form) => (e: { target: { value: string } }) => setForm((f) => ({ ...f, [key]: e.target.value }));
+
+  function togglePlatform(id: PlatformId) {
+    setForm((f) => ({ ...f, platforms: f.platforms.includes(id) ? f.platforms.filter((p) => p !== id) : [...f.platforms, id] }));
+  }
+
+  async function create() {
+    setBusy(true);
+    setError(null);
+    try {
+      const { start, end, launchDate, cadence, time, timezone, platforms, ...brief } = form;
+      const res = await fetch("/api/calendar", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          brief: Object.fromEntries(Object.entries(brief).filter(([, v]) => v !== "")),
+          start,
+          end,
+          launchDate: launchDate || undefined,
+          cadence,
+          time,
+          timezone,
+          platforms,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Planning failed");
+      setPlan(data.plan);
+      setEditing(null);
+      setPlans((list) => [summaryOf(data.plan), ...list.filter((s) => s.id !== data.plan.id)]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Planning failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function open(id: string) {
+    setError(null);
+    const res = await fetch(`/api/calendar/${id}`, { cache: "no-store" });
+    const data = await res.json();
+    if (!res.ok) return setError(data?.error || "Could not load plan");
+    setPlan(data.plan);
+    setEditing(null);
+  }
+
+  async function remove(id: string) {
+    if (!window.confirm("Delete this plan?")) return;
+    const res = await fetch(`/api/calendar/${id}`, { method: "DELETE" });
+    if (!res.ok) return setError("Delete failed");
+    setPlans((list) => list.filter((s) => s.id !== id));
+    if (plan?.id === id) setPlan(null);
+  }
+
+  // The API takes the whole post list, so removals and edits go through the same call.
+  async function savePosts(posts: PlannedPost[]) {
+    if (!plan) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/calendar/${plan.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ posts }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Save failed");
+      setPlan(data.plan);
+      setEditing(null);
+      setPlans((list) => list.map((s) => (s.id === data.plan.id ? summaryOf(data.plan) : s)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Save failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const weeks = useMemo(() => {
+    if (!plan) return [];
+    const dates = plan.posts.map((p) => p.date);
+    const start = [plan.request.start, ...dates].sort()[0];
+    const end = [plan.request.end, ...dates].sort().slice(-1)[0];
+    return weeksBetween(start, end);
+  }, [plan]);
+
+  const byDate = useMemo(() => {
+    const map = new Map<string, PlannedPost[]>();
+    for (const p of plan?.posts || []) map.set(p.date, [...(map.get(p.date) || []), p]);
+    return map;
+  }, [plan]);
+
+  const label = (id: PlatformId) => PLATFORM_PROFILES.find((p) => p.id === id)?.label || id;
+
+  return (
+    <main className="min-h-screen p-6 flex flex-col items-center bg-gray-50 text-gray-900">
+      <div className="w-full max-w-6xl space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-3xl font-bold">Content calendar</h1>
+          <Link href="/" className="underline text-sm">
+            ← Single product
+          </Link>
+        </div>
+        <p className="text-gray-900">
+          Plan a launch as a run of posts: teasers before launch day, social proof after it, then reminders. Each post gets its own template and
+          photo.
+        </p>
+
+        <section className="grid gap-2 bg-white p-4 rounded-xl shadow sm:grid-cols-4 text-sm">
+          <input className="border p-2 rounded placeholder:text-gray-700" placeholder="Product" value={form.product} onChange={set("product")} />
+          <input className="border p-2 rounded placeholder:text-gray-700" placeholder="Category" value={form.category} onChange={set("category")} />
+          <input className="border p-2 rounded placeholder:text-gray-700" placeholder="Key benefit" value={form.keyBenefit} onChange={set("keyBenefit")} />
+          <input className="border p-2 rounded placeholder:text-gray-700" placeholder="Audience" value={form.audience} onChange={set("audience")} />
+          <input className="border p-2 rounded placeholder:text-gray-700" placeholder="Tone" value={form.tone} onChange={set("tone")} />
+          <select className="border p-2 rounded" value={form.language} onChange={set("language")}>
+            {LANGUAGES.map((l) => (
+              <option key={l.id} value={l.id}>{l.label}</option>
+            ))}
+          </select>
+          <select className="border p-2 rounded" value={form.cadence} onChange={set("cadence")}>
+            {(Object.keys(CADENCE_LABELS) as Cadence[]).map((c) => (
+              <option key={c} value={c}>{CADENCE_LABELS[c]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2">
+            At
+            <input type="time" className="border p-2 rounded" value={form.time} onChange={set("time")} />
+          </label>
+          <label className="flex flex-col text-xs text-gray-700">
+            From
+            <input type="date" className="border p-2 rounded text-sm text-gray-900" value={form.start} onChange={set("start")} />
+          </label>
+          <label className="flex flex-col text-xs text-gray-700">
+            To
+            <input type="date" className="border p-2 rounded text-sm text-gray-900" value={form.end} onChange={set("end")} />
+          </label>
+          <label className="flex flex-col text-xs text-gray-700">
+            Launch day (optional)
+            <input type="date" className="border p-2 rounded text-sm text-gray-900" value={form.launchDate} onChange={set("launchDate")} />
+          </label>
+          <label className="flex flex-col text-xs text-gray-700">
+            Time zone
+            <input className="border p-2 rounded text-sm text-gray-900" value={form.timezone} onChange={set("timezone")} />
+          </label>
+          <div className="sm:col-span-4 flex flex-wrap gap-3">
+            {PLATFORM_PROFILES.map((p) => (
+              <label key={p.id} className="flex items-center gap-1">
+                <input type="checkbox" checked={form.platforms.includes(p.id)} onChange={() => togglePlatform(p.id)} />
+                {p.label}
+              </label>
+            ))}
+          </div>
+          <div className="sm:col-span-4 flex items-center gap-3">
+            <button
+              type="button"
+              className="bg-black text-white px-4 py-2 rounded disabled:opacity-50"
+              disabled={busy || !form.product.trim() || !form.platforms.length}
+              onClick={create}
+            >
+              {busy ? "Working…" : "Plan posts"}
+            </button>
+            {error && <p className="text-red-600">{error}</p>}
+          </div>
+        </section>
+
+        {plan && (
+          <section className="bg-white p-4 rounded-xl shadow space-y-3">
+            <div className="flex flex-wrap justify-between items-baseline gap-2">
+              <h2 className="font-semibold text-xl">
+                {plan.name}
+                <span className="text-sm font-normal text-gray-600">
+                  {" "}· {plan.posts.length} posts · launch {plan.request.launchDate} · {plan.request.timezone}
+                </span>
+              </h2>
+              <div className="text-sm space-x-3">
+                <a className="underline" href={`/api/calendar/${plan.id}/export?format=ics`}>
+                  Download .ics
+                </a>
+                <a className="underline" href={`/api/calendar/${plan.id}/export?format=csv`}>
+                  Download CSV
+                </a>
+              </div>
+            </div>
+            <div className="flex gap-2 text-xs">
+              {LAUNCH_PHASES.map((ph) => (
+                <span key={ph} className={`px-2 py-0.5 rounded ${PHASE_STYLE[ph]}`}>{PHASE_LABELS[ph]}</span>
+              ))}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs table-fixed min-w-[56rem]">
+                <thead>
+                  <tr className="text-left text-gray-600">
+                    {WEEKDAYS.map((d) => (
+                      <th key={d} className="p-1">{d}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {weeks.map((week) => (
+                    <tr key={week[0]} className="align-top">
+                      {week.map((date) => {
+                        const inRange = date >= plan.request.start && date <= plan.request.end;
+                        return (
+                          <td key={date} className={`border p-1 h-24 ${inRange ? "" : "bg-gray-50 text-gray-400"}`}>
+                            <div className={date === plan.request.launchDate ? "font-bold" : ""}>{date.slice(5)}</div>
+                            {(byDate.get(date) || []).map((p) => (
+                              <button
+                                key={p.id}
+                                type="button"
+                                className={`block w-full text-left mt-1 px-1 rounded ${PHASE_STYLE[p.phase]} ${editing?.id === p.id ? "ring-2 ring-black" : ""}`}
+                                title={p.copy.caption}
+                                onClick={() => setEditing(p)}
+                              >
+                                {p.time} {label(p.platform)}
+                                <span className="block truncate">{p.copy.tagline}</span>
+                              </button>
+                            ))}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+
+        {plan && editing && (
+          <PostEditor
+            key={editing.id}
+            post={editing}
+            plan={plan}
+            busy={busy}
+            onCancel={() => setEditing(null)}
+            onSave={(p) => savePosts(plan.posts.map((x) => (x.id === p.id ? p : x)))}
+            onDelete={() => savePosts(plan.posts.filter((x) => x.id !== editing.id))}
+          />
+        )}
+
+        <section className="bg-white p-4 rounded-xl shadow space-y-2 text-sm">
+          <h2 className="font-semibold text-xl">Saved plans</h2>
+          {plans.map((s) => (
+            <div key={s.id} className="flex justify-between border-b py-1">
+              <span>
+                {s.name}
+                <span className="text-xs text-gray-600"> · {s.start} → {s.end} · {s.posts} posts</span>
+              </span>
+              <span className="space-x-2 text-xs">
+                <button type="button" className="underline" onClick={() => open(s.id)}>
+                  Open
+                </button>
+                <button type="button" className="underline text-red-700" onClick={() => remove(s.id)}>
+                  Delete
+                </button>
+              </span>
+            </div>
+          ))}
+          {!plans.length && <p className="text-gray-600">No plans yet.</p>}
+        </section>
+      </div>
+    </main>
+  );
+}
+
+const summaryOf = (p: ContentPlan): PlanSummary => ({
+  id: p.id,
+  name: p.name,
+  createdAt: p.createdAt,
+  updatedAt: p.updatedAt,
+  language: p.language,
+  product: p.request.brief.product,
+  start: p.request.start,
+  end: p.request.end,
+  launchDate: p.request.launchDate,
+  posts: p.posts.length,
+});
+
+/* ------------ post editor ------------ */
+function PostEditor(props: {
+  post: PlannedPost;
+  plan: ContentPlan;
+  busy: boolean;
+  onSave: (p: PlannedPost) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}) {
+  const [post, setPost] = useState(props.post);
+  const [tags, setTags] = useState(props.post.copy.hashtags.join(" "));
+  const setCopy = (key: "tagline" | "caption" | "shortDescription") => (e: { target: { value: string } }) =>
+    setPost((p) => ({ ...p, copy: { ...p.copy, [key]: e.target.value } }));
+
+  function save() {
+    const hashtags = tags.split(/[\s,]+/).filter(Boolean).map((t) => (t.startsWith("#") ? t : `#${t}`));
+    props.onSave({ ...post, copy: { ...post.copy, hashtags } });
+  }
+
+  return (
+    <section className="bg-white p-4 rounded-xl shadow space-y-2 text-sm">
+      <h2 className="font-semibold text-xl">
+        Edit post <span className="text-sm font-normal text-gray-600">· {PLATFORM_PROFILES.find((p) => p.id === post.platform)?.label}</span>
+      </h2>
+      <div className="grid gap-2 sm:grid-cols-3">
+        <input type="date" className="border p-2 rounded" value={post.date} onChange={(e) => setPost((p) => ({ ...p, date: e.target.value }))} />
+        <input type="time" className="border p-2 rounded" value={post.time} onChange={(e) => setPost((p) => ({ ...p, time: e.target.value }))} />
+        <select className="border p-2 rounded" value={post.phase} onChange={(e) => setPost((p) => ({ ...p, phase: e.target.value as LaunchPhase }))}>
+          {LAUNCH_PHASES.map((ph) => (
+            <option key={ph} value={ph}>{PHASE_LABELS[ph]}</option>
+          ))}
+        </select>
+      </div>
+      <input className="border p-2 rounded w-full" value={post.copy.tagline} onChange={setCopy("tagline")} aria-label="Tagline" />
+      <textarea className="border p-2 rounded w-full" rows={3} value={post.copy.caption} onChange={setCopy("caption")} aria-label="Caption" />
+      <textarea
+        className="border p-2 rounded w-full"
+        rows={2}
+        value={post.copy.shortDescription}
+        onChange={setCopy("shortDescription")}
+        aria-label="Short description"
+      />
+      <input className="border p-2 rounded w-full" value={tags} onChange={(e) => setTags(e.target.value)} aria-label="Hashtags" />
+      <textarea
+        className="border p-2 rounded w-full placeholder:text-gray-700"
+        rows={2}
+        placeholder="Notes for the team"
+        value={post.notes || ""}
+        onChange={(e) => setPost((p) => ({ ...p, notes: e.target.value }))}
+      />
+      {!!props.plan.images.length && (
+        <div className="flex flex-wrap gap-2">
+          {props.plan.images.map((img) => (
+            <button
+              key={img.url}
+              type="button"
+              className={`relative h-16 w-16 border rounded overflow-hidden ${post.image?.url === img.url ? "ring-2 ring-black" : ""}`}
+              title={img.attribution}
+              onClick={() => setPost((p) => ({ ...p, image: img }))}
+            >
+              <Image src={img.thumbUrl} alt={img.alt} fill sizes="64px" className="object-cover" unoptimized />
+            </button>
+          ))}
+          <button type="button" className="underline text-xs" onClick={() => setPost((p) => ({ ...p, image: null }))}>
+            No image
+          </button>
+        </div>
+      )}
+      <div className="flex gap-3">
+        <button type="button" className="bg-black text-white px-4 py-2 rounded disabled:opacity-50" disabled={props.busy} onClick={save}>
+          Save post
+        </button>
+        <button type="button" className="underline" onClick={props.onCancel}>
+          Cancel
+        </button>
+        <button type="button" className="underline text-red-700" disabled={props.busy} onClick={props.onDelete}>
+          Remove post
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { buildHashtags, type HashtagDictionary, type TagList } from "@/lib/hashtags";
+import { DEFAULT_PACK } from "@/lib/packs";
+import { PLATFORM_PROFILES, resolvePlatform } from "@/lib/platforms";
+import { LANGUAGES, type Language } from "@/lib/languages";
+
+const CATEGORIES = [...DEFAULT_PACK.categories.map((c) => c.id), "other"];
+const splitTags = (s: string) => s.split(/[\s,]+/).filter(Boolean);
+
+export default function HashtagsPage() {
+  const [dictionary, setDictionary] = useState<HashtagDictionary | null>(null);
+  const [custom, setCustom] = useState(false);
+  const [language, setLanguage] = useState<Language>("en");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+  const [apiKey, setApiKey] = useState("");
+  const [sample, setSample] = useState({ product: "Glow Serum", category: "skincare", benefit: "deep hydration", audience: "", platform: PLATFORM_PROFILES[0].id as string });
+
+  function load(res: Promise<Response>) {
+    res
+      .then((r) => r.json())
+      .then((d) => {
+        if (!d?.dictionary) throw new Error(d?.error || "Could not load the dictionary");
+        setDictionary(d.dictionary);
+        setCustom(!!d.custom);
+      })
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : "Failed"));
+  }
+
+  useEffect(() => {
+    load(fetch("/api/hashtags", { cache: "no-store" }));
+    setApiKey(sessionStorage.getItem("apiKey") || "");
+  }, []);
+
+  // Saving and resetting need one of API_KEYS; kept for this tab only (shared with the moderation page).
+  function changeKey(key: string) {
+    setApiKey(key);
+    sessionStorage.setItem("apiKey", key);
+  }
+
+  // Textareas hold free text while typing; tags are split out on every change.
+  function setList(category: string, kind: keyof TagList, text: string) {
+    setSaved(false);
+    setDictionary((d) => {
+      if (!d) return d;
+      const cats = d.languages[language] || {};
+      const current = cats[category] || { broad: [], niche: [] };
+      return { ...d, languages: { ...d.languages, [language]: { ...cats, [category]: { ...current, [kind]: splitTags(text) } } } };
+    });
+  }
+
+  async function save() {
+    if (!dictionary) return;
+    setSaving(true);
+    setError(null);
+    setErrors([]);
+    try {
+      const res = await fetch("/api/hashtags", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", "X-API-Key": apiKey },
+        body: JSON.stringify(dictionary),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setErrors(Array.isArray(data?.fields) ? data.fields.map((f: { path: string; message: string }) => `${f.path}: ${f.message}`) : []);
+        throw new Error(typeof data?.error === "string" ? data.error : "Save failed");
+      }
+      setDictionary(data.dictionary);
+      setCustom(true);
+      setSaved(true);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function reset() {
+    if (!window.confirm("Discard your edits and restore the bundled dictionary?")) return;
+    setSaved(false);
+    load(fetch("/api/hashtags", { method: "DELETE", headers: { "X-API-Key": apiKey } }));
+  }
+
+  const preview = useMemo(
+    () =>
+      dictionary && sample.product.trim()
+        ? buildHashtags(
+            {
+              product: sample.product,
+              normCat: sample.category,
+              language,
+              count: resolvePlatform(sample.platform).hashtagCount,
+              benefit: sample.benefit || undefined,
+              audience: sample.audience || undefined,
+            },
+            dictionary
+          )
+        : null,
+    [dictionary, sample, language]
+  );
+
+  const cats = dictionary?.languages[language] || {};
+
+  return (
+    <main className="min-h-screen p-6 flex flex-col items-center bg-gray-50 text-gray-900">
+      <div className="w-full max-w-4xl space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-3xl font-bold">Hashtags</h1>
+          <Link href="/" className="underline text-sm">
+            ← Single product
+          </Link>
+        </div>
+        <p className="text-gray-900">
+          Curated tags per category mixed into every generation: niche tags for reach within a community, broad ones for
+          discovery. Write them in CamelCase so screen readers can say them.
+        </p>
+
+        <section className="bg-white p-4 rounded-xl shadow space-y-3">
+          <h2 className="font-semibold text-xl">Preview</h2>
+          <div className="grid gap-2 sm:grid-cols-5 text-sm">
+            <input className="border p-2 rounded" placeholder="Product" value={sample.product} onChange={(e) => setSample((s) => ({ ...s, product: e.target.value }))} />
+            <select className="border p-2 rounded" value={sample.category} onChange={(e) => setSample((s) => ({ ...s, category: e.target.value }))}>
+              {CATEGORIES.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+            <input className="border p-2 rounded placeholder:text-gray-700" placeholder="Key benefit" value={sample.benefit} onChange={(e) => setSample((s) => ({ ...s, benefit: e.target.value }))} />
+            <input className="border p-2 rounded placeholder:text-gray-700" placeholder="Audience" value={sample.audience} onChange={(e) => setSample((s) => ({ ...s, audience: e.target.value }))} />
+            <select className="border p-2 rounded" value={sample.platform} onChange={(e) => setSample((s) => ({ ...s, platform: e.target.value }))}>
+              {PLATFORM_PROFILES.map((p) => (
+                <option key={p.id} value={p.id}>{p.label} ({p.hashtagCount})</option>
+              ))}
+            </select>
+          </div>
+          {preview && (
+            <div className="text-sm space-y-1">
+              <p className="font-medium">{preview.hashtags.join(" ") || "—"}</p>
+              <p className="text-xs text-gray-600">
+                Next best: {preview.candidates.filter((c) => !preview.hashtags.includes(c.tag)).slice(0, 6).map((c) => `${c.tag} (${c.kind})`).join(", ") || "—"}
+              </p>
+              {preview.rejected.length > 0 && (
+                <p className="text-xs text-red-700">Filtered: {preview.rejected.map((r) => `${r.tag} (${r.reason})`).join(", ")}</p>
+              )}
+            </div>
+          )}
+        </section>
+
+        <section className="bg-white p-4 rounded-xl shadow space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="font-semibold text-xl">Dictionary {custom ? "(edited)" : "(bundled)"}</h2>
+            <div className="flex items-center gap-3 text-sm">
+              <select className="border p-2 rounded" value={language} onChange={(e) => setLanguage(e.target.value as Language)}>
+                {LANGUAGES.map((l) => (
+                  <option key={l.id} value={l.id}>{l.label}</option>
+                ))}
+              </select>
+              <input
+                type="password"
+                className="border p-2 rounded"
+                placeholder="API key"
+                aria-label="API key"
+                value={apiKey}
+                onChange={(e) => changeKey(e.target.value)}
+              />
+              <button type="button" disabled={!dictionary || saving || !apiKey} className="bg-black text-white rounded px-3 py-2 disabled:opacity-50" onClick={save}>
+                {saving ? "Saving…" : "Save"}
+              </button>
+              {custom && (
+                <button type="button" className="underline" onClick={reset}>
+                  Reset to defaults
+                </button>
+              )}
+              {saved && <span className="text-green-800">Saved</span>}
+            </div>
+          </div>
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-700 list-disc pl-4">
+              {errors.map((e) => (
+                <li key={e}>{e}</li>
+              ))}
+            </ul>
+          )}
+
+          {dictionary &&
+            CATEGORIES.map((cat) => (
+              <div key={cat} className="grid gap-2 sm:grid-cols-[8rem_1fr_1fr] text-sm items-start">
+                <div className="font-medium pt-2">{cat}</div>
+                {(["niche", "broad"] as const).map((kind) => (
+                  <label key={kind} className="block">
+                    <span className="text-xs text-gray-600">{kind}</span>
+                    <textarea
+                      className="border p-2 rounded w-full h-20 font-mono text-xs"
+                      defaultValue={(cats[cat]?.[kind] || []).join(" ")}
+                      key={`${language}-${cat}-${kind}-${custom}`}
+                      onChange={(e) => setList(cat, kind, e.target.value)}
+                    />
+                  </label>
+                ))}
+              </div>
+            ))}
+
+          {dictionary && (
+            <label className="block text-sm">
+              <span className="text-xs text-gray-600">Banned in every language (spam and engagement bait)</span>
+              <textarea
+                className="border p-2 rounded w-full h-20 font-mono text-xs"
+                defaultValue={dictionary.banned.join(" ")}
+                key={`banned-${custom}`}
+                onChange={(e) => {
+                  setSaved(false);
+                  setDictionary((d) => (d ? { ...d, banned: splitTags(e.target.value) } : d));
+                }}
+              />
+            </label>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { GenerationSummary } from "@/lib/history";
+import type { FieldDiff } from "@/lib/diff";
+import { PLATFORM_PROFILES } from "@/lib/platforms";
+import { LANGUAGES } from "@/lib/languages";
+
+type Filters = { q: string; provider: string; language: string; platform: string; status: string; thread: string };
+
+const PROVIDERS = ["local", "openai", "groq", "ollama", "compatible"];
+const STATUSES = ["unreviewed", "approved", "rejected", "mixed"];
+const FIELD_LABELS: Record<FieldDiff["field"], string> = {
+  tagline: "Tagline",
+  caption: "Caption",
+  shortDescription: "Short Description",
+  hashtags: "Hashtags",
+  image: "Image",
+};
+const STATUS_STYLE: Record<string, string> = {
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  mixed: "bg-amber-100 text-amber-900",
+  unreviewed: "bg-gray-100 text-gray-700",
+};
+
+export default function HistoryPage() {
+  const [filters, setFilters] = useState<Filters>({ q: "", provider: "", language: "", platform: "", status: "", thread: "" });
+  const [items, setItems] = useState<GenerationSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [picked, setPicked] = useState<string[]>([]); // up to two ids to compare
+  const [diff, setDiff] = useState<{ from: GenerationSummary; to: GenerationSummary; fields: FieldDiff[] } | null>(null);
+
+  // ?thread= comes from the "Saved as vN" link on the main page.
+  useEffect(() => {
+    const thread = new URLSearchParams(window.location.search).get("thread");
+    if (thread) setFilters((f) => ({ ...f, thread }));
+  }, []);
+
+  useEffect(() => {
+    const params = new URLSearchParams(Object.entries(filters).filter(([, v]) => v));
+    setLoading(true);
+    setError(null);
+    const t = setTimeout(() => {
+      fetch(`/api/history?${params}`, { cache: "no-store" })
+        .then((r) => r.json())
+        .then((d) => {
+          if (d?.error) throw new Error(d.error);
+          setItems(d.items || []);
+          setTotal(d.total || 0);
+        })
+        .catch((e: unknown) => setError(e instanceof Error ? e.message : "Failed"))
+        .finally(() => setLoading(false));
+    }, 200); // debounce typing in the search box
+    return () => clearTimeout(t);
+  }, [filters]);
+
+  useEffect(() => {
+    if (picked.length !== 2) return setDiff(null);
+    // Older version on the left, whichever order they were ticked in.
+    const [from, to] = picked
+      .map((id) => items.find((s) => s.id === id))
+      .filter((s): s is GenerationSummary => !!s)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    if (!from || !to) return;
+    fetch(`/api/history/diff?from=${from.id}&to=${to.id}`, { cache: "no-store" })
+      .then((r) => r.json())
+      .then((d) => (d?.fields ? setDiff({ from, to, fields: d.fields }) : setError(d?.error || "Diff failed")))
+      .catch(() => setError("Diff failed"));
+  }, [picked, items]);
+
+  const set = (key: keyof Filters) => (e: { target: { value: string } }) => setFilters((f) => ({ ...f, [key]: e.target.value }));
+
+  function togglePick(id: string) {
+    setPicked((p) => (p.includes(id) ? p.filter((x) => x !== id) : [...p, id].slice(-2)));
+  }
+
+  async function share(id: string) {
+    const res = await fetch(`/api/history/${id}/share`, { method: "POST" });
+    const data = await res.json();
+    if (!res.ok) return setError(typeof data?.error === "string" ? data.error : "Share failed");
+    const link = `${window.location.origin}${data.path}`;
+    navigator.clipboard?.writeText(link).catch(() => undefined);
+    setItems((list) => list.map((s) => (s.id === id ? { ...s, shareToken: data.token } : s)));
+  }
+
+  async function remove(id: string) {
+    if (!window.confirm("Delete this version?")) return;
+    const res = await fetch(`/api/history/${id}`, { method: "DELETE" });
+    if (!res.ok) return setError("Delete failed");
+    setItems((list) => list.filter((s) => s.id !== id));
+    setTotal((n) => n - 1);
+    setPicked((p) => p.filter((x) => x !== id));
+  }
+
+  return (
+    <main className="min-h-screen p-6 flex flex-col items-center bg-gray-50 text-gray-900">
+      <div className="w-full max-w-5xl space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-3xl font-bold">History</h1>
+          <Link href="/" className="underline text-sm">
+            ← Single product
+          </Link>
+        </div>
+        <p className="text-gray-900">Every generation and saved edit, newest first. Tick two versions to compare them.</p>
+
+        <div className="grid gap-2 bg-white p-4 rounded-xl shadow sm:grid-cols-6 text-sm">
+          <input
+            className="border p-2 rounded sm:col-span-2 placeholder:text-gray-700"
+            placeholder="Search product, category or tagline"
+            value={filters.q}
+            onChange={set("q")}
+          />
+          <select className="border p-2 rounded" value={filters.provider} onChange={set("provider")}>
+            <option value="">Any provider</option>
+            {PROVIDERS.map((p) => (
+              <option key={p} value={p}>{p}</option>
+            ))}
+          </select>
+          <select className="border p-2 rounded" value={filters.language} onChange={set("language")}>
+            <option value="">Any language</option>
+            {LANGUAGES.map((l) => (
+              <option key={l.id} value={l.id}>{l.label}</option>
+            ))}
+          </select>
+          <select className="border p-2 rounded" value={filters.platform} onChange={set("platform")}>
+            <option value="">Any platform</option>
+            {PLATFORM_PROFILES.map((p) => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+          <select className="border p-2 rounded" value={filters.status} onChange={set("status")}>
+            <option value="">Any review status</option>
+            {STATUSES.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          {filters.thread && (
+            <p className="sm:col-span-6 text-xs text-gray-700">
+              Showing versions of <span className="font-mono">{filters.thread}</span> ·{" "}
+              <button type="button" className="underline" onClick={() => setFilters((f) => ({ ...f, thread: "" }))}>
+                show all
+              </button>
+            </p>
+          )}
+          {error && <p className="sm:col-span-6 text-red-600">{error}</p>}
+        </div>
+
+        {diff && (
+          <section className="bg-white p-4 rounded-xl shadow space-y-3">
+            <h2 className="font-semibold text-xl">
+              v{diff.from.version} → v{diff.to.version}
+              <span className="text-sm font-normal text-gray-600"> · {diff.to.product}</span>
+            </h2>
+            {diff.fields.map((f) => (
+              <div key={f.field}>
+                <div className="text-xs text-gray-600">
+                  {FIELD_LABELS[f.field]} {f.changed ? "" : "· unchanged"}
+                </div>
+                <p className={`text-sm ${f.field === "image" ? "break-all" : ""}`}>
+                  {f.parts.length ? (
+                    f.parts.map((p, i) => (
+                      <span
+                        key={i}
+                        className={p.op === "added" ? "bg-green-100 text-green-900" : p.op === "removed" ? "bg-red-100 text-red-900 line-through" : ""}
+                      >
+                        {p.text}
+                      </span>
+                    ))
+                  ) : (
+                    <span className="text-gray-500">—</span>
+                  )}
+                </p>
+              </div>
+            ))}
+          </section>
+        )}
+
+        <section className="bg-white p-4 rounded-xl shadow space-y-3">
+          <div className="flex justify-between items-center">
+            <h2 className="font-semibold text-xl">Versions</h2>
+            <span className="text-sm text-gray-600">{loading ? "Loading…" : `${total} saved`}</span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="p-1"></th>
+                  <th className="p-1">Version</th>
+                  <th className="p-1">Product</th>
+                  <th className="p-1">Tagline</th>
+                  <th className="p-1">Source</th>
+                  <th className="p-1">Review</th>
+                  <th className="p-1">Saved</th>
+                  <th className="p-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((s) => (
+                  <tr key={s.id} className={`border-b align-top ${picked.includes(s.id) ? "bg-gray-50" : ""}`}>
+                    <td className="p-1">
+                      <input type="checkbox" checked={picked.includes(s.id)} onChange={() => togglePick(s.id)} aria-label="Compare" />
+                    </td>
+                    <td className="p-1 whitespace-nowrap">
+                      <button
+                        type="button"
+                        className="underline"
+                        title="Show all versions of this product"
+                        onClick={() => setFilters((f) => ({ ...f, thread: s.threadId }))}
+                      >
+                        v{s.version}
+                      </button>
+                      {s.kind === "edited" && <span className="text-xs text-gray-600"> edited</span>}
+                    </td>
+                    <td className="p-1">
+                      {s.product}
+                      <div className="text-xs text-gray-600">
+                        {[s.category, s.platform, s.language].filter(Boolean).join(" · ")}
+                      </div>
+                    </td>
+                    <td className="p-1">{s.tagline}</td>
+                    <td className="p-1 text-xs">{s.provider}</td>
+                    <td className="p-1">
+                      <span className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLE[s.status]}`}>{s.status}</span>
+                    </td>
+                    <td className="p-1 text-xs whitespace-nowrap">{new Date(s.createdAt).toLocaleString()}</td>
+                    <td className="p-1 text-xs whitespace-nowrap space-x-2">
+                      <Link href={`/?h=${s.id}`} className="underline">
+                        Open
+                      </Link>
+                      {s.shareToken ? (
+                        <Link href={`/review/${s.shareToken}`} className="underline">
+                          Review
+                        </Link>
+                      ) : (
+                        <button type="button" className="underline" onClick={() => share(s.id)}>
+                          Share
+                        </button>
+                      )}
+                      <button type="button" className="underline text-red-700" onClick={() => remove(s.id)}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {!items.length && !loading && (
+                  <tr>
+                    <td colSpan={8} className="p-2 text-gray-600">
+                      Nothing saved yet — generations from the main page show up here.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
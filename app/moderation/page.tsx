@@ -0,0 +1,239 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import {
+  describeFinding,
+  MODERATION_ACTIONS,
+  MODERATION_RULES,
+  moderateCopy,
+  type ModerationAction,
+  type ModerationConfig,
+  type ModerationRule,
+} from "@/lib/moderation";
+import { LANGUAGES, type Language } from "@/lib/languages";
+
+// Lists are edited as text: one term per line, trademarks as "Term = generic".
+type Draft = { policy: ModerationConfig["policy"]; competitors: string; trademarks: string; profanity: Partial<Record<Language, string>> };
+
+const lines = (s: string) => s.split("\n").map((l) => l.trim()).filter(Boolean);
+
+const toDraft = (c: ModerationConfig): Draft => ({
+  policy: c.policy,
+  competitors: c.competitors.join("\n"),
+  trademarks: c.trademarks.map((t) => (t.generic ? `${t.term} = ${t.generic}` : t.term)).join("\n"),
+  profanity: Object.fromEntries(Object.entries(c.profanity).map(([lang, words]) => [lang, (words || []).join("\n")])),
+});
+
+const toConfig = (d: Draft): ModerationConfig => ({
+  policy: d.policy,
+  competitors: lines(d.competitors),
+  trademarks: lines(d.trademarks).map((l) => {
+    const [term, generic] = l.split("=").map((x) => x.trim());
+    return generic ? { term, generic } : { term };
+  }),
+  profanity: Object.fromEntries(Object.entries(d.profanity).map(([lang, text]) => [lang, lines(text || "")])),
+});
+
+const RULE_LABELS: Record<ModerationRule, string> = {
+  profanity: "Profanity",
+  competitor: "Competitor names",
+  trademark: "Trademarks",
+  markup: "Markup (HTML, links, hidden characters)",
+};
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  block: "Block the request",
+  sanitize: "Remove or replace",
+  flag: "Keep, but flag",
+};
+
+export default function ModerationPage() {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [custom, setCustom] = useState(false);
+  const [language, setLanguage] = useState<Language>("en");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saved, setSaved] = useState(false);
+  const [apiKey, setApiKey] = useState("");
+  const [sample, setSample] = useState("Softer than Kleenex, with a <b>free</b> [gift](https://example.com)!");
+
+  function load(res: Promise<Response>) {
+    res
+      .then((r) => r.json())
+      .then((d) => {
+        if (!d?.config) throw new Error(d?.error || "Could not load the moderation settings");
+        setDraft(toDraft(d.config));
+        setCustom(!!d.custom);
+      })
+      .catch((e: unknown) => setError(e instanceof Error ? e.message : "Failed"));
+  }
+
+  useEffect(() => {
+    load(fetch("/api/moderation", { cache: "no-store" }));
+    setApiKey(sessionStorage.getItem("apiKey") || "");
+  }, []);
+
+  // Saving and resetting need one of API_KEYS; kept for this tab only.
+  function changeKey(key: string) {
+    setApiKey(key);
+    sessionStorage.setItem("apiKey", key);
+  }
+
+  function change(patch: Partial<Draft>) {
+    setSaved(false);
+    setDraft((d) => (d ? { ...d, ...patch } : d));
+  }
+
+  async function save() {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    setErrors([]);
+    try {
+      const res = await fetch("/api/moderation", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", "X-API-Key": apiKey },
+        body: JSON.stringify(toConfig(draft)),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setErrors(Array.isArray(data?.fields) ? data.fields.map((f: { path: string; message: string }) => `${f.path}: ${f.message}`) : []);
+        throw new Error(typeof data?.error === "string" ? data.error : "Save failed");
+      }
+      setDraft(toDraft(data.config));
+      setCustom(true);
+      setSaved(true);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function reset() {
+    if (!window.confirm("Discard your edits and restore the bundled lists and policy?")) return;
+    setSaved(false);
+    load(fetch("/api/moderation", { method: "DELETE", headers: { "X-API-Key": apiKey } }));
+  }
+
+  // The tester runs the same checks generation runs on the caption, against the unsaved draft.
+  const preview = useMemo(
+    () => (draft && sample.trim() ? moderateCopy({ tagline: "", caption: sample, shortDescription: "", hashtags: [] }, toConfig(draft)) : null),
+    [draft, sample]
+  );
+
+  return (
+    <main className="min-h-screen p-6 flex flex-col items-center bg-gray-50 text-gray-900">
+      <div className="w-full max-w-4xl space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-3xl font-bold">Moderation</h1>
+          <Link href="/" className="underline text-sm">
+            ← Single product
+          </Link>
+        </div>
+        <p className="text-gray-900">
+          Every brief is checked before anything is composed or searched, and the finished copy is checked again. What each
+          rule does is up to you: block the request, clean the text and carry on, or keep it and flag it for review.
+        </p>
+
+        <section className="bg-white p-4 rounded-xl shadow space-y-3">
+          <h2 className="font-semibold text-xl">Try it</h2>
+          <textarea className="border p-2 rounded w-full text-sm" rows={2} value={sample} onChange={(e) => setSample(e.target.value)} />
+          {preview && (
+            <div className="text-sm space-y-1">
+              <p className={preview.report.blocked ? "text-red-700 font-medium" : "font-medium"}>
+                {preview.report.blocked ? "Blocked" : preview.copy.caption || "—"}
+              </p>
+              {preview.report.findings.map((f, i) => (
+                <p key={i} className="text-xs text-gray-700">
+                  {describeFinding({ ...f, field: "text" })}
+                </p>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {draft && (
+          <section className="bg-white p-4 rounded-xl shadow space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="font-semibold text-xl">Settings {custom ? "(edited)" : "(bundled)"}</h2>
+              <div className="flex items-center gap-3 text-sm">
+                <input
+                  type="password"
+                  className="border p-2 rounded"
+                  placeholder="API key"
+                  aria-label="API key"
+                  value={apiKey}
+                  onChange={(e) => changeKey(e.target.value)}
+                />
+                {custom && (
+                  <button type="button" className="underline" onClick={reset}>
+                    Restore defaults
+                  </button>
+                )}
+                <button type="button" className="bg-black text-white px-3 py-2 rounded disabled:opacity-50" disabled={saving || !apiKey} onClick={save}>
+                  {saving ? "Saving…" : "Save"}
+                </button>
+              </div>
+            </div>
+            {saved && <p className="text-sm text-green-700">Saved; the next generation uses these settings.</p>}
+            {error && <p className="text-sm text-red-700">{error}</p>}
+            {errors.length > 0 && (
+              <ul className="text-xs text-red-700 list-disc pl-4">
+                {errors.map((e) => (
+                  <li key={e}>{e}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid gap-2 sm:grid-cols-2 text-sm">
+              {MODERATION_RULES.map((rule) => (
+                <label key={rule} className="grid gap-1">
+                  {RULE_LABELS[rule]}
+                  <select
+                    className="border p-2 rounded"
+                    value={draft.policy[rule]}
+                    onChange={(e) => change({ policy: { ...draft.policy, [rule]: e.target.value as ModerationAction } })}
+                  >
+                    {MODERATION_ACTIONS.map((a) => (
+                      <option key={a} value={a}>{ACTION_LABELS[a]}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2 text-sm">
+              <label className="grid gap-1">
+                Competitors (one per line)
+                <textarea className="border p-2 rounded font-mono text-xs" rows={8} value={draft.competitors} onChange={(e) => change({ competitors: e.target.value })} />
+              </label>
+              <label className="grid gap-1">
+                Trademarks (&ldquo;Term = generic word&rdquo;)
+                <textarea className="border p-2 rounded font-mono text-xs" rows={8} value={draft.trademarks} onChange={(e) => change({ trademarks: e.target.value })} />
+              </label>
+              <label className="grid gap-1 sm:col-span-2">
+                <span className="flex items-center justify-between">
+                  Profanity (one per line; every language is checked)
+                  <select className="border p-1 rounded" value={language} onChange={(e) => setLanguage(e.target.value as Language)}>
+                    {LANGUAGES.map((l) => (
+                      <option key={l.id} value={l.id}>{l.label}</option>
+                    ))}
+                  </select>
+                </span>
+                <textarea
+                  className="border p-2 rounded font-mono text-xs"
+                  rows={8}
+                  value={draft.profanity[language] || ""}
+                  onChange={(e) => change({ profanity: { ...draft.profanity, [language]: e.target.value } })}
+                />
+              </label>
+            </div>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
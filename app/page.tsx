@@ -1,22 +1,85 @@
 "use client";
 
 import Image from "next/image";
+import Link from "next/link";
 import { useMemo, useState, useEffect } from "react";
+import type { BrandKit } from "@/lib/brandKits";
+import type { PackSummary } from "@/lib/packFiles";
+import type { Generation } from "@/lib/history";
+import type { ImageCandidate, ImageWarning } from "@/lib/images";
+import { PLATFORM_PROFILES, previewPost, resolvePlatform, validateForPlatform, type PlatformId, type PlatformReport } from "@/lib/platforms";
+import { LANGUAGES, type Language } from "@/lib/languages";
+import { applyFix, lintCopy, type LintFinding } from "@/lib/compliance";
+import { paletteCss, paletteTokens, type Palette } from "@/lib/color";
+import { accessibilityReport, candidateAlt, posterAlt, type A11yReport, type AltText } from "@/lib/a11y";
+import type { PosterText } from "@/lib/poster";
+import { LISTING_LIMITS, type ProductListing } from "@/lib/listing";
+import type { FrameFormat, FrameSet } from "@/lib/frames";
+import { DEFAULT_PACK } from "@/lib/packs";
+import { attribution } from "@/lib/util";
+import { describeTone, parseTone, type CustomVoice } from "@/lib/tone";
+import { describeFinding, type ModerationReport } from "@/lib/moderation";
+
+type CopyFields = {
+  tagline: string;
+  caption: string;
+  shortDescription: string;
+  hashtags: string[];
+};
+type CopyField = keyof CopyFields;
+type Variant = { seed: number; templateIndex: number; copy: CopyFields };
+
+const FIELDS: { key: CopyField; label: string }[] = [
+  { key: "tagline", label: "Tagline" },
+  { key: "caption", label: "Caption" },
+  { key: "shortDescription", label: "Short Description" },
+  { key: "hashtags", label: "Hashtags" },
+];
+const fieldText = (c: Partial<CopyFields> | undefined, k: CopyField) =>
+  k === "hashtags" ? (c?.hashtags || []).join(" ") : c?.[k] || "";
+const toFields = (c: Partial<CopyFields> | undefined): CopyFields => ({
+  tagline: c?.tagline || "",
+  caption: c?.caption || "",
+  shortDescription: c?.shortDescription || "",
+  hashtags: c?.hashtags || [],
+});
+const sameCopy = (a: CopyFields, b: CopyFields) => FIELDS.every(({ key }) => fieldText(a, key) === fieldText(b, key));
+
+type PosterLayout = "bottom-band" | "centered" | "split";
+const POSTER_LAYOUTS: { value: PosterLayout; label: string }[] = [
+  { value: "bottom-band", label: "Bottom band" },
+  { value: "centered", label: "Centered overlay" },
+  { value: "split", label: "Split panel" },
+];
 
 type GenResult = {
-  provider?: "openai" | "groq" | "ollama" | "demo";
+  provider?: "openai" | "groq" | "ollama" | "compatible" | "local";
   demo?: boolean;
+  fallback?: { from: string; reason: string; detail: string } | null;
   copy?: {
     tagline?: string;
     caption?: string;
     shortDescription?: string;
     hashtags?: string[];
   };
+  seed?: number;
+  variants?: Variant[];
+  validation?: PlatformReport;
+  brandKit?: { id: string; name: string; bannedRemoved: string[] } | null;
   imageDataUrl?: string | null; 
-  photoUrls?: string[];        
+  palette?: Palette | null;
+  altText?: AltText | null;
+  accessibility?: A11yReport;
+  listing?: ProductListing | null;
+  moderation?: ModerationReport;
+  photoUrls?: string[];
+  candidates?: ImageCandidate[];
+  warnings?: ImageWarning[];
+  history?: { id: string; threadId: string; version: number } | null;
   message?: string;
   error?: string;
   rawModelText?: string;        // debug
+  debug?: { normCat?: string };  // category as the request's template pack read it
 };
 
 function placeholderSvgDataUrl(product: string) {
@@ -51,21 +114,211 @@ const CATEGORIES = [
 ];
 
 export default function Home() {
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [voices, setVoices] = useState<CustomVoice[]>([]);
+  const [brandKitId, setBrandKitId] = useState("");
   const [product, setProduct] = useState("");
   const [category, setCategory] = useState<string>("Other");         // NEW
   const [keyBenefit, setKeyBenefit] = useState<string>("");          // NEW
   const [audience, setAudience] = useState("");
   const [tone, setTone] = useState("friendly");
-  const [platform, setPlatform] = useState("Instagram");
+  const [platform, setPlatform] = useState<string>(PLATFORM_PROFILES[0].id);
   const [imageStyle, setImageStyle] = useState("clean, modern, minimal");
   const [colorHint, setColorHint] = useState("");
   const [includeImage, setIncludeImage] = useState(true);
+  const [includeListing, setIncludeListing] = useState(false);
   const [imageQuery, setImageQuery] = useState("");
+  const [variantCount, setVariantCount] = useState(3);
+  const [seedInput, setSeedInput] = useState("");
+  const [languages, setLanguages] = useState<Language[]>(["en"]);
+  const [activeLanguage, setActiveLanguage] = useState<Language>("en");
+  // Other languages of the same brief, parked with any edits while another tab is shown.
+  const [byLanguage, setByLanguage] = useState<Partial<Record<Language, { result: GenResult; draft: CopyFields }>>>({});
+  const [packs, setPacks] = useState<PackSummary[]>([]);
+  const [templatePack, setTemplatePack] = useState("default");
 
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<GenResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null); // NEW
+  const [finalCopy, setFinalCopy] = useState<CopyFields | null>(null);    // mixed across variants
+  const [starred, setStarred] = useState<number[]>([]);                   // variant seeds
+  const [regenerating, setRegenerating] = useState<CopyField | null>(null);
+  const [posterLayout, setPosterLayout] = useState<PosterLayout>("bottom-band");
+  const [poster, setPoster] = useState<{ png: string; svg?: string } | null>(null);
+  const [palette, setPalette] = useState<Palette | null>(null); // follows the photo the poster uses
+  const [posterText, setPosterText] = useState<PosterText[]>([]); // contrast of the poster on screen
+  const [rendering, setRendering] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [savingVersion, setSavingVersion] = useState(false);
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<ImageCandidate[]>([]); // uploads for this product / brand kit
+  const [photoScope, setPhotoScope] = useState<"product" | "kit">("product");
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/brand-kits", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((d) => setKits(d?.kits || []))
+      .catch(() => setKits([]));
+    fetch("/api/voices", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((d) => setVoices(d?.voices || []))
+      .catch(() => setVoices([]));
+    fetch("/api/packs", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((d) => setPacks((d?.packs || []).filter((p: PackSummary) => !p.errors)))
+      .catch(() => setPacks([]));
+    // /?h=<id> reopens a saved generation from the history page.
+    const historyId = new URLSearchParams(window.location.search).get("h");
+    if (historyId) {
+      fetch(`/api/history/${encodeURIComponent(historyId)}`, { cache: "no-store" })
+        .then((r) => r.json())
+        .then((d) => d?.generation && openGeneration(d.generation))
+        .catch(() => setError("Could not load that generation"));
+    }
+  }, []);
+
+  // The uploads generation would use for this brief, re-read once typing pauses.
+  useEffect(() => {
+    if (!product.trim() && !brandKitId) return setPhotos([]);
+    const timer = setTimeout(() => {
+      const q = new URLSearchParams({ product: product.trim(), brandKitId });
+      fetch(`/api/uploads?${q}`, { cache: "no-store" })
+        .then((r) => r.json())
+        .then((d) => setPhotos(d?.candidates || []))
+        .catch(() => setPhotos([]));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [product, brandKitId]);
+
+  const packLanguages = packs.find((p) => p.id === templatePack)?.languages;
+  // Same reading the composer will make (against the default pack's tones), shown under the field as you type.
+  const toneReading = useMemo(
+    () => parseTone(tone, Object.keys(DEFAULT_PACK.languages[activeLanguage]?.toneWords || DEFAULT_PACK.languages.en!.toneWords), voices),
+    [tone, activeLanguage, voices]
+  );
+
+  function applyKit(id: string) {
+    setBrandKitId(id);
+    const kit = kits.find((k) => k.id === id);
+    if (!kit) return;
+    if (kit.tone) setTone(kit.tone);
+    if (kit.audience) setAudience(kit.audience);
+    if (kit.imageStyle) setImageStyle(kit.imageStyle);
+    if (kit.palette.length) setColorHint(kit.palette.join(", "));
+  }
+
+  async function saveKit() {
+    const name = window.prompt("Brand kit name?");
+    if (!name) return;
+    const res = await fetch("/api/brand-kits", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name,
+        tone,
+        audience,
+        imageStyle,
+        palette: colorHint.match(/#([0-9a-f]{6}|[0-9a-f]{3})\b/gi) || [],
+        imageKeywords: imageQuery,
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) return setError(typeof data?.error === "string" ? data.error : "Could not save kit");
+    setKits((k) => [...k, data.kit]);
+    setBrandKitId(data.kit.id);
+  }
+
+  async function deleteKit() {
+    if (!brandKitId || !window.confirm("Delete this brand kit?")) return;
+    await fetch(`/api/brand-kits/${brandKitId}`, { method: "DELETE" });
+    setKits((k) => k.filter((x) => x.id !== brandKitId));
+    setBrandKitId("");
+  }
+
+  const brief = () => ({
+    brandKitId: brandKitId || undefined,
+    product,
+    category,
+    keyBenefit,
+    audience,
+    tone,
+    platform,
+    imageStyle,
+    colorHint,
+    includeImage,
+    imageQuery,
+    language: activeLanguage,
+    templatePack,
+    formats: includeListing ? ["social", "listing"] : undefined,
+  });
+
+  function openGeneration(g: Generation) {
+    const r = g.request;
+    setProduct(r.product);
+    setCategory(r.category || "Other");
+    setKeyBenefit(r.keyBenefit || "");
+    setAudience(r.audience || "");
+    setTone(r.tone || "friendly");
+    if (r.platform) setPlatform(r.platform);
+    if (r.templatePack) setTemplatePack(r.templatePack);
+    setBrandKitId(r.brandKitId || "");
+    const language = g.language as Language;
+    const restored: GenResult = {
+      provider: g.provider as GenResult["provider"],
+      copy: g.copy,
+      seed: g.seed,
+      variants: g.variants,
+      listing: g.listing,
+      candidates: [],
+      photoUrls: g.image && !g.image.url.startsWith("data:") ? [g.image.url] : [],
+      history: { id: g.id, threadId: g.threadId, version: g.version },
+    };
+    setIncludeListing(!!g.listing);
+    setLanguages([language]);
+    setActiveLanguage(language);
+    setByLanguage({ [language]: { result: restored, draft: toFields(g.copy) } });
+    setResult(restored);
+    setFinalCopy(toFields(g.copy));
+    setSelectedImage(g.image?.url || null);
+    setPoster(null);
+    setPalette(null);
+    setPosterText([]);
+    setShareLink(null);
+  }
+
+  // Keeps the language selection inside what the pack has templates for.
+  function choosePack(id: string) {
+    setTemplatePack(id);
+    const supported = packs.find((p) => p.id === id)?.languages;
+    if (!supported) return;
+    setLanguages((ls) => {
+      const kept = ls.filter((l) => supported.includes(l));
+      return kept.length ? kept : [supported[0]];
+    });
+  }
+
+  function toggleLanguage(id: Language) {
+    setLanguages((ls) => (ls.includes(id) ? (ls.length > 1 ? ls.filter((l) => l !== id) : ls) : [...ls, id]));
+  }
+
+  function switchLanguage(lang: Language) {
+    const next = byLanguage[lang];
+    if (!next || lang === activeLanguage) return;
+    setByLanguage((m) => ({ ...m, ...(result && finalCopy ? { [activeLanguage]: { result, draft: finalCopy } } : {}) }));
+    setActiveLanguage(lang);
+    setResult(next.result);
+    setFinalCopy(next.draft);
+    setStarred([]);
+    setSelectedImage(null);
+    setPoster(next.result.imageDataUrl ? { png: next.result.imageDataUrl } : null);
+    setPalette(next.result.palette || null);
+    setPosterText(next.result.accessibility?.contrast || []);
+    setShareLink(null);
+  }
 
   async function handleGenerate(e: React.FormEvent) {
     e.preventDefault();
@@ -73,34 +326,312 @@ export default function Home() {
     setError(null);
     setResult(null);
     setSelectedImage(null);
+    setFinalCopy(null);
+    setStarred([]);
+    setPoster(null);
+    setPalette(null);
+    setPosterText([]);
+    setByLanguage({});
+    setShareLink(null);
+    try {
+      // One request per language, in parallel; the same seed keeps the templates aligned across them.
+      const results = await Promise.all(
+        languages.map(async (language) => {
+          const res = await fetch("/api/generate", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            cache: "no-store",
+            body: JSON.stringify({
+              ...brief(),
+              language,
+              variants: variantCount,
+              posterLayout,
+              seed: seedInput.trim() ? Number(seedInput) : undefined,
+            }),
+          });
+          const data: GenResult = await res.json();
+          if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "Server error");
+          return [language, { result: data, draft: toFields(data.copy) }] as const;
+        })
+      );
+      const [first, { result: data }] = results[0];
+      setByLanguage(Object.fromEntries(results));
+      setActiveLanguage(first);
+      setResult(data);
+      setFinalCopy(toFields(data.copy));
+      if (data.imageDataUrl) setPoster({ png: data.imageDataUrl });
+      setPalette(data.palette || null);
+      setPosterText(data.accessibility?.contrast || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Fresh local copy from a random seed; only `field` is taken, the rest stays put.
+  async function regenerateField(field: CopyField) {
+    setRegenerating(field);
+    setError(null);
     try {
       const res = await fetch("/api/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         cache: "no-store",
         body: JSON.stringify({
-          product,
-          category,
-          keyBenefit,
-          audience,
-          tone,
-          platform,
-          imageStyle,
-          colorHint,
-          includeImage,
-          imageQuery,
+          ...brief(),
+          includeImage: false,
+          localOnly: true,
+          saveHistory: false,
+          variants: 1,
+          seed: Math.floor(Math.random() * 2 ** 32),
         }),
       });
       const data: GenResult = await res.json();
-      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "Server error");
-      setResult(data);
+      const fresh = data.variants?.[0]?.copy;
+      if (!res.ok || !fresh) throw new Error(typeof data?.error === "string" ? data.error : "Server error");
+      setFinalCopy((prev) => (prev ? { ...prev, [field]: fresh[field] } : prev));
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : "Failed");
     } finally {
-      setLoading(false);
+      setRegenerating(null);
+    }
+  }
+
+  // Re-composite the current copy onto a photo URL or an uploaded data URL.
+  async function renderPoster(image: string | null, layout: PosterLayout) {
+    if (!finalCopy) return;
+    setRendering(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/poster", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        cache: "no-store",
+        body: JSON.stringify({
+          ...(image?.startsWith("data:") ? { imageData: image } : { imageUrl: image || undefined }),
+          tagline: finalCopy.tagline,
+          caption: finalCopy.caption,
+          colorHint,
+          layout,
+          ...resolvePlatform(platform).size,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "Poster failed");
+      setPoster({ png: data.pngDataUrl, svg: data.svgDataUrl });
+      if (data.palette) setPalette(data.palette);
+      setPosterText(data.text || []);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setRendering(false);
     }
   }
 
+  // Recomputed on every edit/mix so the report always matches what's on screen.
+  const validation = useMemo(
+    () => (finalCopy ? validateForPlatform(finalCopy, resolvePlatform(platform)) : null),
+    [finalCopy, platform]
+  );
+
+  // Compliance pass over the same copy, shown inline under each field.
+  const lint = useMemo(
+    () => (finalCopy ? lintCopy(finalCopy, { category, language: activeLanguage, normCat: result?.debug?.normCat }) : null),
+    [finalCopy, category, activeLanguage, result?.debug?.normCat]
+  );
+  const variantIssues = useMemo(
+    () =>
+      new Map(
+        (result?.variants || []).map((v) => [
+          v.seed,
+          lintCopy(v.copy, { category, language: activeLanguage, normCat: result?.debug?.normCat }).findings.filter((f) => f.severity !== "info"),
+        ])
+      ),
+    [result, category, activeLanguage]
+  );
+  const fixFinding = (f: LintFinding) => setFinalCopy((c) => (c ? applyFix(c, f) : c));
+
+  const posterImage = () => selectedImage ?? result?.photoUrls?.[0] ?? null;
+  const chosenCandidate = result?.candidates?.find((c) => c.url === posterImage()) || null;
+
+  // Rebuilt from the edited copy and the photo actually on the poster; an upload has no description.
+  const altFor = (c: ImageCandidate) => result?.altText?.candidates[c.id] || candidateAlt(c, product, activeLanguage);
+  const posterAltText =
+    result?.altText && finalCopy
+      ? posterAlt({
+          product,
+          categoryLabel: result.altText.categoryLabel,
+          copy: finalCopy,
+          background: !posterImage() ? null : chosenCandidate ? altFor(chosenCandidate) : undefined,
+          language: activeLanguage,
+        })
+      : null;
+  const a11y = useMemo(
+    () => (finalCopy ? accessibilityReport(finalCopy, { product, posterText, posterAlt: posterAltText ?? undefined }) : null),
+    [finalCopy, product, posterText, posterAltText]
+  );
+
+  async function exportCampaign() {
+    if (!result || !finalCopy) return;
+    setExporting(true);
+    setError(null);
+    try {
+      const image = posterImage();
+      const current = {
+        request: { ...brief(), posterLayout },
+        seed: result.seed,
+        provider: result.provider,
+        copy: finalCopy,
+        variants: result.variants,
+        photo: image ? { url: image, attribution: chosenCandidate ? attribution(chosenCandidate) : undefined } : null,
+        posterDataUrl: poster?.png?.startsWith("data:image/png") ? poster.png : null,
+        altText: posterAltText ?? undefined,
+        listing: result.listing,
+      };
+      // Every generated language goes into the same bundle; parked tabs use their own result and edits.
+      const others = LANGUAGES.filter((l) => l.id !== activeLanguage && byLanguage[l.id]).map((l) => {
+        const { result: r, draft } = byLanguage[l.id]!;
+        const photo = r.candidates?.find((c) => c.source !== "generated");
+        return {
+          request: { ...brief(), language: l.id, posterLayout },
+          seed: r.seed,
+          provider: r.provider,
+          copy: draft,
+          variants: r.variants,
+          photo: photo ? { url: photo.url, attribution: attribution(photo) } : null,
+          posterDataUrl: r.imageDataUrl?.startsWith("data:image/png") ? r.imageDataUrl : null,
+          altText: r.altText?.poster,
+          listing: r.listing,
+        };
+      });
+      const res = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(others.length ? { generations: [current, ...others] } : { generation: current }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(typeof data?.error === "string" ? data.error : "Export failed");
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${(product || "campaign").replace(/[^\p{L}\p{N}]+/gu, "-").toLowerCase()}-campaign.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  // Hand edits and a different image become the next version in the same history thread.
+  async function saveVersion() {
+    if (!result?.history || !finalCopy) return;
+    setSavingVersion(true);
+    setError(null);
+    try {
+      const image = posterImage();
+      const res = await fetch("/api/history", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          parentId: result.history.id,
+          copy: finalCopy,
+          image: image
+            ? { url: image, source: chosenCandidate?.source, attribution: chosenCandidate ? attribution(chosenCandidate) : undefined }
+            : null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "Save failed");
+      const g = data.generation as Generation;
+      setResult((r) => (r ? { ...r, copy: g.copy, history: { id: g.id, threadId: g.threadId, version: g.version } } : r));
+      setShareLink(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setSavingVersion(false);
+    }
+  }
+
+  async function shareForReview() {
+    if (!result?.history) return;
+    setError(null);
+    try {
+      const res = await fetch(`/api/history/${result.history.id}/share`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "Share failed");
+      const link = `${window.location.origin}${data.path}`;
+      setShareLink(link);
+      navigator.clipboard?.writeText(link).catch(() => undefined);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed");
+    }
+  }
+
+  function chooseImage(image: string) {
+    setSelectedImage(image);
+    renderPoster(image, posterLayout);
+  }
+
+  // Saved as product photos (first in the picker from now on); `choose` also puts the first one on the poster.
+  async function uploadPhotos(files: File[], choose = false) {
+    if (!files.length) return;
+    setUploading(true);
+    setUploadError(null);
+    try {
+      const form = new FormData();
+      files.forEach((f) => form.append("file", f));
+      if (photoScope === "product" || !brandKitId) form.append("product", product.trim());
+      if (brandKitId) form.append("brandKitId", brandKitId);
+      const res = await fetch("/api/uploads", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "Upload failed");
+      const added: ImageCandidate[] = data.candidates || [];
+      setPhotos((p) => [...added, ...p]);
+      setResult((r) => (r ? { ...r, candidates: [...added, ...(r.candidates || [])] } : r));
+      if (Array.isArray(data.errors) && data.errors.length) setUploadError(data.errors.map((e: { message: string }) => e.message).join("; "));
+      if (choose && added[0]) chooseImage(added[0].url);
+    } catch (e: unknown) {
+      setUploadError(e instanceof Error ? e.message : "Upload failed");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function removePhoto(c: ImageCandidate) {
+    if (!window.confirm("Delete this photo?")) return;
+    const res = await fetch(`/api/uploads/${c.id.replace(/^upload:/, "")}`, { method: "DELETE" });
+    if (!res.ok && res.status !== 404) return setUploadError("Delete failed");
+    setPhotos((p) => p.filter((x) => x.id !== c.id));
+    setResult((r) => (r ? { ...r, candidates: r.candidates?.filter((x) => x.id !== c.id) } : r));
+    if (selectedImage === c.url) setSelectedImage(null);
+  }
+
+  // Without a product or kit to file it under, an upload is only used for this poster.
+  function uploadImage(file: File | undefined) {
+    if (!file) return;
+    if (product.trim() || brandKitId) return void uploadPhotos([file], true);
+    const reader = new FileReader();
+    reader.onload = () => typeof reader.result === "string" && chooseImage(reader.result);
+    reader.readAsDataURL(file);
+  }
+
+  function editField(field: CopyField, value: string | string[]) {
+    setFinalCopy((prev) => (prev ? { ...prev, [field]: value } : prev));
+  }
+
+  function takeVariantField(v: Variant, field: CopyField) {
+    setFinalCopy((prev) => (prev ? { ...prev, [field]: v.copy[field] } : prev));
+  }
+
+  function toggleStar(seed: number) {
+    setStarred((s) => (s.includes(seed) ? s.filter((x) => x !== seed) : [...s, seed]));
+  }
+
   function copyToClipboard(text: string) {
     navigator.clipboard.writeText(text || "");
     alert("Copied!");
@@ -108,38 +639,82 @@ export default function Home() {
 
   // Build image choices
   const fallbacks = useMemo(() => {
-    const topic = encodeURIComponent(product || "product");
     const base = placeholderSvgDataUrl(product);
     const candidates: string[] = [];
 
     // Preferred order:
+    if (poster?.png) candidates.push(poster.png);
     if (selectedImage) candidates.push(selectedImage);
     if (result?.imageDataUrl) candidates.push(result.imageDataUrl);
-    if (result?.photoUrls && result.photoUrls.length) candidates.push(...result.photoUrls);
-    
-    candidates.push(
-      `https://source.unsplash.com/1024x1024/?${topic}`,
-      `https://picsum.photos/seed/${topic}/1024/1024`,
-      base
-    );
+    // Server candidates already end with a generated SVG, so no client-side guessing.
+    if (result?.candidates?.length) candidates.push(...result.candidates.map((c) => c.url));
+    candidates.push(base);
 
     return Array.from(new Set(candidates));
-  }, [result, product, selectedImage]);
+  }, [result, product, selectedImage, poster]);
 
   const [imgIndex, setImgIndex] = useState(0);
   useEffect(() => setImgIndex(0), [fallbacks.length, product, result?.provider, selectedImage]);
   const posterSrc = fallbacks[imgIndex] || placeholderSvgDataUrl(product);
   const handleImgError = () => setImgIndex((i) => Math.min(i + 1, fallbacks.length - 1));
 
-  const needKeywordsHint = includeImage && !imageQuery && !(result?.photoUrls?.length);
+  // What export and "Save as new version" will send differs from the last saved version.
+  const edited = !!finalCopy && !!result?.copy && !sameCopy(finalCopy, toFields(result.copy));
+
+  // A kit's image keywords are added to the search server-side, so they count as keywords here.
+  const kitKeywords = kits.find((k) => k.id === brandKitId)?.imageKeywords || [];
+  const needKeywordsHint = includeImage && !imageQuery && !kitKeywords.length && !photos.length && !(result?.photoUrls?.length);
 
   return (
     <main className="min-h-screen p-6 flex flex-col items-center bg-gray-50 text-gray-900">
       <div className="w-full max-w-3xl space-y-4">
-        <h1 className="text-3xl font-bold">Brand-in-a-Box</h1>
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-3xl font-bold">Brand-in-a-Box</h1>
+          <span className="flex gap-4 text-sm">
+            <Link href="/history" className="underline">
+              History
+            </Link>
+            <Link href="/hashtags" className="underline">
+              Hashtags
+            </Link>
+            <Link href="/calendar" className="underline">
+              Calendar
+            </Link>
+            <Link href="/voices" className="underline">
+              Voices
+            </Link>
+            <Link href="/moderation" className="underline">
+              Moderation
+            </Link>
+            <Link href="/batch" className="underline">
+              Batch upload →
+            </Link>
+          </span>
+        </div>
         <p className="text-gray-900">Type your product, choose a category & get tailored ad copy + a poster.</p>
 
         <form onSubmit={handleGenerate} className="grid gap-3 bg-white p-4 rounded-xl shadow">
+          <div className="flex gap-2 items-center text-sm">
+            <select
+              className="border p-2 rounded text-gray-900 flex-1"
+              value={brandKitId}
+              onChange={(e) => applyKit(e.target.value)}
+            >
+              <option value="">No brand kit</option>
+              {kits.map((k) => (
+                <option key={k.id} value={k.id}>{k.name}</option>
+              ))}
+            </select>
+            <button type="button" className="underline" onClick={saveKit}>
+              Save as kit
+            </button>
+            {brandKitId && (
+              <button type="button" className="underline text-red-700" onClick={deleteKit}>
+                Delete
+              </button>
+            )}
+          </div>
+
           <input
             className="border p-2 rounded text-gray-900 placeholder:text-gray-700"
             placeholder="Product (e.g., Pumpkin Spice Cold Brew)"
@@ -173,21 +748,67 @@ export default function Home() {
             onChange={(e) => setAudience(e.target.value)}
           />
 
-          <div className="grid grid-cols-2 gap-2">
-            <input
-              className="border p-2 rounded text-gray-900 placeholder:text-gray-700"
-              placeholder="Tone (friendly, playful, luxury…)"
-              value={tone}
-              onChange={(e) => setTone(e.target.value)}
-            />
-            <input
-              className="border p-2 rounded text-gray-900 placeholder:text-gray-700"
-              placeholder="Platform (Instagram, LinkedIn…)"
+          <div className="grid grid-cols-2 gap-2 items-start">
+            <div>
+              <input
+                className="w-full border p-2 rounded text-gray-900 placeholder:text-gray-700"
+                placeholder="Tone (friendly, playful luxury, a voice…)"
+                list="tone-options"
+                value={tone}
+                onChange={(e) => setTone(e.target.value)}
+              />
+              <datalist id="tone-options">
+                {[...Object.keys(DEFAULT_PACK.languages.en!.toneWords), ...voices.map((v) => v.name)].map((t) => (
+                  <option key={t} value={t} />
+                ))}
+              </datalist>
+              <p className={`text-xs mt-1 ${toneReading.fallback ? "text-amber-800" : "text-gray-600"}`}>
+                {toneReading.fallback ? `No tone recognised; using ${describeTone(toneReading)}` : describeTone(toneReading)}
+                {toneReading.voice && ` · ${toneReading.sentenceLength} sentences, ${toneReading.punctuation} punctuation`}
+                {!toneReading.fallback && toneReading.unmatched.length > 0 && ` · ignored: ${toneReading.unmatched.join(", ")}`}
+              </p>
+            </div>
+            <select
+              className="border p-2 rounded text-gray-900"
               value={platform}
               onChange={(e) => setPlatform(e.target.value)}
-            />
+            >
+              {PLATFORM_PROFILES.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.label} ({p.aspect})
+                </option>
+              ))}
+            </select>
           </div>
 
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-900">
+            <span className="text-gray-700">Languages:</span>
+            {LANGUAGES.map((l) => (
+              <label key={l.id} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={languages.includes(l.id)}
+                  disabled={!!packLanguages && !packLanguages.includes(l.id)}
+                  onChange={() => toggleLanguage(l.id)}
+                />
+                {l.label}
+              </label>
+            ))}
+          </div>
+
+          {packs.length > 1 && (
+            <label className="flex items-center gap-2 text-sm text-gray-900">
+              <span className="text-gray-700">Template pack:</span>
+              <select className="border p-2 rounded text-gray-900" value={templatePack} onChange={(e) => choosePack(e.target.value)}>
+                {packs.map((p) => (
+                  <option key={p.id} value={p.id} title={p.description}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+
           <div className="grid grid-cols-2 gap-2">
             <input
               className="border p-2 rounded text-gray-900 placeholder:text-gray-700"
@@ -203,6 +824,28 @@ export default function Home() {
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex items-center gap-2 text-sm">
+              Variants
+              <select
+                className="border p-2 rounded text-gray-900 flex-1"
+                value={variantCount}
+                onChange={(e) => setVariantCount(Number(e.target.value))}
+              >
+                {[1, 3, 6, 9].map((n) => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+            <input
+              className="border p-2 rounded text-gray-900 placeholder:text-gray-700"
+              placeholder="Seed (optional, for repeatable results)"
+              inputMode="numeric"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9]/g, ""))}
+            />
+          </div>
+
           <label className="flex items-center gap-2">
             <input
               type="checkbox"
@@ -212,6 +855,15 @@ export default function Home() {
             Include poster image
           </label>
 
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={includeListing}
+              onChange={(e) => setIncludeListing(e.target.checked)}
+            />
+            Shop listing (SEO title, bullets, description, meta)
+          </label>
+
           <input
             className="border p-2 rounded text-gray-900 placeholder:text-gray-700"
             placeholder="Image keywords (e.g., 'iced coffee, glass, cold brew' or 'dog bowl kibble')"
@@ -219,11 +871,79 @@ export default function Home() {
             onChange={(e) => setImageQuery(e.target.value)}
           />
 
+          <div
+            className={`border-2 border-dashed rounded p-3 text-sm ${dragging ? "border-black bg-gray-100" : "border-gray-300"}`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragging(false);
+              uploadPhotos(Array.from(e.dataTransfer.files));
+            }}
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                Drop product photos here or{" "}
+                <label className="underline cursor-pointer">
+                  browse
+                  <input
+                    type="file"
+                    multiple
+                    accept="image/png,image/jpeg,image/webp"
+                    className="hidden"
+                    onChange={(e) => {
+                      uploadPhotos(Array.from(e.target.files || []));
+                      e.target.value = "";
+                    }}
+                  />
+                </label>{" "}
+                (JPEG, PNG or WebP); they come first among the poster images
+              </span>
+              {brandKitId && (
+                <select className="border p-1 rounded" value={photoScope} onChange={(e) => setPhotoScope(e.target.value as "product" | "kit")}>
+                  <option value="product">For this product</option>
+                  <option value="kit">For every product in {kits.find((k) => k.id === brandKitId)?.name || "the kit"}</option>
+                </select>
+              )}
+            </div>
+            {uploading && <p className="text-gray-600 mt-1">Uploading…</p>}
+            {uploadError && <p className="text-red-700 mt-1">{uploadError}</p>}
+            {photos.length > 0 && (
+              <ul className="flex flex-wrap gap-2 mt-2">
+                {photos.map((c) => (
+                  <li key={c.id} className="relative h-16 w-16 border rounded overflow-hidden" style={{ backgroundColor: c.color || undefined }}>
+                    <Image src={c.thumbUrl} alt={candidateAlt(c, product, activeLanguage)} fill sizes="64px" className="object-cover" unoptimized />
+                    <button
+                      type="button"
+                      className="absolute top-0 right-0 bg-black/60 text-white text-xs leading-none px-1"
+                      aria-label="Delete photo"
+                      onClick={() => removePhoto(c)}
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
           {needKeywordsHint && (
             <p className="text-sm text-amber-700 bg-amber-100 border border-amber-200 p-2 rounded">
               Tip: add a few image keywords so results match your product (e.g., “granola bar, oats, wrapper”)
             </p>
           )}
+          {result?.warnings && result.warnings.length > 0 && (
+            <ul className="text-xs text-amber-800 bg-amber-50 border border-amber-200 p-2 rounded">
+              {result.warnings.map((w, i) => (
+                <li key={i}>
+                  {w.provider}: {w.reason.replace("_", " ")} — {w.detail}
+                </li>
+              ))}
+            </ul>
+          )}
 
           <button disabled={loading} className="bg-black text-white rounded p-2">
             {loading ? "Making magic…" : "Generate"}
@@ -239,6 +959,50 @@ export default function Home() {
 
         {result && (
           <section className="grid gap-4">
+            {Object.keys(byLanguage).length > 1 && (
+              <div className="flex gap-2">
+                {LANGUAGES.filter((l) => byLanguage[l.id]).map((l) => (
+                  <button
+                    type="button"
+                    key={l.id}
+                    onClick={() => switchLanguage(l.id)}
+                    className={`px-3 py-1 rounded text-sm ${l.id === activeLanguage ? "bg-black text-white" : "bg-white border"}`}
+                  >
+                    {l.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap items-center justify-end gap-3 text-sm">
+              {result.history && (
+                <>
+                  <Link href={`/history?thread=${encodeURIComponent(result.history.threadId)}`} className="text-gray-700 underline">
+                    Saved as v{result.history.version}
+                  </Link>
+                  {edited && <span className="text-amber-800">Edited, not saved</span>}
+                  <button type="button" className="underline disabled:opacity-50" disabled={savingVersion || !finalCopy} onClick={saveVersion}>
+                    {savingVersion ? "Saving…" : "Save as new version"}
+                  </button>
+                  <button type="button" className="underline" onClick={shareForReview}>
+                    Share for review
+                  </button>
+                </>
+              )}
+              <button
+                type="button"
+                className="bg-black text-white rounded px-3 py-2 text-sm disabled:opacity-50"
+                disabled={exporting || !finalCopy}
+                onClick={exportCampaign}
+              >
+                {exporting ? "Packaging…" : "Export campaign"}
+              </button>
+            </div>
+            {shareLink && (
+              <p className="text-xs text-gray-700 text-right">
+                Review link (copied): <a href={shareLink} className="underline break-all">{shareLink}</a>
+              </p>
+            )}
+
             <div className="bg-white p-4 rounded-xl shadow">
               <div className="flex items-center justify-between mb-2">
                 <h2 className="font-semibold text-xl text-gray-900">Copy</h2>
@@ -248,40 +1012,144 @@ export default function Home() {
                   </span>
                 )}
               </div>
+              {!!result.brandKit?.bannedRemoved.length && (
+                <p className="text-xs text-amber-800 mb-2">
+                  Removed banned words for {result.brandKit.name}: {result.brandKit.bannedRemoved.join(", ")}
+                </p>
+              )}
+              {result.fallback && (
+                <p className="text-xs text-amber-800 mb-2" title={result.fallback.detail}>
+                  {result.fallback.from} fell back to local copy ({result.fallback.reason})
+                </p>
+              )}
+              {!!result.moderation?.findings.length && (
+                <div className="text-xs mb-2">
+                  <p className="text-gray-700">Moderation:</p>
+                  <ul className="list-disc pl-4">
+                    {result.moderation.findings.map((f, i) => (
+                      <li key={i} className={f.action === "flag" ? "text-amber-800" : "text-gray-700"}>
+                        {f.stage === "brief" ? "Brief" : "Copy"} · {describeFinding(f)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
               <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <strong>Tagline</strong>
-                  <button className="text-sm underline" onClick={() => copyToClipboard(result.copy?.tagline || "")}>
-                    Copy
-                  </button>
-                </div>
-                <p>{result.copy?.tagline}</p>
+                {FIELDS.map(({ key, label }) => (
+                  <div key={key}>
+                    <div className="flex justify-between items-center">
+                      <strong>{label}</strong>
+                      <span className="flex gap-3">
+                        <button
+                          type="button"
+                          className="text-sm underline disabled:opacity-50"
+                          disabled={regenerating !== null}
+                          onClick={() => regenerateField(key)}
+                        >
+                          {regenerating === key ? "…" : "Regenerate"}
+                        </button>
+                        <button className="text-sm underline" onClick={() => copyToClipboard(fieldText(finalCopy ?? undefined, key))}>
+                          Copy
+                        </button>
+                      </span>
+                    </div>
+                    {finalCopy && (key === "hashtags" ? (
+                      <HashtagsInput tags={finalCopy.hashtags} onChange={(tags) => editField("hashtags", tags)} />
+                    ) : key === "tagline" ? (
+                      <input
+                        className="w-full border p-2 rounded text-gray-900"
+                        value={finalCopy.tagline}
+                        onChange={(e) => editField("tagline", e.target.value)}
+                      />
+                    ) : (
+                      <textarea
+                        className="w-full border p-2 rounded text-gray-900"
+                        rows={key === "caption" ? 4 : 2}
+                        value={finalCopy[key]}
+                        onChange={(e) => editField(key, e.target.value)}
+                      />
+                    ))}
+                    {lint?.readability
+                      .filter((r) => r.field === key)
+                      .map((r) => (
+                        <p key={r.field} className="text-xs text-gray-500">
+                          Reading ease {r.score} ({r.label})
+                        </p>
+                      ))}
+                    {lint?.findings
+                      .filter((f) => f.field === key)
+                      .map((f, i) => (
+                        <p
+                          key={i}
+                          className={`text-xs ${f.severity === "error" ? "text-red-700" : f.severity === "warning" ? "text-amber-800" : "text-gray-600"}`}
+                        >
+                          {f.severity === "info" ? "ℹ" : "⚠"} {f.message}
+                          {f.suggestion && <span className="text-gray-600"> — {f.suggestion}</span>}
+                          {f.fix && (
+                            <button type="button" className="ml-2 underline" onClick={() => fixFinding(f)}>
+                              Apply
+                            </button>
+                          )}
+                        </p>
+                      ))}
+                  </div>
+                ))}
+                {posterAltText && (
+                  <div>
+                    <div className="flex justify-between items-center">
+                      <strong>Alt text</strong>
+                      <button className="text-sm underline" onClick={() => copyToClipboard(posterAltText)}>
+                        Copy
+                      </button>
+                    </div>
+                    <p>{posterAltText}</p>
+                    <p className="text-xs text-gray-500">Paste into the platform&apos;s alt text field when posting the poster.</p>
+                  </div>
+                )}
+              </div>
 
-                <div className="flex justify-between items-center">
-                  <strong>Caption</strong>
-                  <button className="text-sm underline" onClick={() => copyToClipboard(result.copy?.caption || "")}>
-                    Copy
-                  </button>
+              {validation && (
+                <div className="mt-3 text-sm">
+                  <strong>{resolvePlatform(platform).label} checks</strong>
+                  <ul className="mt-1 space-y-1">
+                    {validation.fields.map((f) => (
+                      <li key={f.field} className={f.ok ? "text-gray-700" : "text-red-700"}>
+                        {f.ok ? "✓" : "⚠"} {f.field}: {f.message}
+                      </li>
+                    ))}
+                  </ul>
                 </div>
-                <p>{result.copy?.caption}</p>
+              )}
 
-                <div className="flex justify-between items-center">
-                  <strong>Short Description</strong>
-                  <button className="text-sm underline" onClick={() => copyToClipboard(result.copy?.shortDescription || "")}>
-                    Copy
-                  </button>
+              {a11y && (a11y.contrast.length > 0 || a11y.findings.length > 0) && (
+                <div className="mt-3 text-sm">
+                  <strong>Accessibility checks</strong>
+                  <ul className="mt-1 space-y-1">
+                    {a11y.contrast.map((t) => {
+                      const ok = t.ratio >= (t.large ? 3 : 4.5);
+                      return (
+                        <li key={t.element} className={ok ? "text-gray-700" : "text-red-700"}>
+                          {ok ? "✓" : "⚠"} poster {t.element}: {t.ratio}:1 contrast{t.large ? " (large text)" : ""}
+                        </li>
+                      );
+                    })}
+                    {a11y.findings
+                      .filter((f) => f.check !== "contrast")
+                      .map((f, i) => (
+                        <li key={i} className={f.severity === "error" ? "text-red-700" : f.severity === "warning" ? "text-amber-800" : "text-gray-600"}>
+                          {f.severity === "info" ? "ℹ" : "⚠"} {f.field}: {f.message}
+                          {f.suggestion && <span className="text-gray-600"> — {f.suggestion}</span>}
+                          {f.fix && f.field !== "poster" && (
+                            <button type="button" className="ml-2 underline" onClick={() => setFinalCopy((c) => (c ? applyFix(c, { field: f.field as CopyField, fix: f.fix }) : c))}>
+                              Apply
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                  </ul>
                 </div>
-                <p>{result.copy?.shortDescription}</p>
-
-                <div className="flex justify-between items-center">
-                  <strong>Hashtags</strong>
-                  <button className="text-sm underline" onClick={() => copyToClipboard((result.copy?.hashtags || []).join(" "))}>
-                    Copy
-                  </button>
-                </div>
-                <p>{(result.copy?.hashtags || []).join(" ")}</p>
-              </div>
+              )}
 
               {result.rawModelText ? (
                 <details className="mt-3">
@@ -293,22 +1161,126 @@ export default function Home() {
               ) : null}
             </div>
 
+            {finalCopy && (
+              <PostPreviews
+                copy={finalCopy}
+                platform={resolvePlatform(platform).id}
+                image={includeImage ? posterSrc : null}
+                photo={includeImage ? posterImage() : null}
+                alt={posterAltText || product}
+                name={kits.find((k) => k.id === brandKitId)?.name || product}
+              />
+            )}
+
+            {result.listing && <ListingPanel listing={result.listing} onCopy={copyToClipboard} />}
+
+            {result.variants && result.variants.length > 1 && (
+              <div className="bg-white p-4 rounded-xl shadow">
+                <h2 className="font-semibold text-xl mb-2 text-gray-900">Compare variants</h2>
+                <p className="text-sm text-gray-600 mb-3">
+                  Star the ones you like and click a field to use it in the copy above.
+                </p>
+                <div className="grid gap-3 md:grid-cols-3">
+                  {result.variants.map((v, i) => (
+                    <div
+                      key={v.seed}
+                      className={`border rounded p-3 space-y-2 ${starred.includes(v.seed) ? "border-amber-400 bg-amber-50" : ""}`}
+                    >
+                      <div className="flex items-center justify-between text-xs text-gray-600">
+                        <span>
+                          #{i + 1} · template {v.templateIndex} · seed {v.seed}
+                          {!!variantIssues.get(v.seed)?.length && (
+                            <span
+                              className="ml-1 text-amber-800"
+                              title={variantIssues.get(v.seed)!.map((f) => `${f.field}: ${f.message}`).join("\n")}
+                            >
+                              · ⚠ {variantIssues.get(v.seed)!.length}
+                            </span>
+                          )}
+                        </span>
+                        <button
+                          type="button"
+                          className="text-lg leading-none"
+                          title={starred.includes(v.seed) ? "Unstar" : "Star"}
+                          onClick={() => toggleStar(v.seed)}
+                        >
+                          {starred.includes(v.seed) ? "★" : "☆"}
+                        </button>
+                      </div>
+                      {FIELDS.map(({ key, label }) => {
+                        const inUse = fieldText(finalCopy ?? undefined, key) === fieldText(v.copy, key);
+                        return (
+                          <button
+                            type="button"
+                            key={key}
+                            onClick={() => takeVariantField(v, key)}
+                            className={`block w-full text-left text-sm rounded p-1 hover:bg-gray-100 ${inUse ? "ring-1 ring-black" : ""}`}
+                            title={`Use this ${label.toLowerCase()}`}
+                          >
+                            <span className="block text-xs text-gray-500">{label}</span>
+                            {fieldText(v.copy, key)}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {includeImage && (
               <div className="bg-white p-4 rounded-xl shadow">
                 <h2 className="font-semibold text-xl mb-2 text-gray-900">Poster Image</h2>
 
+                <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                  <select
+                    className="border p-2 rounded text-gray-900"
+                    value={posterLayout}
+                    onChange={(e) => {
+                      const l = e.target.value as PosterLayout;
+                      setPosterLayout(l);
+                      renderPoster(posterImage(), l);
+                    }}
+                  >
+                    {POSTER_LAYOUTS.map((l) => (
+                      <option key={l.value} value={l.value}>{l.label}</option>
+                    ))}
+                  </select>
+                  <label className="underline cursor-pointer">
+                    Upload image
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg,image/webp"
+                      className="hidden"
+                      onChange={(e) => uploadImage(e.target.files?.[0])}
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    className="underline disabled:opacity-50"
+                    disabled={rendering}
+                    onClick={() => renderPoster(posterImage(), posterLayout)}
+                  >
+                    {rendering ? "Rendering…" : "Update poster text"}
+                  </button>
+                </div>
+
                 {/* Candidate picker */}
-                {result?.photoUrls && result.photoUrls.length > 0 && (
+                {result?.candidates && result.candidates.length > 0 && (
                   <div className="grid grid-cols-3 gap-2 mb-3">
-                    {result.photoUrls.map((u) => (
+                    {result.candidates.map((c) => (
                       <button
                         type="button"
-                        key={u}
-                        onClick={() => setSelectedImage(u)}
-                        className={`relative h-28 border rounded overflow-hidden ${selectedImage === u ? "ring-2 ring-black" : ""}`}
-                        title="Use this image"
+                        key={c.id}
+                        onClick={() => chooseImage(c.url)}
+                        className={`relative h-28 border rounded overflow-hidden ${selectedImage === c.url ? "ring-2 ring-black" : ""}`}
+                        style={{ backgroundColor: c.color || undefined }}
+                        title={`Use this image (${attribution(c)})`}
                       >
-                        <Image src={u} alt="candidate" fill sizes="140px" className="object-cover" unoptimized />
+                        <Image src={c.thumbUrl} alt={altFor(c)} fill sizes="140px" className="object-cover" unoptimized />
+                        <span className="absolute bottom-0 left-0 right-0 bg-black/50 text-white text-[10px] px-1 truncate">
+                          {c.source}
+                        </span>
                       </button>
                     ))}
                   </div>
@@ -317,7 +1289,7 @@ export default function Home() {
                 <div className="relative w-full h-[512px]">
                   <Image
                     src={posterSrc}
-                    alt="Generated poster"
+                    alt={posterAltText || "Poster preview"}
                     fill
                     sizes="(max-width: 768px) 100vw, 768px"
                     className="object-contain rounded-xl"
@@ -325,11 +1297,86 @@ export default function Home() {
                     onError={handleImgError}
                   />
                 </div>
-                <a href={posterSrc} download="poster" className="underline mt-2 inline-block">
-                  Download image
-                </a>
+                {chosenCandidate && (
+                  <p className="text-xs text-gray-600 mt-2">
+                    {chosenCandidate.sourceUrl ? (
+                      <a href={chosenCandidate.sourceUrl} target="_blank" rel="noreferrer" className="underline">
+                        {attribution(chosenCandidate)}
+                      </a>
+                    ) : (
+                      attribution(chosenCandidate)
+                    )}
+                    {" · "}
+                    {chosenCandidate.licenseUrl ? (
+                      <a href={chosenCandidate.licenseUrl} target="_blank" rel="noreferrer" className="underline">
+                        {chosenCandidate.license}
+                      </a>
+                    ) : (
+                      chosenCandidate.license
+                    )}
+                    {chosenCandidate.width > 0 && ` · ${chosenCandidate.width}×${chosenCandidate.height}`}
+                  </p>
+                )}
+                <div className="flex gap-4 mt-2">
+                  <a href={posterSrc} download="poster.png" className="underline inline-block">
+                    Download image
+                  </a>
+                  {poster?.svg && (
+                    <a href={poster.svg} download="poster.svg" className="underline inline-block">
+                      Download SVG
+                    </a>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {palette && (
+              <div className="bg-white p-4 rounded-xl shadow">
+                <h2 className="font-semibold text-xl mb-2 text-gray-900">Palette</h2>
+                <p className="text-sm text-gray-600 mb-3">
+                  From the colour hint and the poster photo. Each swatch shows its text colour and WCAG contrast.
+                </p>
+                <div className="grid grid-cols-5 gap-2 mb-3">
+                  {palette.swatches.map((s) => (
+                    <div key={s.role} className="rounded overflow-hidden border text-xs">
+                      <div className="h-20 p-2 flex flex-col justify-between" style={{ backgroundColor: s.hex, color: s.text }}>
+                        <span className="font-semibold">Aa</span>
+                        <span>{s.contrast}:1</span>
+                      </div>
+                      <div className="p-1">
+                        <div className="font-medium">{s.role}</div>
+                        <div className="font-mono">{s.hex}</div>
+                        <div className="text-gray-600">{s.source}</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <ul className="text-xs text-gray-700 mb-3 space-y-0.5">
+                  {palette.pairs.map((p) => (
+                    <li key={p.background}>
+                      {p.text} on {p.background}: {p.ratio}:1 ·{" "}
+                      <span className={p.aa ? "text-green-800" : "text-red-700"}>
+                        {p.aaa ? "AAA" : p.aa ? "AA" : p.aaLarge ? "AA large text only" : "fails AA"}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex gap-4 text-sm">
+                  <button type="button" className="underline" onClick={() => copyToClipboard(paletteCss(palette))}>
+                    Copy CSS variables
+                  </button>
+                  <a
+                    href={`data:application/json;charset=utf-8,${encodeURIComponent(JSON.stringify(paletteTokens(palette), null, 2))}`}
+                    download="tokens.json"
+                    className="underline"
+                  >
+                    Download tokens.json
+                  </a>
+                </div>
               </div>
             )}
+
+            <FramesPanel brief={brief} />
           </section>
         )}
 
@@ -339,4 +1386,342 @@ export default function Home() {
       </div>
     </main>
   );
-}
\ No newline at end of file
+}
+
+/* ------------ shop listing ------------ */
+function ListingPanel({ listing, onCopy }: { listing: ProductListing; onCopy: (text: string) => void }) {
+  const rows: { label: string; text: string; limit?: number }[] = [
+    { label: "SEO title", text: listing.title, limit: LISTING_LIMITS.title },
+    { label: "Bullets", text: listing.bullets.map((b) => `• ${b}`).join("\n") },
+    { label: "Description", text: listing.description },
+    { label: "Meta description", text: listing.metaDescription, limit: LISTING_LIMITS.meta },
+    { label: "URL slug", text: listing.slug, limit: LISTING_LIMITS.slug },
+    { label: "Keywords", text: listing.keywords.join(", ") },
+  ];
+  return (
+    <div className="bg-white p-4 rounded-xl shadow">
+      <h2 className="font-semibold text-xl mb-2 text-gray-900">Shop listing</h2>
+      <div className="space-y-2">
+        {rows.map((r) => (
+          <div key={r.label}>
+            <div className="flex justify-between items-center">
+              <strong>
+                {r.label}
+                {r.limit && (
+                  <span className={`ml-2 text-xs font-normal ${r.text.length > r.limit ? "text-red-700" : "text-gray-500"}`}>
+                    {r.text.length}/{r.limit}
+                  </span>
+                )}
+              </strong>
+              <button className="text-sm underline" onClick={() => onCopy(r.text)}>
+                Copy
+              </button>
+            </div>
+            <p className="whitespace-pre-line">{r.text}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/* ------------ carousel & Story frames ------------ */
+const FRAME_FORMATS: { value: FrameFormat; label: string }[] = [
+  { value: "carousel", label: "Carousel (1080×1080)" },
+  { value: "story", label: "Story (1080×1920)" },
+];
+
+// Owns its own state: frames are a separate request from the single post above, rendered on demand.
+function FramesPanel({ brief }: { brief: () => Record<string, unknown> }) {
+  const [format, setFormat] = useState<FrameFormat>("carousel");
+  const [set, setSet] = useState<FrameSet | null>(null);
+  const [busy, setBusy] = useState<"frames" | "zip" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function request(download: boolean) {
+    setBusy(download ? "zip" : "frames");
+    setError(null);
+    try {
+      const res = await fetch(`/api/frames${download ? "?download=zip" : ""}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ brief: brief(), format }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(typeof data?.error === "string" ? data.error : "Frames failed");
+      }
+      if (!download) {
+        setSet((await res.json()) as FrameSet);
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = (res.headers.get("Content-Disposition") || "").match(/filename="([^"]+)"/)?.[1] || `frames-${format}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow">
+      <h2 className="font-semibold text-xl mb-2 text-gray-900">Carousel &amp; Story</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        Hook, benefit, social proof and call to action, each on its own photo. Frames past the last photo use the gradient.
+      </p>
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+        <select
+          className="border p-2 rounded text-gray-900"
+          value={format}
+          onChange={(e) => {
+            setFormat(e.target.value as FrameFormat);
+            setSet(null);
+          }}
+        >
+          {FRAME_FORMATS.map((f) => (
+            <option key={f.value} value={f.value}>{f.label}</option>
+          ))}
+        </select>
+        <button type="button" className="bg-black text-white px-3 py-2 rounded disabled:opacity-50" disabled={!!busy} onClick={() => request(false)}>
+          {busy === "frames" ? "Rendering…" : set ? "Re-render frames" : "Make frames"}
+        </button>
+        {set && (
+          <button type="button" className="underline disabled:opacity-50" disabled={!!busy} onClick={() => request(true)}>
+            {busy === "zip" ? "Zipping…" : "Download all (ZIP)"}
+          </button>
+        )}
+      </div>
+      {error && <p className="text-sm text-red-700 mb-2">{error}</p>}
+      {set?.bannedRemoved.length ? (
+        <p className="text-xs text-gray-600 mb-2">Removed banned words: {set.bannedRemoved.join(", ")}</p>
+      ) : null}
+      {set?.moderation.findings.map((f, i) => (
+        <p key={i} className={`text-xs mb-1 ${f.action === "flag" ? "text-amber-800" : "text-gray-600"}`}>
+          Moderation · {describeFinding(f)}
+        </p>
+      ))}
+
+      {set && (
+        <div className="flex gap-3 overflow-x-auto snap-x snap-mandatory pb-2">
+          {set.frames.map((f) => (
+            <figure key={f.index} className={`snap-start shrink-0 ${set.format === "story" ? "w-48" : "w-64"}`}>
+              <div className={`relative w-full ${set.format === "story" ? "aspect-[9/16]" : "aspect-square"}`}>
+                <Image src={f.png} alt={f.alt} fill sizes="256px" className="object-cover rounded border" unoptimized />
+              </div>
+              <figcaption className="text-xs mt-1 space-y-0.5">
+                <div className="font-medium">
+                  {f.index}/{set.frames.length} · {f.role}
+                </div>
+                <div className="text-gray-600">{f.image ? f.image.attribution : "Gradient background"}</div>
+                <div className="flex gap-3">
+                  <a href={f.png} download={`${String(f.index).padStart(2, "0")}-${f.role}.png`} className="underline">PNG</a>
+                  <a href={f.svg} download={`${String(f.index).padStart(2, "0")}-${f.role}.svg`} className="underline">SVG</a>
+                </div>
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ------------ hashtag field ------------ */
+const splitTags = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+
+// Keeps the raw text while typing (trailing space included) and only resyncs when the tags change from outside.
+function HashtagsInput({ tags, onChange }: { tags: string[]; onChange: (tags: string[]) => void }) {
+  const joined = tags.join(" ");
+  const [text, setText] = useState(joined);
+  const [seen, setSeen] = useState(joined);
+  if (joined !== seen) {
+    setSeen(joined);
+    if (splitTags(text).join(" ") !== joined) setText(joined);
+  }
+  return (
+    <input
+      className="w-full border p-2 rounded text-gray-900"
+      value={text}
+      placeholder="#OneTag #AnotherTag"
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(splitTags(e.target.value));
+      }}
+    />
+  );
+}
+
+/* ------------ platform previews ------------ */
+const PREVIEW_TARGETS: { id: PlatformId; label: string }[] = [
+  { id: "instagram-feed", label: "Instagram feed" },
+  { id: "x", label: "X" },
+  { id: "linkedin", label: "LinkedIn" },
+  { id: "instagram-story", label: "Story" },
+];
+
+// Hashtags in the link colour, as the apps render them.
+function PostText({ text, tagClass = "text-blue-700" }: { text: string; tagClass?: string }) {
+  return (
+    <span className="whitespace-pre-line">
+      {text.split(/(#[\p{L}\p{N}_]+)/u).map((part, i) =>
+        part.startsWith("#") ? (
+          <span key={i} className={tagClass}>{part}</span>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+}
+
+function PostPreviews({
+  copy,
+  platform,
+  image,
+  photo,
+  alt,
+  name,
+}: {
+  copy: CopyFields;
+  platform: PlatformId;
+  image: string | null; // the poster as shown above
+  photo: string | null; // the photo under it; Stories lay the text over this live
+  alt: string;
+  name: string;
+}) {
+  const [picked, setPicked] = useState<PlatformId | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const tab = picked ?? (PREVIEW_TARGETS.some((t) => t.id === platform) ? platform : "instagram-feed");
+  const profile = resolvePlatform(tab);
+  const post = previewPost(copy, profile);
+  const handle = `@${name.replace(/[^\p{L}\p{N}]+/gu, "").toLowerCase() || "yourbrand"}`;
+  const avatar = (
+    <span className="w-9 h-9 rounded-full bg-gray-300 flex items-center justify-center text-sm font-semibold text-gray-700 shrink-0">
+      {name.charAt(0).toUpperCase()}
+    </span>
+  );
+  const body = (
+    <>
+      <PostText text={expanded ? post.text : post.visible} />
+      {post.truncated && !expanded && (
+        <button type="button" className="text-gray-500" onClick={() => setExpanded(true)}>
+          {tab === "linkedin" ? "…see more" : "… more"}
+        </button>
+      )}
+    </>
+  );
+  const picture = (aspect: string) =>
+    image && (
+      <div className={`relative w-full ${aspect} bg-gray-100`}>
+        <Image src={image} alt={alt} fill sizes="400px" className="object-cover" unoptimized />
+      </div>
+    );
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow">
+      <h2 className="font-semibold text-xl mb-2 text-gray-900">Preview</h2>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {PREVIEW_TARGETS.map((t) => (
+          <button
+            type="button"
+            key={t.id}
+            onClick={() => {
+              setPicked(t.id);
+              setExpanded(false);
+            }}
+            className={`px-3 py-1 rounded text-sm ${t.id === tab ? "bg-black text-white" : "bg-white border"}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="mx-auto max-w-sm text-sm text-gray-900">
+        {tab === "instagram-feed" && (
+          <div className="border rounded-lg overflow-hidden bg-white">
+            <div className="flex items-center gap-2 p-2">
+              {avatar}
+              <span className="font-semibold">{handle.slice(1)}</span>
+            </div>
+            {picture("aspect-square")}
+            <div className="p-2 space-y-1">
+              <div className="text-lg">♡ 💬 ↗</div>
+              <p>
+                <span className="font-semibold mr-1">{handle.slice(1)}</span>
+                {body}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {tab === "x" && (
+          <div className="border rounded-lg p-3 bg-white flex gap-2">
+            {avatar}
+            <div className="min-w-0 flex-1 space-y-2">
+              <div>
+                <span className="font-semibold">{name}</span> <span className="text-gray-500">{handle} · 1m</span>
+              </div>
+              <p>{body}</p>
+              <div className="rounded-2xl overflow-hidden border">{picture("aspect-video")}</div>
+              <div className="flex justify-between text-gray-500 text-xs">
+                <span>💬</span>
+                <span>🔁</span>
+                <span>♡</span>
+                <span>↗</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {tab === "linkedin" && (
+          <div className="border rounded-lg overflow-hidden bg-white">
+            <div className="flex items-center gap-2 p-3">
+              {avatar}
+              <div>
+                <div className="font-semibold">{name}</div>
+                <div className="text-xs text-gray-500">1m · 🌐</div>
+              </div>
+            </div>
+            <p className="px-3 pb-2">{body}</p>
+            {picture("aspect-[1.91/1]")}
+            <div className="flex justify-around p-2 text-xs text-gray-600 border-t">
+              <span>Like</span>
+              <span>Comment</span>
+              <span>Repost</span>
+              <span>Send</span>
+            </div>
+          </div>
+        )}
+
+        {tab === "instagram-story" && (
+          <div className="relative mx-auto w-64 aspect-[9/16] rounded-xl overflow-hidden bg-gradient-to-b from-gray-700 to-gray-900 text-white">
+            {(photo || image) && (
+              <Image src={(photo || image)!} alt={alt} fill sizes="256px" className="object-cover" unoptimized />
+            )}
+            <div className="absolute inset-0 bg-gradient-to-b from-black/40 via-transparent to-black/60" />
+            <div className="absolute top-2 left-2 right-2 h-0.5 bg-white/80 rounded" />
+            <div className="absolute top-4 left-2 flex items-center gap-2 text-xs">
+              {avatar}
+              <span className="font-semibold">{handle.slice(1)}</span>
+            </div>
+            <div className="absolute inset-x-3 top-1/3 text-center text-xl font-bold leading-tight drop-shadow">{copy.tagline}</div>
+            <p className="absolute inset-x-3 bottom-8 text-center text-xs drop-shadow">
+              <PostText text={post.text} tagClass="font-semibold" />
+            </p>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3">
+        {post.text.length}/{profile.captionMax} characters as posted
+        {profile.visibleChars ? ` · feed shows the first ${profile.visibleChars} before “more”` : ""}
+        {post.separateTags.length ? ` · hashtags go in their own field: ${post.separateTags.join(" ")}` : ""}
+      </p>
+    </div>
+  );
+}
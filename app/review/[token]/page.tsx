@@ -0,0 +1,153 @@
+"use client";
+
+import Image from "next/image";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import type { ReviewDecision, ReviewEntry, ReviewField, SavedImage } from "@/lib/history";
+import type { StrictCopy } from "@/lib/types";
+
+type ReviewView = {
+  product: string;
+  platform?: string;
+  language: string;
+  version: number;
+  createdAt: string;
+  copy: StrictCopy;
+  image: SavedImage | null;
+  reviews: ReviewEntry[];
+  decisions: Partial<Record<ReviewField, ReviewDecision>>;
+};
+
+const FIELDS: { key: ReviewField; label: string }[] = [
+  { key: "tagline", label: "Tagline" },
+  { key: "caption", label: "Caption" },
+  { key: "shortDescription", label: "Short Description" },
+  { key: "hashtags", label: "Hashtags" },
+  { key: "image", label: "Image" },
+];
+
+// Read-only permalink: reviewers can approve, reject or comment per field but never edit the copy.
+export default function ReviewPage() {
+  const { token } = useParams<{ token: string }>();
+  const [review, setReview] = useState<ReviewView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewer, setReviewer] = useState("");
+  const [comments, setComments] = useState<Partial<Record<ReviewField, string>>>({});
+  const [sending, setSending] = useState<ReviewField | null>(null);
+
+  useEffect(() => {
+    setReviewer(window.localStorage.getItem("reviewer-name") || "");
+    fetch(`/api/review/${encodeURIComponent(token)}`, { cache: "no-store" })
+      .then((r) => r.json())
+      .then((d) => (d?.review ? setReview(d.review) : setError(d?.error || "Review link not found")))
+      .catch(() => setError("Could not load this review"));
+  }, [token]);
+
+  async function submit(field: ReviewField, decision?: ReviewDecision) {
+    const comment = comments[field]?.trim();
+    if (!decision && !comment) return;
+    setSending(field);
+    setError(null);
+    try {
+      window.localStorage.setItem("reviewer-name", reviewer.trim());
+      const res = await fetch(`/api/review/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ field, decision, comment, reviewer: reviewer.trim() || undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "Could not save");
+      setReview(data.review);
+      setComments((c) => ({ ...c, [field]: "" }));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed");
+    } finally {
+      setSending(null);
+    }
+  }
+
+  const fieldValue = (key: ReviewField) =>
+    !review ? "" : key === "hashtags" ? review.copy.hashtags.join(" ") : key === "image" ? "" : review.copy[key];
+
+  return (
+    <main className="min-h-screen p-6 flex flex-col items-center bg-gray-50 text-gray-900">
+      <div className="w-full max-w-3xl space-y-4">
+        <h1 className="text-3xl font-bold">Review</h1>
+        {error && <p className="text-red-600">{error}</p>}
+        {review && (
+          <>
+            <p className="text-gray-900">
+              {review.product} · v{review.version} · {[review.platform, review.language].filter(Boolean).join(" · ")} ·{" "}
+              {new Date(review.createdAt).toLocaleString()}
+            </p>
+            <label className="flex items-center gap-2 text-sm">
+              <span className="text-gray-700">Your name:</span>
+              <input
+                className="border p-2 rounded placeholder:text-gray-700"
+                placeholder="Anonymous"
+                value={reviewer}
+                onChange={(e) => setReviewer(e.target.value)}
+              />
+            </label>
+
+            {FIELDS.filter((f) => f.key !== "image" || review.image).map(({ key, label }) => {
+              const decision = review.decisions[key];
+              const thread = review.reviews.filter((r) => r.field === key);
+              return (
+                <section key={key} className="bg-white p-4 rounded-xl shadow space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h2 className="font-semibold">{label}</h2>
+                    {decision && (
+                      <span className={`text-xs px-2 py-0.5 rounded ${decision === "approved" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}`}>
+                        {decision}
+                      </span>
+                    )}
+                  </div>
+                  {key === "image" && review.image ? (
+                    <figure>
+                      <div className="relative w-full h-80">
+                        <Image src={review.image.url} alt={review.product} fill sizes="(max-width: 768px) 100vw, 768px" className="object-contain object-left rounded" unoptimized />
+                      </div>
+                      {review.image.attribution && <figcaption className="text-xs text-gray-600">{review.image.attribution}</figcaption>}
+                    </figure>
+                  ) : (
+                    <p className="whitespace-pre-wrap">{fieldValue(key)}</p>
+                  )}
+                  {thread.length > 0 && (
+                    <ul className="text-xs text-gray-700 space-y-1 border-t pt-2">
+                      {thread.map((r) => (
+                        <li key={r.id}>
+                          <span className="font-medium">{r.reviewer}</span>
+                          {r.decision && ` ${r.decision}`}
+                          {r.comment && `: ${r.comment}`}
+                          <span className="text-gray-500"> · {new Date(r.at).toLocaleString()}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex flex-wrap gap-2 items-center text-sm">
+                    <input
+                      className="border p-2 rounded flex-1 min-w-[12rem] placeholder:text-gray-700"
+                      placeholder="Comment (optional)"
+                      value={comments[key] || ""}
+                      onChange={(e) => setComments((c) => ({ ...c, [key]: e.target.value }))}
+                    />
+                    <button type="button" disabled={sending === key} className="border rounded px-3 py-2 text-green-800 disabled:opacity-50" onClick={() => submit(key, "approved")}>
+                      Approve
+                    </button>
+                    <button type="button" disabled={sending === key} className="border rounded px-3 py-2 text-red-800 disabled:opacity-50" onClick={() => submit(key, "rejected")}>
+                      Reject
+                    </button>
+                    <button type="button" disabled={sending === key || !comments[key]?.trim()} className="underline disabled:opacity-50" onClick={() => submit(key)}>
+                      Comment
+                    </button>
+                  </div>
+                </section>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
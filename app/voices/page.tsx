@@ -0,0 +1,200 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { composeCopy } from "@/lib/compose";
+import { DEFAULT_PACK } from "@/lib/packs";
+import {
+  describeTone,
+  parseTone,
+  PUNCTUATION_STYLES,
+  SENTENCE_LENGTHS,
+  type CustomVoice,
+  type Punctuation,
+  type SentenceLength,
+} from "@/lib/tone";
+
+type Draft = { name: string; words: string; base: string; sentenceLength: SentenceLength; punctuation: Punctuation };
+const EMPTY: Draft = { name: "", words: "", base: "", sentenceLength: "long", punctuation: "default" };
+const TONES = Object.keys(DEFAULT_PACK.languages.en!.toneWords);
+
+const PUNCTUATION_LABELS: Record<Punctuation, string> = {
+  default: "As the template writes it",
+  exclamation: "Exclamation marks!",
+  none: "No exclamation marks",
+};
+
+export default function VoicesPage() {
+  const [voices, setVoices] = useState<CustomVoice[]>([]);
+  const [editing, setEditing] = useState<string | null>(null); // voice id, or null for a new one
+  const [draft, setDraft] = useState<Draft>(EMPTY);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sample, setSample] = useState({ tone: "playful luxury", product: "Glow Serum", category: "skincare", benefit: "brighter skin" });
+
+  useEffect(() => {
+    fetch("/api/voices", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((d) => setVoices(d?.voices || []))
+      .catch(() => setError("Could not load voices"));
+  }, []);
+
+  function edit(v: CustomVoice | null) {
+    setEditing(v?.id || null);
+    setDraft(v ? { name: v.name, words: v.words.join(", "), base: v.base || "", sentenceLength: v.sentenceLength, punctuation: v.punctuation } : EMPTY);
+    setError(null);
+  }
+
+  async function save() {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(editing ? `/api/voices/${editing}` : "/api/voices", {
+        method: editing ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(draft),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "Save failed");
+      const voice = data.voice as CustomVoice;
+      setVoices((vs) => (editing ? vs.map((v) => (v.id === voice.id ? voice : v)) : [...vs, voice]));
+      edit(voice);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(v: CustomVoice) {
+    if (!window.confirm(`Delete the voice "${v.name}"?`)) return;
+    const res = await fetch(`/api/voices/${v.id}`, { method: "DELETE" });
+    if (!res.ok) return setError("Delete failed");
+    setVoices((vs) => vs.filter((x) => x.id !== v.id));
+    if (editing === v.id) edit(null);
+  }
+
+  // The tester runs the real composer on the default pack, so what you see is what generation does.
+  const reading = useMemo(() => parseTone(sample.tone, TONES, voices), [sample.tone, voices]);
+  const preview = useMemo(
+    () =>
+      [0, 1, 2].map(
+        (i) =>
+          composeCopy(sample.product || "Your product", sample.category, sample.benefit, "", sample.tone, "instagram-feed", i * 7919, undefined, "en", DEFAULT_PACK, undefined, undefined, voices).copy
+      ),
+    [sample, voices]
+  );
+
+  return (
+    <main className="min-h-screen p-6 flex flex-col items-center bg-gray-50 text-gray-900">
+      <div className="w-full max-w-4xl space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-3xl font-bold">Voices</h1>
+          <Link href="/" className="underline text-sm">
+            ← Single product
+          </Link>
+        </div>
+        <p className="text-gray-900">
+          Tone is read as a blend: &ldquo;playful luxury&rdquo; draws words from both, &ldquo;warm and witty&rdquo; maps to friendly and
+          playful, &ldquo;very&rdquo; and &ldquo;a hint of&rdquo; shift the mix. A voice adds your own vocabulary, sentence length and
+          punctuation; type its name in the tone field to use it.
+        </p>
+
+        <section className="bg-white p-4 rounded-xl shadow space-y-3">
+          <h2 className="font-semibold text-xl">Try a tone</h2>
+          <div className="grid gap-2 sm:grid-cols-4 text-sm">
+            <input className="border p-2 rounded sm:col-span-2" placeholder="Tone" value={sample.tone} onChange={(e) => setSample((s) => ({ ...s, tone: e.target.value }))} />
+            <input className="border p-2 rounded" placeholder="Product" value={sample.product} onChange={(e) => setSample((s) => ({ ...s, product: e.target.value }))} />
+            <input className="border p-2 rounded" placeholder="Key benefit" value={sample.benefit} onChange={(e) => setSample((s) => ({ ...s, benefit: e.target.value }))} />
+          </div>
+          <p className={`text-sm ${reading.fallback ? "text-amber-800" : "text-gray-700"}`}>
+            {reading.fallback ? "No tone recognised; using " : "Read as "}
+            <strong>{describeTone(reading)}</strong>
+            {reading.voice && ` · ${reading.sentenceLength} sentences · ${PUNCTUATION_LABELS[reading.punctuation].toLowerCase()}`}
+            {reading.unmatched.length > 0 && ` · ignored: ${reading.unmatched.join(", ")}`}
+          </p>
+          <ul className="text-sm space-y-2">
+            {preview.map((c, i) => (
+              <li key={i} className="border rounded p-2">
+                <div className="font-semibold">{c.tagline}</div>
+                <div>{c.caption}</div>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="bg-white p-4 rounded-xl shadow space-y-3">
+          <div className="flex items-baseline justify-between">
+            <h2 className="font-semibold text-xl">{editing ? `Edit ${voices.find((v) => v.id === editing)?.name || "voice"}` : "New voice"}</h2>
+            {editing && (
+              <button type="button" className="underline text-sm" onClick={() => edit(null)}>
+                New voice
+              </button>
+            )}
+          </div>
+          <div className="grid gap-2 sm:grid-cols-2 text-sm">
+            <label className="grid gap-1">
+              Name
+              <input className="border p-2 rounded" placeholder="Acme" value={draft.name} onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))} />
+            </label>
+            <label className="grid gap-1">
+              Leans on (pack tones)
+              <input className="border p-2 rounded" placeholder="playful, a hint of luxury" value={draft.base} onChange={(e) => setDraft((d) => ({ ...d, base: e.target.value }))} />
+            </label>
+            <label className="grid gap-1 sm:col-span-2">
+              Vocabulary (comma-separated adjectives)
+              <input className="border p-2 rounded" placeholder="zesty, sunny, no-nonsense" value={draft.words} onChange={(e) => setDraft((d) => ({ ...d, words: e.target.value }))} />
+            </label>
+            <label className="grid gap-1">
+              Sentence length
+              <select className="border p-2 rounded" value={draft.sentenceLength} onChange={(e) => setDraft((d) => ({ ...d, sentenceLength: e.target.value as SentenceLength }))}>
+                {SENTENCE_LENGTHS.map((l) => (
+                  <option key={l} value={l}>{l}</option>
+                ))}
+              </select>
+            </label>
+            <label className="grid gap-1">
+              Punctuation
+              <select className="border p-2 rounded" value={draft.punctuation} onChange={(e) => setDraft((d) => ({ ...d, punctuation: e.target.value as Punctuation }))}>
+                {PUNCTUATION_STYLES.map((p) => (
+                  <option key={p} value={p}>{PUNCTUATION_LABELS[p]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {error && <p className="text-sm text-red-700">{error}</p>}
+          <button type="button" className="bg-black text-white px-3 py-2 rounded text-sm disabled:opacity-50" disabled={saving || !draft.name.trim()} onClick={save}>
+            {saving ? "Saving…" : editing ? "Save changes" : "Create voice"}
+          </button>
+        </section>
+
+        {voices.length > 0 && (
+          <section className="bg-white p-4 rounded-xl shadow">
+            <h2 className="font-semibold text-xl mb-2">Saved voices</h2>
+            <ul className="divide-y text-sm">
+              {voices.map((v) => (
+                <li key={v.id} className="py-2 flex items-baseline justify-between gap-3">
+                  <span>
+                    <strong>{v.name}</strong>
+                    <span className="text-gray-600">
+                      {" "}
+                      · {[v.words.join(", "), v.base && `leans ${v.base}`, `${v.sentenceLength} sentences`, PUNCTUATION_LABELS[v.punctuation].toLowerCase()].filter(Boolean).join(" · ")}
+                    </span>
+                  </span>
+                  <span className="flex gap-3 shrink-0">
+                    <button type="button" className="underline" onClick={() => edit(v)}>
+                      Edit
+                    </button>
+                    <button type="button" className="underline text-red-700" onClick={() => remove(v)}>
+                      Delete
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
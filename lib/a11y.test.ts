@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { accessibilityReport, candidateAlt, posterAlt } from "./a11y";
+import type { ImageCandidate } from "./images";
+import type { PosterText } from "./poster";
+import type { StrictCopy } from "./types";
+
+const candidate = (fields: Partial<ImageCandidate>): ImageCandidate => ({
+  id: "p1", source: "pexels", url: "", thumbUrl: "", width: 1, height: 1, color: null, photographer: null, photographerUrl: null,
+  sourceUrl: null, license: "", licenseUrl: null, alt: null, query: "serum bottle ✨", ...fields,
+});
+
+const copy = (fields: Partial<StrictCopy>): StrictCopy => ({ tagline: "Glow", caption: "Bright skin every morning.", shortDescription: "", hashtags: [], ...fields });
+
+describe("candidateAlt", () => {
+  it("prefers the provider's description, then the search query", () => {
+    expect(candidateAlt(candidate({ alt: "woman holding a serum bottle." }), "Lumi")).toBe("Woman holding a serum bottle");
+    expect(candidateAlt(candidate({}), "Lumi")).toBe("Photo of serum bottle");
+    expect(candidateAlt(candidate({}), "Lumi", "de")).toBe("Foto: serum bottle");
+    expect(candidateAlt(candidate({ source: "generated" }), "Lumi")).toBe('Graphic with the words "Lumi" on a colour gradient');
+  });
+});
+
+describe("posterAlt", () => {
+  it("quotes the copy without emoji and names the background", () => {
+    const alt = posterAlt({ product: "Lumi ✨", categoryLabel: "skincare", copy: { tagline: "Glow ✨", caption: "Bright skin." }, background: "Photo of a bottle." });
+    expect(alt).toBe('Poster for Lumi (skincare) with the headline "Glow" and the text "Bright skin." Background: photo of a bottle.');
+  });
+
+  it("falls back to the gradient or an uploaded product photo", () => {
+    expect(posterAlt({ product: "Lumi", copy: { tagline: "Glow", caption: "" }, background: null, language: "fr" })).toBe(
+      "Affiche pour Lumi avec le titre « Glow ». Arrière-plan : dégradé de couleur."
+    );
+    expect(posterAlt({ product: "Lumi", copy: { tagline: "Glow", caption: "" } })).toBe('Poster for Lumi with the headline "Glow". Background: photo of Lumi.');
+  });
+
+  it("clips long captions at a word", () => {
+    const alt = posterAlt({ product: "Lumi", copy: { tagline: "Glow", caption: "bright ".repeat(40) }, background: null });
+    expect(alt).toMatch(/ bright…" Background/);
+    expect(alt.match(/"(bright[^"]*)"/)![1].length).toBeLessThanOrEqual(120);
+  });
+});
+
+describe("accessibilityReport", () => {
+  const text = (fields: Partial<PosterText>): PosterText => ({ element: "tagline", fill: "#ffffff", background: "#777777", ratio: 4.48, fontSize: 40, large: false, ...fields });
+
+  it("errors on low contrast, using the large-text threshold where it applies", () => {
+    const report = accessibilityReport(copy({}), { product: "Lumi", posterText: [text({}), text({ element: "caption", large: true })] });
+    expect(report.ok).toBe(false);
+    expect(report.findings.map((f) => f.message)).toEqual(["Poster tagline contrast 4.48:1 (#ffffff on about #777777); WCAG AA needs 4.5:1"]);
+  });
+
+  it("warns on emoji runs and dense emoji", () => {
+    const report = accessibilityReport(copy({ tagline: "Glow ✨✨✨", caption: "Wow 🎉 so 🎉 good" }), { product: "Lumi" });
+    expect(report.findings.map((f) => [f.field, f.match ?? f.message])).toEqual([
+      ["tagline", "✨✨✨"],
+      ["caption", "2 emoji in 3 words"],
+    ]);
+    expect(report.ok).toBe(true);
+  });
+
+  it("flags flat hashtags and offers the CamelCase product tag", () => {
+    const report = accessibilityReport(copy({ hashtags: ["#lumiserum", "#GLOWSERUMS", "#GlowSerum", "#glow"] }), { product: "Lumi Serum" });
+    expect(report.findings.map((f) => [f.match, f.fix])).toEqual([
+      ["#lumiserum", { from: "#lumiserum", to: "#LumiSerum" }],
+      ["#GLOWSERUMS", undefined],
+    ]);
+  });
+
+  it("checks the alt text when one is given", () => {
+    expect(accessibilityReport(copy({}), { product: "Lumi", posterAlt: " " }).findings).toEqual([
+      expect.objectContaining({ check: "alt-text", severity: "error" }),
+    ]);
+    expect(accessibilityReport(copy({}), { product: "Lumi", posterAlt: "x".repeat(251) }).findings[0]).toMatchObject({ severity: "info" });
+    expect(accessibilityReport(copy({}), { product: "Lumi" }).findings).toEqual([]);
+  });
+});
@@ -0,0 +1,192 @@
+import type { StrictCopy } from "./types";
+import type { Language } from "./languages";
+import type { ImageCandidate } from "./images";
+import type { PosterText } from "./poster";
+import type { LintFinding, LintSeverity } from "./compliance";
+import { countEmoji } from "./platforms";
+import { camelTag } from "./hashtags";
+import { cap, clip } from "./util";
+
+/* ------------ report types (pure, safe to import from the client) ------------ */
+export type A11yCheck = "contrast" | "emoji" | "hashtags" | "alt-text";
+
+export type A11yFinding = {
+  check: A11yCheck;
+  field: keyof StrictCopy | "poster";
+  severity: LintSeverity;
+  message: string;
+  match?: string;
+  suggestion?: string;
+  fix?: LintFinding["fix"]; // hashtag renames, applied with compliance.applyFix
+};
+
+export type A11yReport = {
+  ok: boolean; // no errors
+  findings: A11yFinding[];
+  contrast: PosterText[]; // empty when no poster was rendered
+};
+
+export type AltText = {
+  poster: string;
+  candidates: Record<string, string>; // by candidate id
+  categoryLabel: string; // localized category used in the poster text, so clients can rebuild it after edits
+};
+
+/* ------------ tuning ------------ */
+const ALT_MAX = 250;            // past this screen readers drone on; many apps cut it short too
+const ALT_CAPTION_MAX = 120;    // caption quoted in the poster alt text
+const EMOJI_PER_WORD = 0.2;     // more than one emoji per five words reads as noise
+const EMOJI_RUN = 3;            // consecutive emoji, each read out by name
+const FLAT_TAG_MIN = 9;         // all-lowercase tags this long are probably several words
+
+/* ========== alt text ========== */
+type AltFrame = {
+  poster: (p: { product: string; category: string; tagline: string; caption: string; background: string }) => string;
+  photo: (query: string) => string;
+  placeholder: (product: string) => string;
+  gradient: string;
+};
+
+const FRAMES: Record<Language, AltFrame> = {
+  en: {
+    poster: (p) => `Poster for ${p.product}${p.category ? ` (${p.category})` : ""} with the headline "${p.tagline}"${p.caption ? ` and the text "${p.caption}"` : ""}. Background: ${p.background}.`,
+    photo: (q) => `photo of ${q}`,
+    placeholder: (p) => `Graphic with the words "${p}" on a colour gradient`,
+    gradient: "colour gradient",
+  },
+  es: {
+    poster: (p) => `Póster de ${p.product}${p.category ? ` (${p.category})` : ""} con el titular «${p.tagline}»${p.caption ? ` y el texto «${p.caption}»` : ""}. Fondo: ${p.background}.`,
+    photo: (q) => `foto de ${q}`,
+    placeholder: (p) => `Gráfico con las palabras «${p}» sobre un degradado de color`,
+    gradient: "degradado de color",
+  },
+  fr: {
+    poster: (p) => `Affiche pour ${p.product}${p.category ? ` (${p.category})` : ""} avec le titre « ${p.tagline} »${p.caption ? ` et le texte « ${p.caption} »` : ""}. Arrière-plan : ${p.background}.`,
+    photo: (q) => `photo : ${q}`,
+    placeholder: (p) => `Visuel avec les mots « ${p} » sur un dégradé de couleur`,
+    gradient: "dégradé de couleur",
+  },
+  de: {
+    poster: (p) => `Plakat für ${p.product}${p.category ? ` (${p.category})` : ""} mit der Überschrift „${p.tagline}“${p.caption ? ` und dem Text „${p.caption}“` : ""}. Hintergrund: ${p.background}.`,
+    photo: (q) => `Foto: ${q}`,
+    placeholder: (p) => `Grafik mit den Worten „${p}“ auf einem Farbverlauf`,
+    gradient: "Farbverlauf",
+  },
+};
+
+const clean = (s: string) => s.replace(/\p{Extended_Pictographic}️?/gu, "").replace(/\s+/g, " ").trim();
+
+// The provider's own description wins; otherwise the search query says what the photo was picked for.
+export function candidateAlt(c: ImageCandidate, product: string, language: Language = "en"): string {
+  const f = FRAMES[language];
+  if (c.source === "generated") return f.placeholder(product);
+  const described = c.alt && c.alt !== `${product} placeholder graphic` ? clean(c.alt).replace(/[.\s]+$/, "") : "";
+  return cap(described || f.photo(clean(c.query)));
+}
+
+// Emoji are dropped (they aren't on the poster) and long captions are clipped at a word.
+export function posterAlt(opts: {
+  product: string;
+  categoryLabel?: string;
+  copy: Pick<StrictCopy, "tagline" | "caption">;
+  background?: string | null; // candidateAlt of the photo used; null = gradient, undefined = an upload (assumed the product)
+  language?: Language;
+}): string {
+  const f = FRAMES[opts.language || "en"];
+  const described = opts.background === undefined ? f.photo(clean(opts.product)) : opts.background;
+  const bg = described ? described.charAt(0).toLocaleLowerCase() + described.slice(1) : f.gradient;
+  return f.poster({
+    product: clean(opts.product),
+    category: opts.categoryLabel || "",
+    tagline: clean(opts.copy.tagline),
+    caption: clip(clean(opts.copy.caption), ALT_CAPTION_MAX),
+    background: bg.replace(/[.\s]+$/, ""),
+  }).replace(/([.!?…])(\s?["»“])\./g, "$1$2"); // no full stop after a quote that already ends a sentence
+}
+
+/* ========== checks ========== */
+function contrastFindings(text: PosterText[]): A11yFinding[] {
+  return text.flatMap((t): A11yFinding[] => {
+    const need = t.large ? 3 : 4.5;
+    if (t.ratio >= need) return [];
+    return [
+      {
+        check: "contrast",
+        field: "poster",
+        severity: "error",
+        message: `Poster ${t.element} contrast ${t.ratio}:1 (${t.fill} on about ${t.background}); WCAG AA needs ${need}:1${t.large ? " for large text" : ""}`,
+        suggestion: "Try another layout, a darker accent colour or a calmer photo",
+      },
+    ];
+  });
+}
+
+function emojiFindings(copy: StrictCopy): A11yFinding[] {
+  const out: A11yFinding[] = [];
+  for (const field of ["tagline", "caption"] as const) {
+    const text = copy[field];
+    const n = countEmoji(text);
+    if (!n) continue;
+    const words = (text.match(/[\p{L}\p{N}]+/gu) || []).length;
+    const run = text.match(new RegExp(`(?:\\p{Extended_Pictographic}\\uFE0F?\\s*){${EMOJI_RUN},}`, "u"));
+    if (run) {
+      out.push({
+        check: "emoji",
+        field,
+        severity: "warning",
+        message: `${countEmoji(run[0])} emoji in a row; screen readers read each one by name`,
+        match: run[0].trim(),
+        suggestion: "Keep one",
+      });
+    } else if (n / Math.max(1, words) > EMOJI_PER_WORD) {
+      out.push({ check: "emoji", field, severity: "warning", message: `${n} emoji in ${words} words`, suggestion: "Use emoji sparingly and never in place of words" });
+    }
+  }
+  return out;
+}
+
+// #glowserum is read as one garbled word; #GlowSerum as two. A fix is offered when the tag is the product name.
+function hashtagFindings(copy: StrictCopy, product: string): A11yFinding[] {
+  const productTag = camelTag(product);
+  const out: A11yFinding[] = [];
+  for (const tag of copy.hashtags) {
+    const body = tag.replace(/^#/, "");
+    // One capital at the front (#Glowserum) doesn't help either.
+    const rest = body.slice(1);
+    const flat = body.length >= FLAT_TAG_MIN && /^\p{L}+$/u.test(body) && (rest === rest.toLocaleLowerCase() || body === body.toLocaleUpperCase());
+    if (!flat) continue;
+    const fix = productTag && productTag.toLocaleLowerCase() === tag.toLocaleLowerCase() && productTag !== tag ? { from: tag, to: productTag } : undefined;
+    out.push({
+      check: "hashtags",
+      field: "hashtags",
+      severity: "warning",
+      message: `${tag} isn't CamelCase; screen readers can't tell where the words break`,
+      match: tag,
+      suggestion: fix ? `Use ${fix.to}` : "Capitalise each word",
+      fix,
+    });
+  }
+  return out;
+}
+
+function altFindings(alt: string | undefined): A11yFinding[] {
+  if (alt === undefined) return [];
+  if (!alt.trim()) return [{ check: "alt-text", field: "poster", severity: "error", message: "The poster has no alt text" }];
+  return alt.length > ALT_MAX
+    ? [{ check: "alt-text", field: "poster", severity: "info", message: `Alt text is ${alt.length} chars`, suggestion: `Keep it under ${ALT_MAX}; shorten the caption or tagline` }]
+    : [];
+}
+
+/* ========== main ========== */
+export function accessibilityReport(copy: StrictCopy, opts: { product: string; posterText?: PosterText[]; posterAlt?: string }): A11yReport {
+  const contrast = opts.posterText || [];
+  const findings = [
+    ...contrastFindings(contrast),
+    ...emojiFindings(copy),
+    ...hashtagFindings(copy, opts.product),
+    ...altFindings(opts.posterAlt),
+  ];
+  const order: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+  findings.sort((a, b) => order[a.severity] - order[b.severity]);
+  return { ok: !findings.some((f) => f.severity === "error"), findings, contrast };
+}
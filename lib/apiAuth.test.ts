@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { authenticate, parseApiKeys } from "./apiAuth";
+
+const request = (headers: Record<string, string> = {}) => new Request("http://localhost/api/v1/generate", { headers });
+
+describe("parseApiKeys", () => {
+  it("reads name:key[:limit] entries and skips incomplete ones", () => {
+    const keys = parseApiKeys(" reports:s3cret , cms:0ther:2, broken, :nokey");
+    expect(keys.map(({ name, limit }) => [name, limit])).toEqual([["reports", 60], ["cms", 2]]);
+  });
+});
+
+describe("authenticate", () => {
+  it("is disabled without keys and refuses missing or wrong keys", () => {
+    expect(authenticate(request({ "x-api-key": "s3cret" }), [])).toMatchObject({ ok: false, status: 503 });
+    const keys = parseApiKeys("reports:s3cret");
+    expect(authenticate(request(), keys)).toMatchObject({ ok: false, status: 401, error: { error: "Missing API key" } });
+    expect(authenticate(request({ authorization: "Bearer nope" }), keys)).toMatchObject({ ok: false, status: 401, error: { error: "Invalid API key" } });
+  });
+
+  it("accepts either header and rate-limits per key", () => {
+    const keys = parseApiKeys("limited-test:k3y:2");
+    const first = authenticate(request({ authorization: "Bearer k3y" }), keys);
+    expect(first).toMatchObject({ ok: true, key: { name: "limited-test" }, headers: { "X-RateLimit-Limit": "2", "X-RateLimit-Remaining": "1" } });
+    expect(authenticate(request({ "x-api-key": "k3y" }), keys)).toMatchObject({ ok: true, headers: { "X-RateLimit-Remaining": "0" } });
+    const refused = authenticate(request({ "x-api-key": "k3y" }), keys);
+    expect(refused).toMatchObject({ ok: false, status: 429, error: { code: "rate_limited" } });
+    expect(refused.headers["Retry-After"]).toMatch(/^\d+$/);
+  });
+});
@@ -0,0 +1,77 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { apiError, type ApiError } from "./validate";
+import { globalSingleton } from "./util";
+
+/* ------------ types ------------ */
+export type ApiKey = { name: string; hash: Buffer; limit: number };
+
+export type RateInfo = { limit: number; remaining: number; resetAt: number }; // resetAt in epoch ms
+
+export type AuthResult =
+  | { ok: true; key: ApiKey; rate: RateInfo; headers: Record<string, string> }
+  | { ok: false; status: number; error: ApiError; headers: Record<string, string> };
+
+/* ------------ env ------------ */
+// API_KEYS="reports:s3cret,cms:0ther:120" — name:key[:requests per minute], comma-separated.
+const DEFAULT_LIMIT = Math.max(1, Number(process.env.API_RATE_LIMIT) || 60);
+const WINDOW_MS = 60_000;
+
+const sha256 = (s: string) => createHash("sha256").update(s).digest();
+
+export function parseApiKeys(env = process.env.API_KEYS || ""): ApiKey[] {
+  return env
+    .split(",")
+    .map((entry) => entry.trim().split(":"))
+    .filter(([name, key]) => name && key)
+    .map(([name, key, limit]) => ({ name, hash: sha256(key), limit: Math.max(1, Number(limit) || DEFAULT_LIMIT) }));
+}
+
+/* ------------ rate windows ------------ */
+// Fixed one-minute window per key.
+const windows = globalSingleton("__apiRateWindows", () => new Map<string, { start: number; count: number }>());
+
+function take(key: ApiKey, now = Date.now()): RateInfo & { allowed: boolean } {
+  let w = windows.get(key.name);
+  if (!w || now - w.start >= WINDOW_MS) {
+    w = { start: now, count: 0 };
+    windows.set(key.name, w);
+  }
+  const allowed = w.count < key.limit;
+  if (allowed) w.count++;
+  return { allowed, limit: key.limit, remaining: Math.max(0, key.limit - w.count), resetAt: w.start + WINDOW_MS };
+}
+
+const rateHeaders = (r: RateInfo): Record<string, string> => ({
+  "X-RateLimit-Limit": String(r.limit),
+  "X-RateLimit-Remaining": String(r.remaining),
+  "X-RateLimit-Reset": String(Math.ceil(r.resetAt / 1000)),
+});
+
+/* ========== authenticate ========== */
+// Accepts `Authorization: Bearer <key>` or `X-API-Key: <key>`; every configured key is compared in constant time.
+export function authenticate(req: Request, keys = parseApiKeys()): AuthResult {
+  if (!keys.length) {
+    return { ok: false, status: 503, error: apiError("api_disabled", "API access is not configured (set API_KEYS)"), headers: {} };
+  }
+  const auth = req.headers.get("authorization") || "";
+  const presented = (auth.match(/^Bearer\s+(.+)$/i)?.[1] || req.headers.get("x-api-key") || "").trim();
+  const unauthorized = { "WWW-Authenticate": 'Bearer realm="brand-in-a-box"' };
+  if (!presented) return { ok: false, status: 401, error: apiError("unauthorized", "Missing API key"), headers: unauthorized };
+
+  const hash = sha256(presented);
+  const key = keys.reduce<ApiKey | null>((hit, k) => (timingSafeEqual(k.hash, hash) ? k : hit), null);
+  if (!key) return { ok: false, status: 401, error: apiError("unauthorized", "Invalid API key"), headers: unauthorized };
+
+  const rate = take(key);
+  const headers = rateHeaders(rate);
+  if (!rate.allowed) {
+    const retryAfter = String(Math.max(1, Math.ceil((rate.resetAt - Date.now()) / 1000)));
+    return {
+      ok: false,
+      status: 429,
+      error: apiError("rate_limited", `Rate limit of ${key.limit} requests per minute exceeded`),
+      headers: { ...headers, "Retry-After": retryAfter },
+    };
+  }
+  return { ok: true, key, rate, headers };
+}
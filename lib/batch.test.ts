@@ -0,0 +1,56 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { parseCsv } from "./csv";
+
+// The store reads DATA_DIR when it is first imported.
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "batch-test-"));
+process.env.LOG_LEVEL = "silent";
+const { mapLimit, validateRow } = await import("./batch");
+afterAll(() => rmSync(process.env.DATA_DIR!, { recursive: true, force: true }));
+
+describe("validateRow", () => {
+  it("maps header spellings onto request fields", () => {
+    const [row] = parseCsv('Product,Key Benefit,key_benefit,Include Image,Lang\r\n"Lumi, 30ml",glow,,no,Deutsch\r\n');
+    expect(validateRow(row)).toEqual({ request: { product: "Lumi, 30ml", keyBenefit: "glow", includeImage: false, language: "de" } });
+  });
+
+  it("ignores columns that only match Object.prototype", () => {
+    expect(validateRow({ product: "Lumi", constructor: "x", toString: "y", hasOwnProperty: "z" })).toEqual({ request: { product: "Lumi" } });
+  });
+
+  it("applies the API's enum, pattern and length rules", () => {
+    const result = validateRow({ product: "x".repeat(121), platform: "myspace", "brand kit": "../kits", pack: "Fancy Pack" });
+    expect("errors" in result && result.errors).toEqual([
+      "product: longer than 120 characters",
+      expect.stringMatching(/^platform: must be one of instagram-feed, /),
+      "brandKitId: does not match ^[\\w-]+$",
+      "templatePack: does not match ^[a-z0-9][a-z0-9-]*$",
+    ]);
+  });
+
+  it("reports bad booleans, languages and a missing product together", () => {
+    const result = validateRow({ includeImage: "maybe", language: "klingon" });
+    expect("errors" in result && result.errors).toEqual([
+      'includeImage: expected true/false, got "maybe"',
+      'language: unsupported "klingon"',
+      "product: required",
+    ]);
+  });
+});
+
+describe("mapLimit", () => {
+  it("keeps order and never runs more than the limit at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const out = await mapLimit([30, 10, 20, 5, 15], 2, async (ms, i) => {
+      peak = Math.max(peak, ++running);
+      await new Promise((r) => setTimeout(r, ms));
+      running--;
+      return i;
+    });
+    expect(out).toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+});
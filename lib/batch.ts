@@ -0,0 +1,197 @@
+import type { GenReq, StrictCopy } from "./types";
+import { composeCopy } from "./compose";
+import { buildImageQueries, findCandidates, type ImageCandidate, type ImageWarning } from "./images";
+import { resolvePlatform } from "./platforms";
+import { resolveLanguage } from "./languages";
+import { getPack } from "./packFiles";
+import { lintCopy, type LintReport } from "./compliance";
+import { enforceBannedWords, getBrandKit, withBrandKit, type BrandKit } from "./brandKits";
+import { validateGenReq } from "./validate";
+import { getHashtagDictionary } from "./hashtagStore";
+import { listVoices } from "./voices";
+import { blockedFields, moderateBrief, moderateCopy, type ModerationReport } from "./moderation";
+import { getModerationConfig } from "./moderationStore";
+
+/* ------------ types ------------ */
+export type BatchRowResult =
+  | {
+      index: number;
+      ok: true;
+      request: GenReq;
+      seed: number;
+      templateIndex: number;
+      copy: StrictCopy;
+      lint: LintReport;
+      candidates: ImageCandidate[];
+      warnings: ImageWarning[];
+      moderation: ModerationReport;
+    }
+  | { index: number; ok: false; request?: Partial<GenReq>; errors: string[] };
+
+export type BatchEvent =
+  | { type: "start"; total: number; invalid: number }
+  | { type: "row"; done: number; total: number; row: BatchRowResult }
+  | { type: "done"; total: number; succeeded: number; failed: number };
+
+/* ------------ env ------------ */
+export const MAX_BATCH_ROWS = 1000;
+const CONCURRENCY = Math.max(1, Number(process.env.BATCH_CONCURRENCY) || 3);
+
+/* ========== row validation ========== */
+// CSV headers come in many spellings: "Key Benefit", "key_benefit", "keyBenefit".
+const FIELD_ALIASES: Record<string, keyof GenReq> = {
+  product: "product",
+  category: "category",
+  keybenefit: "keyBenefit",
+  benefit: "keyBenefit",
+  audience: "audience",
+  tone: "tone",
+  platform: "platform",
+  imagestyle: "imageStyle",
+  colorhint: "colorHint",
+  color: "colorHint",
+  includeimage: "includeImage",
+  imagequery: "imageQuery",
+  imagekeywords: "imageQuery",
+  brandkitid: "brandKitId",
+  brandkit: "brandKitId",
+  language: "language",
+  lang: "language",
+  locale: "language",
+  templatepack: "templatePack",
+  pack: "templatePack",
+};
+
+// Aliases only shape the row; the result goes through validateGenReq so enum, pattern and length rules match the API.
+export function validateRow(raw: unknown): { request: GenReq } | { request: Partial<GenReq>; errors: string[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { request: {}, errors: ["row must be an object"] };
+  }
+  const req: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const alias = key.toLowerCase().replace(/[^a-z]/g, "");
+    const field = Object.hasOwn(FIELD_ALIASES, alias) ? FIELD_ALIASES[alias] : undefined;
+    if (!field || value === "" || value == null) continue;
+    if (field === "includeImage") {
+      if (typeof value === "boolean") req[field] = value;
+      else if (/^(true|yes|1)$/i.test(String(value))) req[field] = true;
+      else if (/^(false|no|0)$/i.test(String(value))) req[field] = false;
+      else errors.push(`includeImage: expected true/false, got "${value}"`);
+      continue;
+    }
+    if (field === "language") {
+      const lang = resolveLanguage(String(value));
+      if (lang) req[field] = lang;
+      else errors.push(`language: unsupported "${value}"`);
+      continue;
+    }
+    if (typeof value !== "string" && typeof value !== "number") {
+      errors.push(`${field}: expected text`);
+      continue;
+    }
+    req[field] = String(value).trim();
+  }
+
+  const checked = validateGenReq(req);
+  if ("errors" in checked) errors.push(...checked.errors.map((e) => `${e.path}: ${e.message}`));
+  return errors.length || "errors" in checked ? { request: req as Partial<GenReq>, errors } : { request: checked.value };
+}
+
+/* ========== bounded concurrency ========== */
+export async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T, i: number) => Promise<R>): Promise<R[]> {
+  const out = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return out;
+}
+
+/* ========== run ========== */
+async function generateRow(index: number, input: GenReq, kits: Map<string, BrandKit | null>): Promise<BatchRowResult> {
+  let kit: BrandKit | null = null;
+  if (input.brandKitId) {
+    if (!kits.has(input.brandKitId)) kits.set(input.brandKitId, await getBrandKit(input.brandKitId));
+    kit = kits.get(input.brandKitId) || null;
+    if (!kit) return { index, ok: false, request: input, errors: [`brandKitId: "${input.brandKitId}" not found`] };
+  }
+
+  const pack = await getPack(input.templatePack);
+  if (!pack) return { index, ok: false, request: input, errors: [`templatePack: "${input.templatePack}" not found`] };
+  if (!pack.languages[input.language || "en"]) {
+    return { index, ok: false, request: input, errors: [`templatePack: "${pack.id}" has no ${input.language || "en"} templates`] };
+  }
+
+  const { config } = await getModerationConfig();
+  const briefCheck = moderateBrief(input, config, kit?.imageKeywords);
+  if (briefCheck.report.blocked) {
+    return { index, ok: false, request: input, errors: blockedFields(briefCheck.report).map((f) => `${f.path}: blocked, contains ${f.message}`) };
+  }
+  const req = withBrandKit(briefCheck.brief, kit);
+  const profile = resolvePlatform(req.platform);
+  const { copy, debug } = composeCopy(
+    req.product, req.category, req.keyBenefit, req.audience, req.tone, req.platform, undefined, kit || undefined, req.language, pack,
+    (await getHashtagDictionary()).dictionary, undefined, await listVoices()
+  );
+  const queries = buildImageQueries(req.product, req.category, req.imageStyle, req.colorHint, req.imageQuery, briefCheck.imageKeywords);
+  const { candidates, warnings } =
+    req.includeImage === false
+      ? { candidates: [], warnings: [] }
+      : await findCandidates(queries, { n: 3, orientation: profile.orientation, size: profile.size, label: req.product, brandKitId: kit?.id });
+
+  const copyCheck = moderateCopy(enforceBannedWords(copy, kit?.bannedWords || []).copy, config);
+  if (copyCheck.report.blocked) {
+    return { index, ok: false, request: input, errors: blockedFields(copyCheck.report).map((f) => `${f.path}: blocked, contains ${f.message}`) };
+  }
+  const finalCopy = copyCheck.copy;
+  return {
+    index,
+    ok: true,
+    request: input,
+    seed: debug.seed,
+    templateIndex: debug.templateIndex,
+    copy: finalCopy,
+    lint: lintCopy(finalCopy, { category: req.category, language: req.language, pack }),
+    candidates: candidates.filter((c) => c.source !== "generated"),
+    warnings,
+    moderation: { blocked: false, findings: [...briefCheck.report.findings, ...copyCheck.report.findings] },
+  };
+}
+
+// Invalid rows are reported up front; valid rows run `CONCURRENCY` at a time so Pexels isn't hammered.
+export async function runBatch(rows: unknown[], emit: (e: BatchEvent) => void) {
+  const checked = rows.map((r) => validateRow(r));
+  const total = checked.length;
+  let done = 0;
+  let failed = 0;
+
+  emit({ type: "start", total, invalid: checked.filter((c) => "errors" in c).length });
+
+  const pending: { index: number; request: GenReq }[] = [];
+  checked.forEach((c, index) => {
+    if ("errors" in c) {
+      failed++;
+      emit({ type: "row", done: ++done, total, row: { index, ok: false, request: c.request, errors: c.errors } });
+    } else pending.push({ index, request: c.request });
+  });
+
+  const kits = new Map<string, BrandKit | null>();
+  await mapLimit(pending, CONCURRENCY, async ({ index, request }) => {
+    let row: BatchRowResult;
+    try {
+      row = await generateRow(index, request, kits);
+    } catch (e) {
+      row = { index, ok: false, request, errors: [e instanceof Error ? e.message : String(e)] };
+    }
+    if (!row.ok) failed++;
+    emit({ type: "row", done: ++done, total, row });
+  });
+
+  emit({ type: "done", total, succeeded: total - failed, failed });
+}
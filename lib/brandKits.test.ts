@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { enforceBannedListing, enforceBannedWords } from "./brandKits";
+
+const copy = {
+  tagline: "Un sérum étonnant",
+  caption: "Étonnant et économique, über alles.",
+  shortDescription: "Économique. Pas étonnante.",
+  hashtags: ["#Étonnant", "#Glow"],
+};
+
+describe("enforceBannedWords", () => {
+  it("removes whole words, accented ones included, whatever their case", () => {
+    const { copy: clean, removed } = enforceBannedWords(copy, ["étonnant", "économique", "über"]);
+    expect(clean).toEqual({
+      tagline: "Un sérum",
+      caption: "et, alles.",
+      shortDescription: ". Pas étonnante.",
+      hashtags: ["#Glow"],
+    });
+    expect(removed.sort()).toEqual(["économique", "étonnant", "über"]);
+  });
+
+  it("leaves longer words that merely contain a banned one", () => {
+    const { copy: clean, removed } = enforceBannedWords({ ...copy, hashtags: [] }, ["sérum"]);
+    expect(clean.tagline).toBe("Un étonnant");
+    expect(enforceBannedWords({ ...copy, tagline: "Sérums" }, ["sérum"]).copy.tagline).toBe("Sérums");
+    expect(removed).toEqual(["sérum"]);
+  });
+
+  it("returns the copy untouched without banned words", () => {
+    expect(enforceBannedWords(copy, [])).toEqual({ copy, removed: [] });
+  });
+});
+
+describe("enforceBannedListing", () => {
+  it("cleans text fields and drops keywords containing a banned word", () => {
+    const listing = {
+      title: "Sérum über glow",
+      bullets: ["Über", "Light texture"],
+      description: "Über.\n\nFor every day.",
+      metaDescription: "An über serum.",
+      slug: "serum",
+      keywords: ["über serum", "serum", "überall"],
+    };
+    const { listing: clean, removed } = enforceBannedListing(listing, ["über"]);
+    expect(clean).toMatchObject({
+      title: "Sérum glow",
+      bullets: ["Light texture"],
+      description: ".\n\nFor every day.",
+      metaDescription: "An serum.",
+      keywords: ["serum", "überall"],
+    });
+    expect(removed).toEqual(["über"]);
+  });
+});
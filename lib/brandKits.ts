@@ -0,0 +1,174 @@
+import { randomUUID } from "crypto";
+import type { GenReq, StrictCopy } from "./types";
+import type { ProductListing } from "./listing";
+import { readJson, updateJson } from "./store";
+import { escapeRe } from "./util";
+
+/* ------------ types ------------ */
+export type BrandKit = {
+  id: string;
+  name: string;
+  voice?: string;    // free-text voice description, e.g. "warm, witty, no jargon"
+  tone?: string;     // tone keyword fed to the composer (friendly, playful, luxury…)
+  audience?: string;
+  palette: string[]; // hex colours, primary first
+  preferredWords: string[];
+  bannedWords: string[];
+  defaultHashtags: string[];
+  imageKeywords: string[];
+  imageStyle?: string;
+  logo?: string;     // https URL or small image data URL
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BrandKitInput = Omit<BrandKit, "id" | "createdAt" | "updatedAt">;
+
+/* ------------ storage ------------ */
+const FILE = "brand-kits.json";
+const MAX_LOGO_CHARS = 700_000; // ~512KB image as base64
+
+export const listBrandKits = () => readJson<BrandKit[]>(FILE, []);
+
+export async function getBrandKit(id: string) {
+  return (await listBrandKits()).find((k) => k.id === id) || null;
+}
+
+export function createBrandKit(input: BrandKitInput) {
+  const now = new Date().toISOString();
+  const kit: BrandKit = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+  return updateJson(FILE, [] as BrandKit[], (kits) => ({ next: [...kits, kit], result: kit }));
+}
+
+export function updateBrandKit(id: string, input: BrandKitInput) {
+  return updateJson(FILE, [] as BrandKit[], (kits) => {
+    const old = kits.find((k) => k.id === id);
+    if (!old) return { next: kits, result: null };
+    const kit: BrandKit = { ...input, id, createdAt: old.createdAt, updatedAt: new Date().toISOString() };
+    return { next: kits.map((k) => (k.id === id ? kit : k)), result: kit };
+  });
+}
+
+export function deleteBrandKit(id: string) {
+  return updateJson(FILE, [] as BrandKit[], (kits) => ({
+    next: kits.filter((k) => k.id !== id),
+    result: kits.some((k) => k.id === id),
+  }));
+}
+
+/* ========== applying a kit ========== */
+// Brief fields win; the kit fills whatever was left blank. The kit's voice always joins the tone, so the composer's
+// tone reading and the LLM prompt both see it ("playful" + "warm, witty" → "playful, warm, witty").
+export function withBrandKit(req: GenReq, kit: BrandKit | null): GenReq {
+  if (!kit || !req) return req;
+  return {
+    ...req,
+    tone: [req.tone || kit.tone, kit.voice].filter(Boolean).join(", ") || undefined,
+    audience: req.audience || kit.audience,
+    imageStyle: req.imageStyle || kit.imageStyle,
+    colorHint: req.colorHint || kit.palette.join(", ") || undefined,
+  };
+}
+
+/* ========== input parsing ========== */
+const str = (v: unknown, max: number) => (typeof v === "string" ? v.trim().slice(0, max) : undefined) || undefined;
+const list = (v: unknown, max: number) =>
+  (Array.isArray(v) ? v : typeof v === "string" ? v.split(",") : [])
+    .filter((x): x is string => typeof x === "string")
+    .map((x) => x.trim())
+    .filter(Boolean)
+    .slice(0, max);
+
+export function parseBrandKitInput(body: unknown): { input: BrandKitInput } | { error: string } {
+  const b = (body || {}) as Record<string, unknown>;
+  const name = str(b.name, 80);
+  if (!name) return { error: "Missing name" };
+
+  const palette = list(b.palette, 8);
+  const badColour = palette.find((c) => !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(c));
+  if (badColour) return { error: `Palette colours must be hex, got "${badColour}"` };
+
+  const logo = str(b.logo, MAX_LOGO_CHARS + 1);
+  if (logo && !/^(https:\/\/|data:image\/(png|jpeg|webp|svg\+xml);base64,)/i.test(logo)) {
+    return { error: "Logo must be an https URL or an image data URL" };
+  }
+  if (logo && logo.length > MAX_LOGO_CHARS) return { error: "Logo is too large (max 512KB)" };
+
+  return {
+    input: {
+      name,
+      voice: str(b.voice, 200),
+      tone: str(b.tone, 40),
+      audience: str(b.audience, 120),
+      palette,
+      preferredWords: list(b.preferredWords, 30),
+      bannedWords: list(b.bannedWords, 100).map((w) => w.toLowerCase()),
+      defaultHashtags: list(b.defaultHashtags, 10).map((h) => (h.startsWith("#") ? h : `#${h}`).replace(/\s+/g, "")),
+      imageKeywords: list(b.imageKeywords, 10),
+      imageStyle: str(b.imageStyle, 120),
+      logo,
+    },
+  };
+}
+
+/* ========== banned words ========== */
+// Letter/digit lookarounds rather than \b, which only knows ASCII: "über" or "économique" must match too.
+const wordRe = (w: string, flags = "giu") => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRe(w)}(?![\\p{L}\\p{N}])`, flags);
+
+export const stripBanned = (s: string, banned: string[], removed: Set<string>) =>
+  banned
+    .reduce((acc, w) => {
+      const re = wordRe(w);
+      if (re.test(acc)) removed.add(w);
+      return acc.replace(re, "");
+    }, s)
+    .replace(/\s+([,.!?:;)])/g, "$1")
+    .replace(/\(\s+/g, "(")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+
+// Drops banned words from the text fields and any hashtag containing one; reports what was hit.
+export function enforceBannedWords(copy: StrictCopy, banned: string[]): { copy: StrictCopy; removed: string[] } {
+  if (!banned.length) return { copy, removed: [] };
+  const removed = new Set<string>();
+  const clean = (s: string) => stripBanned(s, banned, removed);
+
+  const hashtags = copy.hashtags.filter((h) => {
+    const hit = banned.find((w) => h.toLowerCase().includes(w.replace(/\s+/g, "").toLowerCase()));
+    if (hit) removed.add(hit);
+    return !hit;
+  });
+
+  return {
+    copy: {
+      tagline: clean(copy.tagline),
+      caption: clean(copy.caption),
+      shortDescription: clean(copy.shortDescription),
+      hashtags,
+    },
+    removed: Array.from(removed),
+  };
+}
+
+// Same for a shop listing; keywords containing a banned word are dropped rather than edited.
+export function enforceBannedListing(listing: ProductListing, banned: string[]): { listing: ProductListing; removed: string[] } {
+  if (!banned.length) return { listing, removed: [] };
+  const removed = new Set<string>();
+  const clean = (s: string) => stripBanned(s, banned, removed);
+  const keywords = listing.keywords.filter((k) => {
+    const hit = banned.find((w) => wordRe(w, "iu").test(k));
+    if (hit) removed.add(hit);
+    return !hit;
+  });
+  return {
+    listing: {
+      ...listing,
+      title: clean(listing.title),
+      bullets: listing.bullets.map(clean).filter(Boolean),
+      description: listing.description.split("\n\n").map(clean).filter(Boolean).join("\n\n"),
+      metaDescription: clean(listing.metaDescription),
+      keywords,
+    },
+    removed: Array.from(removed),
+  };
+}
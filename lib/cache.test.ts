@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createTtlCache } from "./cache";
+
+describe("createTtlCache", () => {
+  it("shares one load between identical in-flight keys", async () => {
+    const cache = createTtlCache<number>("test-dedupe", { ttlMs: 60_000 });
+    let loads = 0;
+    const load = async () => {
+      loads++;
+      await new Promise((r) => setTimeout(r, 10));
+      return 42;
+    };
+    expect(await Promise.all([cache.get("k", load), cache.get("k", load), cache.get("k", load)])).toEqual([42, 42, 42]);
+    expect(await cache.get("k", load)).toBe(42);
+    expect(loads).toBe(1);
+    expect(cache.stats()).toMatchObject({ entries: 1, misses: 1, deduped: 2, hits: 1 });
+  });
+
+  it("only keeps what `keep` accepts and expires entries", async () => {
+    const cache = createTtlCache<{ ok: boolean }>("test-keep", { ttlMs: 5 });
+    let loads = 0;
+    const load = async () => ({ ok: ++loads > 1 });
+    const keep = (v: { ok: boolean }) => v.ok;
+    expect(await cache.get("k", load, keep)).toEqual({ ok: false });
+    expect(await cache.get("k", load, keep)).toEqual({ ok: true });
+    await new Promise((r) => setTimeout(r, 10));
+    await cache.get("k", load, keep);
+    expect(loads).toBe(3);
+  });
+
+  it("drops the oldest entries past maxEntries", async () => {
+    const cache = createTtlCache<string>("test-size", { ttlMs: 60_000, maxEntries: 2 });
+    for (const k of ["a", "b", "c"]) await cache.get(k, async () => k);
+    expect(cache.stats().entries).toBe(2);
+  });
+});
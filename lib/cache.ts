@@ -0,0 +1,96 @@
+import { createHash } from "crypto";
+import { readJson, writeJson } from "./store";
+import { globalSingleton } from "./util";
+
+/* ------------ types ------------ */
+export type CacheStats = {
+  name: string;
+  entries: number;
+  hits: number;
+  diskHits: number;
+  misses: number;
+  deduped: number; // callers that joined an identical in-flight load
+  ttlMs: number;
+  disk: boolean;
+};
+
+type Entry<T> = { value: T; expires: number };
+
+type CacheState = {
+  memory: Map<string, Entry<unknown>>;
+  inflight: Map<string, Promise<unknown>>;
+  counts: { hits: number; diskHits: number; misses: number; deduped: number };
+};
+
+const registry = globalSingleton("__ttlCaches", () => new Map<string, CacheState>());
+
+export type TtlCache<T> = {
+  get: (key: string, load: () => Promise<T>, keep?: (value: T) => boolean) => Promise<T>;
+  stats: () => CacheStats;
+};
+
+/* ========== TTL cache ========== */
+// Memory first, then (optionally) one JSON file per key under DATA_DIR/cache/<name>/.
+// Identical keys loading at the same time share one promise; `keep` decides what is worth caching.
+export function createTtlCache<T>(name: string, opts: { ttlMs: number; maxEntries?: number; disk?: boolean }): TtlCache<T> {
+  const { ttlMs, maxEntries = 500, disk = false } = opts;
+  if (!registry.has(name)) {
+    registry.set(name, { memory: new Map(), inflight: new Map(), counts: { hits: 0, diskHits: 0, misses: 0, deduped: 0 } });
+  }
+  const state = registry.get(name) as CacheState;
+  const memory = state.memory as Map<string, Entry<T>>;
+  const inflight = state.inflight as Map<string, Promise<T>>;
+  const counts = state.counts;
+  const fileFor = (key: string) => `cache/${name}/${createHash("sha1").update(key).digest("hex")}.json`;
+
+  const remember = (key: string, entry: Entry<T>) => {
+    memory.delete(key);
+    memory.set(key, entry);
+    // Map keeps insertion order, so the first key is the least recently stored.
+    while (memory.size > maxEntries) memory.delete(memory.keys().next().value as string);
+  };
+
+  async function get(key: string, load: () => Promise<T>, keep: (value: T) => boolean = () => true): Promise<T> {
+    const now = Date.now();
+    const hit = memory.get(key);
+    if (hit && hit.expires > now) {
+      counts.hits++;
+      return hit.value;
+    }
+    if (hit) memory.delete(key);
+
+    const pending = inflight.get(key);
+    if (pending) {
+      counts.deduped++;
+      return pending;
+    }
+
+    const run = (async () => {
+      if (disk) {
+        const stored = await readJson<Entry<T> | null>(fileFor(key), null).catch(() => null);
+        if (stored && stored.expires > Date.now()) {
+          counts.diskHits++;
+          remember(key, stored);
+          return stored.value;
+        }
+      }
+      counts.misses++;
+      const value = await load();
+      if (keep(value)) {
+        const entry = { value, expires: Date.now() + ttlMs };
+        remember(key, entry);
+        if (disk) await writeJson(fileFor(key), entry).catch(() => undefined);
+      }
+      return value;
+    })();
+
+    inflight.set(key, run);
+    try {
+      return await run;
+    } finally {
+      inflight.delete(key);
+    }
+  }
+
+  return { get, stats: () => ({ name, entries: memory.size, ...counts, ttlMs, disk }) };
+}
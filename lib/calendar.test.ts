@@ -0,0 +1,111 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import type { ContentPlan } from "./calendar";
+
+// The store reads DATA_DIR when it is first imported.
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "calendar-test-"));
+const { planToIcs, savePlan, updatePlan, validateCalendarReq, zonedToUtc } = await import("./calendar");
+afterAll(() => rmSync(process.env.DATA_DIR!, { recursive: true, force: true }));
+
+const copy = { tagline: "Glow on", caption: "Meet Lumi, the serum for busy mornings.", shortDescription: "A light serum.", hashtags: ["#Glow"] };
+
+const plan = (): ContentPlan => ({
+  id: "0b6f1a52-4a7e-4c39-9a51-7d0c6a1e2f30",
+  name: "Lumi launch",
+  createdAt: "2026-03-01T00:00:00.000Z",
+  updatedAt: "2026-03-01T00:00:00.000Z",
+  request: {
+    brief: { product: "Lumi" },
+    start: "2026-03-02",
+    end: "2026-03-03",
+    launchDate: "2026-03-02",
+    cadence: "daily",
+    platforms: ["x"],
+    time: "09:30",
+    timezone: "Europe/Berlin",
+  },
+  language: "en",
+  templatePack: "default",
+  posts: ["6c0d5d3e-0d4b-4c0e-8f3e-1a2b3c4d5e01", "6c0d5d3e-0d4b-4c0e-8f3e-1a2b3c4d5e02"].map((id, i) => ({
+    id,
+    date: `2026-03-0${i + 2}`,
+    time: "09:30",
+    platform: "x",
+    phase: "launch",
+    seed: i,
+    templateIndex: i,
+    copy,
+    image: null,
+  })),
+  images: [],
+});
+
+describe("validateCalendarReq", () => {
+  it("accepts a brief and a date range", () => {
+    const result = validateCalendarReq({ brief: { product: "Lumi" }, start: "2026-03-01", end: "2026-03-31", platforms: ["x", "x"] });
+    expect(result).toMatchObject({ value: { start: "2026-03-01", end: "2026-03-31", platforms: ["x"] } });
+  });
+
+  it("reports brief errors under brief and checks dates, cadence, time and zone", () => {
+    const result = validateCalendarReq({
+      brief: { product: "" },
+      start: "2026-03-10",
+      end: "2026-03-01",
+      launchDate: "2026-13-01",
+      cadence: "hourly",
+      platforms: ["x", "myspace"],
+      time: "24:00",
+      timezone: "Mars/Olympus",
+    });
+    expect("errors" in result && result.errors.map((e) => e.path)).toEqual([
+      "brief.product", "end", "launchDate", "cadence", "platforms[1]", "time", "timezone",
+    ]);
+  });
+
+  it("limits the range and rejects non-objects", () => {
+    const long = validateCalendarReq({ brief: { product: "Lumi" }, start: "2026-01-01", end: "2026-12-31" });
+    expect(long).toEqual({ errors: [{ path: "end", message: "at most 92 days after start" }] });
+    expect(validateCalendarReq([])).toEqual({ errors: [{ path: "", message: "expected a JSON object" }] });
+  });
+});
+
+describe("zonedToUtc", () => {
+  it("converts wall time on both sides of a DST change", () => {
+    expect(zonedToUtc("2026-03-28", "09:30", "Europe/Berlin").toISOString()).toBe("2026-03-28T08:30:00.000Z");
+    expect(zonedToUtc("2026-03-30", "09:30", "Europe/Berlin").toISOString()).toBe("2026-03-30T07:30:00.000Z");
+    expect(zonedToUtc("2026-03-30", "09:30", "UTC").toISOString()).toBe("2026-03-30T09:30:00.000Z");
+  });
+});
+
+describe("planToIcs", () => {
+  it("escapes text, folds long lines and ends lines with CRLF", () => {
+    const p = plan();
+    p.posts[0].notes = "Pair with the Ü-serum carousel — ".repeat(4);
+    const ics = planToIcs({ ...p, name: "Lumi; spring, launch" });
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("X-WR-CALNAME:Lumi\\; spring\\, launch");
+    expect(ics).toContain("DTSTART:20260302T083000Z");
+    for (const line of ics.split("\r\n")) expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    expect(ics.split("\r\n").some((line) => line.startsWith(" "))).toBe(true);
+  });
+});
+
+describe("updatePlan", () => {
+  it("rejects a post listed twice", async () => {
+    const saved = await savePlan(plan());
+    const id = saved.posts[0].id;
+    expect(await updatePlan(saved.id, { posts: [{ id }, { id }] })).toEqual({ errors: [{ path: "posts[1].id", message: "listed more than once" }] });
+  });
+
+  it("moderates edited copy", async () => {
+    const saved = await savePlan(plan());
+    const [a, b] = saved.posts;
+    const blocked = await updatePlan(saved.id, { posts: [{ id: a.id }, { id: b.id, copy: { ...copy, caption: "Damn good serum" } }] });
+    expect(blocked).toEqual({ blocked: [{ path: "posts[1].copy.caption", message: expect.stringMatching(/^profanity/) }] });
+
+    const sanitized = await updatePlan(saved.id, { posts: [{ id: a.id, copy: { ...copy, caption: "Meet <b>Lumi</b>" } }] });
+    expect(sanitized).toMatchObject({ plan: { posts: [{ copy: { caption: "Meet Lumi" } }] }, moderation: { blocked: false } });
+  });
+});
@@ -0,0 +1,532 @@
+import { randomUUID } from "crypto";
+import type { GenReq, StrictCopy } from "./types";
+import { briefSeed, composeCopy, hashString } from "./compose";
+import { enforceBannedWords, getBrandKit, withBrandKit } from "./brandKits";
+import { buildImageQueries, findCandidates, type ImageCandidate, type ImageSource } from "./images";
+import { attribution } from "./util";
+import { assemblePost, PLATFORM_PROFILES, resolvePlatform, type Orientation, type PlatformId } from "./platforms";
+import type { Language } from "./languages";
+import { getPack } from "./packFiles";
+import { LAUNCH_PHASES, type LaunchPhase } from "./packs";
+import { getHashtagDictionary } from "./hashtagStore";
+import { listVoices } from "./voices";
+import { blockedFields, mergeReports, moderateBrief, moderateCopy, type ModerationReport } from "./moderation";
+import { getModerationConfig } from "./moderationStore";
+import { candidateAlt } from "./a11y";
+import { toCsv } from "./csv";
+import { parseCopy } from "./history";
+import { apiError, invalidRequest, moderationBlocked, validateGenReq, type ApiError, type FieldError } from "./validate";
+import { readJson, removeJson, updateJson, writeJson } from "./store";
+
+/* ------------ types ------------ */
+export type Cadence = "daily" | "weekdays" | "3-per-week" | "2-per-week" | "weekly";
+export const CADENCES: Cadence[] = ["daily", "weekdays", "3-per-week", "2-per-week", "weekly"];
+
+export type CalendarReq = {
+  brief: GenReq;
+  start: string;       // YYYY-MM-DD, inclusive
+  end: string;         // YYYY-MM-DD, inclusive
+  launchDate?: string; // defaults to the slot a quarter of the way in; always gets a post
+  cadence?: Cadence;   // default 3-per-week (Mon/Wed/Fri)
+  platforms?: PlatformId[]; // default brief.platform
+  time?: string;       // HH:MM local posting time (default 10:00)
+  timezone?: string;   // IANA zone for `time` (default UTC)
+  name?: string;
+};
+
+export type PlanImage = { url: string; thumbUrl: string; source: ImageSource; attribution: string; alt: string };
+
+export type PlannedPost = {
+  id: string;
+  date: string;
+  time: string;
+  platform: PlatformId;
+  phase: LaunchPhase;
+  seed: number;
+  templateIndex: number;
+  copy: StrictCopy;
+  image: PlanImage | null;
+  notes?: string;
+};
+
+export type ContentPlan = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  request: Required<Pick<CalendarReq, "start" | "end" | "launchDate" | "cadence" | "platforms" | "time" | "timezone">> & { brief: GenReq };
+  language: Language;
+  templatePack: string;
+  posts: PlannedPost[];
+  images: PlanImage[]; // pool the editor can swap from
+};
+
+export type PlanSummary = Pick<ContentPlan, "id" | "name" | "createdAt" | "updatedAt" | "language"> & {
+  product: string;
+  start: string;
+  end: string;
+  launchDate: string;
+  posts: number;
+};
+
+export type PlanOutcome = { ok: true; plan: ContentPlan } | { ok: false; status: number; error: ApiError };
+
+/* ------------ env ------------ */
+const MAX_DAYS = 92;   // about a quarter
+const MAX_POSTS = 150; // dates × platforms
+const MAX_PLANS = 200;
+const IMAGES_PER_ORIENTATION = 8;
+const SOCIAL_PROOF_SHARE = 0.6; // of the posts after launch day; the rest are reminders
+const DEFAULT_TIME = "10:00";
+
+/* ------------ storage ------------ */
+const INDEX = "calendar/index.json";
+const planFile = (id: string) => `calendar/${id}.json`;
+const ID_RE = /^[a-f0-9-]{36}$/;
+
+const summarize = (p: ContentPlan): PlanSummary => ({
+  id: p.id,
+  name: p.name,
+  createdAt: p.createdAt,
+  updatedAt: p.updatedAt,
+  language: p.language,
+  product: p.request.brief.product,
+  start: p.request.start,
+  end: p.request.end,
+  launchDate: p.request.launchDate,
+  posts: p.posts.length,
+});
+
+/* ========== dates ========== */
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_MS = 86_400_000;
+
+// Calendar dates are handled as UTC midnights so DST never shifts a day.
+const parseDate = (s: string) => {
+  if (!DATE_RE.test(s)) return null;
+  const t = Date.parse(`${s}T00:00:00Z`);
+  return Number.isNaN(t) || new Date(t).toISOString().slice(0, 10) !== s ? null : t;
+};
+const fmtDate = (t: number) => new Date(t).toISOString().slice(0, 10);
+
+const CADENCE_DAYS: Record<Exclude<Cadence, "weekly">, number[]> = {
+  daily: [0, 1, 2, 3, 4, 5, 6],
+  weekdays: [1, 2, 3, 4, 5],
+  "3-per-week": [1, 3, 5],
+  "2-per-week": [2, 4],
+};
+
+function cadenceDates(start: number, end: number, cadence: Cadence): string[] {
+  const days = cadence === "weekly" ? [new Date(start).getUTCDay()] : CADENCE_DAYS[cadence];
+  const out: string[] = [];
+  for (let t = start; t <= end; t += DAY_MS) if (days.includes(new Date(t).getUTCDay())) out.push(fmtDate(t));
+  return out;
+}
+
+// Before launch teases, launch day launches; afterwards social proof first, reminders last.
+function phaseFor(date: string, launch: string, after: string[]): LaunchPhase {
+  if (date < launch) return "teaser";
+  if (date === launch) return "launch";
+  return after.indexOf(date) < Math.ceil(after.length * SOCIAL_PROOF_SHARE) ? "social-proof" : "reminder";
+}
+
+const validZone = (tz: string) => {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Offset of `tz` at instant `t`, in ms (positive east of UTC).
+function zoneOffset(t: number, tz: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(t)
+      .map((p) => [p.type, p.value])
+  );
+  return Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second) - Math.floor(t / 1000) * 1000;
+}
+
+// Local wall time → UTC instant; the second pass settles times near a DST change.
+export function zonedToUtc(date: string, time: string, tz: string): Date {
+  const wall = Date.parse(`${date}T${time}:00Z`);
+  let t = wall - zoneOffset(wall, tz);
+  t = wall - zoneOffset(t, tz);
+  return new Date(t);
+}
+
+/* ========== request validation ========== */
+const str = (v: unknown, max: number) => (typeof v === "string" ? v.trim().slice(0, max) : undefined) || undefined;
+
+export function validateCalendarReq(raw: unknown): { value: CalendarReq } | { errors: FieldError[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { errors: [{ path: "", message: "expected a JSON object" }] };
+  const b = raw as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const brief = validateGenReq(b.brief);
+  if ("errors" in brief) errors.push(...brief.errors.map((e) => ({ path: e.path ? `brief.${e.path}` : "brief", message: e.message })));
+
+  const start = typeof b.start === "string" ? parseDate(b.start) : null;
+  const end = typeof b.end === "string" ? parseDate(b.end) : null;
+  if (start === null) errors.push({ path: "start", message: "expected a date (YYYY-MM-DD)" });
+  if (end === null) errors.push({ path: "end", message: "expected a date (YYYY-MM-DD)" });
+  if (start !== null && end !== null) {
+    if (end < start) errors.push({ path: "end", message: "before start" });
+    else if ((end - start) / DAY_MS + 1 > MAX_DAYS) errors.push({ path: "end", message: `at most ${MAX_DAYS} days after start` });
+  }
+  if (b.launchDate != null && b.launchDate !== "") {
+    const launch = typeof b.launchDate === "string" ? parseDate(b.launchDate) : null;
+    if (launch === null) errors.push({ path: "launchDate", message: "expected a date (YYYY-MM-DD)" });
+    else if (start !== null && end !== null && (launch < start || launch > end)) errors.push({ path: "launchDate", message: "outside start–end" });
+  }
+  if (b.cadence != null && !CADENCES.includes(b.cadence as Cadence)) errors.push({ path: "cadence", message: `must be one of ${CADENCES.join(", ")}` });
+  if (b.platforms != null) {
+    const known = PLATFORM_PROFILES.map((p) => p.id as string);
+    if (!Array.isArray(b.platforms) || !b.platforms.length) errors.push({ path: "platforms", message: "expected a non-empty array" });
+    else {
+      b.platforms.forEach((p, i) => {
+        if (!known.includes(p)) errors.push({ path: `platforms[${i}]`, message: `must be one of ${known.join(", ")}` });
+      });
+    }
+  }
+  if (b.time != null && !(typeof b.time === "string" && TIME_RE.test(b.time))) errors.push({ path: "time", message: "expected HH:MM (24h)" });
+  if (b.timezone != null && !(typeof b.timezone === "string" && validZone(b.timezone))) errors.push({ path: "timezone", message: "unknown IANA time zone" });
+  if (b.name != null && typeof b.name !== "string") errors.push({ path: "name", message: "expected a string" });
+
+  if (errors.length || "errors" in brief) return { errors };
+  return {
+    value: {
+      brief: brief.value,
+      start: b.start as string,
+      end: b.end as string,
+      launchDate: (b.launchDate as string) || undefined,
+      cadence: b.cadence as Cadence | undefined,
+      platforms: b.platforms ? [...new Set(b.platforms as PlatformId[])] : undefined,
+      time: b.time as string | undefined,
+      timezone: b.timezone as string | undefined,
+      name: str(b.name, 120),
+    },
+  };
+}
+
+/* ========== planning ========== */
+const fail = (status: number, error: ApiError): PlanOutcome => ({ ok: false, status, error });
+
+const toPlanImage = (c: ImageCandidate, product: string, language: Language): PlanImage => ({
+  url: c.url,
+  thumbUrl: c.thumbUrl,
+  source: c.source,
+  attribution: attribution(c),
+  alt: candidateAlt(c, product, language),
+});
+
+// Copy comes from the local composer only: phase templates are what keep a month of posts from repeating.
+export async function planCalendar(input: CalendarReq): Promise<PlanOutcome> {
+  const kit = input.brief.brandKitId ? await getBrandKit(input.brief.brandKitId) : null;
+  if (input.brief.brandKitId && !kit) {
+    return fail(404, apiError("not_found", "Brand kit not found", [{ path: "brief.brandKitId", message: "not found" }]));
+  }
+  const briefCheck = moderateBrief(input.brief, (await getModerationConfig()).config, kit?.imageKeywords);
+  if (briefCheck.report.blocked) return fail(422, moderationBlocked(blockedFields(briefCheck.report, "brief.")));
+  const brief = withBrandKit(briefCheck.brief, kit);
+  const language = brief.language || "en";
+  const pack = await getPack(brief.templatePack);
+  if (!pack) return fail(404, apiError("not_found", "Template pack not found", [{ path: "brief.templatePack", message: "not found" }]));
+  if (!pack.languages[language]) {
+    return fail(400, invalidRequest([{ path: "brief.language", message: `not in template pack "${pack.id}"` }]));
+  }
+
+  const start = parseDate(input.start)!;
+  const end = parseDate(input.end)!;
+  const cadence = input.cadence || "3-per-week";
+  const slots = cadenceDates(start, end, cadence);
+  const launchDate = input.launchDate || slots[Math.floor(slots.length / 4)] || input.start;
+  const dates = [...new Set([...slots, launchDate])].sort();
+  const platforms = input.platforms?.length ? input.platforms : [resolvePlatform(brief.platform).id];
+  if (dates.length * platforms.length > MAX_POSTS) {
+    return fail(400, invalidRequest([{ path: "cadence", message: `${dates.length * platforms.length} posts; at most ${MAX_POSTS} per plan` }]));
+  }
+
+  // Images: one search per orientation, then each platform walks its pool so neighbouring posts differ.
+  const pool = new Map<Orientation, PlanImage[]>();
+  if (brief.includeImage !== false) {
+    const queries = buildImageQueries(brief.product, brief.category, brief.imageStyle, brief.colorHint, brief.imageQuery, briefCheck.imageKeywords);
+    for (const orientation of new Set(platforms.map((p) => resolvePlatform(p).orientation))) {
+      const size = resolvePlatform(platforms.find((p) => resolvePlatform(p).orientation === orientation)).size;
+      const { candidates } = await findCandidates(queries, { n: IMAGES_PER_ORIENTATION, orientation, size, label: brief.product, brandKitId: kit?.id });
+      const photos = candidates.filter((c) => c.source !== "generated");
+      pool.set(orientation, (photos.length ? photos : candidates).map((c) => toPlanImage(c, brief.product, language)));
+    }
+  }
+
+  const { dictionary } = await getHashtagDictionary();
+  const voices = await listVoices();
+  const launchLabel = new Intl.DateTimeFormat(language, { day: "numeric", month: "long", timeZone: "UTC" }).format(parseDate(launchDate)!);
+  const after = dates.filter((d) => d > launchDate);
+  const baseSeed = brief.seed ?? briefSeed(brief.product, brief.category, brief.keyBenefit, brief.audience, brief.tone, brief.platform);
+  const used = new Map<string, Set<number>>(); // platform:phase → template indexes already posted
+
+  const posts: PlannedPost[] = [];
+  for (const platform of platforms) {
+    const images = pool.get(resolvePlatform(platform).orientation) || [];
+    dates.forEach((date, n) => {
+      const phase = phaseFor(date, launchDate, after);
+      const key = `${platform}:${phase}`;
+      const seen = used.get(key) || new Set<number>();
+      used.set(key, seen);
+      const compose = (seed: number) =>
+        composeCopy(
+          brief.product, brief.category, brief.keyBenefit, brief.audience, brief.tone, platform, seed, kit || undefined, language, pack,
+          dictionary, { id: phase, launch: launchLabel }, voices
+        );
+      // Walk seeds until an unused template turns up; once a phase has used them all, start over.
+      let pick = compose(hashString(`${baseSeed}:${date}:${platform}:0`));
+      for (let k = 1; seen.has(pick.debug.templateIndex) && k < 24; k++) pick = compose(hashString(`${baseSeed}:${date}:${platform}:${k}`));
+      if (seen.has(pick.debug.templateIndex)) seen.clear();
+      seen.add(pick.debug.templateIndex);
+
+      posts.push({
+        id: randomUUID(),
+        date,
+        time: input.time || DEFAULT_TIME,
+        platform,
+        phase,
+        seed: pick.debug.seed,
+        templateIndex: pick.debug.templateIndex,
+        copy: enforceBannedWords(pick.copy, kit?.bannedWords || []).copy,
+        image: images.length ? images[n % images.length] : null,
+      });
+    });
+  }
+  posts.sort(comparePosts);
+
+  const now = new Date().toISOString();
+  return {
+    ok: true,
+    plan: {
+      id: randomUUID(),
+      name: input.name || `${brief.product} launch`,
+      createdAt: now,
+      updatedAt: now,
+      request: {
+        brief: briefCheck.brief,
+        start: input.start,
+        end: input.end,
+        launchDate,
+        cadence,
+        platforms,
+        time: input.time || DEFAULT_TIME,
+        timezone: input.timezone || "UTC",
+      },
+      language,
+      templatePack: pack.id,
+      posts,
+      images: [...pool.values()].flat(),
+    },
+  };
+}
+
+const comparePosts = (a: PlannedPost, b: PlannedPost) =>
+  `${a.date}T${a.time}`.localeCompare(`${b.date}T${b.time}`) || a.platform.localeCompare(b.platform);
+
+/* ========== storage ========== */
+export async function savePlan(plan: ContentPlan) {
+  const dropped = await updateJson(INDEX, [] as PlanSummary[], (index) => {
+    const next = [summarize(plan), ...index.filter((s) => s.id !== plan.id)];
+    return { next: next.slice(0, MAX_PLANS), result: next.slice(MAX_PLANS) };
+  });
+  await writeJson(planFile(plan.id), plan);
+  await Promise.all(dropped.map((s) => removeJson(planFile(s.id)).catch(() => undefined)));
+  return plan;
+}
+
+export const listPlans = () => readJson<PlanSummary[]>(INDEX, []);
+
+export const getPlan = (id: string) => (ID_RE.test(id) ? readJson<ContentPlan | null>(planFile(id), null) : Promise.resolve(null));
+
+export async function deletePlan(id: string) {
+  if (!ID_RE.test(id)) return false;
+  const existed = await updateJson(INDEX, [] as PlanSummary[], (index) => ({
+    next: index.filter((s) => s.id !== id),
+    result: index.some((s) => s.id === id),
+  }));
+  if (existed) await removeJson(planFile(id));
+  return existed;
+}
+
+// Applies calendar edits. Posts left out are dropped; seeds, templates and platforms stay as planned.
+// Edited copy passes the same guardrails as generated copy; `blocked` lists what moderation refused.
+export async function updatePlan(
+  id: string,
+  body: unknown
+): Promise<{ plan: ContentPlan; moderation: ModerationReport } | { errors: FieldError[] } | { blocked: FieldError[] } | null> {
+  const plan = await getPlan(id);
+  if (!plan) return null;
+  const b = (body || {}) as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  if (b.name !== undefined && !str(b.name, 120)) errors.push({ path: "name", message: "expected a non-empty string" });
+  if (b.posts !== undefined && !Array.isArray(b.posts)) errors.push({ path: "posts", message: "expected an array" });
+
+  const byId = new Map(plan.posts.map((p) => [p.id, p]));
+  const images = new Map(plan.images.map((i) => [i.url, i]));
+  const seen = new Set<string>();
+  const edited = new Set<number>();
+  const posts = ((b.posts as unknown[] | undefined) || (b.posts === undefined ? plan.posts : [])).map((raw, i) => {
+    const r = (raw || {}) as Record<string, unknown>;
+    const at = `posts[${i}]`;
+    const cur = byId.get(r.id as string);
+    if (!cur) {
+      errors.push({ path: `${at}.id`, message: "not in this plan" });
+      return null;
+    }
+    if (seen.has(cur.id)) errors.push({ path: `${at}.id`, message: "listed more than once" });
+    seen.add(cur.id);
+    if (r.copy !== undefined) edited.add(i);
+    const date = r.date === undefined ? cur.date : r.date;
+    const time = r.time === undefined ? cur.time : r.time;
+    const phase = r.phase === undefined ? cur.phase : r.phase;
+    const copy = r.copy === undefined ? cur.copy : parseCopy(r.copy);
+    if (typeof date !== "string" || parseDate(date) === null) errors.push({ path: `${at}.date`, message: "expected a date (YYYY-MM-DD)" });
+    if (typeof time !== "string" || !TIME_RE.test(time)) errors.push({ path: `${at}.time`, message: "expected HH:MM (24h)" });
+    if (!LAUNCH_PHASES.includes(phase as LaunchPhase)) errors.push({ path: `${at}.phase`, message: `must be one of ${LAUNCH_PHASES.join(", ")}` });
+    if (!copy) errors.push({ path: `${at}.copy`, message: "tagline, caption, shortDescription and hashtags required" });
+    let image = cur.image;
+    if (r.image === null) image = null;
+    else if (r.image !== undefined) {
+      image = images.get(String((r.image as { url?: unknown })?.url)) || null;
+      if (!image) errors.push({ path: `${at}.image.url`, message: "not one of the plan's images" });
+    }
+    const notes = r.notes === undefined ? cur.notes : str(r.notes, 1000);
+    return { ...cur, date, time, phase, copy, image, notes } as PlannedPost;
+  });
+  if (errors.length) return { errors };
+
+  // The kit's banned words come out first, then moderation sanitizes, flags or blocks like it does for generation.
+  const brief = plan.request.brief;
+  const banned = (brief.brandKitId && (await getBrandKit(brief.brandKitId))?.bannedWords) || [];
+  const config = (await getModerationConfig()).config;
+  const reports: ModerationReport[] = [];
+  for (const i of edited) {
+    const post = posts[i] as PlannedPost;
+    const check = moderateCopy(enforceBannedWords(post.copy, banned).copy, config);
+    post.copy = check.copy;
+    reports.push({ ...check.report, findings: check.report.findings.map((f) => ({ ...f, field: `posts[${i}].copy.${f.field}` })) });
+  }
+  const moderation = mergeReports(...reports);
+  if (moderation.blocked) return { blocked: blockedFields(moderation) };
+
+  return {
+    moderation,
+    plan: await savePlan({
+      ...plan,
+      name: str(b.name, 120) || plan.name,
+      updatedAt: new Date().toISOString(),
+      posts: (posts as PlannedPost[]).sort(comparePosts),
+    }),
+  };
+}
+
+/* ========== export ========== */
+const PHASE_LABELS: Record<LaunchPhase, string> = { teaser: "Teaser", launch: "Launch", "social-proof": "Social proof", reminder: "Reminder" };
+const POST_MINUTES = 30;
+
+// RFC 5545: escape text, fold lines at 75 octets, CRLF endings.
+const icsText = (s: string) => s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+const icsStamp = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+function foldLine(line: string): string {
+  const out: string[] = [];
+  let cur = "";
+  let bytes = 0;
+  for (const ch of line) {
+    const n = Buffer.byteLength(ch);
+    if (bytes + n > (out.length ? 74 : 75)) {
+      out.push(cur);
+      cur = "";
+      bytes = 0;
+    }
+    cur += ch;
+    bytes += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+export function planToIcs(plan: ContentPlan): string {
+  const stamp = icsStamp(new Date(plan.updatedAt));
+  const events = plan.posts.flatMap((p) => {
+    const profile = resolvePlatform(p.platform);
+    const description = [
+      assemblePost(p.copy, profile),
+      profile.hashtagPlacement === "separate" && p.copy.hashtags.length ? `First comment: ${p.copy.hashtags.join(" ")}` : "",
+      p.image ? `Image: ${p.image.url} (${p.image.attribution})` : "",
+      p.notes ? `Notes: ${p.notes}` : "",
+    ].filter(Boolean);
+    return [
+      "BEGIN:VEVENT",
+      `UID:${p.id}@brand-in-a-box`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsStamp(zonedToUtc(p.date, p.time, plan.request.timezone))}`,
+      `DURATION:PT${POST_MINUTES}M`,
+      `SUMMARY:${icsText(`[${PHASE_LABELS[p.phase]}] ${profile.label}: ${p.copy.tagline}`)}`,
+      `DESCRIPTION:${icsText(description.join("\n\n"))}`,
+      `CATEGORIES:${icsText(PHASE_LABELS[p.phase])}`,
+      ...(p.image && !p.image.url.startsWith("data:") ? [`ATTACH:${p.image.url}`] : []),
+      "END:VEVENT",
+    ];
+  });
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Brand-in-a-Box//Content calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsText(plan.name)}`,
+    ...events,
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+const CSV_HEADER = [
+  "date", "time", "timezone", "platform", "phase", "tagline", "caption", "hashtags", "post_text",
+  "image", "image_alt", "attribution", "notes", "seed", "template",
+];
+
+export function planToCsv(plan: ContentPlan): string {
+  return toCsv(
+    CSV_HEADER,
+    plan.posts.map((p) => ({
+      date: p.date,
+      time: p.time,
+      timezone: plan.request.timezone,
+      platform: p.platform,
+      phase: p.phase,
+      tagline: p.copy.tagline,
+      caption: p.copy.caption,
+      hashtags: p.copy.hashtags,
+      post_text: assemblePost(p.copy, resolvePlatform(p.platform)),
+      image: p.image?.url,
+      image_alt: p.image?.alt,
+      attribution: p.image?.attribution,
+      notes: p.notes,
+      seed: p.seed,
+      template: p.templateIndex,
+    }))
+  );
+}
+
+export const exportFileName = (plan: ContentPlan, ext: string) =>
+  `${plan.name.normalize("NFKD").replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "").toLowerCase() || "calendar"}.${ext}`;
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildPalette, contrastRatio, parseColorHint } from "./color";
+
+describe("parseColorHint", () => {
+  it("reads hex, rgb()/hsl() and CSS names in the order written", () => {
+    expect(parseColorHint("#F80, rgb(10, 20, 30), teal, hsl(0 100% 50%)").map(({ hex, kind }) => [hex, kind])).toEqual([
+      ["#ff8800", "hex"],
+      ["#0a141e", "rgb"],
+      ["#008080", "name"],
+      ["#ff0000", "hsl"],
+    ]);
+  });
+
+  it("joins two-word CSS names and reads mood and family phrases", () => {
+    expect(parseColorHint("dark green")).toEqual([{ hex: "#006400", token: "dark green", kind: "name" }]);
+    expect(parseColorHint("warm pastels").length).toBe(3);
+    expect(parseColorHint("monochrome").map((c) => c.hex)).toEqual(["#111111", "#6b7280", "#f5f5f5"]);
+  });
+
+  it("ignores Object.prototype names and unknown words", () => {
+    expect(parseColorHint("constructor, toString, hasOwnProperty")).toEqual([]);
+    expect(parseColorHint("sparkly")).toEqual([]);
+    expect(parseColorHint("")).toEqual([]);
+  });
+});
+
+describe("buildPalette", () => {
+  it("returns five roles with readable text colours", () => {
+    const palette = buildPalette(parseColorHint("#1e3a8a"));
+    expect(palette.swatches.map((s) => s.role)).toEqual(["primary", "secondary", "accent", "light", "dark"]);
+    expect(palette.swatches[0]).toMatchObject({ hex: "#1e3a8a", source: "hint" });
+    for (const s of palette.swatches) expect(contrastRatio(s.hex, s.text)).toBeGreaterThanOrEqual(4.5);
+  });
+});
@@ -0,0 +1,311 @@
+/* ========== colour helpers ========== */
+const NAMED: Record<string, string> = {
+  black: "#111111", white: "#ffffff", red: "#d62828", orange: "#f77f00", yellow: "#fcbf49",
+  gold: "#c9a227", green: "#2a9d8f", teal: "#008080", blue: "#1d4ed8", navy: "#1b2a4a",
+  purple: "#6d28d9", pink: "#e85d9a", brown: "#7f5539", gray: "#6b7280", grey: "#6b7280",
+  beige: "#e9dcc9", cream: "#f5efe0", mint: "#98d7c2", coral: "#ff7f50",
+};
+
+export function accentFromHint(hint?: string): string {
+  const h = (hint || "").toLowerCase();
+  const hex = h.match(/#([0-9a-f]{6}|[0-9a-f]{3})\b/);
+  if (hex) {
+    const v = hex[1];
+    return v.length === 3 ? `#${v.split("").map((c) => c + c).join("")}` : `#${v}`;
+  }
+  const name = Object.keys(NAMED).find((n) => new RegExp(`\\b${n}\\b`).test(h));
+  return name ? NAMED[name] : "#111111";
+}
+
+export function luminance(hex: string) {
+  const ch = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const [r, g, b] = ch.map((c) => (c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+// Pick whichever of white/near-black contrasts more with the panel colour.
+export const textOn = (bg: string) => (luminance(bg) > 0.179 ? "#111111" : "#ffffff");
+
+/* ------------ palette types ------------ */
+export type Rgb = [number, number, number];
+export type Hsl = [number, number, number]; // h 0–360, s/l 0–1
+
+export type HintColor = { hex: string; token: string; kind: "hex" | "rgb" | "hsl" | "name" | "phrase" };
+export type ImageColor = { hex: string; share: number }; // share of sampled pixels, 0–1
+
+export type PaletteRole = "primary" | "secondary" | "accent" | "light" | "dark";
+export type Swatch = { role: PaletteRole; hex: string; source: "hint" | "image" | "derived"; text: string; contrast: number };
+export type ContrastPair = {
+  background: PaletteRole;
+  text: PaletteRole | "white" | "black";
+  ratio: number;
+  aa: boolean;      // ≥ 4.5 normal text
+  aaLarge: boolean; // ≥ 3 large text / UI
+  aaa: boolean;     // ≥ 7
+};
+export type Palette = { swatches: Swatch[]; pairs: ContrastPair[]; hint: HintColor[]; image: ImageColor[] };
+
+/* ========== conversions ========== */
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+export function hexToRgb(hex: string): Rgb {
+  const v = normalizeHex(hex) || "#000000";
+  return [1, 3, 5].map((i) => parseInt(v.slice(i, i + 2), 16)) as Rgb;
+}
+
+export const rgbToHex = ([r, g, b]: Rgb) =>
+  "#" + [r, g, b].map((c) => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, "0")).join("");
+
+export function normalizeHex(s: string): string | null {
+  const m = s.trim().toLowerCase().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (!m) return null;
+  return m[1].length === 3 ? `#${m[1].split("").map((c) => c + c).join("")}` : `#${m[1]}`;
+}
+
+export function rgbToHsl([r, g, b]: Rgb): Hsl {
+  const [R, G, B] = [r / 255, g / 255, b / 255];
+  const max = Math.max(R, G, B);
+  const min = Math.min(R, G, B);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === R ? (G - B) / d + (G < B ? 6 : 0) : max === G ? (B - R) / d + 2 : (R - G) / d + 4;
+  return [h * 60, s, l];
+}
+
+export function hslToHex([h, s, l]: Hsl): string {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return rgbToHex([f(0) * 255, f(8) * 255, f(4) * 255]);
+}
+
+// CIE Lab (D65) for perceptual distances between candidate colours.
+function rgbToLab(rgb: Rgb): [number, number, number] {
+  const [r, g, b] = rgb.map((c) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  });
+  const xyz = [
+    (r * 0.4124 + g * 0.3576 + b * 0.1805) / 0.95047,
+    r * 0.2126 + g * 0.7152 + b * 0.0722,
+    (r * 0.0193 + g * 0.1192 + b * 0.9505) / 1.08883,
+  ].map((v) => (v > 0.008856 ? Math.cbrt(v) : 7.787 * v + 16 / 116));
+  return [116 * xyz[1] - 16, 500 * (xyz[0] - xyz[1]), 200 * (xyz[1] - xyz[2])];
+}
+
+export function colorDistance(a: string, b: string) {
+  const [x, y] = [rgbToLab(hexToRgb(a)), rgbToLab(hexToRgb(b))];
+  return Math.hypot(x[0] - y[0], x[1] - y[1], x[2] - y[2]);
+}
+
+// WCAG 2.x contrast ratio, 1–21.
+export function contrastRatio(a: string, b: string) {
+  const [hi, lo] = [luminance(normalizeHex(a) || "#000000"), luminance(normalizeHex(b) || "#000000")].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+}
+
+// `top` painted at `alpha` opacity over `bottom`, blended in sRGB the way SVG/CSS opacity is.
+export function mixHex(top: string, bottom: string, alpha: number) {
+  const [a, b] = [hexToRgb(top), hexToRgb(bottom)];
+  return rgbToHex(a.map((c, i) => c * alpha + b[i] * (1 - alpha)) as Rgb);
+}
+
+/* ========== hint parsing ========== */
+// Full CSS named-colour table; NAMED above wins for the common words so existing posters keep their look.
+const CSS_COLORS: Record<string, string> = Object.fromEntries(
+  (
+    "aliceblue f0f8ff antiquewhite faebd7 aqua 00ffff aquamarine 7fffd4 azure f0ffff beige f5f5dc bisque ffe4c4 " +
+    "blanchedalmond ffebcd blueviolet 8a2be2 burlywood deb887 cadetblue 5f9ea0 chartreuse 7fff00 chocolate d2691e " +
+    "cornflowerblue 6495ed cornsilk fff8dc crimson dc143c cyan 00ffff darkblue 00008b darkcyan 008b8b " +
+    "darkgoldenrod b8860b darkgray a9a9a9 darkgreen 006400 darkgrey a9a9a9 darkkhaki bdb76b darkmagenta 8b008b " +
+    "darkolivegreen 556b2f darkorange ff8c00 darkorchid 9932cc darkred 8b0000 darksalmon e9967a darkseagreen 8fbc8f " +
+    "darkslateblue 483d8b darkslategray 2f4f4f darkslategrey 2f4f4f darkturquoise 00ced1 darkviolet 9400d3 " +
+    "deeppink ff1493 deepskyblue 00bfff dimgray 696969 dimgrey 696969 dodgerblue 1e90ff firebrick b22222 " +
+    "floralwhite fffaf0 forestgreen 228b22 fuchsia ff00ff gainsboro dcdcdc ghostwhite f8f8ff goldenrod daa520 " +
+    "greenyellow adff2f honeydew f0fff0 hotpink ff69b4 indianred cd5c5c indigo 4b0082 ivory fffff0 khaki f0e68c " +
+    "lavender e6e6fa lavenderblush fff0f5 lawngreen 7cfc00 lemonchiffon fffacd lightblue add8e6 lightcoral f08080 " +
+    "lightcyan e0ffff lightgoldenrodyellow fafad2 lightgray d3d3d3 lightgreen 90ee90 lightgrey d3d3d3 " +
+    "lightpink ffb6c1 lightsalmon ffa07a lightseagreen 20b2aa lightskyblue 87cefa lightslategray 778899 " +
+    "lightslategrey 778899 lightsteelblue b0c4de lightyellow ffffe0 lime 00ff00 limegreen 32cd32 linen faf0e6 " +
+    "magenta ff00ff maroon 800000 mediumaquamarine 66cdaa mediumblue 0000cd mediumorchid ba55d3 mediumpurple 9370db " +
+    "mediumseagreen 3cb371 mediumslateblue 7b68ee mediumspringgreen 00fa9a mediumturquoise 48d1cc " +
+    "mediumvioletred c71585 midnightblue 191970 mintcream f5fffa mistyrose ffe4e1 moccasin ffe4b5 navajowhite ffdead " +
+    "oldlace fdf5e6 olive 808000 olivedrab 6b8e23 orangered ff4500 orchid da70d6 palegoldenrod eee8aa " +
+    "palegreen 98fb98 paleturquoise afeeee palevioletred db7093 papayawhip ffefd5 peachpuff ffdab9 peru cd853f " +
+    "plum dda0dd powderblue b0e0e6 rebeccapurple 663399 rosybrown bc8f8f royalblue 4169e1 saddlebrown 8b4513 " +
+    "salmon fa8072 sandybrown f4a460 seagreen 2e8b57 seashell fff5ee sienna a0522d silver c0c0c0 skyblue 87ceeb " +
+    "slateblue 6a5acd slategray 708090 slategrey 708090 snow fffafa springgreen 00ff7f steelblue 4682b4 tan d2b48c " +
+    "thistle d8bfd8 tomato ff6347 turquoise 40e0d0 violet ee82ee wheat f5deb3 whitesmoke f5f5f5 yellowgreen 9acd32"
+  )
+    .split(" ")
+    .reduce<[string, string][]>((out, v, i, all) => (i % 2 ? out : [...out, [v, `#${all[i + 1]}`]]), [])
+);
+
+// Mood words shift lightness/saturation; hue families pick where on the wheel to sample.
+const MOODS: Record<string, { s?: number; l?: number }> = {
+  pastel: { s: 0.65, l: 0.82 }, soft: { s: 0.45, l: 0.75 }, muted: { s: 0.25, l: 0.55 }, dusty: { s: 0.22, l: 0.62 },
+  neon: { s: 1, l: 0.55 }, vibrant: { s: 0.85, l: 0.5 }, bright: { s: 0.85, l: 0.55 }, bold: { s: 0.8, l: 0.45 },
+  deep: { s: 0.6, l: 0.28 }, dark: { l: 0.25 }, light: { l: 0.82 }, pale: { s: 0.35, l: 0.88 },
+};
+const FAMILIES: Record<string, number[]> = {
+  warm: [8, 28, 45], cool: [190, 215, 255], earthy: [25, 35, 85], earth: [25, 35, 85], ocean: [185, 200, 220],
+  forest: [100, 140, 160], sunset: [350, 15, 40], autumn: [15, 30, 45], citrus: [30, 50, 75], jewel: [160, 280, 340],
+  rainbow: [0, 60, 200], tropical: [170, 45, 330], nordic: [205, 215, 30], candy: [330, 190, 50],
+};
+const FAMILY_DEFAULT: Record<string, { s: number; l: number }> = {
+  earthy: { s: 0.35, l: 0.45 }, earth: { s: 0.35, l: 0.45 }, nordic: { s: 0.2, l: 0.6 }, forest: { s: 0.45, l: 0.35 },
+};
+const MONO = /\b(monochrome|monochromatic|black and white|grayscale|greyscale)\b/;
+
+// Hint words index plain objects; own keys only, so "constructor" or "toString" isn't read as a colour.
+const own = <T>(table: Record<string, T>, key: string): T | undefined => (Object.hasOwn(table, key) ? table[key] : undefined);
+const lookupName = (w: string) => own(NAMED, w) || own(CSS_COLORS, w);
+const singular = (w: string) => w.replace(/(e?s)$/, (m) => (lookupName(w.slice(0, -m.length)) || own(MOODS, w.slice(0, -m.length)) ? "" : m));
+
+// "#FF8800, teal, rgb(10 20 30), warm pastels, dark green" → concrete colours in the order written.
+export function parseColorHint(hint?: string): HintColor[] {
+  const text = (hint || "").toLowerCase();
+  const out: HintColor[] = [];
+  const push = (hex: string | null, token: string, kind: HintColor["kind"]) => {
+    if (hex && !out.some((c) => c.hex === hex)) out.push({ hex, token, kind });
+  };
+
+  // Separators inside rgb()/hsl() aren't list separators.
+  const flat = text.replace(/\([^)]*\)/g, (m) => m.replace(/[,/]/g, " "));
+  for (const part of flat.split(/[,;/|]|\band\b/).map((p) => p.trim()).filter(Boolean)) {
+    if (MONO.test(part)) {
+      ["#111111", "#6b7280", "#f5f5f5"].forEach((h) => push(h, part, "phrase"));
+      continue;
+    }
+    const func = part.match(/(rgb|hsl)a?\(\s*([\d.]+)%?[\s,]+([\d.]+)%?[\s,]+([\d.]+)%?/);
+    if (func) {
+      const [a, b, c] = [Number(func[2]), Number(func[3]), Number(func[4])];
+      push(func[1] === "rgb" ? rgbToHex([a, b, c]) : hslToHex([a, clamp01(b / 100), clamp01(c / 100)]), func[0], func[1] as "rgb" | "hsl");
+      continue;
+    }
+    const hexes = part.match(/#([0-9a-f]{6}|[0-9a-f]{3})\b/g);
+    if (hexes) {
+      hexes.forEach((h) => push(normalizeHex(h), h, "hex"));
+      continue;
+    }
+
+    const words = part.split(/[^a-z]+/).filter(Boolean).map(singular);
+    const moods = words.map((w) => own(MOODS, w)).filter((m) => m !== undefined);
+    const mood = moods.reduce((m, x) => ({ ...m, ...x }), {} as { s?: number; l?: number });
+    const names = words.filter((w) => lookupName(w));
+    const family = words.find((w) => own(FAMILIES, w));
+    // CSS allows "darkgreen"; people write "dark green".
+    const joined = words.join("");
+
+    const joinedHex = own(CSS_COLORS, joined);
+
+    if (joinedHex && words.length > 1) push(joinedHex, part, "name");
+    else if (names.length) {
+      for (const n of names) {
+        const base = lookupName(n)!;
+        if (!moods.length) push(base, n, "name");
+        else {
+          const [h, s, l] = rgbToHsl(hexToRgb(base));
+          push(hslToHex([h, mood.s ?? s, mood.l ?? l]), part, "phrase");
+        }
+      }
+    } else if (family) {
+      const d = own(FAMILY_DEFAULT, family) || { s: 0.7, l: 0.55 };
+      FAMILIES[family].forEach((h) => push(hslToHex([h, mood.s ?? d.s, mood.l ?? d.l]), part, "phrase"));
+    } else if (moods.length) {
+      // "pastels" alone: an even spread around the wheel.
+      [0, 120, 210].forEach((h) => push(hslToHex([h, mood.s ?? 0.6, mood.l ?? 0.6]), part, "phrase"));
+    }
+  }
+  return out;
+}
+
+/* ========== palette ========== */
+const MIN_DISTANCE = 18;    // Lab ΔE below which two swatches read as "the same colour"
+const NEUTRAL_CHROMA = 0.08; // HSL chroma below which a photo colour counts as grey/white/black
+
+const chroma = (hex: string) => {
+  const [, s, l] = rgbToHsl(hexToRgb(hex));
+  return s * (1 - Math.abs(2 * l - 1));
+};
+const shade = (hex: string, l: number, sMax = 1) => {
+  const [h, s] = rgbToHsl(hexToRgb(hex));
+  return hslToHex([h, Math.min(s, sMax), l]);
+};
+
+// Hint colours lead (the brief is explicit); photo colours fill the rest; light/dark are derived
+// from the primary so backgrounds and text always belong to the same family.
+export function buildPalette(hint: HintColor[], image: ImageColor[] = []): Palette {
+  const picked: { hex: string; source: Swatch["source"] }[] = [];
+  const add = (hex: string, source: Swatch["source"]) => {
+    if (picked.length < 3 && picked.every((p) => colorDistance(p.hex, hex) >= MIN_DISTANCE)) picked.push({ hex, source });
+  };
+  hint.forEach((c) => add(c.hex, "hint"));
+  // Colourful photo regions first; big neutral ones (backdrops, white tables) only if nothing else is left.
+  const score = (c: ImageColor) => Math.sqrt(c.share) * chroma(c.hex);
+  const colourful = image.filter((c) => chroma(c.hex) >= NEUTRAL_CHROMA).sort((a, b) => score(b) - score(a));
+  [...colourful, ...image.filter((c) => !colourful.includes(c))].forEach((c) => add(c.hex, "image"));
+
+  if (!picked.length) picked.push({ hex: "#111111", source: "derived" }); // same default as accentFromHint
+  const primary = picked[0].hex;
+  if (picked.length < 2) {
+    const [h, s, l] = rgbToHsl(hexToRgb(primary));
+    add(hslToHex([(h + 30) % 360, s, Math.min(0.75, Math.max(0.35, l + 0.1))]), "derived");
+  }
+  if (picked.length < 3) {
+    const [h, s] = rgbToHsl(hexToRgb(primary));
+    add(hslToHex([(h + 180) % 360, Math.min(0.75, Math.max(0.55, s)), 0.5]), "derived");
+  }
+  while (picked.length < 3) picked.push({ hex: shade(primary, 0.6, 0.3), source: "derived" });
+
+  const roles: [PaletteRole, string, Swatch["source"]][] = [
+    ["primary", picked[0].hex, picked[0].source],
+    ["secondary", picked[1].hex, picked[1].source],
+    ["accent", picked[2].hex, picked[2].source],
+    ["light", shade(primary, 0.96, 0.5), "derived"],
+    ["dark", shade(primary, 0.13, 0.4), "derived"],
+  ];
+  const light = roles[3][1];
+  const dark = roles[4][1];
+
+  const pairs: ContrastPair[] = [];
+  const swatches: Swatch[] = roles.map(([role, hex, source]) => {
+    // Prefer the palette's own light/dark for text; fall back to pure white/black when they don't reach AA.
+    const options: [ContrastPair["text"], string][] = [
+      ["light", light],
+      ["dark", dark],
+      ["white", "#ffffff"],
+      ["black", "#000000"],
+    ];
+    const scored = options
+      .filter(([name]) => name !== role)
+      .map(([name, c]) => ({ name, c, ratio: contrastRatio(hex, c) }));
+    const best = scored.find((o) => o.ratio >= 4.5) || scored.sort((a, b) => b.ratio - a.ratio)[0];
+    const ratio = Math.round(best.ratio * 100) / 100;
+    pairs.push({ background: role, text: best.name, ratio, aa: ratio >= 4.5, aaLarge: ratio >= 3, aaa: ratio >= 7 });
+    return { role, hex, source, text: best.c, contrast: ratio };
+  });
+
+  return { swatches, pairs, hint, image };
+}
+
+/* ========== exports ========== */
+export function paletteCss(p: Palette, prefix = "brand") {
+  const lines = p.swatches.flatMap((s) => [`  --${prefix}-${s.role}: ${s.hex};`, `  --${prefix}-on-${s.role}: ${s.text};`]);
+  return `:root {\n${lines.join("\n")}\n}\n`;
+}
+
+// W3C Design Tokens Community Group format ($value/$type), one group per role.
+export function paletteTokens(p: Palette, prefix = "brand") {
+  const tokens: Record<string, unknown> = {};
+  for (const s of p.swatches) {
+    tokens[s.role] = {
+      $value: s.hex,
+      $type: "color",
+      $description: `${s.source}; text ${s.text} at ${s.contrast}:1`,
+    };
+    tokens[`on-${s.role}`] = { $value: s.text, $type: "color" };
+  }
+  return { color: { [prefix]: tokens } };
+}
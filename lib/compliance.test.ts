@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { applyFix, lintCopy, readingEase, type LintOpts } from "./compliance";
+import type { StrictCopy } from "./types";
+
+const copy = (fields: Partial<StrictCopy>): StrictCopy => ({ tagline: "Lumi", caption: "Glow daily.", shortDescription: "A serum.", hashtags: [], ...fields });
+const lint = (fields: Partial<StrictCopy>, opts?: LintOpts) => lintCopy(copy(fields), opts).findings;
+
+describe("claim rules", () => {
+  it("errors on regulated claims in strict categories and warns elsewhere", () => {
+    const strict = lint({ caption: "Cures acne overnight." }, { category: "Skincare" });
+    expect(strict).toContainEqual(expect.objectContaining({ rule: "medical-claim", severity: "error", match: "Cures acne", fix: { from: "Cures acne", to: "clearer-looking skin" } }));
+    expect(strict.filter((f) => f.rule === "medical-claim")).toHaveLength(1); // "cures" inside the longer phrase isn't reported again
+    expect(lintCopy(copy({ caption: "Cures acne overnight." }), { category: "Skincare" }).ok).toBe(false);
+
+    const loose = lint({ caption: "Cures acne overnight." }, { category: "Candles" });
+    expect(loose).toContainEqual(expect.objectContaining({ rule: "medical-claim", severity: "warning" }));
+  });
+
+  it("matches whole words and checks hashtags", () => {
+    expect(lint({ caption: "Bestselling scent." }).some((f) => f.rule === "absolute-claim")).toBe(false);
+    expect(lint({ hashtags: ["#SuperfoodSunday"] }, { category: "Beverage" })).toContainEqual(
+      expect.objectContaining({ field: "hashtags", rule: "health-claim", fix: { from: "#SuperfoodSunday", to: "" } })
+    );
+  });
+});
+
+describe("grammar joins", () => {
+  const anFixes = (caption: string) => lint({ caption }).filter((f) => f.message.includes('"an"'));
+
+  it("asks for an before a vowel sound", () => {
+    expect(anFixes("A apricot glow in a hour.").map((f) => f.fix)).toEqual([
+      { from: "A ", to: "An " },
+      { from: "a ", to: "an " },
+    ]);
+    expect(anFixes("Made for a umbrella day.")).toHaveLength(1);
+  });
+
+  it("leaves words that start with a consonant sound alone", () => {
+    expect(anFixes("A one-time offer for a European trip, a unique scent and a useful kit.")).toEqual([]);
+    expect(anFixes("Once a once-yearly treat, now a one.")).toEqual([]);
+  });
+
+  it("keeps French spacing before colons but not before commas", () => {
+    const fr = lint({ caption: "Nouveau : un éclat , chaque jour." }, { language: "fr" }).filter((f) => f.message === "Space before punctuation");
+    expect(fr.map((f) => f.match)).toEqual([" ,"]);
+  });
+
+  it("flags doubled words and copy that ends mid-phrase", () => {
+    const findings = lint({ caption: "Glow glow every day with" });
+    expect(findings).toContainEqual(expect.objectContaining({ rule: "doubled-word", fix: { from: "Glow glow", to: "Glow" } }));
+    expect(findings).toContainEqual(expect.objectContaining({ rule: "fragment", match: "with" }));
+  });
+});
+
+describe("applyFix", () => {
+  it("replaces text and tidies spacing", () => {
+    const c = copy({ caption: "Shop for other gifts, now." });
+    const [f] = lintCopy(c).findings.filter((x) => x.message.includes("for other"));
+    expect(applyFix(c, f).caption).toBe("Shop gifts, now.");
+  });
+
+  it("drops or renames hashtags", () => {
+    const c = copy({ hashtags: ["#a", "#b"] });
+    expect(applyFix(c, { field: "hashtags", fix: { from: "#a", to: "" } }).hashtags).toEqual(["#b"]);
+    expect(applyFix(c, { field: "hashtags", fix: { from: "#b", to: "#c" } }).hashtags).toEqual(["#a", "#c"]);
+  });
+});
+
+describe("readingEase", () => {
+  it("needs a few words to score", () => {
+    expect(readingEase("Too short to score.")).toBeNull();
+    expect(readingEase("The cat sat on the mat. It was a warm day. We all had fun.")).toBeGreaterThan(80);
+  });
+});
@@ -0,0 +1,393 @@
+import type { StrictCopy } from "./types";
+import type { Language } from "./languages";
+import { normalizeCategory, type TemplatePack } from "./packs";
+import { escapeRe } from "./util";
+
+/* ------------ report types ------------ */
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintRule =
+  | "medical-claim"
+  | "health-claim"
+  | "absolute-claim"
+  | "doubled-word"
+  | "repeated-word"
+  | "grammar-join"
+  | "fragment"
+  | "length"
+  | "hashtag"
+  | "readability";
+
+export type LintFinding = {
+  field: keyof StrictCopy;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  match?: string;
+  suggestion?: string;
+  fix?: { from: string; to: string }; // literal replacement the UI can apply in one click
+};
+
+export type Readability = { field: "caption" | "shortDescription"; score: number; label: string };
+
+export type LintReport = {
+  ok: boolean; // no errors (warnings/info allowed)
+  findings: LintFinding[];
+  readability: Readability[];
+};
+
+// `pack` maps the category the way the composer did; `normCat` (the generate response's debug.normCat) skips that
+// where the pack isn't at hand, as in the browser.
+export type LintOpts = { category?: string; language?: Language; pack?: TemplatePack; normCat?: string };
+
+/* ========== claim rules ========== */
+// Phrases are matched case-insensitively as whole words; hashtags are matched with the spaces removed.
+// Replacements are noun phrases where the claim usually fills the composer's benefit slot.
+type ClaimRule = {
+  rule: "medical-claim" | "health-claim" | "absolute-claim";
+  strictFor: string[] | "all"; // error in these (default pack) categories, warning elsewhere
+  label: string;
+  phrases: [string, string?][]; // [phrase, suggested replacement]
+};
+
+const CLAIM_RULES: ClaimRule[] = [
+  {
+    rule: "medical-claim",
+    strictFor: ["skincare"],
+    label: "Medical claim",
+    phrases: [
+      ["cures acne", "clearer-looking skin"],
+      ["cures", "helps"],
+      ["cure", "care"],
+      ["heals", "soothes"],
+      ["treats", "cares for"],
+      ["treatment", "care"],
+      ["eczema"],
+      ["psoriasis"],
+      ["rosacea"],
+      ["anti-inflammatory", "calming"],
+      ["removes wrinkles", "smoother-looking skin"],
+      ["reverses aging", "a refreshed look"],
+      ["prevents aging", "a refreshed look"],
+      ["clinically proven", "tested"],
+      ["dermatologist approved", "dermatologist tested"],
+      ["fda approved"],
+      ["cura", "ayuda"],
+      ["guérit", "aide"],
+      ["heilt", "pflegt"],
+    ],
+  },
+  {
+    rule: "health-claim",
+    strictFor: ["food", "beverage"],
+    label: "Health claim",
+    phrases: [
+      ["boosts immunity", "everyday goodness"],
+      ["immune boost", "daily boost"],
+      ["immunity"],
+      ["detox", "refresh"],
+      ["burns fat", "lasting energy"],
+      ["fat burning", "energising"],
+      ["weight loss"],
+      ["lowers cholesterol"],
+      ["lowers blood pressure"],
+      ["prevents disease"],
+      ["cures", "helps"],
+      ["superfood", "wholesome food"],
+      ["guilt-free", "feel-good"],
+      ["sugar-free"],
+      ["inmunidad"],
+      ["adelgaza"],
+      ["immunité"],
+      ["minceur"],
+      ["immunsystem"],
+      ["abnehmen"],
+    ],
+  },
+  {
+    rule: "absolute-claim",
+    strictFor: [],
+    label: "Absolute claim",
+    phrases: [
+      ["world's best", "a favourite"],
+      ["the best", "a go-to"],
+      ["best", "great"],
+      ["#1", "popular"],
+      ["number one", "popular"],
+      ["guaranteed", "designed"],
+      ["100%", "fully"],
+      ["miracle", "standout"],
+      ["risk-free", "easy to try"],
+      ["instant results", "quick results"],
+      ["never fails", "reliable"],
+      ["el mejor", "un favorito"],
+      ["garantizado", "pensado"],
+      ["le meilleur", "un incontournable"],
+      ["garanti", "conçu"],
+      ["der beste", "ein Liebling"],
+      ["garantiert", "gemacht"],
+    ],
+  },
+];
+
+const WORD_EDGE_L = "(?<![\\p{L}\\p{N}])";
+const WORD_EDGE_R = "(?![\\p{L}\\p{N}])";
+const phraseRe = (phrase: string) =>
+  new RegExp(`${WORD_EDGE_L}${phrase.split(/\s+/).map(escapeRe).join("\\s+")}${WORD_EDGE_R}`, "giu");
+const collapse = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+
+function claimFindings(copy: StrictCopy, normCat: string): LintFinding[] {
+  const out: LintFinding[] = [];
+  const isStrict = (r: ClaimRule) => r.strictFor === "all" || r.strictFor.includes(normCat);
+  // Strict rules first, so a phrase listed under two rules is reported once, at the higher severity.
+  const rules = [...CLAIM_RULES].sort((a, b) => Number(isStrict(b)) - Number(isStrict(a)));
+  const spans: Record<string, [number, number][]> = { tagline: [], caption: [], shortDescription: [] };
+  const taggedTags = new Set<string>();
+
+  for (const r of rules) {
+    const strict = isStrict(r);
+    const severity: LintSeverity = r.rule === "absolute-claim" ? "warning" : strict ? "error" : "warning";
+    for (const field of ["tagline", "caption", "shortDescription"] as const) {
+      const text = copy[field];
+      const seen = spans[field];
+      for (const [phrase, to] of r.phrases) {
+        for (const m of text.matchAll(phraseRe(phrase))) {
+          const start = m.index ?? 0;
+          const end = start + m[0].length;
+          // Longer phrases are listed first; skip shorter ones inside an already-reported span.
+          if (seen.some(([a, b]) => start >= a && end <= b)) continue;
+          seen.push([start, end]);
+          out.push({
+            field,
+            rule: r.rule,
+            severity,
+            message: `${r.label}: "${m[0]}"${strict && r.rule !== "absolute-claim" ? ` is regulated for ${normCat}` : " needs substantiation"}`,
+            match: m[0],
+            suggestion: to ? `Rephrase as "${to}"` : "Remove the claim or back it with evidence",
+            fix: to ? { from: m[0], to } : undefined,
+          });
+        }
+      }
+    }
+    for (const tag of copy.hashtags) {
+      if (taggedTags.has(tag)) continue;
+      const hit = r.phrases.find(([phrase]) => collapse(tag) === collapse(phrase) || (collapse(phrase).length > 5 && collapse(tag).includes(collapse(phrase))));
+      if (hit) {
+        taggedTags.add(tag);
+        out.push({
+          field: "hashtags",
+          rule: r.rule,
+          severity,
+          message: `${r.label} in hashtag ${tag}`,
+          match: tag,
+          suggestion: "Drop this hashtag",
+          fix: { from: tag, to: "" },
+        });
+      }
+    }
+  }
+  return out;
+}
+
+/* ========== repetition & grammar ========== */
+const STOPWORDS = new Set(
+  "the a an and or for with to of in on your you is it that this by at from y el la los las de con para en tu et le les des pour avec votre und der die das mit für dein deine".split(" ")
+);
+
+function repetitionFindings(field: keyof StrictCopy, text: string): LintFinding[] {
+  const out: LintFinding[] = [];
+  for (const m of text.matchAll(/(?<![\p{L}\p{N}])([\p{L}\p{N}'-]+)\s+\1(?![\p{L}\p{N}])/giu)) {
+    out.push({
+      field,
+      rule: "doubled-word",
+      severity: "error",
+      message: `Doubled word "${m[1]}"`,
+      match: m[0],
+      suggestion: `Use "${m[1]}" once`,
+      fix: { from: m[0], to: m[1] },
+    });
+  }
+  const counts = new Map<string, number>();
+  for (const w of text.toLowerCase().match(/[\p{L}\p{N}'-]+/gu) || []) {
+    if (w.length > 3 && !STOPWORDS.has(w)) counts.set(w, (counts.get(w) || 0) + 1);
+  }
+  for (const [w, n] of counts) {
+    if (n >= 3) {
+      out.push({ field, rule: "repeated-word", severity: "warning", message: `"${w}" appears ${n} times`, match: w, suggestion: "Swap some repeats for a synonym" });
+    }
+  }
+  return out;
+}
+
+// "an" goes by sound, not spelling: "a one-time", "a European", "a unique" but "an hour", "an honest".
+const AN_SOUND = String.raw`(?:(?!one(?!\p{L})|once|eu|ewe|uni|use|usu|uti|ubi|ufo)[aeiou]\p{L}|hour|honest|honou?r|heir)`;
+
+// Joins the templates are known to produce when a slot is empty or generic.
+type GrammarRule = { re: RegExp; message: string; to?: (m: RegExpMatchArray) => string; only?: Language[]; except?: Language[] };
+
+const GRAMMAR_JOINS: GrammarRule[] = [
+  { re: /\bfor other\b/gi, message: 'Generic category leaked in ("for other")', to: () => "", only: ["en"] },
+  { re: /\belevates other\b/gi, message: 'Generic category leaked in ("elevates other")', to: () => "elevates your day", only: ["en"] },
+  { re: new RegExp(`${WORD_EDGE_L}a (?=${AN_SOUND})`, "giu"), message: 'Use "an" before a vowel sound', to: (m) => (m[0][0] === "A" ? "An " : "an "), only: ["en"] },
+  // French puts a space before : ; ! ? by convention.
+  { re: /\s+([,.])(?!\S)/g, message: "Space before punctuation", to: (m) => m[1] },
+  { re: /\s+([;:!?])(?!\S)/g, message: "Space before punctuation", to: (m) => m[1], except: ["fr"] },
+  { re: /([,;])\s*\1/g, message: "Doubled punctuation", to: (m) => m[1] },
+  { re: /\(\s*\)/g, message: "Empty brackets", to: () => "" },
+  { re: /[.!?]\s+\p{Ll}/gu, message: "Sentence starts in lowercase", to: (m) => m[0].slice(0, -1) + m[0].slice(-1).toUpperCase() },
+];
+const DANGLING = /(?:^|\s)(for|and|with|to|the|of|a|an|y|para|con|et|pour|avec|und|für|mit|en|in|:)$/iu;
+
+function grammarFindings(field: keyof StrictCopy, text: string, language: Language): LintFinding[] {
+  const out: LintFinding[] = [];
+  for (const { re, message, to, only, except } of GRAMMAR_JOINS) {
+    if ((only && !only.includes(language)) || except?.includes(language)) continue;
+    for (const m of text.matchAll(re)) {
+      const fixTo = to?.(m);
+      out.push({
+        field,
+        rule: "grammar-join",
+        severity: "warning",
+        message,
+        match: m[0],
+        suggestion: fixTo === undefined ? undefined : fixTo.trim() ? `Replace with "${fixTo.trim()}"` : "Remove it",
+        fix: fixTo === undefined ? undefined : { from: m[0], to: fixTo },
+      });
+    }
+  }
+  const dangling = text.replace(/[\s\p{Extended_Pictographic}️]+$/u, "").match(DANGLING);
+  if (dangling && field !== "hashtags") {
+    out.push({
+      field,
+      rule: "fragment",
+      severity: "warning",
+      message: `Ends on "${dangling[1]}", so it reads as cut off`,
+      match: dangling[1],
+      suggestion: "Finish the phrase or trim the last word",
+    });
+  }
+  return out;
+}
+
+/* ========== length & hashtags ========== */
+const LIMITS: Record<"tagline" | "caption" | "shortDescription", { words: number; chars: number }> = {
+  tagline: { words: 10, chars: 70 },
+  caption: { words: 40, chars: 280 },
+  shortDescription: { words: 60, chars: 400 },
+};
+
+function lengthFindings(copy: StrictCopy): LintFinding[] {
+  const out: LintFinding[] = [];
+  for (const field of ["tagline", "caption", "shortDescription"] as const) {
+    const text = copy[field].trim();
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const { words: maxWords, chars } = LIMITS[field];
+    if (!text) out.push({ field, rule: "length", severity: "error", message: "Empty" });
+    else if (words > maxWords || text.length > chars) {
+      out.push({
+        field,
+        rule: "length",
+        severity: "warning",
+        message: `${words} words / ${text.length} chars (aim for ≤${maxWords} words, ≤${chars} chars)`,
+        suggestion: "Tighten to one idea",
+      });
+    }
+  }
+  const seen = new Set<string>();
+  for (const tag of copy.hashtags) {
+    const key = tag.toLowerCase();
+    if (!/^#[\p{L}\p{N}_]+$/u.test(tag)) {
+      out.push({ field: "hashtags", rule: "hashtag", severity: "warning", message: `${tag || "(empty)"} isn't a valid hashtag`, match: tag, suggestion: "Letters, digits and _ only, starting with #" });
+    } else if (tag.length > 30) {
+      out.push({ field: "hashtags", rule: "hashtag", severity: "info", message: `${tag} is long (${tag.length} chars)`, match: tag, suggestion: "Shorter tags are easier to follow" });
+    }
+    if (seen.has(key)) {
+      out.push({ field: "hashtags", rule: "hashtag", severity: "warning", message: `${tag} is duplicated`, match: tag, fix: { from: tag, to: "" } });
+    }
+    seen.add(key);
+  }
+  return out;
+}
+
+/* ========== readability ========== */
+const VOWELS: Record<Language, RegExp> = {
+  en: /[aeiouy]+/g,
+  es: /[aeiouáéíóúü]+/g,
+  fr: /[aeiouyàâéèêëîïôûùüœæ]+/g,
+  de: /[aeiouyäöü]+/g,
+};
+
+function syllables(word: string, language: Language) {
+  const w = word.toLowerCase();
+  let n = (w.match(VOWELS[language]) || []).length;
+  if (language === "en" && /[^aeiou]e$/.test(w) && n > 1) n--; // silent final e
+  return Math.max(1, n);
+}
+
+// Flesch reading ease with each language's adaptation (Szigriszt–Pazos, Kandel–Moles, Amstad):
+// base − a·(words per sentence) − b·(syllables per word).
+const FLESCH: Record<Language, [number, number, number]> = {
+  en: [206.835, 1.015, 84.6],
+  es: [206.835, 1, 62.3],
+  fr: [207, 1.015, 73.6],
+  de: [180, 1, 58.5],
+};
+
+export function readingEase(text: string, language: Language = "en"): number | null {
+  const words = text.match(/[\p{L}\p{N}'-]+/gu) || [];
+  if (words.length < 8) return null; // Flesch is noise on a handful of words
+  const sentences = Math.max(1, (text.match(/[.!?]+(\s|$)/g) || []).length);
+  const syl = words.reduce((s, w) => s + syllables(w, language), 0);
+  const [base, a, b] = FLESCH[language];
+  const score = base - a * (words.length / sentences) - b * (syl / words.length);
+  return Math.round(Math.min(100, Math.max(0, score)));
+}
+
+const easeLabel = (s: number) => (s >= 80 ? "very easy" : s >= 65 ? "easy" : s >= 50 ? "fairly difficult" : s >= 30 ? "difficult" : "very difficult");
+
+/* ========== main ========== */
+export function lintCopy(copy: StrictCopy, opts: LintOpts = {}): LintReport {
+  const language = opts.language || "en";
+  const normCat = opts.normCat ?? normalizeCategory(opts.category, opts.pack);
+  const findings: LintFinding[] = [...claimFindings(copy, normCat), ...lengthFindings(copy)];
+
+  for (const field of ["tagline", "caption", "shortDescription"] as const) {
+    findings.push(...repetitionFindings(field, copy[field]), ...grammarFindings(field, copy[field], language));
+  }
+
+  const readability: Readability[] = [];
+  for (const field of ["caption", "shortDescription"] as const) {
+    const score = readingEase(copy[field], language);
+    if (score === null) continue;
+    readability.push({ field, score, label: easeLabel(score) });
+    if (score < 50) {
+      findings.push({
+        field,
+        rule: "readability",
+        severity: score < 30 ? "warning" : "info",
+        message: `Reading ease ${score} (${easeLabel(score)})`,
+        suggestion: "Use shorter sentences and everyday words",
+      });
+    }
+  }
+
+  const order: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+  findings.sort((a, b) => order[a.severity] - order[b.severity]);
+  return { ok: !findings.some((f) => f.severity === "error"), findings, readability };
+}
+
+// Applies a finding's fix to the copy it came from; hashtag fixes drop or rename the tag.
+export function applyFix(copy: StrictCopy, f: Pick<LintFinding, "field" | "fix">): StrictCopy {
+  if (!f.fix) return copy;
+  const { from, to } = f.fix;
+  if (f.field === "hashtags") {
+    const idx = copy.hashtags.lastIndexOf(from);
+    if (idx < 0) return copy;
+    const hashtags = [...copy.hashtags];
+    if (to) hashtags[idx] = to;
+    else hashtags.splice(idx, 1);
+    return { ...copy, hashtags };
+  }
+  const text = copy[f.field].replace(from, to).replace(/\s{2,}/g, " ").replace(/\s+([,.])/g, "$1").trim();
+  return { ...copy, [f.field]: text };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { briefSeed, composeCopy, composeVariants, MAX_VARIANTS } from "./compose";
+import { DEFAULT_PACK } from "./packs";
+
+const compose = (seed?: number) => composeCopy("Lumi Serum", "Skincare", "brighter skin", "busy parents", "playful", "instagram-feed", seed);
+
+describe("composeCopy", () => {
+  it("is deterministic for a brief and mentions the product", () => {
+    const a = compose();
+    expect(compose()).toEqual(a);
+    expect(a.debug.seed).toBe(briefSeed("Lumi Serum", "Skincare", "brighter skin", "busy parents", "playful", "instagram-feed"));
+    expect(a.copy.tagline.toLowerCase()).toContain("lumi serum");
+    expect(a.copy.caption.toLowerCase()).toContain("lumi serum");
+  });
+});
+
+describe("composeVariants", () => {
+  it("returns distinct templates, each reproducible from its seed", () => {
+    const { variants, debug } = composeVariants(42, 4, compose);
+    expect(variants).toHaveLength(4);
+    expect(debug).toHaveLength(4);
+    expect(variants[0].seed).toBe(42);
+    expect(new Set(variants.map((v) => v.templateIndex)).size).toBe(4);
+    for (const v of variants) expect(compose(v.seed).copy).toEqual(v.copy);
+  });
+
+  it("stops at the number of templates the pack has", () => {
+    expect(DEFAULT_PACK.languages.en!.templates).toHaveLength(MAX_VARIANTS);
+    expect(composeVariants(7, MAX_VARIANTS + 3, compose).variants).toHaveLength(MAX_VARIANTS);
+  });
+});
@@ -0,0 +1,276 @@
+import type { CopyVariant, StrictCopy } from "./types";
+import type { BrandKit } from "./brandKits";
+import { fitToPlatform, resolvePlatform } from "./platforms";
+import type { Language } from "./languages";
+import {
+  DEFAULT_PACK,
+  FRAME_ROLES,
+  normalizeCategory,
+  renderTemplate,
+  type FrameRole,
+  type LaunchPhase,
+  type PackLanguage,
+  type PackTemplate,
+  type TemplateCtx,
+  type TemplatePack,
+} from "./packs";
+import { buildListing, type ProductListing } from "./listing";
+import { buildHashtags, DEFAULT_HASHTAGS, type HashtagDictionary } from "./hashtags";
+import { cap } from "./util";
+import { describeTone, longestSentence, parseTone, punctuate, SENTENCE_WORDS, type CustomVoice, type ToneReading } from "./tone";
+
+/* ========== string helpers ========== */
+const clampWords = (s: string, n: number) => s.trim().split(/\s+/).slice(0, n).join(" ");
+// Letters and digits in any script survive, so "Crème Brûlée" slugs to ["crème", "brûlée"], not ["cr", "me", …].
+const slugParts = (s: string) =>
+  s.normalize("NFC").toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " ").split(/\s+/).filter(Boolean);
+
+/* ========== deterministic variety ========== */
+export function hashString(s: string): number {
+  let h = 2166136261 >>> 0;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+function pick<T>(arr: T[], seed: number, salt: number) {
+  return arr[(seed + salt) % arr.length];
+}
+export const briefSeed = (...parts: (string | undefined)[]) => hashString(parts.join("|"));
+
+/* ========== variants (distinct templates, each reproducible from its own seed) ========== */
+export const MAX_VARIANTS = 9; // one per template in the default pack; smaller packs yield fewer
+
+export function composeVariants(
+  baseSeed: number,
+  count: number,
+  compose: (seed: number) => ReturnType<typeof composeCopy>
+): { variants: CopyVariant[]; debug: Record<string, unknown>[] } {
+  const variants: CopyVariant[] = [];
+  const debug: Record<string, unknown>[] = [];
+  const usedTemplates = new Set<number>();
+  // Derive candidate seeds until `count` different templates have been hit.
+  for (let k = 0; variants.length < count && k < 256; k++) {
+    const seed = k === 0 ? baseSeed : hashString(`${baseSeed}:${k}`);
+    const out = compose(seed);
+    if (usedTemplates.has(out.debug.templateIndex)) continue;
+    usedTemplates.add(out.debug.templateIndex);
+    variants.push({ seed, templateIndex: out.debug.templateIndex, copy: out.copy });
+    debug.push(out.debug);
+  }
+  return { variants, debug };
+}
+
+/* ========== tone blend ========== */
+// One descriptor reads exactly like the old single-tone pick; a blend first draws which list, by weight, then the word.
+function toneWords(reading: ToneReading, bank: PackLanguage, voices: CustomVoice[], seed: number) {
+  const lists = reading.descriptors
+    .map((d) => ({
+      weight: d.weight,
+      words: d.via === "voice" ? voices.find((v) => `voice:${v.id}` === d.id)?.words || [] : bank.toneWords[d.id] || [],
+    }))
+    .filter((l) => l.words.length);
+  if (!lists.length) lists.push({ weight: 1, words: bank.toneWords["friendly"] || Object.values(bank.toneWords)[0] });
+  const draw = (salt: number) => {
+    if (lists.length === 1) return pick(lists[0].words, seed, salt);
+    let r = (hashString(`${seed}:tone:${salt}`) % 1000) / 1000;
+    const list = lists.find((l) => (r -= l.weight) < 0) || lists[lists.length - 1];
+    return pick(list.words, seed, salt);
+  };
+  const t1 = draw(1);
+  let t2 = draw(2);
+  for (let k = 1; lists.length > 1 && t2 === t1 && k < 6; k++) t2 = draw(2 + k * 10);
+  return { t1, t2 };
+}
+
+/* ========== phrase picks (shared by the social and listing composers) ========== */
+function phraseContext(
+  brief: { product: string; category?: string; keyBenefit?: string; audience?: string; tone?: string; net?: string; launch?: string },
+  seed: number,
+  brand: Pick<BrandKit, "preferredWords"> | undefined,
+  language: Language,
+  pack: TemplatePack,
+  voices: CustomVoice[] = []
+) {
+  const bank = (pack.languages[language] || DEFAULT_PACK.languages[language]) as PackLanguage;
+  const normCat = normalizeCategory(brief.category, pack);
+  const tone = parseTone(brief.tone, Object.keys(bank.toneWords), voices);
+
+  const pShort = clampWords(brief.product, 5);
+  const pSlug  = slugParts(brief.product);
+  const pEmph  = pSlug.slice(0, 3).map(w => w[0]?.toUpperCase() + w.slice(1)).join(" ");
+
+  const { t1, t2 } = toneWords(tone, bank, voices, seed);
+  const v  = pick(bank.verbs, seed, 3);
+  const c1 = pick(bank.closers, seed, 4);
+  const uc = pick(bank.useCases, seed, 5);
+  // A brand kit's preferred words replace the generic category phrases.
+  const phrases = brand?.preferredWords.length ? brand.preferredWords : bank.catBits[normCat];
+  const catPhrase = pick(phrases, seed, 6);
+  const benefit = (brief.keyBenefit && brief.keyBenefit.trim()) || pick(phrases, seed, 7);
+
+  const ctx: TemplateCtx = {
+    p: pShort,
+    pe: pEmph,
+    t1,
+    t2,
+    v,
+    c1,
+    uc,
+    cat: catPhrase,
+    b: benefit,
+    normCat,
+    catLabel: bank.catLabels[normCat] ?? (normCat === "other" ? "" : normCat),
+    aud: brief.audience || undefined,
+    net: brief.net,
+    launch: brief.launch,
+  };
+  return { bank, normCat, ctx, t1, t2, catPhrase, benefit, phrases, tone };
+}
+
+/* ========== local composer (no LLM) ========== */
+export function composeCopy(
+  product: string,
+  category?: string,
+  keyBenefit?: string,
+  audience?: string,
+  tone?: string,
+  platform?: string,
+  seedOverride?: number,
+  brand?: Pick<BrandKit, "preferredWords" | "defaultHashtags" | "bannedWords">,
+  language: Language = "en",
+  pack: TemplatePack = DEFAULT_PACK,
+  tagDictionary: HashtagDictionary = DEFAULT_HASHTAGS,
+  phase?: { id: LaunchPhase; launch?: string }, // content-calendar slot: the pack's phase templates and {launch}
+  voices: CustomVoice[] = [] // named team voices the tone text may refer to
+): { copy: StrictCopy; debug: Record<string, unknown> & { seed: number; templateIndex: number } } {
+  const seed = seedOverride ?? briefSeed(product, category, keyBenefit, audience, tone, platform);
+  const profile = resolvePlatform(platform);
+  const { bank, normCat, ctx, t1, t2, catPhrase, benefit, tone: reading } = phraseContext(
+    { product, category, keyBenefit, audience, tone, net: platform ? profile.network : undefined, launch: phase?.launch },
+    seed, brand, language, pack, voices
+  );
+  const templates = (phase && bank.phases?.[phase.id]?.length ? bank.phases[phase.id] : bank.templates) as PackTemplate[];
+  // A voice's sentence length narrows the templates; if none are short enough, all stay in play.
+  const maxWords = SENTENCE_WORDS[reading.sentenceLength];
+  const fitting = templates.map((_, i) => i).filter((i) => longestSentence(renderTemplate(templates[i].caption, ctx)) <= maxWords);
+  const eligible = fitting.length ? fitting : templates.map((_, i) => i);
+  const templateIndex = eligible[seed % eligible.length];
+  const T = templates[templateIndex];
+
+  const tags = buildHashtags(
+    {
+      product,
+      normCat,
+      language,
+      count: profile.hashtagCount,
+      benefit,
+      audience,
+      brandTags: brand?.defaultHashtags,
+      bannedWords: brand?.bannedWords,
+      packTags: [bank.catTags[normCat] || bank.catTags.other].filter(Boolean),
+      fillerTags: bank.extraTags,
+      seed,
+    },
+    tagDictionary
+  );
+
+  const copy: StrictCopy = {
+    tagline: clampWords(renderTemplate(T.tagline, ctx), T.taglineMaxWords),
+    caption: clampWords(renderTemplate(T.caption, ctx), T.captionMaxWords),
+    shortDescription: renderTemplate(T.shortDescription, ctx),
+    hashtags: tags.hashtags,
+  };
+
+  const lower = (s: string) => s.normalize("NFC").toLocaleLowerCase(language);
+  const pLower = lower(product);
+  if (!lower(copy.tagline).includes(pLower)) {
+    copy.tagline = `${clampWords(product, 3)}: ${copy.tagline}`;
+  }
+  if (!lower(copy.caption).includes(pLower)) {
+    copy.caption = `${copy.caption} (${clampWords(product, 3)})`;
+  }
+  if (reading.punctuation !== "default") {
+    copy.caption = punctuate(copy.caption, reading.punctuation);
+    copy.shortDescription = punctuate(copy.shortDescription, reading.punctuation);
+    copy.tagline = punctuate(copy.tagline, reading.punctuation).replace(/\.$/, "");
+    if (reading.punctuation === "exclamation" && !/[!?…]$/.test(copy.tagline)) copy.tagline += "!";
+  }
+
+  return {
+    copy: fitToPlatform(copy, profile, normCat),
+    debug: {
+      seed,
+      templateIndex,
+      language,
+      templatePack: pack.id,
+      platform: profile.id,
+      normCat,
+      chosenTone1: t1,
+      chosenTone2: t2,
+      catPhrase,
+      benefitResolved: benefit,
+      tone: { ...reading, summary: describeTone(reading) },
+      ...(phase ? { phase: phase.id } : {}),
+    },
+  };
+}
+
+/* ========== listing composer (shop product pages) ========== */
+// Same brief and phrase banks as the social copy; platform-free, so one listing serves every channel.
+export function composeListing(
+  product: string,
+  category?: string,
+  keyBenefit?: string,
+  audience?: string,
+  tone?: string,
+  seedOverride?: number,
+  brand?: Pick<BrandKit, "preferredWords">,
+  language: Language = "en",
+  pack: TemplatePack = DEFAULT_PACK,
+  voices: CustomVoice[] = []
+): ProductListing {
+  const seed = seedOverride ?? briefSeed(product, category, keyBenefit, audience, tone);
+  const { bank, ctx, catPhrase, benefit, phrases } = phraseContext(
+    { product, category, keyBenefit, audience, tone }, seed, brand, language, pack, voices
+  );
+  const fallback = DEFAULT_PACK.languages[language]!.listing!;
+  return buildListing(bank.listing || fallback, ctx, {
+    product,
+    language,
+    fallbackBullets: fallback.bullets,
+    keywords: [product, ctx.catLabel && `${product} ${ctx.catLabel}`, benefit, catPhrase, ctx.catLabel, ...phrases, audience],
+  });
+}
+
+/* ========== frame composer (carousels and Stories) ========== */
+export type FrameCopy = { role: FrameRole; templateIndex: number; headline: string; body: string };
+
+// One frame per role in swipe order; each role salts the seed so frames don't all pick the same slot.
+export function composeFrames(
+  product: string,
+  category?: string,
+  keyBenefit?: string,
+  audience?: string,
+  tone?: string,
+  seedOverride?: number,
+  brand?: Pick<BrandKit, "preferredWords">,
+  language: Language = "en",
+  pack: TemplatePack = DEFAULT_PACK,
+  voices: CustomVoice[] = []
+): FrameCopy[] {
+  const seed = seedOverride ?? briefSeed(product, category, keyBenefit, audience, tone);
+  const { bank, ctx, tone: reading } = phraseContext({ product, category, keyBenefit, audience, tone }, seed, brand, language, pack, voices);
+  const frames = bank.frames || DEFAULT_PACK.languages[language]!.frames!;
+  return FRAME_ROLES.map((role) => {
+    const templateIndex = hashString(`${seed}:${role}`) % frames[role].length;
+    const T = frames[role][templateIndex];
+    return {
+      role,
+      templateIndex,
+      headline: cap(punctuate(clampWords(renderTemplate(T.headline, ctx), 10), reading.punctuation), language),
+      body: cap(punctuate(clampWords(renderTemplate(T.body, ctx), 30), reading.punctuation), language),
+    };
+  });
+}
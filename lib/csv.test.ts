@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("toCsv and parseCsv", () => {
+  it("round-trips commas, quotes, newlines and arrays", () => {
+    const rows = [
+      { product: "Lumi, 30ml", caption: 'Say "hi"\nto glow', hashtags: ["#glow", "#serum"] },
+      { product: "Plain", caption: "", hashtags: undefined },
+    ];
+    const csv = toCsv(["product", "caption", "hashtags"], rows);
+    expect(csv).toBe('product,caption,hashtags\r\n"Lumi, 30ml","Say ""hi""\nto glow",#glow #serum\r\nPlain,,\r\n');
+    expect(parseCsv(csv)).toEqual([
+      { product: "Lumi, 30ml", caption: 'Say "hi"\nto glow', hashtags: "#glow #serum" },
+      { product: "Plain", caption: "", hashtags: "" },
+    ]);
+  });
+
+  it("drops a BOM and blank lines, trims cells and pads short rows", () => {
+    expect(parseCsv("﻿ Product , Tone\n\nLumi ,  calm\nSol\n")).toEqual([
+      { Product: "Lumi", Tone: "calm" },
+      { Product: "Sol", Tone: "" },
+    ]);
+    expect(parseCsv("")).toEqual([]);
+  });
+});
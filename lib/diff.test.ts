@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { diffCopies, diffWords } from "./diff";
+import type { StrictCopy } from "./types";
+
+const newer = (parts: { op: string; text: string }[]) => parts.filter((p) => p.op !== "removed").map((p) => p.text).join("");
+const older = (parts: { op: string; text: string }[]) => parts.filter((p) => p.op !== "added").map((p) => p.text).join("");
+
+describe("diffWords", () => {
+  it("marks changed words in reading order", () => {
+    expect(diffWords("Glow every single day", "Glow every bright day")).toEqual([
+      { op: "same", text: "Glow every " },
+      { op: "removed", text: "single " },
+      { op: "added", text: "bright " },
+      { op: "same", text: "day" },
+    ]);
+  });
+
+  it("rebuilds both texts from the parts", () => {
+    const a = "Meet Lumi — bright skin, every morning.";
+    const b = "Meet the new Lumi:  calm skin every morning!";
+    const parts = diffWords(a, b);
+    expect(newer(parts)).toBe(b);
+    expect(older(parts).replace(/\s+/g, " ")).toBe(a);
+  });
+
+  it("handles empty and identical texts", () => {
+    expect(diffWords("", "")).toEqual([]);
+    expect(diffWords("same", "same")).toEqual([{ op: "same", text: "same" }]);
+    expect(diffWords("", "new text")).toEqual([{ op: "added", text: "new text" }]);
+    expect(diffWords("old", "")).toEqual([{ op: "removed", text: "old" }]);
+  });
+
+  it("replaces the whole text when the table would be too big", () => {
+    const a = "a ".repeat(1001).trim();
+    const b = "b ".repeat(1001).trim();
+    expect(diffWords(a, b)).toEqual([{ op: "removed", text: a }, { op: "added", text: b }]);
+  });
+});
+
+describe("diffCopies", () => {
+  const copy = (fields: Partial<StrictCopy>): StrictCopy => ({ tagline: "Glow", caption: "Bright skin.", shortDescription: "A serum.", hashtags: ["#glow"], ...fields });
+
+  it("diffs each field and compares images whole", () => {
+    const diff = diffCopies(
+      { copy: copy({}), image: { url: "https://images.pexels.com/photos/1/a.jpg" } },
+      { copy: copy({ caption: "Calm skin.", hashtags: ["#glow", "#calm"] }), image: { url: "data:image/png;base64,AAAA" } }
+    );
+    expect(diff.map((d) => [d.field, d.changed])).toEqual([
+      ["tagline", false],
+      ["caption", true],
+      ["shortDescription", false],
+      ["hashtags", true],
+      ["image", true],
+    ]);
+    expect(diff[3].parts).toEqual([{ op: "same", text: "#glow " }, { op: "added", text: "#calm" }]);
+    expect(diff[4].parts).toEqual([
+      { op: "removed", text: "https://images.pexels.com/photos/1/a.jpg" },
+      { op: "added", text: "(uploaded image)" },
+    ]);
+  });
+
+  it("treats a missing image on both sides as unchanged", () => {
+    const [, , , , image] = diffCopies({ copy: copy({}) }, { copy: copy({}), image: null });
+    expect(image).toEqual({ field: "image", changed: false, parts: [] });
+  });
+});
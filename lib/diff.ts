@@ -0,0 +1,70 @@
+import type { StrictCopy } from "./types";
+
+/* ------------ types ------------ */
+export type DiffOp = "same" | "added" | "removed";
+export type DiffPart = { op: DiffOp; text: string };
+export type FieldDiff = { field: keyof StrictCopy | "image"; changed: boolean; parts: DiffPart[] };
+
+type Diffable = { copy: StrictCopy; image?: { url: string } | null };
+
+const MAX_CELLS = 1_000_000; // LCS table size past which we fall back to a whole-text replace
+
+/* ========== word diff ========== */
+// Tokens keep their trailing whitespace; joining everything but "removed" reproduces the newer text exactly.
+const tokenize = (s: string) => s.match(/\S+\s*|\s+/g) || [];
+
+export function diffWords(a: string, b: string): DiffPart[] {
+  if (a === b) return a ? [{ op: "same", text: a }] : [];
+  const x = tokenize(a);
+  const y = tokenize(b);
+  if (x.length * y.length > MAX_CELLS) {
+    return [...(a ? [{ op: "removed" as const, text: a }] : []), ...(b ? [{ op: "added" as const, text: b }] : [])];
+  }
+
+  // Classic LCS table, walked forwards so parts come out in reading order.
+  const lcs = Array.from({ length: x.length + 1 }, () => new Array<number>(y.length + 1).fill(0));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i][j] = x[i].trim() === y[j].trim() ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (op: DiffOp, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.op === op) last.text += text;
+    else parts.push({ op, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < x.length && j < y.length) {
+    if (x[i].trim() === y[j].trim()) {
+      push("same", y[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) push("removed", x[i++]);
+    else push("added", y[j++]);
+  }
+  while (i < x.length) push("removed", x[i++]);
+  while (j < y.length) push("added", y[j++]);
+  return parts;
+}
+
+/* ========== generation diff ========== */
+export function diffCopies(from: Diffable, to: Diffable): FieldDiff[] {
+  const text = (d: Diffable, field: FieldDiff["field"]) =>
+    field === "image" ? d.image?.url || "" : field === "hashtags" ? d.copy.hashtags.join(" ") : d.copy[field];
+  return (["tagline", "caption", "shortDescription", "hashtags", "image"] as const).map((field) => {
+    const a = text(from, field);
+    const b = text(to, field);
+    // Image URLs are compared whole; a word diff of two URLs says nothing useful, and uploads are too long to show.
+    const label = (url: string) => (url.startsWith("data:") ? "(uploaded image)" : url);
+    const parts =
+      field !== "image"
+        ? diffWords(a, b)
+        : a === b
+        ? (a ? [{ op: "same" as const, text: label(a) }] : [])
+        : [...(a ? [{ op: "removed" as const, text: label(a) }] : []), ...(b ? [{ op: "added" as const, text: label(b) }] : [])];
+    return { field, changed: a !== b, parts };
+  });
+}
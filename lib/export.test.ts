@@ -0,0 +1,68 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { strFromU8, unzipSync } from "fflate";
+import { afterAll, describe, expect, it } from "vitest";
+import { parseCsv } from "./csv";
+import type { StrictCopy } from "./types";
+
+// The image library and uploads read DATA_DIR when they are first imported.
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "export-test-"));
+const { buildCampaignZip } = await import("./export");
+afterAll(() => rmSync(process.env.DATA_DIR!, { recursive: true, force: true }));
+
+const copy = (tagline: string): StrictCopy => ({ tagline, caption: `${tagline}, every day.`, shortDescription: "A serum.", hashtags: ["#glow", "#serum"] });
+
+describe("buildCampaignZip", () => {
+  it("writes one folder per generation plus the shared campaign files", async () => {
+    const zip = unzipSync(
+      await buildCampaignZip(
+        [
+          { request: { product: "Lumi Serum", colorHint: "navy" }, seed: 7, copy: copy("Glow"), variants: [{ seed: 8, templateIndex: 2, copy: copy("Shine") }] },
+          { request: { product: "Sol Crème", language: "fr" }, copy: copy("Éclat"), photo: { url: "data:image/png;base64,bm9wZQ==" } },
+        ],
+        ["instagram-feed", "x"]
+      )
+    );
+
+    expect(Object.keys(zip).sort()).toEqual([
+      "01-lumi-serum/images/poster.png",
+      "01-lumi-serum/palette.css",
+      "01-lumi-serum/tokens.json",
+      "02-sol-creme-fr/images/poster.png",
+      "02-sol-creme-fr/palette.css",
+      "02-sol-creme-fr/tokens.json",
+      "brief.md",
+      "campaign.json",
+      "manifest.json",
+      "posts.csv",
+    ]);
+
+    // final + one variant for Lumi, final for Sol, each on two platforms
+    const rows = parseCsv(strFromU8(zip["posts.csv"]));
+    expect(rows.map((r) => `${r.product}/${r.variant}/${r.platform}`)).toEqual([
+      "Lumi Serum/final/instagram-feed",
+      "Lumi Serum/final/x",
+      "Lumi Serum/1/instagram-feed",
+      "Lumi Serum/1/x",
+      "Sol Crème/final/instagram-feed",
+      "Sol Crème/final/x",
+    ]);
+    expect(rows[0]).toMatchObject({ seed: "7", image: "01-lumi-serum/images/poster.png", post_text: "Glow, every day. ✨\n\n#glow #serum" });
+
+    const manifest = JSON.parse(strFromU8(zip["manifest.json"]));
+    expect(manifest.generations[1].photo).toEqual({ url: "(uploaded)" });
+    expect(manifest.generations[1].warnings).toEqual([expect.stringMatching(/^photo: /)]);
+
+    const brief = strFromU8(zip["brief.md"]);
+    expect(brief).toContain("## Lumi Serum");
+    expect(brief).toContain("- **Colour hint:** navy");
+    expect(brief).toContain("1. Shine — Shine, every day. _(seed 8)_");
+  });
+
+  it("keeps a single generation at the top level", async () => {
+    const zip = unzipSync(await buildCampaignZip([{ request: { product: "Lumi" }, copy: copy("Glow") }]));
+    expect(zip["images/poster.png"]).toBeDefined();
+    expect(JSON.parse(strFromU8(zip["campaign.json"]))).toEqual([{ product: "Lumi", copy: copy("Glow"), variants: [] }]);
+  });
+});
@@ -0,0 +1,206 @@
+import { strToU8, zipSync, type Zippable } from "fflate";
+import sharp from "sharp";
+import type { CopyVariant, GenReq, StrictCopy } from "./types";
+import type { ProductListing } from "./listing";
+import { toCsv } from "./csv";
+import { assemblePost, fitToPlatform, resolvePlatform, type PlatformId } from "./platforms";
+import { decodeDataUrl, fetchPosterImage, renderPoster } from "./poster";
+import { paletteCss, paletteTokens } from "./color";
+import { paletteFor } from "./palette";
+
+/* ------------ types ------------ */
+export type ExportItem = {
+  request: GenReq;
+  seed?: number;
+  provider?: string;
+  copy: StrictCopy;                 // final (possibly mixed/edited) copy
+  variants?: CopyVariant[];
+  photo?: { url: string; attribution?: string } | null;
+  posterDataUrl?: string | null;    // PNG already rendered in the UI; re-rendered when absent
+  altText?: string;                 // poster alt text to paste alongside the post
+  listing?: ProductListing | null;  // shop listing copy, when generated
+};
+
+type ManifestEntry = {
+  product: string;
+  request: GenReq;
+  seed?: number;
+  provider?: string;
+  photo: { url: string; attribution?: string } | null;
+  files: string[];
+  warnings: string[];
+};
+
+const CSV_HEADER = ["product", "language", "variant", "seed", "template", "platform", "tagline", "caption", "hashtags", "post_text", "image"];
+
+const slug = (s: string) =>
+  s.toLowerCase().normalize("NFKD").replace(/\p{M}/gu, "").replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "").slice(0, 40) || "product";
+
+/* ========== markdown brief ========== */
+function briefMarkdown(item: ExportItem, files: string[]) {
+  const r = item.request;
+  const facts: [string, unknown][] = [
+    ["Category", r.category],
+    ["Key benefit", r.keyBenefit],
+    ["Audience", r.audience],
+    ["Tone", r.tone],
+    ["Platform", resolvePlatform(r.platform).label],
+    ["Language", r.language],
+    ["Colour hint", r.colorHint],
+    ["Seed", item.seed],
+    ["Copy provider", item.provider],
+  ];
+  const lines = [
+    `## ${r.product}`,
+    "",
+    ...facts.filter(([, v]) => v !== undefined && v !== "").map(([k, v]) => `- **${k}:** ${v}`),
+    "",
+    "### Copy",
+    "",
+    `**Tagline:** ${item.copy.tagline}`,
+    "",
+    `**Caption:** ${item.copy.caption}`,
+    "",
+    `**Short description:** ${item.copy.shortDescription}`,
+    "",
+    `**Hashtags:** ${item.copy.hashtags.join(" ")}`,
+  ];
+  if (typeof item.altText === "string" && item.altText.trim()) lines.push("", `**Poster alt text:** ${item.altText.trim()}`);
+  if (item.listing && Array.isArray(item.listing.bullets) && Array.isArray(item.listing.keywords)) {
+    const l = item.listing;
+    lines.push(
+      "",
+      "### Shop listing",
+      "",
+      `**SEO title:** ${l.title}`,
+      "",
+      ...l.bullets.map((b) => `- ${b}`),
+      "",
+      l.description,
+      "",
+      `**Meta description:** ${l.metaDescription}`,
+      "",
+      `**URL slug:** \`${l.slug}\``,
+      "",
+      `**Keywords:** ${l.keywords.join(", ")}`
+    );
+  }
+  if (item.variants?.length) {
+    lines.push("", `### Variants (${item.variants.length})`, "");
+    item.variants.forEach((v, i) => lines.push(`${i + 1}. ${v.copy.tagline} — ${v.copy.caption} _(seed ${v.seed})_`));
+  }
+  if (item.photo) {
+    lines.push("", "### Image", "", `- Source: ${item.photo.url}`);
+    if (item.photo.attribution) lines.push(`- Credit: ${item.photo.attribution}`);
+  }
+  if (files.length) lines.push("", "Files: " + files.map((f) => `\`${f}\``).join(", "));
+  return lines.join("\n");
+}
+
+/* ========== bundle ========== */
+export async function buildCampaignZip(items: ExportItem[], platforms?: PlatformId[]): Promise<Uint8Array> {
+  const zip: Zippable = {};
+  const manifest: ManifestEntry[] = [];
+  const csvRows: Record<string, unknown>[] = [];
+  const briefs: string[] = [];
+
+  for (const [i, item] of items.entries()) {
+    const name = [item.request.product, item.request.language].filter(Boolean).join(" ");
+    const dir = items.length > 1 ? `${String(i + 1).padStart(2, "0")}-${slug(name)}/` : "";
+    const files: string[] = [];
+    const warnings: string[] = [];
+
+    // Photo + poster; a photo sharp can't read is dropped so the poster still renders on the gradient.
+    let photo: Buffer | null = null;
+    if (item.photo?.url) {
+      try {
+        const buf = item.photo.url.startsWith("data:") ? decodeDataUrl(item.photo.url) : await fetchPosterImage(item.photo.url);
+        const ext = (await sharp(buf).metadata()).format || "jpg";
+        const name = `${dir}images/photo.${ext === "jpeg" ? "jpg" : ext}`;
+        zip[name] = new Uint8Array(buf);
+        files.push(name);
+        photo = buf;
+      } catch (e) {
+        warnings.push(`photo: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    // Palette (same hint + photo as the poster, so the tokens match it)
+    const palette = await paletteFor(item.request.colorHint, photo);
+    zip[`${dir}palette.css`] = strToU8(paletteCss(palette));
+    zip[`${dir}tokens.json`] = strToU8(JSON.stringify(paletteTokens(palette), null, 2));
+    files.push(`${dir}palette.css`, `${dir}tokens.json`);
+
+    try {
+      const poster = item.posterDataUrl
+        ? decodeDataUrl(item.posterDataUrl)
+        : (
+            await renderPoster({
+              tagline: item.copy.tagline,
+              caption: item.copy.caption,
+              colorHint: item.request.colorHint,
+              accent: palette.swatches[0].hex,
+              layout: item.request.posterLayout,
+              ...resolvePlatform(item.request.platform).size,
+              image: photo,
+            })
+          ).png;
+      const name = `${dir}images/poster.png`;
+      zip[name] = new Uint8Array(poster);
+      files.push(name);
+    } catch (e) {
+      warnings.push(`poster: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    // One scheduler row per variant × platform; the final copy goes first.
+    const rows = [
+      { variant: "final", seed: item.seed, template: "", copy: item.copy },
+      ...(item.variants || []).map((v, n) => ({ variant: String(n + 1), seed: v.seed, template: v.templateIndex, copy: v.copy })),
+    ];
+    const targets = platforms?.length ? platforms : [resolvePlatform(item.request.platform).id];
+    for (const row of rows) {
+      for (const pid of targets) {
+        const profile = resolvePlatform(pid);
+        const fitted = fitToPlatform(row.copy, profile);
+        csvRows.push({
+          product: item.request.product,
+          language: item.request.language || "en",
+          variant: row.variant,
+          seed: row.seed,
+          template: row.template,
+          platform: profile.id,
+          tagline: fitted.tagline,
+          caption: fitted.caption,
+          hashtags: fitted.hashtags,
+          post_text: assemblePost(fitted, profile),
+          image: files.find((f) => f.endsWith("poster.png")) || "",
+        });
+      }
+    }
+
+    briefs.push(briefMarkdown(item, files));
+    manifest.push({
+      product: item.request.product,
+      request: item.request,
+      seed: item.seed,
+      provider: item.provider,
+      photo: item.photo?.url.startsWith("data:") ? { url: "(uploaded)", attribution: item.photo.attribution } : item.photo || null,
+      files,
+      warnings,
+    });
+  }
+
+  zip["campaign.json"] = strToU8(
+    JSON.stringify(
+      items.map((it) => ({ product: it.request.product, seed: it.seed, provider: it.provider, copy: it.copy, variants: it.variants || [] })),
+      null,
+      2
+    )
+  );
+  zip["posts.csv"] = strToU8(toCsv(CSV_HEADER, csvRows));
+  zip["brief.md"] = strToU8(`# Campaign brief\n\n${briefs.join("\n\n---\n\n")}\n`);
+  zip["manifest.json"] = strToU8(
+    JSON.stringify({ createdAt: new Date().toISOString(), generator: "brand-in-a-box", generations: manifest }, null, 2)
+  );
+
+  return zipSync(zip, { level: 6 });
+}
@@ -0,0 +1,40 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+
+// The store reads DATA_DIR when it is first imported.
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "frames-test-"));
+process.env.LOG_LEVEL = "silent";
+const { createBrandKit } = await import("./brandKits");
+const { generateFrames, validateFramesReq } = await import("./frames");
+afterAll(() => rmSync(process.env.DATA_DIR!, { recursive: true, force: true }));
+
+const kit = (fields: { audience?: string; preferredWords?: string[] }) =>
+  createBrandKit({ name: "Lumi", palette: [], preferredWords: [], bannedWords: [], defaultHashtags: [], imageKeywords: [], ...fields });
+
+describe("validateFramesReq", () => {
+  it("checks the brief, format and layout", () => {
+    expect(validateFramesReq({ brief: { product: "Lumi" }, format: "story" })).toMatchObject({ value: { format: "story" } });
+    const result = validateFramesReq({ brief: {}, format: "reel", layout: "grid" });
+    expect("errors" in result && result.errors.map((e) => e.path)).toEqual(["brief.product", "format", "layout"]);
+  });
+});
+
+describe("generateFrames", () => {
+  it("moderates copy the brand kit fills in", async () => {
+    const { id } = await kit({ audience: "<i>busy</i> parents", preferredWords: ["<b>radiant</b>"] });
+    const result = await generateFrames({ brief: { product: "Lumi", category: "skincare", brandKitId: id, includeImage: false } });
+    if (!result.ok) throw new Error(result.error.error);
+    expect(result.set.frames).toHaveLength(4);
+    for (const f of result.set.frames) expect(`${f.headline} ${f.body}`).not.toMatch(/<\/?[bi]>/);
+    expect(result.set.moderation.blocked).toBe(false);
+    expect(result.set.moderation.findings[0]).toMatchObject({ stage: "copy", field: expect.stringMatching(/^frames\[\d\]\./), rule: "markup" });
+  });
+
+  it("refuses frames whose copy moderation blocks", async () => {
+    const { id } = await kit({ audience: "damn busy parents" });
+    const result = await generateFrames({ brief: { product: "Lumi", category: "skincare", brandKitId: id, includeImage: false } });
+    expect(result).toMatchObject({ ok: false, status: 422, error: { code: "blocked", fields: [{ path: expect.stringMatching(/^frames\[\d\]\./) }] } });
+  });
+});
@@ -0,0 +1,229 @@
+import { strToU8, zipSync, type Zippable } from "fflate";
+import type { GenReq } from "./types";
+import { briefSeed, composeFrames } from "./compose";
+import { getBrandKit, stripBanned, withBrandKit } from "./brandKits";
+import { buildImageQueries, findCandidates, type ImageCandidate, type ImageSource, type ImageWarning } from "./images";
+import { attribution } from "./util";
+import type { Orientation } from "./platforms";
+import { getPack } from "./packFiles";
+import { normalizeCategory, type FrameRole } from "./packs";
+import { fetchPosterImage, pngDataUrl, POSTER_LAYOUTS, renderPoster, svgDataUrl, type PosterLayout, type PosterText } from "./poster";
+import { paletteFor } from "./palette";
+import { candidateAlt, posterAlt } from "./a11y";
+import { slugify } from "./listing";
+import { listVoices } from "./voices";
+import { blockedFields, mergeReports, moderateBrief, moderateFrames, type ModerationReport } from "./moderation";
+import { getModerationConfig } from "./moderationStore";
+import { apiError, invalidRequest, moderationBlocked, validateGenReq, type ApiError, type FieldError } from "./validate";
+
+/* ------------ types ------------ */
+export type FrameFormat = "carousel" | "story";
+export const FRAME_FORMATS: FrameFormat[] = ["carousel", "story"];
+
+// Instagram's own sizes: square carousel slides, full-screen 9:16 Stories.
+export const FRAME_SIZES: Record<FrameFormat, { width: number; height: number; orientation: Orientation; layout: PosterLayout }> = {
+  carousel: { width: 1080, height: 1080, orientation: "square", layout: "bottom-band" },
+  story: { width: 1080, height: 1920, orientation: "portrait", layout: "centered" },
+};
+
+export type FramesReq = {
+  brief: GenReq;
+  format?: FrameFormat;  // default carousel
+  layout?: PosterLayout; // default per format (see FRAME_SIZES)
+};
+
+export type FrameImage = { url: string; thumbUrl: string; source: ImageSource; attribution: string };
+
+export type Frame = {
+  index: number; // 1-based swipe position
+  role: FrameRole;
+  headline: string;
+  body: string;
+  image: FrameImage | null; // null => gradient background
+  alt: string;
+  png: string; // data URL
+  svg: string; // data URL
+  text: PosterText[];
+};
+
+export type FrameSet = {
+  format: FrameFormat;
+  width: number;
+  height: number;
+  layout: PosterLayout;
+  product: string;
+  language: string;
+  seed: number;
+  accent: string;
+  frames: Frame[];
+  bannedRemoved: string[];
+  moderation: ModerationReport; // brief and frame copy findings (templates pull in kit audience, words and voice)
+  warnings: ImageWarning[];
+};
+
+export type FramesOutcome = { ok: true; set: FrameSet } | { ok: false; status: number; error: ApiError };
+
+/* ------------ env ------------ */
+const CANDIDATES = 12; // a few spares for photos that fail to download
+
+/* ========== validation ========== */
+export function validateFramesReq(raw: unknown): { value: FramesReq } | { errors: FieldError[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { errors: [{ path: "", message: "expected a JSON object" }] };
+  const b = raw as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const brief = validateGenReq(b.brief);
+  if ("errors" in brief) errors.push(...brief.errors.map((e) => ({ path: e.path ? `brief.${e.path}` : "brief", message: e.message })));
+  if (b.format != null && !FRAME_FORMATS.includes(b.format as FrameFormat)) {
+    errors.push({ path: "format", message: `must be one of ${FRAME_FORMATS.join(", ")}` });
+  }
+  if (b.layout != null && !POSTER_LAYOUTS.includes(b.layout as PosterLayout)) {
+    errors.push({ path: "layout", message: `must be one of ${POSTER_LAYOUTS.join(", ")}` });
+  }
+
+  if (errors.length || "errors" in brief) return { errors };
+  return { value: { brief: brief.value, format: b.format as FrameFormat | undefined, layout: b.layout as PosterLayout | undefined } };
+}
+
+/* ========== generation ========== */
+const fail = (status: number, error: ApiError): FramesOutcome => ({ ok: false, status, error });
+
+// Photos in candidate order, each used once; a frame past the last usable photo falls back to the gradient.
+async function distinctPhotos(candidates: ImageCandidate[], count: number) {
+  const out: { candidate: ImageCandidate; buffer: Buffer }[] = [];
+  const seen = new Set<string>();
+  for (const c of candidates) {
+    if (out.length >= count) break;
+    if (c.source === "generated" || seen.has(c.url)) continue;
+    seen.add(c.url);
+    const buffer = await fetchPosterImage(c.url).catch(() => null);
+    if (buffer) out.push({ candidate: c, buffer });
+  }
+  return out;
+}
+
+export async function generateFrames(input: FramesReq): Promise<FramesOutcome> {
+  const kit = input.brief.brandKitId ? await getBrandKit(input.brief.brandKitId) : null;
+  if (input.brief.brandKitId && !kit) {
+    return fail(404, apiError("not_found", "Brand kit not found", [{ path: "brief.brandKitId", message: "not found" }]));
+  }
+  const config = (await getModerationConfig()).config;
+  const briefCheck = moderateBrief(input.brief, config, kit?.imageKeywords);
+  if (briefCheck.report.blocked) return fail(422, moderationBlocked(blockedFields(briefCheck.report, "brief.")));
+  const brief = withBrandKit(briefCheck.brief, kit);
+  const language = brief.language || "en";
+  const pack = await getPack(brief.templatePack);
+  if (!pack) return fail(404, apiError("not_found", "Template pack not found", [{ path: "brief.templatePack", message: "not found" }]));
+  if (!pack.languages[language]) {
+    return fail(400, invalidRequest([{ path: "brief.language", message: `not in template pack "${pack.id}"` }]));
+  }
+
+  const format = input.format || "carousel";
+  const size = FRAME_SIZES[format];
+  const layout = input.layout || size.layout;
+  const seed = brief.seed ?? briefSeed(brief.product, brief.category, brief.keyBenefit, brief.audience, brief.tone);
+
+  // 1) Copy: one composer pass per role, the kit's banned words out of every line, then moderation like any copy
+  const removed = new Set<string>();
+  const banned = kit?.bannedWords || [];
+  const composed = composeFrames(
+    brief.product, brief.category, brief.keyBenefit, brief.audience, brief.tone, seed, kit || undefined, language, pack, await listVoices()
+  ).map((f) => (banned.length ? { ...f, headline: stripBanned(f.headline, banned, removed), body: stripBanned(f.body, banned, removed) } : f));
+  const copyCheck = moderateFrames(composed, config);
+  if (copyCheck.report.blocked) return fail(422, moderationBlocked(blockedFields(copyCheck.report)));
+  const copy = copyCheck.frames;
+
+  // 2) Images: one search at the format's orientation, one distinct photo per frame
+  const queries = buildImageQueries(brief.product, brief.category, brief.imageStyle, brief.colorHint, brief.imageQuery, briefCheck.imageKeywords);
+  const { candidates, warnings } =
+    brief.includeImage !== false
+      ? await findCandidates(queries, {
+          n: CANDIDATES,
+          orientation: size.orientation,
+          size: { width: size.width, height: size.height },
+          label: brief.product,
+          colorHint: brief.colorHint,
+          brandKitId: kit?.id,
+        })
+      : { candidates: [], warnings: [] };
+  const photos = await distinctPhotos(candidates, copy.length);
+
+  // 3) Render: the first photo sets the accent so every frame shares one palette
+  const palette = await paletteFor(brief.colorHint, photos[0]?.buffer || null);
+  const accent = palette.swatches[0].hex;
+  const categoryLabel = pack.languages[language]?.catLabels[normalizeCategory(brief.category, pack)] ?? "";
+  const frames: Frame[] = [];
+  for (const [i, f] of copy.entries()) {
+    const photo = photos[i] || null;
+    const poster = await renderPoster({
+      tagline: f.headline,
+      caption: f.body,
+      colorHint: brief.colorHint,
+      accent,
+      layout,
+      width: size.width,
+      height: size.height,
+      image: photo?.buffer || null,
+    });
+    frames.push({
+      index: i + 1,
+      role: f.role,
+      headline: f.headline,
+      body: f.body,
+      image: photo
+        ? { url: photo.candidate.url, thumbUrl: photo.candidate.thumbUrl, source: photo.candidate.source, attribution: attribution(photo.candidate) }
+        : null,
+      alt: posterAlt({
+        product: brief.product,
+        categoryLabel,
+        copy: { tagline: f.headline, caption: f.body },
+        background: photo ? candidateAlt(photo.candidate, brief.product, language) : null,
+        language,
+      }),
+      png: pngDataUrl(poster.png),
+      svg: svgDataUrl(poster.svg),
+      text: poster.text,
+    });
+  }
+
+  return {
+    ok: true,
+    set: {
+      format,
+      width: size.width,
+      height: size.height,
+      layout,
+      product: brief.product,
+      language,
+      seed,
+      accent,
+      frames,
+      bannedRemoved: [...removed],
+      moderation: mergeReports(briefCheck.report, copyCheck.report),
+      warnings,
+    },
+  };
+}
+
+/* ========== download ========== */
+const fromDataUrl = (url: string) => Buffer.from(url.slice(url.indexOf(",") + 1), "base64");
+
+export const framesFileName = (set: FrameSet) => `${slugify(set.product, 40) || "frames"}-${set.format}.zip`;
+
+// 01-hook.png / .svg … in swipe order, plus the copy, alt text and credits to paste in alongside.
+export function framesZip(set: FrameSet): Uint8Array {
+  const zip: Zippable = {};
+  const md = [`# ${set.product} — ${set.format} (${set.width}×${set.height})`, ""];
+  for (const f of set.frames) {
+    const base = `${String(f.index).padStart(2, "0")}-${f.role}`;
+    zip[`${base}.png`] = new Uint8Array(fromDataUrl(f.png));
+    zip[`${base}.svg`] = new Uint8Array(fromDataUrl(f.svg));
+    md.push(`## ${f.index}. ${f.role}`, "", `**${f.headline}**`, "", f.body, "", `Alt: ${f.alt}`);
+    if (f.image) md.push("", `Photo: ${f.image.attribution}`);
+    md.push("");
+  }
+  zip["captions.md"] = strToU8(md.join("\n"));
+  // The images are already in the zip; JSON.stringify drops the undefined data URLs.
+  zip["frames.json"] = strToU8(JSON.stringify({ ...set, frames: set.frames.map((f) => ({ ...f, png: undefined, svg: undefined })) }, null, 2));
+  return zipSync(zip);
+}
@@ -0,0 +1,305 @@
+import type { CopyVariant, GenReq, StrictCopy } from "./types";
+import { briefSeed, composeCopy, composeListing, composeVariants, MAX_VARIANTS } from "./compose";
+import { enforceBannedListing, enforceBannedWords, getBrandKit, withBrandKit } from "./brandKits";
+import { buildImageQueries, findCandidates, type ImageCandidate, type ImageWarning } from "./images";
+import { attribution } from "./util";
+import { fitToPlatform, resolvePlatform, validateForPlatform, type PlatformProfile, type PlatformReport } from "./platforms";
+import { resolveLanguage, type Language } from "./languages";
+import { getPack } from "./packFiles";
+import { lintCopy, type LintReport } from "./compliance";
+import { saveGeneration } from "./history";
+import { fetchPosterImage, pngDataUrl, renderPoster, type PosterText } from "./poster";
+import { paletteFor } from "./palette";
+import { buildHashtags } from "./hashtags";
+import { getHashtagDictionary } from "./hashtagStore";
+import { blockedFields, describeFinding, mergeReports, moderateBrief, moderateCopy, moderateListing, type ModerationReport } from "./moderation";
+import { getModerationConfig } from "./moderationStore";
+import { listVoices } from "./voices";
+import type { ToneReading } from "./tone";
+import type { Palette } from "./color";
+import { accessibilityReport, candidateAlt, posterAlt, type A11yReport, type AltText } from "./a11y";
+import type { ProductListing } from "./listing";
+import { apiError, moderationBlocked, type ApiError } from "./validate";
+import { errorFields, log, stageClock } from "./observability";
+import { generateWithProvider, resolveProvider, type FallbackReason, type ProviderName } from "./llm";
+
+/* ------------ response types ------------ */
+export type GenerateDebug = {
+  seed: number;
+  templateIndex: number;
+  language: Language;
+  templatePack: string;
+  platform: string;
+  normCat: string;
+  chosenTone1: string;
+  chosenTone2: string;
+  catPhrase: string;
+  benefitResolved: string;
+  tone: ToneReading & { summary: string }; // how the tone text was read
+  providerReason: string;
+  model?: string;
+  llmLatencyMs?: number;
+};
+
+export type GenerateResponse = {
+  provider: ProviderName | "local";
+  demo: false;
+  copy: StrictCopy;
+  seed: number;
+  language: Language;
+  templatePack: string;
+  history: { id: string; threadId: string; version: number } | null;
+  platform: PlatformProfile;
+  validation: PlatformReport;
+  lint: LintReport;
+  variants: CopyVariant[];
+  brandKit: { id: string; name: string; bannedRemoved: string[] } | null;
+  imageDataUrl: string | null;
+  palette: Palette;
+  altText: AltText | null; // null when no poster was asked for
+  accessibility: A11yReport;
+  listing: ProductListing | null; // when formats includes "listing"
+  moderation: ModerationReport; // what was removed, replaced or flagged in the brief and the copy
+  candidates: ImageCandidate[];
+  photoUrls: string[];
+  warnings: ImageWarning[];
+  fallback: { from: ProviderName; reason: FallbackReason | "moderation"; detail: string } | null;
+  rawModelText?: string;
+  debug: GenerateDebug;
+  note: string;
+};
+
+export type GenerateOutcome = { ok: true; body: GenerateResponse } | { ok: false; status: number; error: ApiError };
+
+const fail = (status: number, error: ApiError): GenerateOutcome => ({ ok: false, status, error });
+
+/* ========== pipeline ========== */
+// Shared by /api/generate and /api/v1/generate; `input` must already have passed validateGenReq.
+// Each stage is logged and timed as it finishes (see lib/observability.ts).
+export async function generate(input: GenReq): Promise<GenerateOutcome> {
+  const lap = stageClock();
+  const kit = input.brandKitId ? await getBrandKit(input.brandKitId) : null;
+  if (input.brandKitId && !kit) return fail(404, apiError("not_found", "Brand kit not found", [{ path: "brandKitId", message: "not found" }]));
+
+  // Moderation first: nothing typed reaches the composer, the model or the image search unchecked.
+  const { config: moderationConfig } = await getModerationConfig();
+  const briefCheck = moderateBrief(input, moderationConfig, kit?.imageKeywords);
+  lap("moderate_brief", { findings: briefCheck.report.findings.length, blocked: briefCheck.report.blocked });
+  if (briefCheck.report.blocked) return fail(422, moderationBlocked(blockedFields(briefCheck.report)));
+  const body = withBrandKit(briefCheck.brief, kit);
+  const {
+    product,
+    category,
+    keyBenefit,
+    audience,
+    tone,
+    platform,
+    imageStyle,
+    colorHint,
+    includeImage,
+    imageQuery,
+    variants: variantCount,
+    seed,
+    localOnly,
+    posterLayout,
+    formats,
+  } = body;
+
+  const language = body.language ? resolveLanguage(body.language) : "en";
+  if (!language) {
+    return fail(400, apiError("invalid_request", `Unsupported language "${body.language}"`, [{ path: "language", message: "unsupported" }]));
+  }
+  const pack = await getPack(body.templatePack);
+  if (!pack) return fail(404, apiError("not_found", "Template pack not found", [{ path: "templatePack", message: "not found" }]));
+  if (!pack.languages[language]) {
+    return fail(
+      400,
+      apiError("invalid_request", `Template pack "${pack.id}" has no ${language} templates`, [
+        { path: "language", message: `not in template pack "${pack.id}"` },
+      ])
+    );
+  }
+
+  const profile = resolvePlatform(platform);
+  const { dictionary: tagDictionary } = await getHashtagDictionary();
+  const voices = await listVoices();
+
+  // 1) Copy: configured LLM provider, local composer as the guaranteed fallback
+  const baseSeed =
+    typeof seed === "number" && Number.isFinite(seed)
+      ? Math.floor(Math.abs(seed)) >>> 0
+      : briefSeed(product, category, keyBenefit, audience, tone, platform);
+  const count = Math.min(Math.max(Math.floor(Number(variantCount) || 1), 1), MAX_VARIANTS);
+  const local = composeVariants(baseSeed, count, (s) =>
+    composeCopy(product, category, keyBenefit, audience, tone, platform, s, kit || undefined, language, pack, tagDictionary, undefined, voices)
+  );
+  const choice = localOnly ? { provider: null, reason: "localOnly requested" } : resolveProvider();
+  let provider: ProviderName | "local" = "local";
+  let copy: StrictCopy = local.variants[0].copy;
+  let debug = { ...local.debug[0], providerReason: choice.reason } as GenerateDebug;
+  let fallback: GenerateResponse["fallback"] = null;
+  let rawModelText: string | undefined;
+  lap("compose", { variants: local.variants.length, templateIndex: debug.templateIndex, language, templatePack: pack.id });
+
+  if (choice.provider) {
+    const llm = await generateWithProvider(choice.provider, { ...body, language });
+    rawModelText = llm.raw;
+    debug = { ...debug, model: choice.provider.model, llmLatencyMs: llm.latencyMs };
+    if (llm.ok) {
+      provider = choice.provider.name;
+      // The model's tags are candidates like any other: scored, spam-filtered and mixed to the platform count.
+      const tags = buildHashtags(
+        {
+          product,
+          normCat: debug.normCat,
+          language,
+          count: profile.hashtagCount,
+          benefit: debug.benefitResolved,
+          audience,
+          brandTags: kit?.defaultHashtags,
+          bannedWords: kit?.bannedWords,
+          suggested: llm.copy.hashtags,
+          seed: baseSeed,
+        },
+        tagDictionary
+      );
+      copy = fitToPlatform({ ...llm.copy, hashtags: tags.hashtags }, profile, debug.normCat);
+    } else {
+      fallback = { from: choice.provider.name, reason: llm.reason, detail: llm.detail };
+    }
+    lap("llm", { provider: choice.provider.name, model: choice.provider.model, ok: llm.ok });
+  }
+
+  // Banned words are enforced on whatever ran, LLM or composer.
+  const banned = kit?.bannedWords || [];
+  const enforced = enforceBannedWords(copy, banned);
+  copy = enforced.copy;
+  const variantChecks = local.variants.map((v) => ({ ...v, check: moderateCopy(enforceBannedWords(v.copy, banned).copy, moderationConfig) }));
+  const variants = variantChecks.filter((v) => !v.check.report.blocked).map(({ check, ...v }) => ({ ...v, copy: check.copy }));
+
+  // Then moderation; model copy that would be blocked is swapped for the local copy.
+  let copyCheck = moderateCopy(copy, moderationConfig);
+  if (copyCheck.report.blocked && provider !== "local") {
+    const detail = copyCheck.report.findings.filter((f) => f.action === "block").map(describeFinding).join("; ");
+    fallback = { from: provider, reason: "moderation", detail };
+    provider = "local";
+    copyCheck = variantChecks[0].check;
+  }
+  if (copyCheck.report.blocked) return fail(422, moderationBlocked(blockedFields(copyCheck.report)));
+  copy = copyCheck.copy;
+
+  // Shop listing: always the local composer, from the same brief, seed and phrase banks
+  const listingOut = formats?.includes("listing")
+    ? enforceBannedListing(composeListing(product, category, keyBenefit, audience, tone, baseSeed, kit || undefined, language, pack, voices), banned)
+    : null;
+  const listingCheck = listingOut ? moderateListing(listingOut.listing, moderationConfig) : null;
+  if (listingCheck?.report.blocked) return fail(422, moderationBlocked(blockedFields(listingCheck.report)));
+  const listing = listingCheck?.listing || null;
+  lap("moderate_copy", { findings: copyCheck.report.findings.length + (listingCheck?.report.findings.length || 0), provider });
+
+  // 2) Images (all providers, cached; failures come back as warnings)
+  const imgQueries = buildImageQueries(product, category, imageStyle, colorHint, imageQuery, briefCheck.imageKeywords);
+  const { candidates, warnings } =
+    includeImage !== false
+      ? await findCandidates(imgQueries, { n: 6, orientation: profile.orientation, size: profile.size, label: product, colorHint, brandKitId: kit?.id })
+      : { candidates: [], warnings: [] };
+  const photoUrls = candidates.filter((c) => c.source !== "generated").map((c) => c.url);
+  lap("images", { queries: imgQueries, candidates: candidates.length, warnings: warnings.map((w) => `${w.provider}:${w.reason}`) });
+
+  // 3) Palette + poster: one photo fetch feeds both (gradient and hint-only palette if none)
+  const image = includeImage !== false && photoUrls[0] ? await fetchPosterImage(photoUrls[0]).catch(() => null) : null;
+  const palette = await paletteFor(colorHint, image);
+  let imageDataUrl: string | null = null;
+  let posterText: PosterText[] = [];
+  if (includeImage !== false) {
+    try {
+      const poster = await renderPoster({
+        tagline: copy.tagline,
+        caption: copy.caption,
+        colorHint,
+        accent: palette.swatches[0].hex,
+        layout: posterLayout,
+        ...profile.size,
+        image,
+      });
+      imageDataUrl = pngDataUrl(poster.png);
+      posterText = poster.text;
+    } catch (e) {
+      imageDataUrl = null;
+      log("warn", "poster_failed", errorFields(e));
+    }
+  }
+  lap("poster", { rendered: !!imageDataUrl, photo: !!image });
+
+  // 4) Alt text for every candidate and the poster, then the accessibility pass over all of it
+  const photo = candidates.find((c) => c.source !== "generated");
+  const categoryLabel = pack.languages[language]?.catLabels[debug.normCat] ?? "";
+  const candidateAlts = Object.fromEntries(candidates.map((c) => [c.id, candidateAlt(c, product, language)]));
+  const altText: AltText | null =
+    includeImage !== false
+      ? {
+          poster: posterAlt({ product, categoryLabel, copy, background: image && photo ? candidateAlts[photo.id] : null, language }),
+          candidates: candidateAlts,
+          categoryLabel,
+        }
+      : null;
+  const accessibility = accessibilityReport(copy, { product, posterText, posterAlt: altText?.poster });
+  lap("accessibility", { findings: accessibility.findings.length });
+
+  // 5) History: a failed save never costs the user their copy
+  const saved =
+    body.saveHistory === false
+      ? null
+      : await saveGeneration({
+          kind: "generated",
+          request: { ...briefCheck.brief, language },
+          seed: baseSeed,
+          provider,
+          language,
+          templatePack: pack.id,
+          copy,
+          variants,
+          listing,
+          image: photo ? { url: photo.url, source: photo.source, attribution: attribution(photo) } : null,
+        }).catch((e) => {
+          log("warn", "history_failed", errorFields(e));
+          return null;
+        });
+  lap("history", { saved: !!saved });
+
+  return {
+    ok: true,
+    body: {
+      provider,
+      demo: false,
+      copy,
+      seed: baseSeed,
+      language,
+      templatePack: pack.id,
+      history: saved ? { id: saved.id, threadId: saved.threadId, version: saved.version } : null,
+      platform: profile,
+      validation: validateForPlatform(copy, profile),
+      lint: lintCopy(copy, { category, language, pack }),
+      variants,
+      brandKit: kit ? { id: kit.id, name: kit.name, bannedRemoved: [...new Set([...enforced.removed, ...(listingOut?.removed || [])])] } : null,
+      imageDataUrl,
+      palette,
+      altText,
+      accessibility,
+      listing,
+      moderation: mergeReports(briefCheck.report, copyCheck.report, listingCheck?.report),
+      candidates,
+      photoUrls,
+      warnings,
+      fallback,
+      rawModelText,
+      debug,
+      note:
+        provider !== "local"
+          ? `Copy generated by ${provider}.`
+          : fallback
+          ? `Local deterministic copy (${fallback.from} failed: ${fallback.reason}).`
+          : "Local deterministic copy (LLM disabled).",
+    },
+  };
+}
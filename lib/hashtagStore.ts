@@ -0,0 +1,15 @@
+import { readJson, removeJson, writeJson } from "./store";
+import { DEFAULT_HASHTAGS, type HashtagDictionary } from "./hashtags";
+
+/* ------------ storage ------------ */
+// Edits replace the bundled dictionary as a whole; deleting the file restores the defaults.
+const FILE = "hashtags.json";
+
+export async function getHashtagDictionary(): Promise<{ dictionary: HashtagDictionary; custom: boolean }> {
+  const saved = await readJson<HashtagDictionary | null>(FILE, null);
+  return saved ? { dictionary: saved, custom: true } : { dictionary: DEFAULT_HASHTAGS, custom: false };
+}
+
+export const saveHashtagDictionary = (dictionary: HashtagDictionary) => writeJson(FILE, dictionary);
+
+export const resetHashtagDictionary = () => removeJson(FILE);
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_HASHTAGS, camelTag, normalizeTag, validateHashtagDictionary } from "./hashtags";
+
+describe("hashtag text", () => {
+  it("camel-cases the first run of content words", () => {
+    expect(camelTag("deep hydration that lasts all day")).toBe("#DeepHydration");
+    expect(camelTag("the and of")).toBeNull();
+  });
+
+  it("normalizes typed tags", () => {
+    expect(normalizeTag("  ##glow-up!")).toBe("#Glowup");
+    expect(normalizeTag("#SkinCare")).toBe("#SkinCare");
+    expect(normalizeTag("#!")).toBeNull();
+  });
+});
+
+describe("validateHashtagDictionary", () => {
+  it("accepts the bundled dictionary", () => {
+    expect(validateHashtagDictionary(DEFAULT_HASHTAGS)).toHaveProperty("dictionary");
+  });
+
+  it("requires an object with every section", () => {
+    for (const raw of [null, undefined, [], "tags"]) expect(validateHashtagDictionary(raw)).toEqual({ errors: ["body: object with banned and languages"] });
+    expect(validateHashtagDictionary({})).toEqual({ errors: ["banned: list of hashtags", "languages: object keyed by language"] });
+  });
+
+  it("normalizes and de-duplicates tags", () => {
+    const result = validateHashtagDictionary({ banned: ["followback", "#FollowBack"], languages: { en: { tea: { broad: ["#tea"], niche: [] } } } });
+    expect(result).toEqual({ dictionary: { banned: ["#Followback"], languages: { en: { tea: { broad: ["#Tea"], niche: [] } } } } });
+  });
+
+  it("reports bad languages, categories and lists by path", () => {
+    const result = validateHashtagDictionary({
+      banned: ["#ok", "#a"],
+      languages: { xx: {}, constructor: {}, en: { "Bad Cat": { broad: "#tea" }, tea: [] }, fr: "nope" },
+    });
+    expect(result).toEqual({
+      errors: [
+        'banned: "#a" isn\'t a hashtag (letters, digits and _)',
+        "languages.xx: unsupported language",
+        "languages.constructor: unsupported language",
+        "languages.en.Bad Cat: category ids are lowercase letters, digits and dashes",
+        "languages.en.Bad Cat.broad: list of hashtags",
+        "languages.en.Bad Cat.niche: list of hashtags",
+        "languages.en.tea.broad: list of hashtags",
+        "languages.en.tea.niche: list of hashtags",
+        "languages.fr: object keyed by category",
+      ],
+    });
+  });
+});
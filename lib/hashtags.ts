@@ -0,0 +1,222 @@
+import type { Language } from "./languages";
+import { cap } from "./util";
+import defaultDictionary from "../hashtags/default.json";
+
+/* ------------ types ------------ */
+export type TagList = { broad: string[]; niche: string[] };
+
+// Curated tags per language and category (category ids as in the template packs), plus a banned list.
+export type HashtagDictionary = {
+  banned: string[];
+  languages: Partial<Record<Language, Record<string, TagList>>>;
+};
+
+export type TagKind = "brand" | "product" | "niche" | "broad" | "benefit" | "audience" | "suggested" | "filler";
+export type TagCandidate = { tag: string; kind: TagKind; score: number };
+
+export type HashtagInput = {
+  product: string;
+  normCat: string;
+  language: Language;
+  count: number;        // the platform's hashtag count
+  benefit?: string;
+  audience?: string;
+  brandTags?: string[]; // a brand kit's default hashtags; always kept first
+  bannedWords?: string[]; // a brand kit's banned words
+  packTags?: string[];  // the template pack's category tag
+  fillerTags?: string[]; // generic pack tags (#new, #daily): only used when nothing better is left
+  suggested?: string[]; // tags an LLM came up with
+  seed?: number;        // varies ties between equally good tags
+};
+
+export type HashtagResult = {
+  hashtags: string[];
+  candidates: TagCandidate[];
+  rejected: { tag: string; reason: string }[];
+};
+
+export const DEFAULT_HASHTAGS = defaultDictionary as HashtagDictionary;
+
+/* ------------ tuning ------------ */
+const MIN_LEN = 3;         // characters after the #
+const MAX_LEN = 30;        // past this a tag is rejected outright
+const COMFORT_LEN = 20;    // longer tags lose points per character
+const MAX_WORDS = 3;       // words folded into a generated tag
+
+const BASE_SCORE: Record<TagKind, number> = {
+  brand: 100,
+  product: 90,
+  benefit: 75, // specific to this product, so ahead of the generic curated tags
+  niche: 70,
+  suggested: 65,
+  audience: 60,
+  broad: 55,
+  filler: 10,
+};
+const NICHE_KINDS: TagKind[] = ["niche", "benefit", "audience", "suggested"];
+
+// Engagement-bait patterns (#follow4follow, #like4like, #sub2sub) and keyboard mash.
+const SPAM_RE = [
+  /^(follow|like|sub|comment|share|spam|tag|shoutout)s?(4|2|for|to)(follow|like|sub|comment|share|spam|tag|shoutout|likes)/i,
+  /(.)\1{3,}/,
+  /^\d+$/,
+];
+
+const STOPWORDS: Record<Language, string[]> = {
+  en: ["a", "an", "the", "and", "or", "for", "with", "of", "to", "in", "on", "at", "by", "your", "our", "my", "new", "all", "is", "that", "this"],
+  es: ["el", "la", "los", "las", "de", "del", "y", "o", "para", "con", "en", "un", "una", "tu", "su", "nuestro", "nuevo", "nueva", "que"],
+  fr: ["le", "la", "les", "de", "des", "du", "et", "ou", "pour", "avec", "en", "un", "une", "ton", "votre", "notre", "nouveau", "nouvelle", "que"],
+  de: ["der", "die", "das", "den", "dem", "und", "oder", "für", "mit", "von", "zu", "in", "ein", "eine", "dein", "deine", "ihr", "unser", "neu", "neue"],
+};
+
+/* ========== formatting ========== */
+const words = (s: string) => s.normalize("NFC").replace(/[^\p{L}\p{N}\s]/gu, " ").split(/\s+/).filter(Boolean);
+const tagKey = (tag: string) => tag.toLocaleLowerCase();
+
+// CamelCase so screen readers say "Glow Serum", not "glowserum". Takes the first unbroken run of
+// content words, so "deep hydration that lasts all day" gives #DeepHydration rather than a mash-up.
+// English stopwords always apply: product names are often English whatever the copy language.
+export function camelTag(text: string, language: Language = "en"): string | null {
+  const stop = new Set([...STOPWORDS.en, ...STOPWORDS[language]]);
+  const run: string[] = [];
+  for (const w of words(text)) {
+    const isStop = stop.has(w.toLocaleLowerCase());
+    if (isStop && run.length) break;
+    if (!isStop) run.push(w);
+    if (run.length === MAX_WORDS) break;
+  }
+  return run.length ? `#${run.map((w) => cap(w)).join("")}` : null;
+}
+
+// Existing tags keep their own capitals; all-lowercase ones at least get a capital first letter.
+export function normalizeTag(raw: string): string | null {
+  const body = raw.trim().replace(/^#+/, "").replace(/[^\p{L}\p{N}_]/gu, "");
+  return body ? `#${cap(body)}` : null;
+}
+
+/* ========== scoring ========== */
+function rejectReason(tag: string, banned: Set<string>, bannedWords: string[]): string | null {
+  const body = tag.slice(1);
+  if (body.length < MIN_LEN) return "too short";
+  if (body.length > MAX_LEN) return "too long";
+  if (banned.has(tagKey(tag))) return "banned";
+  if (SPAM_RE.some((re) => re.test(body))) return "spam pattern";
+  const hit = bannedWords.find((w) => w && tagKey(body).includes(w.replace(/\s+/g, "").toLocaleLowerCase()));
+  return hit ? `contains banned word "${hit}"` : null;
+}
+
+const humps = (body: string) => (body.match(/\p{Lu}/gu) || []).length || 1;
+
+function score(tag: string, kind: TagKind, seed: number): number {
+  const body = tag.slice(1);
+  let s = BASE_SCORE[kind];
+  if (body.length > COMFORT_LEN) s -= (body.length - COMFORT_LEN) * 3;
+  if (humps(body) > MAX_WORDS + 1) s -= 10;
+  // A long run of lowercase can't be read word by word.
+  if (body.length > 12 && body === body.toLocaleLowerCase()) s -= 15;
+  // Deterministic jitter below one point: reorders ties only.
+  let h = seed >>> 0;
+  for (const ch of tag) h = Math.imul(h ^ ch.codePointAt(0)!, 16777619) >>> 0;
+  return s + (h % 1000) / 1000;
+}
+
+/* ========== engine ========== */
+export function buildHashtags(input: HashtagInput, dict: HashtagDictionary = DEFAULT_HASHTAGS): HashtagResult {
+  const { language, seed = 0 } = input;
+  const banned = new Set(dict.banned.map(tagKey));
+  const curated = dict.languages[language]?.[input.normCat] || dict.languages[language]?.other;
+
+  const raw: { tag: string | null; kind: TagKind }[] = [
+    ...(input.brandTags || []).map((t) => ({ tag: normalizeTag(t), kind: "brand" as const })),
+    { tag: camelTag(input.product, language), kind: "product" },
+    ...(curated?.niche || []).map((t) => ({ tag: normalizeTag(t), kind: "niche" as const })),
+    ...(curated?.broad || []).map((t) => ({ tag: normalizeTag(t), kind: "broad" as const })),
+    { tag: input.benefit ? camelTag(input.benefit, language) : null, kind: "benefit" },
+    // Audiences longer than two words ("busy parents who travel a lot") make poor tags.
+    { tag: input.audience && words(input.audience).length <= 2 ? camelTag(input.audience, language) : null, kind: "audience" },
+    ...(input.suggested || []).map((t) => ({ tag: normalizeTag(t), kind: "suggested" as const })),
+    ...(input.packTags || []).map((t) => ({ tag: normalizeTag(t), kind: "broad" as const })),
+    ...(input.fillerTags || []).map((t) => ({ tag: normalizeTag(t), kind: "filler" as const })),
+  ];
+
+  const candidates: TagCandidate[] = [];
+  const rejected: HashtagResult["rejected"] = [];
+  const seen = new Set<string>();
+  for (const { tag, kind } of raw) {
+    if (!tag || seen.has(tagKey(tag))) continue;
+    seen.add(tagKey(tag));
+    const reason = rejectReason(tag, banned, input.bannedWords || []);
+    if (reason) rejected.push({ tag, reason });
+    else candidates.push({ tag, kind, score: score(tag, kind, seed) });
+  }
+
+  // Brand tags (up to half), then the product, then niche and broad alternately so neither crowds out the other.
+  const count = Math.max(0, input.count);
+  const byScore = (list: TagCandidate[]) => [...list].sort((a, b) => b.score - a.score);
+  const brand = byScore(candidates.filter((c) => c.kind === "brand")).slice(0, Math.ceil(count / 2));
+  const product = candidates.filter((c) => c.kind === "product");
+  const niche = byScore(candidates.filter((c) => NICHE_KINDS.includes(c.kind)));
+  const broad = byScore(candidates.filter((c) => c.kind === "broad"));
+  const filler = byScore(candidates.filter((c) => c.kind === "filler"));
+
+  const picked = [...brand, ...product].slice(0, count);
+  for (let turn = 0; picked.length < count && (niche.length || broad.length); turn++) {
+    const from = turn % 2 === 0 ? niche.length ? niche : broad : broad.length ? broad : niche;
+    picked.push(from.shift()!);
+  }
+  while (picked.length < count && filler.length) picked.push(filler.shift()!);
+
+  return { hashtags: picked.map((c) => c.tag), candidates: byScore(candidates), rejected };
+}
+
+/* ========== dictionary input ========== */
+const TAG_RE = /^#[\p{L}\p{N}_]{2,40}$/u;
+const MAX_TAGS_PER_LIST = 50;
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+// The whole dictionary is replaced, so every section must be sent; nothing missing is read as "empty".
+export function validateHashtagDictionary(raw: unknown): { dictionary: HashtagDictionary } | { errors: string[] } {
+  if (!isObject(raw)) return { errors: ["body: object with banned and languages"] };
+  const r = raw;
+  const errors: string[] = [];
+  const tags = (v: unknown, at: string): string[] => {
+    if (!Array.isArray(v)) {
+      errors.push(`${at}: list of hashtags`);
+      return [];
+    }
+    if (v.length > MAX_TAGS_PER_LIST) errors.push(`${at}: at most ${MAX_TAGS_PER_LIST} tags`);
+    const out: string[] = [];
+    for (const t of v) {
+      const tag = typeof t === "string" ? normalizeTag(t) : null;
+      if (!tag || !TAG_RE.test(tag)) errors.push(`${at}: "${String(t)}" isn't a hashtag (letters, digits and _)`);
+      else if (!out.some((x) => tagKey(x) === tagKey(tag))) out.push(tag);
+    }
+    return out;
+  };
+
+  const banned = tags(r.banned, "banned");
+  const languages: HashtagDictionary["languages"] = {};
+  const langs = r.languages;
+  if (!isObject(langs)) errors.push("languages: object keyed by language");
+  else {
+    for (const [lang, cats] of Object.entries(langs)) {
+      if (!Object.hasOwn(STOPWORDS, lang)) {
+        errors.push(`languages.${lang}: unsupported language`);
+        continue;
+      }
+      const out: Record<string, TagList> = {};
+      if (!isObject(cats)) {
+        errors.push(`languages.${lang}: object keyed by category`);
+        continue;
+      }
+      for (const [cat, list] of Object.entries(cats)) {
+        if (!/^[a-z0-9-]{1,40}$/.test(cat)) errors.push(`languages.${lang}.${cat}: category ids are lowercase letters, digits and dashes`);
+        const l = isObject(list) ? list : {};
+        out[cat] = { broad: tags(l.broad, `languages.${lang}.${cat}.broad`), niche: tags(l.niche, `languages.${lang}.${cat}.niche`) };
+      }
+      languages[lang as Language] = out;
+    }
+  }
+  return errors.length ? { errors } : { dictionary: { banned, languages } };
+}
@@ -0,0 +1,64 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+
+// The store reads DATA_DIR when it is first imported.
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "history-test-"));
+const { createBrandKit } = await import("./brandKits");
+const { addReview, getGeneration, listHistory, saveEdit, saveGeneration, shareGeneration } = await import("./history");
+afterAll(() => rmSync(process.env.DATA_DIR!, { recursive: true, force: true }));
+
+const copy = { tagline: "Glow on", caption: "Meet Lumi, the serum for busy mornings.", shortDescription: "A light serum.", hashtags: ["#Glow"] };
+
+const generate = (brandKitId?: string) =>
+  saveGeneration({
+    kind: "generated",
+    request: { product: "Lumi", category: "skincare", brandKitId },
+    seed: 1,
+    provider: "local",
+    language: "en",
+    copy,
+    variants: [],
+    image: null,
+  });
+
+describe("history threads", () => {
+  it("numbers versions per product and language", async () => {
+    const first = await generate();
+    const edit = await saveEdit(first.id, { copy: { ...copy, tagline: "Glow all day" } });
+    expect(edit).toMatchObject({ generation: { kind: "edited", parentId: first.id, threadId: "lumi.en", version: first.version + 1 } });
+    expect((await listHistory({ thread: "lumi.en" })).items.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it("returns null for unknown ids without creating files", async () => {
+    expect(await saveEdit("00000000-0000-0000-0000-000000000000", { copy })).toBeNull();
+    expect(await shareGeneration("00000000-0000-0000-0000-000000000000")).toBeNull();
+    expect(await getGeneration("00000000-0000-0000-0000-000000000000")).toBeNull();
+  });
+
+  it("tracks the latest review decision per field", async () => {
+    const g = await shareGeneration((await generate()).id);
+    await addReview(g!.shareToken!, { field: "tagline", decision: "rejected", reviewer: "Sam" });
+    await addReview(g!.shareToken!, { field: "tagline", decision: "approved", reviewer: "Sam" });
+    const [summary] = (await listHistory({ q: "Glow on", status: "approved" })).items;
+    expect(summary).toMatchObject({ id: g!.id, status: "approved" });
+  });
+});
+
+describe("saveEdit", () => {
+  it("removes the brand kit's banned words and sanitizes markup", async () => {
+    const kit = await createBrandKit({ name: "Lumi", palette: [], preferredWords: [], bannedWords: ["cheap"], defaultHashtags: [], imageKeywords: [] });
+    const parent = await generate(kit.id);
+    const saved = await saveEdit(parent.id, { copy: { ...copy, caption: "A cheap <b>glow</b> for busy mornings." } });
+    expect(saved).toMatchObject({ generation: { copy: { caption: "A glow for busy mornings." } }, moderation: { blocked: false } });
+  });
+
+  it("refuses blocked copy without saving a version", async () => {
+    const parent = await generate();
+    const before = (await listHistory({ thread: "lumi.en" })).total;
+    const saved = await saveEdit(parent.id, { copy: { ...copy, tagline: "Damn good glow" } });
+    expect(saved).toEqual({ blocked: [{ path: "copy.tagline", message: expect.stringMatching(/^profanity/) }] });
+    expect((await listHistory({ thread: "lumi.en" })).total).toBe(before);
+  });
+});
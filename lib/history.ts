@@ -0,0 +1,254 @@
+import { randomBytes, randomUUID } from "crypto";
+import type { CopyVariant, GenReq, StrictCopy } from "./types";
+import type { ImageSource } from "./images";
+import type { ProductListing } from "./listing";
+import { readJson, removeJson, updateJson, writeJson } from "./store";
+import { enforceBannedWords, getBrandKit } from "./brandKits";
+import { blockedFields, moderateCopy, type ModerationReport } from "./moderation";
+import { getModerationConfig } from "./moderationStore";
+import type { FieldError } from "./validate";
+
+/* ------------ types ------------ */
+export type ReviewField = "tagline" | "caption" | "shortDescription" | "hashtags" | "image";
+export type ReviewDecision = "approved" | "rejected";
+export type ReviewStatus = "unreviewed" | "approved" | "rejected" | "mixed";
+
+export type ReviewEntry = {
+  id: string;
+  field: ReviewField;
+  decision?: ReviewDecision; // omitted for plain comments
+  comment?: string;
+  reviewer: string;
+  at: string;
+};
+
+export type SavedImage = { url: string; source?: ImageSource; attribution?: string };
+
+export type Generation = {
+  id: string;
+  threadId: string;   // all versions of one product in one language
+  version: number;    // 1-based within the thread
+  parentId?: string;  // the version an edit was saved from
+  kind: "generated" | "edited";
+  createdAt: string;
+  request: GenReq;
+  seed: number;
+  provider: string;
+  language: string;
+  templatePack?: string;
+  copy: StrictCopy;
+  variants: CopyVariant[];
+  listing?: ProductListing | null; // shop listing, when the request asked for one
+  image: SavedImage | null;
+  shareToken?: string;
+  reviews: ReviewEntry[];
+};
+
+export type GenerationSummary = Pick<
+  Generation,
+  "id" | "threadId" | "version" | "kind" | "createdAt" | "seed" | "provider" | "language" | "shareToken"
+> & {
+  product: string;
+  category?: string;
+  platform?: string;
+  tagline: string;
+  thumb?: string;
+  status: ReviewStatus;
+};
+
+export type HistoryQuery = {
+  q?: string;
+  provider?: string;
+  language?: string;
+  platform?: string;
+  status?: string;
+  thread?: string;
+  limit?: number;
+  offset?: number;
+};
+
+/* ------------ storage ------------ */
+// Summaries live in one index for listing/search; each generation has its own file.
+const INDEX = "history/index.json";
+const entryFile = (id: string) => `history/${id}.json`;
+const MAX_HISTORY = Math.max(1, Number(process.env.HISTORY_LIMIT) || 2000); // oldest entries are dropped past this
+const ID_RE = /^[a-f0-9-]{36}$/;
+export const REVIEW_FIELDS: ReviewField[] = ["tagline", "caption", "shortDescription", "hashtags", "image"];
+
+const threadKey = (product: string, language: string) =>
+  `${product.normalize("NFC").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-|-$/g, "") || "untitled"}.${language}`;
+
+// Latest decision per field wins; fields nobody has decided on don't count.
+export function fieldDecisions(reviews: ReviewEntry[]): Partial<Record<ReviewField, ReviewDecision>> {
+  const out: Partial<Record<ReviewField, ReviewDecision>> = {};
+  for (const r of reviews) if (r.decision) out[r.field] = r.decision;
+  return out;
+}
+
+function reviewStatus(reviews: ReviewEntry[]): ReviewStatus {
+  const decisions = new Set(Object.values(fieldDecisions(reviews)));
+  if (!decisions.size) return "unreviewed";
+  return decisions.size > 1 ? "mixed" : ([...decisions][0] as ReviewStatus);
+}
+
+const summarize = (g: Generation): GenerationSummary => ({
+  id: g.id,
+  threadId: g.threadId,
+  version: g.version,
+  kind: g.kind,
+  createdAt: g.createdAt,
+  seed: g.seed,
+  provider: g.provider,
+  language: g.language,
+  shareToken: g.shareToken,
+  product: g.request.product,
+  category: g.request.category,
+  platform: g.request.platform,
+  tagline: g.copy.tagline,
+  thumb: g.image?.url.startsWith("data:") ? undefined : g.image?.url,
+  status: reviewStatus(g.reviews),
+});
+
+/* ========== writing ========== */
+export type NewGeneration = Omit<Generation, "id" | "threadId" | "version" | "createdAt" | "reviews" | "shareToken">;
+
+export async function saveGeneration(input: NewGeneration): Promise<Generation> {
+  const id = randomUUID();
+  const threadId = threadKey(input.request.product, input.language);
+  // The index queue hands out version numbers, so two saves of one thread never collide.
+  const { generation, dropped } = await updateJson(INDEX, [] as GenerationSummary[], (index) => {
+    const version = index.reduce((n, s) => (s.threadId === threadId ? Math.max(n, s.version) : n), 0) + 1;
+    const generation: Generation = { ...input, id, threadId, version, createdAt: new Date().toISOString(), reviews: [] };
+    const next = [summarize(generation), ...index];
+    return { next: next.slice(0, MAX_HISTORY), result: { generation, dropped: next.slice(MAX_HISTORY) } };
+  });
+  await writeJson(entryFile(id), generation);
+  await Promise.all(dropped.map((s) => removeJson(entryFile(s.id)).catch(() => undefined)));
+  return generation;
+}
+
+// Applies `fn` to a stored generation and keeps its index summary in step.
+async function updateGeneration(id: string, fn: (g: Generation) => Generation): Promise<Generation | null> {
+  if (!ID_RE.test(id)) return null;
+  // An unknown id leaves `g` null and returns it unchanged, so no file is created for it.
+  const updated = await updateJson(entryFile(id), null as Generation | null, (g) => {
+    const next = g ? fn(g) : g;
+    return { next, result: next };
+  });
+  if (!updated) return null;
+  await updateJson(INDEX, [] as GenerationSummary[], (index) => ({
+    next: index.map((s) => (s.id === id ? summarize(updated) : s)),
+    result: null,
+  }));
+  return updated;
+}
+
+// Saves hand edits (copy and/or image) as the next version of the parent's thread. Edited copy gets the same
+// banned-word and moderation pass as generated copy before it can be shared; `blocked` lists what was refused.
+export async function saveEdit(
+  parentId: string,
+  edit: { copy: StrictCopy; image?: SavedImage | null }
+): Promise<{ generation: Generation; moderation: ModerationReport } | { blocked: FieldError[] } | null> {
+  const parent = await getGeneration(parentId);
+  if (!parent) return null;
+  const { request, seed, provider, language, templatePack, variants, listing } = parent;
+  const banned = (request.brandKitId && (await getBrandKit(request.brandKitId))?.bannedWords) || [];
+  const check = moderateCopy(enforceBannedWords(edit.copy, banned).copy, (await getModerationConfig()).config);
+  if (check.report.blocked) return { blocked: blockedFields(check.report, "copy.") };
+
+  const generation = await saveGeneration({
+    kind: "edited",
+    parentId,
+    request,
+    seed,
+    provider,
+    language,
+    templatePack,
+    variants,
+    listing,
+    copy: check.copy,
+    image: edit.image === undefined ? parent.image : edit.image,
+  });
+  return { generation, moderation: check.report };
+}
+
+export async function deleteGeneration(id: string) {
+  if (!ID_RE.test(id)) return false;
+  const existed = await updateJson(INDEX, [] as GenerationSummary[], (index) => ({
+    next: index.filter((s) => s.id !== id),
+    result: index.some((s) => s.id === id),
+  }));
+  if (existed) await removeJson(entryFile(id));
+  return existed;
+}
+
+// Share tokens are random and separate from ids, so a review link can't be used to guess others.
+export async function shareGeneration(id: string) {
+  return updateGeneration(id, (g) => (g.shareToken ? g : { ...g, shareToken: randomBytes(16).toString("base64url") }));
+}
+
+export async function addReview(
+  token: string,
+  input: { field: ReviewField; decision?: ReviewDecision; comment?: string; reviewer: string }
+) {
+  const g = await getByShareToken(token);
+  if (!g) return null;
+  const entry: ReviewEntry = { id: randomUUID(), ...input, at: new Date().toISOString() };
+  return updateGeneration(g.id, (cur) => ({ ...cur, reviews: [...cur.reviews, entry] }));
+}
+
+/* ========== reading ========== */
+export const getGeneration = (id: string) =>
+  ID_RE.test(id) ? readJson<Generation | null>(entryFile(id), null) : Promise.resolve(null);
+
+export async function getByShareToken(token: string) {
+  if (!/^[\w-]{16,64}$/.test(token)) return null;
+  const hit = (await readJson<GenerationSummary[]>(INDEX, [])).find((s) => s.shareToken === token);
+  return hit ? getGeneration(hit.id) : null;
+}
+
+export async function listHistory(query: HistoryQuery = {}) {
+  const q = (query.q || "").trim().toLowerCase();
+  const items = (await readJson<GenerationSummary[]>(INDEX, [])).filter(
+    (s) =>
+      (!q || `${s.product} ${s.category || ""} ${s.tagline}`.toLowerCase().includes(q)) &&
+      (!query.provider || s.provider === query.provider) &&
+      (!query.language || s.language === query.language) &&
+      (!query.platform || s.platform === query.platform) &&
+      (!query.status || s.status === query.status) &&
+      (!query.thread || s.threadId === query.thread)
+  );
+  const offset = Math.max(0, query.offset || 0);
+  const limit = Math.min(Math.max(1, query.limit || 50), 200);
+  return { total: items.length, items: items.slice(offset, offset + limit) };
+}
+
+/* ========== input parsing ========== */
+const str = (v: unknown, max: number) => (typeof v === "string" ? v.trim().slice(0, max) : undefined) || undefined;
+
+export function parseReviewInput(body: unknown) {
+  const b = (body || {}) as Record<string, unknown>;
+  if (!REVIEW_FIELDS.includes(b.field as ReviewField)) return { error: `field: one of ${REVIEW_FIELDS.join(", ")}` };
+  if (b.decision !== undefined && b.decision !== "approved" && b.decision !== "rejected") {
+    return { error: "decision: approved or rejected" };
+  }
+  const comment = str(b.comment, 2000);
+  if (!b.decision && !comment) return { error: "decision or comment required" };
+  return {
+    input: {
+      field: b.field as ReviewField,
+      decision: b.decision as ReviewDecision | undefined,
+      comment,
+      reviewer: str(b.reviewer, 80) || "Anonymous",
+    },
+  };
+}
+
+export function parseCopy(v: unknown): StrictCopy | null {
+  const c = (v || {}) as Record<string, unknown>;
+  const text = (x: unknown) => (typeof x === "string" ? x.slice(0, 5000) : null);
+  const [tagline, caption, shortDescription] = [text(c.tagline), text(c.caption), text(c.shortDescription)];
+  if (tagline === null || caption === null || shortDescription === null || !Array.isArray(c.hashtags)) return null;
+  const hashtags = c.hashtags.filter((h): h is string => typeof h === "string").slice(0, 30);
+  return { tagline, caption, shortDescription, hashtags };
+}
@@ -0,0 +1,99 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+
+// Provider keys, timeouts and DATA_DIR are read when the modules are first imported.
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "images-test-"));
+process.env.PEXELS_API_KEY = "test-key";
+process.env.IMAGE_TIMEOUT_MS = "50";
+process.env.LOG_LEVEL = "silent";
+const { buildImageQueries, findCandidates, imageSearchStats } = await import("./images");
+afterAll(() => rmSync(process.env.DATA_DIR!, { recursive: true, force: true }));
+afterEach(() => vi.unstubAllGlobals());
+
+const opts = { n: 2, orientation: "square" as const, size: { width: 1080, height: 1080 }, label: "Lumi" };
+
+const photos = (query: string, ids: number[]) =>
+  Response.json({ photos: ids.map((id) => ({ id, src: { large: `https://images.test/${query}/${id}.jpg` }, photographer: "Ana" })) });
+
+// Records every Pexels query and answers it with `respond`.
+function stubFetch(respond: (query: string, init: RequestInit) => Promise<Response>) {
+  const queries: string[] = [];
+  vi.stubGlobal("fetch", (url: string, init: RequestInit) => {
+    const query = new URL(url).searchParams.get("query")!;
+    queries.push(query);
+    return respond(query, init);
+  });
+  return queries;
+}
+
+describe("buildImageQueries", () => {
+  it("puts the user's keywords first and de-duplicates", () => {
+    expect(buildImageQueries("Lumi", "serum", undefined, undefined, "glass bottle", ["spa"])).toEqual([
+      "glass bottle",
+      "Lumi spa",
+      "Lumi serum product photo",
+      "Lumi serum studio minimal",
+    ]);
+  });
+});
+
+describe("findCandidates", () => {
+  it("stops once n photos are found and appends the generated fallback", async () => {
+    const queries = stubFetch(async (q) => photos(q, [1, 2, 3]));
+    const { candidates, warnings } = await findCandidates(["stop one", "stop two"], opts);
+    expect(queries).toEqual(["stop one"]);
+    expect(candidates.map((c) => c.source)).toEqual(["pexels", "pexels", "generated"]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("serves repeated and concurrent searches from the cache", async () => {
+    const queries = stubFetch(async (q) => photos(q, [1, 2]));
+    const before = imageSearchStats().cache;
+    await Promise.all([findCandidates(["cached"], opts), findCandidates(["cached"], opts)]);
+    await findCandidates(["cached"], opts);
+    expect(queries).toEqual(["cached"]);
+    const after = imageSearchStats().cache;
+    expect(after.hits + after.deduped - before.hits - before.deduped).toBe(2);
+  });
+
+  it("gives up on a provider after a network error", async () => {
+    const queries = stubFetch(async () => {
+      throw new TypeError("fetch failed");
+    });
+    const { candidates, warnings } = await findCandidates(["down one", "down two", "down three"], opts);
+    expect(queries).toEqual(["down one"]);
+    expect(warnings).toMatchObject([{ provider: "pexels", query: "down one", reason: "network" }]);
+    expect(candidates.map((c) => c.source)).toEqual(["generated"]);
+  });
+
+  it("gives up on a provider after a timeout", async () => {
+    const queries = stubFetch(
+      (_q, init) => new Promise((_, reject) => init.signal!.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError"))))
+    );
+    const { warnings } = await findCandidates(["slow one", "slow two"], opts);
+    expect(queries).toEqual(["slow one"]);
+    expect(warnings).toMatchObject([{ reason: "timeout" }]);
+  });
+
+  it("keeps trying other queries after an HTTP error", async () => {
+    const queries = stubFetch(async (q) => (q === "bad query" ? new Response("nope", { status: 400 }) : photos(q, [7, 8])));
+    const { candidates, warnings } = await findCandidates(["bad query", "good query"], opts);
+    expect(queries).toEqual(["bad query", "good query"]);
+    expect(warnings).toMatchObject([{ reason: "http_error", detail: "HTTP 400 nope" }]);
+    expect(candidates).toHaveLength(3);
+  });
+
+  it("backs off after a 429 without sending further requests", async () => {
+    const queries = stubFetch(async () => new Response("slow down", { status: 429, headers: { "retry-after": "30" } }));
+    const first = await findCandidates(["limited one", "limited two"], opts);
+    expect(queries).toEqual(["limited one"]);
+    expect(first.warnings).toMatchObject([{ reason: "rate_limited", detail: "HTTP 429" }]);
+
+    const second = await findCandidates(["limited three"], opts);
+    expect(queries).toHaveLength(1);
+    expect(second.warnings[0]).toMatchObject({ reason: "rate_limited", detail: "backing off for 30s" });
+    expect(imageSearchStats().rateLimits.pexels.backingOffMs).toBeGreaterThan(29_000);
+  });
+});
@@ -0,0 +1,480 @@
+import { promises as fs } from "fs";
+import path from "path";
+import sharp from "sharp";
+import type { Orientation } from "./platforms";
+import { accentFromHint, rgbToHex } from "./color";
+import { createTtlCache } from "./cache";
+import { probeUrl, recordProviderCall, type ProbeResult } from "./observability";
+import { findUploads, uploadCandidate } from "./uploads";
+import { escapeXml, globalSingleton } from "./util";
+
+/* ------------ candidate & provider types ------------ */
+export type ImageSource = "upload" | "pexels" | "unsplash" | "library" | "generated";
+
+export type ImageCandidate = {
+  id: string;
+  source: ImageSource;
+  url: string;       // full-size image used for the poster
+  thumbUrl: string;  // small version for the picker
+  width: number;
+  height: number;
+  color: string | null; // dominant / average colour as hex
+  photographer: string | null;
+  photographerUrl: string | null;
+  sourceUrl: string | null; // page to link back to
+  license: string;
+  licenseUrl: string | null;
+  alt: string | null;
+  query: string;
+};
+
+export type SearchOpts = {
+  n: number;
+  orientation: Orientation;
+  size: { width: number; height: number };
+  label: string;      // product name, used by the generated and upload providers
+  colorHint?: string;
+  brandKitId?: string; // uploads shared across the kit
+};
+
+export type ImageWarningReason = "rate_limited" | "timeout" | "http_error" | "network" | "bad_json";
+
+export type ImageSearchResult =
+  | { ok: true; candidates: ImageCandidate[] }
+  | { ok: false; reason: ImageWarningReason; detail: string; retryAfterMs?: number };
+
+// Surfaced in API responses so "no photos" comes with a reason.
+export type ImageWarning = { provider: ImageSource; query: string; reason: ImageWarningReason; detail: string; retryAfterMs?: number };
+
+export type ImageProvider = {
+  name: ImageSource;
+  enabled: () => boolean;
+  fallbackOnly?: boolean; // queried once, after the others, so there's always something to show
+  once?: boolean;         // same answer for every query: asked once, not per query
+  remote?: boolean;       // outbound API: cached, rate-limited
+  search: (query: string, opts: SearchOpts) => Promise<ImageSearchResult>;
+};
+
+type PexelsPhoto = {
+  id?: number;
+  width?: number;
+  height?: number;
+  url?: string;
+  photographer?: string;
+  photographer_url?: string;
+  avg_color?: string;
+  alt?: string;
+  src?: { large2x?: string; large?: string; medium?: string; small?: string };
+};
+type PexelsSearch = { photos?: PexelsPhoto[] };
+
+type UnsplashPhoto = {
+  id?: string;
+  width?: number;
+  height?: number;
+  color?: string;
+  alt_description?: string | null;
+  urls?: { regular?: string; small?: string };
+  links?: { html?: string };
+  user?: { name?: string; links?: { html?: string } };
+};
+type UnsplashSearch = { results?: UnsplashPhoto[] };
+
+type LibraryEntry = {
+  file: string;
+  tags?: string[];
+  photographer?: string;
+  license?: string;
+  alt?: string;
+};
+
+/* ------------ env ------------ */
+const PEXELS_KEY = process.env.PEXELS_API_KEY || "";
+const UNSPLASH_KEY = process.env.UNSPLASH_ACCESS_KEY || "";
+// Served statically by Next at /library/<file>; index.json lists files and their tags.
+const LIBRARY_DIR = path.join(process.cwd(), "public", "library");
+const UTM = "utm_source=brand-in-a-box&utm_medium=referral";
+const TIMEOUT_MS = Number(process.env.IMAGE_TIMEOUT_MS) || 8000;
+const CACHE_TTL_MS = Number(process.env.IMAGE_CACHE_TTL_MS) || 6 * 60 * 60 * 1000;
+const CACHE_DISK = process.env.IMAGE_CACHE_DISK === "1";
+
+/* ========== queries ========== */
+export function buildImageQueries(
+  product: string,
+  category?: string,
+  imageStyle?: string,
+  colorHint?: string,
+  imageQuery?: string,
+  brandKeywords: string[] = []
+) {
+  const qUser = (imageQuery || "").trim();
+  const base = [product, category, imageStyle, colorHint].filter(Boolean).join(" ").trim();
+  const queries = [
+    qUser || base,
+    brandKeywords.length ? [product, ...brandKeywords].join(" ") : "",
+    [product, category, "product photo", imageStyle].filter(Boolean).join(" "),
+    [product, category, "studio", "minimal"].filter(Boolean).join(" "),
+  ].filter(Boolean) as string[];
+  return Array.from(new Set(queries));
+}
+
+/* ========== rate limits ========== */
+// Per-provider backoff: set from rate-limit headers or a 429, checked before every outbound call.
+type RateState = { limit: number | null; remaining: number | null; resetAt: number | null; blockedUntil: number; strikes: number };
+
+const rateStates = globalSingleton("__imageRateStates", () => new Map<ImageSource, RateState>());
+const rateState = (name: ImageSource) => {
+  if (!rateStates.has(name)) rateStates.set(name, { limit: null, remaining: null, resetAt: null, blockedUntil: 0, strikes: 0 });
+  return rateStates.get(name) as RateState;
+};
+
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+function noteRateHeaders(name: ImageSource, res: Response) {
+  const st = rateState(name);
+  const num = (h: string) => {
+    const v = res.headers.get(h);
+    return v == null || v === "" || !Number.isFinite(Number(v)) ? null : Number(v);
+  };
+  st.limit = num("x-ratelimit-limit") ?? st.limit;
+  st.remaining = num("x-ratelimit-remaining") ?? st.remaining;
+  // Pexels sends the reset as a UNIX timestamp (seconds).
+  const reset = num("x-ratelimit-reset");
+  if (reset != null) st.resetAt = reset * 1000;
+
+  if (res.status === 429 || st.remaining === 0) {
+    st.strikes++;
+    const retryAfter = num("retry-after");
+    const backoff = Math.min(1000 * 2 ** st.strikes, MAX_BACKOFF_MS);
+    const until =
+      retryAfter != null ? Date.now() + retryAfter * 1000 : st.resetAt && st.resetAt > Date.now() ? st.resetAt : Date.now() + backoff;
+    st.blockedUntil = Math.min(until, Date.now() + MAX_BACKOFF_MS);
+  } else if (res.ok) {
+    st.strikes = 0;
+  }
+}
+
+type FetchResult<T> = { ok: true; json: T } | Extract<ImageSearchResult, { ok: false }>;
+
+// Shared fetch for remote providers: backoff gate, timeout, status → reason. Each query is logged with its latency and status.
+async function fetchJson<T>(name: ImageSource, url: string, headers: Record<string, string>, query: string): Promise<FetchResult<T>> {
+  const st = rateState(name);
+  const wait = st.blockedUntil - Date.now();
+  if (wait > 0) {
+    recordProviderCall("image", name, "backoff", null, { query, retryAfterMs: wait });
+    return { ok: false, reason: "rate_limited", detail: `backing off for ${Math.ceil(wait / 1000)}s`, retryAfterMs: wait };
+  }
+  const started = Date.now();
+  let status: number | null = null;
+  const r = await fetchOnce<T>(name, url, headers, (s) => (status = s));
+  recordProviderCall("image", name, r.ok ? "ok" : r.reason, Date.now() - started, {
+    query,
+    status,
+    ...(r.ok ? {} : { detail: r.detail.slice(0, 200) }),
+    ...(st.remaining != null ? { rateRemaining: st.remaining } : {}),
+  });
+  return r;
+}
+
+async function fetchOnce<T>(name: ImageSource, url: string, headers: Record<string, string>, onStatus: (status: number) => void): Promise<FetchResult<T>> {
+  const st = rateState(name);
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { headers, cache: "no-store", signal: ctrl.signal });
+    onStatus(res.status);
+    noteRateHeaders(name, res);
+    if (res.status === 429) {
+      return { ok: false, reason: "rate_limited", detail: "HTTP 429", retryAfterMs: Math.max(st.blockedUntil - Date.now(), 0) };
+    }
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      return { ok: false, reason: "http_error", detail: `HTTP ${res.status} ${detail.slice(0, 200)}`.trim() };
+    }
+    const json = (await res.json().catch(() => null)) as T | null;
+    if (!json) return { ok: false, reason: "bad_json", detail: "response was not JSON" };
+    return { ok: true, json };
+  } catch (e) {
+    if (ctrl.signal.aborted) return { ok: false, reason: "timeout", detail: `no response after ${TIMEOUT_MS}ms` };
+    return { ok: false, reason: "network", detail: String(e) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/* ========== providers ========== */
+const perPage = (n: number) => Math.min(Math.max(n, 1), 12);
+
+export const pexelsProvider: ImageProvider = {
+  name: "pexels",
+  enabled: () => !!PEXELS_KEY,
+  remote: true,
+  async search(query, { n, orientation }) {
+    const url = `https://api.pexels.com/v1/search?query=${encodeURIComponent(query)}&per_page=${perPage(n)}&orientation=${orientation}`;
+    const r = await fetchJson<PexelsSearch>("pexels", url, { Authorization: PEXELS_KEY }, query);
+    if (!r.ok) return r;
+    const candidates = (r.json.photos || []).flatMap((p): ImageCandidate[] => {
+      const full = p?.src?.large2x || p?.src?.large || p?.src?.medium;
+      if (!full) return [];
+      return [
+        {
+          id: `pexels:${p.id}`,
+          source: "pexels",
+          url: full,
+          thumbUrl: p.src?.medium || p.src?.small || full,
+          width: p.width || 0,
+          height: p.height || 0,
+          color: p.avg_color || null,
+          photographer: p.photographer || null,
+          photographerUrl: p.photographer_url || null,
+          sourceUrl: p.url || null,
+          license: "Pexels License",
+          licenseUrl: "https://www.pexels.com/license/",
+          alt: p.alt || null,
+          query,
+        },
+      ];
+    });
+    return { ok: true, candidates };
+  },
+};
+
+export const unsplashProvider: ImageProvider = {
+  name: "unsplash",
+  enabled: () => !!UNSPLASH_KEY,
+  remote: true,
+  async search(query, { n, orientation }) {
+    const o = orientation === "square" ? "squarish" : orientation;
+    const url = `https://api.unsplash.com/search/photos?query=${encodeURIComponent(query)}&per_page=${perPage(n)}&orientation=${o}`;
+    const r = await fetchJson<UnsplashSearch>("unsplash", url, { Authorization: `Client-ID ${UNSPLASH_KEY}`, "Accept-Version": "v1" }, query);
+    if (!r.ok) return r;
+    const candidates = (r.json.results || []).flatMap((p): ImageCandidate[] => {
+      if (!p?.urls?.regular) return [];
+      return [
+        {
+          id: `unsplash:${p.id}`,
+          source: "unsplash",
+          url: p.urls.regular,
+          thumbUrl: p.urls.small || p.urls.regular,
+          width: p.width || 0,
+          height: p.height || 0,
+          color: p.color || null,
+          photographer: p.user?.name || null,
+          photographerUrl: p.user?.links?.html ? `${p.user.links.html}?${UTM}` : null,
+          sourceUrl: p.links?.html ? `${p.links.html}?${UTM}` : null,
+          license: "Unsplash License",
+          licenseUrl: "https://unsplash.com/license",
+          alt: p.alt_description || null,
+          query,
+        },
+      ];
+    });
+    return { ok: true, candidates };
+  },
+};
+
+let libraryCache: { mtimeMs: number; entries: (LibraryEntry & { width: number; height: number; color: string | null })[] } | null = null;
+
+async function loadLibrary() {
+  const indexFile = path.join(LIBRARY_DIR, "index.json");
+  const stat = await fs.stat(indexFile).catch(() => null);
+  if (!stat) return [];
+  if (libraryCache && libraryCache.mtimeMs === stat.mtimeMs) return libraryCache.entries;
+
+  const raw = JSON.parse(await fs.readFile(indexFile, "utf8")) as LibraryEntry[];
+  const entries = await Promise.all(
+    raw.map(async (e) => {
+      try {
+        const img = sharp(path.join(LIBRARY_DIR, path.basename(e.file)));
+        const [meta, stats] = await Promise.all([img.metadata(), img.stats()]);
+        const { r, g, b } = stats.dominant;
+        return { ...e, width: meta.width || 0, height: meta.height || 0, color: rgbToHex([r, g, b]) };
+      } catch {
+        return null;
+      }
+    })
+  );
+  libraryCache = { mtimeMs: stat.mtimeMs, entries: entries.filter((e) => e !== null) };
+  return libraryCache.entries;
+}
+
+const tokens = (s: string) => s.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((t) => t.length > 2);
+
+export const libraryProvider: ImageProvider = {
+  name: "library",
+  enabled: () => true,
+  async search(query, { n }) {
+    try {
+      const q = new Set(tokens(query));
+      const scored = (await loadLibrary())
+        .map((e) => ({ e, score: tokens([e.file, ...(e.tags || [])].join(" ")).filter((t) => q.has(t)).length }))
+        .filter((x) => x.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, n);
+      const candidates = scored.map(({ e }): ImageCandidate => {
+        const url = `/library/${encodeURIComponent(path.basename(e.file))}`;
+        return {
+          id: `library:${e.file}`,
+          source: "library",
+          url,
+          thumbUrl: url,
+          width: e.width,
+          height: e.height,
+          color: e.color,
+          photographer: e.photographer || null,
+          photographerUrl: null,
+          sourceUrl: null,
+          license: e.license || "Internal asset",
+          licenseUrl: null,
+          alt: e.alt || null,
+          query,
+        };
+      });
+      return { ok: true, candidates };
+    } catch (e) {
+      return { ok: false, reason: "bad_json", detail: `library index: ${e instanceof Error ? e.message : String(e)}` };
+    }
+  },
+};
+
+// The user's own photos for this product (or its brand kit), ahead of every search result.
+export const uploadProvider: ImageProvider = {
+  name: "upload",
+  enabled: () => true,
+  once: true,
+  async search(query, { label, brandKitId }) {
+    try {
+      return { ok: true, candidates: (await findUploads(label, brandKitId)).map((u) => uploadCandidate(u, query)) };
+    } catch (e) {
+      return { ok: false, reason: "bad_json", detail: `uploads index: ${e instanceof Error ? e.message : String(e)}` };
+    }
+  },
+};
+
+export const generatedProvider: ImageProvider = {
+  name: "generated",
+  enabled: () => true,
+  fallbackOnly: true,
+  async search(query, { size, label, colorHint }) {
+    const { width: w, height: h } = size;
+    const accent = accentFromHint(colorHint);
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}">` +
+      `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${accent}"/><stop offset="1" stop-color="#666666"/></linearGradient></defs>` +
+      `<rect width="100%" height="100%" fill="url(#g)"/>` +
+      `<circle cx="${w / 2}" cy="${h / 2}" r="${Math.min(w, h) * 0.27}" fill="#fff" opacity="0.08"/>` +
+      `<text x="50%" y="52%" text-anchor="middle" font-family="Inter, Arial, sans-serif" font-size="${Math.round(Math.min(w, h) / 16)}" fill="#ffffff" opacity="0.95">${escapeXml(label.slice(0, 28))}</text>` +
+      `</svg>`;
+    const url = `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+    const candidate: ImageCandidate = {
+      id: `generated:${accent}:${w}x${h}`,
+      source: "generated",
+      url,
+      thumbUrl: url,
+      width: w,
+      height: h,
+      color: accent,
+      photographer: null,
+      photographerUrl: null,
+      sourceUrl: null,
+      license: "Generated",
+      licenseUrl: null,
+      alt: `${label} placeholder graphic`,
+      query,
+    };
+    return { ok: true, candidates: [candidate] };
+  },
+};
+
+// Order is preference order in the merged result: own assets first, generated last.
+export const IMAGE_PROVIDERS: ImageProvider[] = [uploadProvider, libraryProvider, pexelsProvider, unsplashProvider, generatedProvider];
+
+/* ========== search ========== */
+// Only successful remote searches are cached; failures are retried next time (subject to backoff).
+const searchCache = createTtlCache<ImageSearchResult>("image-search", { ttlMs: CACHE_TTL_MS, disk: CACHE_DISK });
+
+function cachedSearch(p: ImageProvider, query: string, opts: SearchOpts) {
+  if (!p.remote) return p.search(query, opts);
+  const key = [p.name, opts.orientation, perPage(opts.n), query.trim().toLowerCase().replace(/\s+/g, " ")].join("|");
+  return searchCache.get(key, () => p.search(query, opts), (r) => r.ok);
+}
+
+// Failures that say the provider itself is unavailable, not this query: its remaining queries are skipped.
+const PROVIDER_DOWN: ImageWarningReason[] = ["rate_limited", "timeout", "network"];
+
+// Providers in preference order, each query in turn, until `n` distinct candidates are found: a brief whose first
+// query fills the list costs one outbound call. fetchJson checks the backoff before sending, and a provider that is
+// rate-limited, timing out or unreachable gets no further queries, so a dead provider costs one timeout per search,
+// not one per query. Fallback providers always add their candidate after the list.
+export async function findCandidates(
+  queries: string[],
+  opts: SearchOpts
+): Promise<{ candidates: ImageCandidate[]; warnings: ImageWarning[] }> {
+  const providers = IMAGE_PROVIDERS.filter((p) => p.enabled());
+  const warnings: ImageWarning[] = [];
+  const note = (p: ImageProvider, q: string, r: Extract<ImageSearchResult, { ok: false }>) =>
+    warnings.push({ provider: p.name, query: q, reason: r.reason, detail: r.detail, retryAfterMs: r.retryAfterMs });
+
+  const seen = new Set<string>();
+  const found: ImageCandidate[] = [];
+  for (const p of providers.filter((p) => !p.fallbackOnly)) {
+    for (const q of p.once ? [queries[0] || opts.label] : queries) {
+      if (found.length >= opts.n) break;
+      const r = await cachedSearch(p, q, opts);
+      if (!r.ok) {
+        note(p, q, r);
+        if (PROVIDER_DOWN.includes(r.reason)) break;
+        continue;
+      }
+      for (const c of r.candidates) if (found.length < opts.n && !seen.has(c.url) && seen.add(c.url)) found.push(c);
+    }
+  }
+
+  const q = queries[0] || opts.label;
+  for (const p of providers.filter((p) => p.fallbackOnly)) {
+    const r = await cachedSearch(p, q, opts);
+    if (r.ok) found.push(...r.candidates);
+    else note(p, q, r);
+  }
+  return { candidates: found, warnings };
+}
+
+// Cache counters plus the last rate-limit headers seen per provider, for /api/diag.
+export function imageSearchStats() {
+  return {
+    cache: searchCache.stats(),
+    rateLimits: Object.fromEntries(
+      Array.from(rateStates, ([name, st]) => [
+        name,
+        {
+          limit: st.limit,
+          remaining: st.remaining,
+          resetAt: st.resetAt ? new Date(st.resetAt).toISOString() : null,
+          backingOffMs: Math.max(st.blockedUntil - Date.now(), 0),
+        },
+      ])
+    ),
+  };
+}
+
+// Active check for /api/diag?probe=1: a one-photo page per configured remote provider (one request of its quota each), plus the library index.
+export async function probeImageProviders(): Promise<ProbeResult[]> {
+  const remote: Promise<ProbeResult>[] = [];
+  if (PEXELS_KEY) remote.push(probeUrl("pexels", "image", "https://api.pexels.com/v1/curated?per_page=1", { Authorization: PEXELS_KEY }));
+  if (UNSPLASH_KEY) {
+    remote.push(probeUrl("unsplash", "image", "https://api.unsplash.com/photos?per_page=1", { Authorization: `Client-ID ${UNSPLASH_KEY}`, "Accept-Version": "v1" }));
+  }
+  const started = Date.now();
+  const library = await loadLibrary().catch(() => []);
+  const local: ProbeResult[] = library.length
+    ? [{ name: "library", kind: "image", reachable: true, ok: true, status: null, latencyMs: Date.now() - started, detail: `${library.length} images` }]
+    : [];
+  return [...(await Promise.all(remote)), ...local];
+}
+
+// Reads a /library/<file> URL straight from disk (no HTTP round trip).
+export async function readLibraryFile(url: string): Promise<Buffer> {
+  const m = url.match(/^\/library\/([^/?#]+)$/);
+  if (!m) throw new Error("Not a library image");
+  return fs.readFile(path.join(LIBRARY_DIR, path.basename(decodeURIComponent(m[1]))));
+}
@@ -0,0 +1,21 @@
+/* ------------ language types ------------ */
+export type Language = "en" | "es" | "fr" | "de";
+
+// Phrase banks and templates live in template packs (template-packs/*.json); this is just the language list.
+export const LANGUAGES: { id: Language; label: string; llmName: string }[] = [
+  { id: "en", label: "English", llmName: "English" },
+  { id: "es", label: "Español", llmName: "Spanish (Spain)" },
+  { id: "fr", label: "Français", llmName: "French" },
+  { id: "de", label: "Deutsch", llmName: "German (informal du)" }, // llmName: how the LLM prompt names the language
+];
+
+// Accepts ids, BCP 47 tags ("es-MX") and names ("Deutsch", "french"); unknown → null.
+export function resolveLanguage(input?: string | null): Language | null {
+  const s = (input || "").trim().toLowerCase();
+  if (!s) return null;
+  const base = s.split(/[-_]/)[0];
+  const byId = LANGUAGES.find((l) => l.id === base);
+  if (byId) return byId.id;
+  const byName = LANGUAGES.find((l) => l.label.toLowerCase() === s || l.llmName.toLowerCase().startsWith(s));
+  return byName?.id ?? null;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { buildListing, LISTING_LIMITS, slugify } from "./listing";
+import { composeListing } from "./compose";
+import type { ListingTemplate, TemplateCtx } from "./packs";
+
+const ctx: TemplateCtx = {
+  p: "Lumi Serum", pe: "Lumi Serum", t1: "bright", t2: "gentle", v: "brightens", c1: "every morning", uc: "daily routines",
+  cat: "serum", b: "Glow", normCat: "skincare", catLabel: "skincare",
+};
+
+const template = (fields: Partial<ListingTemplate>): ListingTemplate => ({
+  title: ["{p} – {b} | {catLabel}"],
+  bullets: ["{b} in every drop", "{t1} {cat} for {uc}", "Made for {uc}"],
+  description: ["{p} {v} {c1}."],
+  meta: ["{p}: {b}."],
+  ...fields,
+});
+
+const opts = { product: "Lumi Serum", language: "en" as const, keywords: ["Lumi Serum", "lumi serum", "  Glow ", undefined, "x".repeat(61)] };
+
+describe("buildListing", () => {
+  it("renders each part and de-duplicates keywords", () => {
+    const l = buildListing(template({}), ctx, opts);
+    expect(l.title).toBe("Lumi Serum – Glow | Skincare");
+    expect(l.bullets).toEqual(["Glow in every drop", "Bright serum for daily routines", "Made for daily routines"]);
+    expect(l.description).toBe("Lumi Serum brightens every morning.");
+    expect(l.slug).toBe("lumi-serum-skincare");
+    expect(l.keywords).toEqual(["lumi serum", "glow"]);
+  });
+
+  it("tops bullets up from the fallback templates when sections render empty or repeat", () => {
+    const T = template({ bullets: ["{#aud}For {aud}{/aud}", "{b} in every drop", "glow in every drop"] });
+    const l = buildListing(T, ctx, { ...opts, fallbackBullets: ["Glow in every drop", "Loved for {uc}", "Kind to {cat} fans", "Never used"] });
+    expect(l.bullets).toEqual(["Glow in every drop", "Loved for daily routines", "Kind to serum fans"]);
+    expect(l.bullets).toHaveLength(LISTING_LIMITS.minBullets);
+  });
+
+  it("keeps at most five bullets and clips long ones", () => {
+    const T = template({ bullets: ["One", "Two", "Three", "Four", "Five", "Six", "word ".repeat(60)] });
+    const l = buildListing(T, ctx, opts);
+    expect(l.bullets).toEqual(["One", "Two", "Three", "Four", "Five"]);
+    const [long] = buildListing(template({ bullets: ["word ".repeat(60), "a", "b"] }), ctx, opts).bullets;
+    expect(long.length).toBeLessThanOrEqual(LISTING_LIMITS.bullet);
+    expect(long.endsWith("…")).toBe(true);
+  });
+
+  it("falls back to the shortest title, clipped at a word", () => {
+    const l = buildListing(template({ title: ["{p} ".repeat(10), "{p} {c1} ".repeat(4)] }), ctx, opts);
+    expect(l.title.length).toBeLessThanOrEqual(LISTING_LIMITS.title);
+    expect(l.title).toMatch(/^Lumi Serum every morning Lumi Serum .*…$/);
+  });
+});
+
+describe("composeListing", () => {
+  it("always has 3–5 bullets with the default pack", () => {
+    for (const language of ["en", "es", "fr", "de"] as const) {
+      const l = composeListing("Lumi", undefined, undefined, undefined, undefined, 1, undefined, language);
+      expect(l.bullets.length).toBeGreaterThanOrEqual(LISTING_LIMITS.minBullets);
+      expect(l.bullets.length).toBeLessThanOrEqual(LISTING_LIMITS.maxBullets);
+    }
+  });
+});
+
+describe("slugify", () => {
+  it("drops accents and cuts at a hyphen", () => {
+    expect(slugify("Crème Brûlée & Straße")).toBe("creme-brulee-strasse");
+    expect(slugify("alpha beta gamma", 12)).toBe("alpha-beta");
+  });
+});
@@ -0,0 +1,86 @@
+import type { Language } from "./languages";
+import { renderTemplate, type ListingTemplate, type TemplateCtx } from "./packs";
+import { cap, clip } from "./util";
+
+/* ------------ listing types (pure, safe to import from the client) ------------ */
+export type OutputFormat = "social" | "listing";
+export const OUTPUT_FORMATS: OutputFormat[] = ["social", "listing"];
+
+export type ProductListing = {
+  title: string;           // SEO title
+  bullets: string[];       // 3–5 benefit bullets
+  description: string;     // long description; paragraphs separated by a blank line
+  metaDescription: string;
+  slug: string;            // URL handle, ASCII
+  keywords: string[];      // search terms, most specific first
+};
+
+// Search-result and marketplace cut-offs; past these the text is truncated for the shopper.
+export const LISTING_LIMITS = {
+  title: 60,
+  bullet: 200,
+  minBullets: 3,
+  maxBullets: 5,
+  meta: 155,
+  slug: 60,
+  keywords: 10,
+} as const;
+
+/* ========== helpers ========== */
+const KEYWORD_MAX = 60; // longer phrases aren't search terms
+const tidy = (s: string) => s.replace(/\s+([,.])/g, "$1").replace(/\s{2,}/g, " ").trim(); // French spacing before : ; ! ? stays
+
+// The first pattern that fits wins; if none do, the shortest is clipped at a word.
+function firstFitting(patterns: string[], ctx: TemplateCtx, max: number): string {
+  const rendered = patterns.map((t) => cap(tidy(renderTemplate(t, ctx)))).filter(Boolean);
+  return rendered.find((s) => s.length <= max) || clip([...rendered].sort((a, b) => a.length - b.length)[0] || "", max);
+}
+
+// "Glow Serum – brighter skin | skincare" → each segment starts with a capital.
+const titleCase = (s: string) => s.split(/(\s[|–]\s)/).map((s) => cap(s)).join("");
+
+// Accents are dropped so the handle is plain ASCII: "Crème Brûlée" → "creme-brulee".
+export function slugify(s: string, max: number = LISTING_LIMITS.slug): string {
+  const slug = s
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug.length <= max ? slug : slug.slice(0, max + 1).replace(/-[^-]*$/, "") || slug.slice(0, max);
+}
+
+/* ========== build ========== */
+export function buildListing(
+  T: ListingTemplate,
+  ctx: TemplateCtx,
+  opts: { product: string; language: Language; keywords: (string | undefined)[]; fallbackBullets?: string[] }
+): ProductListing {
+  const seen = new Set<string>();
+  const renderBullets = (templates: string[]) =>
+    templates
+      .map((t) => clip(cap(tidy(renderTemplate(t, ctx))), LISTING_LIMITS.bullet))
+      .filter((b) => b && !seen.has(b.toLocaleLowerCase(opts.language)) && !!seen.add(b.toLocaleLowerCase(opts.language)));
+  const bullets = renderBullets(T.bullets).slice(0, LISTING_LIMITS.maxBullets);
+  // Bullets that render empty or repeat can leave a pack short; the fallback templates top it up.
+  if (bullets.length < LISTING_LIMITS.minBullets) {
+    bullets.push(...renderBullets(opts.fallbackBullets || []).slice(0, LISTING_LIMITS.minBullets - bullets.length));
+  }
+
+  const category = ctx.catLabel && !opts.product.toLocaleLowerCase(opts.language).includes(ctx.catLabel.toLocaleLowerCase(opts.language)) ? ctx.catLabel : "";
+  const terms = new Set<string>();
+  for (const k of opts.keywords) {
+    const term = tidy((k || "").toLocaleLowerCase(opts.language));
+    if (term && term.length <= KEYWORD_MAX) terms.add(term);
+  }
+
+  return {
+    title: titleCase(firstFitting(T.title, ctx, LISTING_LIMITS.title)),
+    bullets,
+    description: T.description.map((t) => cap(tidy(renderTemplate(t, ctx)))).filter(Boolean).join("\n\n"),
+    metaDescription: firstFitting(T.meta, ctx, LISTING_LIMITS.meta),
+    slug: slugify([opts.product, category].filter(Boolean).join(" ")),
+    keywords: [...terms].slice(0, LISTING_LIMITS.keywords),
+  };
+}
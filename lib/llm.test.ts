@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { parseStrictCopy, resolveProvider } from "./llm";
+
+describe("resolveProvider", () => {
+  it("uses the local composer when nothing is configured", () => {
+    expect(resolveProvider({})).toEqual({
+      provider: null,
+      reason: "no LLM provider configured (set an API key, LLM_BASE_URL or OLLAMA_BASE_URL)",
+    });
+  });
+
+  it("honours AI_PROVIDER and says when it isn't configured", () => {
+    expect(resolveProvider({ AI_PROVIDER: "groq", OPENAI_API_KEY: "o", GROQ_API_KEY: "g" }).provider?.name).toBe("groq");
+    expect(resolveProvider({ AI_PROVIDER: "openai" })).toEqual({ provider: null, reason: "AI_PROVIDER=openai but it is not configured" });
+    expect(resolveProvider({ AI_PROVIDER: "demo", OPENAI_API_KEY: "o" }).provider).toBeNull();
+  });
+
+  it("auto-selects in order: openai, groq, compatible, then ollama only when configured", () => {
+    expect(resolveProvider({ OPENAI_API_KEY: "o", GROQ_API_KEY: "g" }).provider?.name).toBe("openai");
+    expect(resolveProvider({ LLM_BASE_URL: "http://llm.local/v1", OLLAMA_MODEL: "m" })).toMatchObject({
+      provider: { name: "compatible", baseUrl: "http://llm.local/v1" },
+      reason: "LLM_BASE_URL set",
+    });
+    expect(resolveProvider({ OLLAMA_MODEL: "qwen" })).toMatchObject({ provider: { name: "ollama", model: "qwen" }, reason: "OLLAMA_MODEL set" });
+    expect(resolveProvider({ OLLAMA_BASE_URL: "http://box:11434/v1", VERCEL: "1" }).provider).toBeNull();
+  });
+
+  it("ignores provider names from Object.prototype", () => {
+    const choice = resolveProvider({ AI_PROVIDER: "constructor", GROQ_API_KEY: "g" });
+    expect(choice).toMatchObject({ provider: { name: "groq" }, reason: "AI_PROVIDER=constructor is not a provider; GROQ_API_KEY present" });
+  });
+});
+
+describe("parseStrictCopy", () => {
+  const copy = { tagline: "Glow on", caption: "Meet Lumi", shortDescription: "A serum.", hashtags: ["#glow", "skin care", "#glow"] };
+
+  it("reads JSON wrapped in fences or prose and tidies hashtags", () => {
+    const parsed = parseStrictCopy("Sure!\n```json\n" + JSON.stringify(copy) + "\n```");
+    expect(parsed).toEqual({ copy: { ...copy, hashtags: ["#glow", "#skincare"] } });
+  });
+
+  it("reports bad JSON and schema problems separately", () => {
+    expect(parseStrictCopy("no object here")).toMatchObject({ reason: "bad_json" });
+    expect(parseStrictCopy("{ tagline: }")).toMatchObject({ reason: "bad_json" });
+    expect(parseStrictCopy(JSON.stringify({ ...copy, caption: " " }))).toMatchObject({ reason: "schema" });
+    expect(parseStrictCopy(JSON.stringify({ ...copy, hashtags: "#glow" }))).toMatchObject({ reason: "schema" });
+    expect(parseStrictCopy(JSON.stringify({ ...copy, hashtags: [" "] }))).toEqual({ reason: "schema", detail: "hashtags is empty" });
+  });
+});
@@ -0,0 +1,238 @@
+import type { GenReq, StrictCopy } from "./types";
+import { resolvePlatform } from "./platforms";
+import { LANGUAGES } from "./languages";
+import { probeUrl, recordProviderCall, type ProbeResult } from "./observability";
+
+/* ------------ provider types ------------ */
+export type ProviderName = "openai" | "groq" | "ollama" | "compatible";
+
+export type ProviderConfig = {
+  name: ProviderName;
+  baseUrl: string; // OpenAI-compatible root, e.g. https://api.openai.com/v1
+  apiKey: string;
+  model: string;
+};
+
+export type ProviderChoice = {
+  provider: ProviderConfig | null; // null => local composer only
+  reason: string;
+};
+
+export type FallbackReason = "timeout" | "http_error" | "network" | "bad_json" | "schema";
+
+export type LlmResult =
+  | { ok: true; copy: StrictCopy; raw: string; latencyMs: number }
+  | { ok: false; reason: FallbackReason; detail: string; raw?: string; latencyMs: number };
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_TIMEOUT_MS = 12000;
+
+/* ========== selection (single source of truth for generate + diag) ========== */
+// Each provider's settings, or null when it isn't configured.
+function providerConfigs(env: Env): Record<ProviderName, () => ProviderConfig | null> {
+  const isVercel = env.VERCEL === "1";
+
+  const openai = (): ProviderConfig | null =>
+    env.OPENAI_API_KEY
+      ? {
+          name: "openai",
+          baseUrl: env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+          apiKey: env.OPENAI_API_KEY,
+          model: env.OPENAI_MODEL || "gpt-4o-mini",
+        }
+      : null;
+  const groq = (): ProviderConfig | null =>
+    env.GROQ_API_KEY
+      ? {
+          name: "groq",
+          baseUrl: "https://api.groq.com/openai/v1",
+          apiKey: env.GROQ_API_KEY,
+          model: env.GROQ_MODEL || "llama-3.1-8b-instant",
+        }
+      : null;
+  // Ollama only runs next to the app, never on Vercel.
+  const ollama = (): ProviderConfig | null =>
+    isVercel
+      ? null
+      : {
+          name: "ollama",
+          baseUrl: env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+          apiKey: "ollama",
+          model: env.OLLAMA_MODEL || "llama3.1",
+        };
+  const compatible = (): ProviderConfig | null =>
+    env.LLM_BASE_URL
+      ? {
+          name: "compatible",
+          baseUrl: env.LLM_BASE_URL,
+          apiKey: env.LLM_API_KEY || "",
+          model: env.LLM_MODEL || "default",
+        }
+      : null;
+
+  return { openai, groq, ollama, compatible };
+}
+
+export function resolveProvider(env: Env = process.env): ProviderChoice {
+  const wanted = (env.AI_PROVIDER || "").trim().toLowerCase();
+  const byName = providerConfigs(env);
+
+  if (wanted === "local" || wanted === "demo") {
+    return { provider: null, reason: `AI_PROVIDER=${wanted}` };
+  }
+  if (Object.hasOwn(byName, wanted)) {
+    const p = byName[wanted as ProviderName]();
+    if (p) return { provider: p, reason: `AI_PROVIDER=${wanted}` };
+    return { provider: null, reason: `AI_PROVIDER=${wanted} but it is not configured` };
+  }
+
+  // Unset (or unknown): the first configured provider wins. Ollama needs no settings at all, so it only joins
+  // when one of its variables is set; otherwise every local run would wait on localhost:11434.
+  const ignored = wanted ? `AI_PROVIDER=${wanted} is not a provider; ` : "";
+  const auto: [ProviderConfig | null, string][] = [
+    [byName.openai(), "OPENAI_API_KEY present"],
+    [byName.groq(), "GROQ_API_KEY present"],
+    [byName.compatible(), "LLM_BASE_URL set"],
+    [env.OLLAMA_BASE_URL || env.OLLAMA_MODEL ? byName.ollama() : null, `${env.OLLAMA_BASE_URL ? "OLLAMA_BASE_URL" : "OLLAMA_MODEL"} set`],
+  ];
+  const hit = auto.find(([p]) => p);
+  if (hit) return { provider: hit[0], reason: `${ignored}${hit[1]}` };
+  return { provider: null, reason: `${ignored}no LLM provider configured (set an API key, LLM_BASE_URL or OLLAMA_BASE_URL)` };
+}
+
+/* ========== prompt ========== */
+function buildMessages(req: GenReq) {
+  const profile = resolvePlatform(req.platform);
+  const language = LANGUAGES.find((l) => l.id === (req.language || "en"))?.llmName || "English";
+  const brief = [
+    `Product: ${req.product}`,
+    req.category && `Category: ${req.category}`,
+    req.keyBenefit && `Key benefit: ${req.keyBenefit}`,
+    req.audience && `Audience: ${req.audience}`,
+    req.tone && `Tone: ${req.tone}`,
+    `Platform: ${profile.label} (caption under ${profile.captionMax} characters, emoji: ${profile.emoji})`,
+    `Language: ${language}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return [
+    {
+      role: "system",
+      content:
+        "You write short social ad copy. Return ONLY a JSON object, no code fences, with keys " +
+        '"tagline" (max 8 words), "caption" (max 26 words), "shortDescription" (1-2 sentences) and ' +
+        '"hashtags" (exactly 5 strings starting with #). Mention the product name in tagline and caption. ' +
+        "Write every field, hashtags included, in the requested language; keep the product name as given.",
+    },
+    { role: "user", content: brief },
+  ];
+}
+
+/* ========== parsing & validation ========== */
+export function parseStrictCopy(raw: string): { copy: StrictCopy } | { reason: "bad_json" | "schema"; detail: string } {
+  // Models like to wrap JSON in fences or prose; take the outermost object.
+  const text = raw.replace(/```(?:json)?/gi, "");
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) return { reason: "bad_json", detail: "no JSON object in output" };
+
+  let j: unknown;
+  try {
+    j = JSON.parse(text.slice(start, end + 1));
+  } catch (e) {
+    return { reason: "bad_json", detail: String(e) };
+  }
+
+  const o = (j || {}) as Record<string, unknown>;
+  const str = (k: string) => (typeof o[k] === "string" ? (o[k] as string).trim() : "");
+  const tagline = str("tagline");
+  const caption = str("caption");
+  const shortDescription = str("shortDescription");
+  if (!tagline || !caption || !shortDescription) {
+    return { reason: "schema", detail: "tagline, caption and shortDescription must be non-empty strings" };
+  }
+  if (!Array.isArray(o.hashtags) || !o.hashtags.every((h) => typeof h === "string")) {
+    return { reason: "schema", detail: "hashtags must be an array of strings" };
+  }
+
+  const hashtags = Array.from(
+    new Set(
+      (o.hashtags as string[])
+        .map((h) => h.trim().replace(/\s+/g, ""))
+        .filter(Boolean)
+        .map((h) => (h.startsWith("#") ? h : `#${h}`))
+    )
+  ).slice(0, 5);
+  if (!hashtags.length) return { reason: "schema", detail: "hashtags is empty" };
+
+  return { copy: { tagline, caption, shortDescription, hashtags } };
+}
+
+/* ========== call ========== */
+// Every call is logged and counted (see lib/observability.ts), whichever way it ends.
+export async function generateWithProvider(
+  p: ProviderConfig,
+  req: GenReq,
+  timeoutMs = Number(process.env.LLM_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS
+): Promise<LlmResult> {
+  const r = await callProvider(p, req, timeoutMs);
+  recordProviderCall("llm", p.name, r.ok ? "ok" : r.reason, r.latencyMs, { model: p.model, ...(r.ok ? {} : { detail: r.detail.slice(0, 200) }) });
+  return r;
+}
+
+async function callProvider(p: ProviderConfig, req: GenReq, timeoutMs: number): Promise<LlmResult> {
+  const started = Date.now();
+  const elapsed = () => Date.now() - started;
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), timeoutMs);
+
+  try {
+    const res = await fetch(`${p.baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(p.apiKey ? { Authorization: `Bearer ${p.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: p.model,
+        temperature: 0.7,
+        messages: buildMessages(req),
+      }),
+      cache: "no-store",
+      signal: ctrl.signal,
+    });
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => "");
+      return { ok: false, reason: "http_error", detail: `HTTP ${res.status} ${detail.slice(0, 200)}`, latencyMs: elapsed() };
+    }
+
+    const json = await res.json().catch(() => null);
+    const raw: string = json?.choices?.[0]?.message?.content ?? "";
+    const parsed = parseStrictCopy(raw);
+    if ("reason" in parsed) return { ok: false, reason: parsed.reason, detail: parsed.detail, raw, latencyMs: elapsed() };
+    return { ok: true, copy: parsed.copy, raw, latencyMs: elapsed() };
+  } catch (e) {
+    if (ctrl.signal.aborted) {
+      return { ok: false, reason: "timeout", detail: `no response after ${timeoutMs}ms`, latencyMs: elapsed() };
+    }
+    return { ok: false, reason: "network", detail: String(e), latencyMs: elapsed() };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/* ========== health probe ========== */
+// Lists models on every configured provider: proves the endpoint answers and the key works, without spending tokens.
+export function probeProviders(env: Env = process.env): Promise<ProbeResult[]> {
+  const configured = Object.values(providerConfigs(env))
+    .map((config) => config())
+    .filter((p): p is ProviderConfig => !!p);
+  return Promise.all(
+    configured.map((p) =>
+      probeUrl(p.name, "llm", `${p.baseUrl.replace(/\/+$/, "")}/models`, p.apiKey ? { Authorization: `Bearer ${p.apiKey}` } : {})
+    )
+  );
+}
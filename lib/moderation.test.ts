@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MODERATION, moderateBrief, moderateCopy, validateModerationConfig, type ModerationConfig } from "./moderation";
+
+const config: ModerationConfig = {
+  ...DEFAULT_MODERATION,
+  competitors: ["Acme Corp"],
+  trademarks: [{ term: "Kleenex", generic: "tissues" }],
+};
+const copy = { tagline: "Glow on", caption: "Meet Lumi.", shortDescription: "A light serum.", hashtags: ["#Glow"] };
+
+describe("validateModerationConfig", () => {
+  it("accepts the bundled config", () => {
+    expect(validateModerationConfig(DEFAULT_MODERATION)).toHaveProperty("config");
+  });
+
+  it("requires an object with every list", () => {
+    for (const raw of [null, undefined, [], "lists"]) {
+      expect(validateModerationConfig(raw)).toEqual({ errors: ["body: object with policy, profanity, competitors and trademarks"] });
+    }
+    expect(validateModerationConfig({})).toEqual({ errors: ["profanity: required", "competitors: required", "trademarks: required"] });
+  });
+
+  it("fills a missing policy from the defaults and de-duplicates terms", () => {
+    const result = validateModerationConfig({
+      policy: { competitor: "flag" },
+      profanity: { en: ["darn", "Darn "] },
+      competitors: ["Acme", "acme"],
+      trademarks: [{ term: "Kleenex", generic: " tissues " }, { term: "kleenex" }, { term: "Frisbee", generic: "" }],
+    });
+    expect(result).toEqual({
+      config: {
+        policy: { ...DEFAULT_MODERATION.policy, competitor: "flag" },
+        profanity: { en: ["darn"] },
+        competitors: ["Acme"],
+        trademarks: [{ term: "Kleenex", generic: "tissues" }, { term: "Frisbee" }],
+      },
+    });
+  });
+
+  it("reports unknown rules, actions and languages and bad terms", () => {
+    const result = validateModerationConfig({
+      policy: { spam: "block", markup: "ignore" },
+      profanity: { xx: [] },
+      competitors: ["", "x".repeat(81)],
+      trademarks: [{ term: 3 }],
+    });
+    expect("errors" in result && result.errors.map((e) => e.split(":")[0])).toEqual([
+      "policy.spam", "policy.markup", "profanity.xx", "competitors", "competitors", "trademarks[0].term",
+    ]);
+  });
+});
+
+describe("moderation", () => {
+  it("blocks profanity, including look-alikes", () => {
+    const { report } = moderateCopy({ ...copy, caption: "Sh1t, that glow." }, config);
+    expect(report.blocked).toBe(true);
+    expect(report.findings).toEqual([{ stage: "copy", field: "caption", rule: "profanity", action: "block", term: "s***" }]);
+  });
+
+  it("removes competitors and markup and writes the trademark generic", () => {
+    const result = moderateCopy(
+      { ...copy, caption: "Softer than Kleenex. Better than acme-corp <b>today</b>.", hashtags: ["#Glow", "#AcmeCorp"] },
+      config
+    );
+    expect(result.copy).toMatchObject({ caption: "Softer than tissues. Better than today.", hashtags: ["#Glow"] });
+    expect(result.report.blocked).toBe(false);
+    expect(result.report.findings.map((f) => f.rule)).toEqual(["markup", "markup", "competitor", "trademark", "competitor"]);
+  });
+
+  it("checks the colour hint and the brand kit's image keywords before they reach the image search", () => {
+    const { brief, imageKeywords, report } = moderateBrief({ product: "Lumi", colorHint: "teal <script>x</script>" }, config, ["spa", "acme corp", "<b>glow</b>"]);
+    expect(brief.colorHint).toBe("teal");
+    expect(imageKeywords).toEqual(["spa"]);
+    expect(report.findings.map((f) => [f.field, f.rule])).toEqual([
+      ["colorHint", "markup"],
+      ["brandKit.imageKeywords", "competitor"],
+      ["brandKit.imageKeywords", "markup"],
+      ["brandKit.imageKeywords", "markup"],
+    ]);
+    expect(moderateBrief({ product: "Lumi" }, config, ["shit"]).report.blocked).toBe(true);
+  });
+
+  it("blocks a brief whose product name moderation would empty", () => {
+    const { brief, report } = moderateBrief({ product: "Acme Corp" }, config);
+    expect(brief.product).toBe("Acme Corp");
+    expect(report).toMatchObject({ blocked: true, findings: [{ field: "product", rule: "competitor", action: "block" }] });
+  });
+});
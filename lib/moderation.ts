@@ -0,0 +1,335 @@
+import type { GenReq, StrictCopy } from "./types";
+import type { ProductListing } from "./listing";
+import type { FieldError } from "./validate";
+import { LANGUAGES, type Language } from "./languages";
+import { escapeRe } from "./util";
+import defaultConfig from "../moderation/default.json";
+
+/* ------------ types (pure, safe to import from the client) ------------ */
+export type ModerationRule = "profanity" | "competitor" | "trademark" | "markup";
+export const MODERATION_RULES: ModerationRule[] = ["profanity", "competitor", "trademark", "markup"];
+
+// block: refuse the request; sanitize: remove (or replace) and carry on; flag: keep the text, report it.
+export type ModerationAction = "block" | "sanitize" | "flag";
+export const MODERATION_ACTIONS: ModerationAction[] = ["block", "sanitize", "flag"];
+
+export type Trademark = { term: string; generic?: string }; // generic: what sanitizing writes instead
+
+export type ModerationConfig = {
+  policy: Record<ModerationRule, ModerationAction>;
+  profanity: Partial<Record<Language, string[]>>; // every language's list is checked, whatever the copy language
+  competitors: string[];
+  trademarks: Trademark[];
+};
+
+export type ModerationFinding = {
+  stage: "brief" | "copy";
+  field: string;         // brief field, copy field or "listing.<field>"
+  rule: ModerationRule;
+  action: ModerationAction;
+  term: string;          // the listed term (profanity masked) or the markup that was found
+  replacement?: string;  // trademark generic written in its place
+};
+
+export type ModerationReport = { blocked: boolean; findings: ModerationFinding[] };
+
+export const DEFAULT_MODERATION = defaultConfig as ModerationConfig;
+
+/* ------------ limits ------------ */
+const MAX_TERMS = 500;   // per list
+const MAX_TERM_LEN = 80;
+
+/* ========== matching ========== */
+const EDGE_BEFORE = "(?<![\\p{L}\\p{N}])";
+const EDGE_AFTER = "(?![\\p{L}\\p{N}])";
+
+// Look-alikes a profanity filter has to see through: "sh1t", "f*ck", "a$$", "fuuuck", "mérde".
+const LEET: Record<string, string> = {
+  a: "aàáâäã@4*", e: "eèéêë3*", i: "iìíîï1!*", o: "oòóôöõ0*", u: "uùúûü*", s: "s$5", t: "t7", n: "nñ", c: "cç",
+};
+const plain = (s: string) => s.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+
+function profanityRe(word: string) {
+  const chars = [...plain(word)].map((ch) => (LEET[ch] ? `[${escapeRe(LEET[ch])}]+` : `${escapeRe(ch)}+`));
+  return new RegExp(`${EDGE_BEFORE}${chars.join("")}${EDGE_AFTER}`, "giu");
+}
+
+// Words may be joined by any separator or none, so "Acme Corp" also catches "acme-corp" and "#AcmeCorp".
+const termRe = (term: string) =>
+  new RegExp(`${EDGE_BEFORE}${term.trim().split(/[\s\-_.]+/).map(escapeRe).join("[^\\p{L}\\p{N}]*")}${EDGE_AFTER}`, "giu");
+
+const mask = (w: string) => w.charAt(0) + "*".repeat(Math.max(w.length - 1, 2));
+
+type Matcher = { rule: ModerationRule; term: string; re: RegExp; generic?: string };
+
+// Longest terms first, so "Acme Foods" is reported rather than "Acme".
+function matchersFor(config: ModerationConfig): Matcher[] {
+  const byLength = <T>(xs: T[], key: (x: T) => string) => [...xs].sort((a, b) => key(b).length - key(a).length);
+  const profanity = [...new Set(Object.values(config.profanity).flat().filter((w): w is string => !!w?.trim()))];
+  return [
+    ...byLength(config.competitors.filter((c) => c.trim()), (c) => c).map((c) => ({ rule: "competitor" as const, term: c, re: termRe(c) })),
+    ...byLength(config.trademarks.filter((t) => t.term.trim()), (t) => t.term).map((t) => ({
+      rule: "trademark" as const,
+      term: t.term,
+      re: termRe(t.term),
+      generic: t.generic?.trim() || undefined,
+    })),
+    ...byLength(profanity, (w) => w).map((w) => ({ rule: "profanity" as const, term: mask(w), re: profanityRe(w) })),
+  ];
+}
+
+/* ========== markup ========== */
+// Anything that would render, run or hide in a post: HTML, Markdown links, script URLs, template braces, invisible characters.
+const INVISIBLE = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g;
+const MARKUP: { re: RegExp; keep?: string }[] = [
+  { re: /<(script|style|iframe)\b[^>]*>[\s\S]*?<\/\1\s*>/gi },
+  { re: /<!--[\s\S]*?-->/g },
+  { re: /<\/?[a-z][^<>]*>/gi },
+  { re: /!\[([^\]]*)\]\((?:[^()]|\([^()]*\))*\)/g, keep: "$1" },
+  { re: /\[([^\]]+)\]\((?:[^()]|\([^()]*\))*\)/g, keep: "$1" },
+  { re: /\b(?:javascript|vbscript|data):[^\s"'<>]*/gi },
+  { re: /\{\{|\}\}|\$\{|<%|%>/g },
+  { re: /&(?:#\d+|#x[0-9a-f]+|[a-z]+);/gi },
+  { re: INVISIBLE },
+];
+
+function findMarkup(s: string): { text: string; hits: string[] } {
+  const hits: string[] = [];
+  const text = MARKUP.reduce(
+    (acc, { re, keep }) =>
+      acc.replace(re, (m, ...groups) => {
+        // Invisible characters are reported by code point; there's nothing to show.
+        hits.push(m.length === 1 && new RegExp(INVISIBLE.source).test(m) ? `U+${m.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}` : m.slice(0, 40));
+        return keep ? String(groups[0] ?? "") : "";
+      }),
+    s
+  );
+  return { text, hits };
+}
+
+/* ========== text moderation ========== */
+type Run = { config: ModerationConfig; matchers: Matcher[]; stage: ModerationFinding["stage"]; findings: ModerationFinding[] };
+
+function note(run: Run, f: Omit<ModerationFinding, "stage">) {
+  const dup = run.findings.some((x) => x.stage === run.stage && x.field === f.field && x.rule === f.rule && x.term === f.term);
+  if (!dup) run.findings.push({ stage: run.stage, ...f });
+}
+
+const tidy = (s: string) =>
+  s
+    .replace(/\(\s*\)/g, "")
+    .replace(/[ \t]+([,.!?;)])/g, "$1")
+    .replace(/\(\s+/g, "(")
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/^[\s,;:–—-]+/, "")
+    .trim();
+
+const atSentenceStart = (before: string) => !before.trim() || /[.!?]\s*$/.test(before);
+
+function moderateText(run: Run, field: string, value: string): string {
+  let text = value;
+  let changed = false;
+
+  const markup = findMarkup(text);
+  if (markup.hits.length) {
+    const action = run.config.policy.markup;
+    for (const term of markup.hits) note(run, { field, rule: "markup", action, term });
+    if (action === "sanitize") [text, changed] = [markup.text, true];
+  }
+
+  for (const m of run.matchers) {
+    m.re.lastIndex = 0;
+    if (!m.re.test(text)) continue;
+    const action = run.config.policy[m.rule];
+    note(run, { field, rule: m.rule, action, term: m.term, ...(action === "sanitize" && m.generic ? { replacement: m.generic } : {}) });
+    if (action !== "sanitize") continue;
+    changed = true;
+    text = text.replace(m.re, (match: string, offset: number, whole: string) => {
+      if (!m.generic) return "";
+      // "Kleenex tissues" → "tissues", not "tissue tissues"
+      const last = m.generic.split(/\s+/).pop()!.toLowerCase();
+      if (whole.slice(offset + match.length).trimStart().toLowerCase().startsWith(last)) return "";
+      return atSentenceStart(whole.slice(0, offset)) ? m.generic.charAt(0).toUpperCase() + m.generic.slice(1) : m.generic;
+    });
+  }
+  return changed ? tidy(text) : text;
+}
+
+// Tags are matched whole and split at CamelCase; a sanitized tag is dropped rather than edited.
+function moderateTags(run: Run, field: string, tags: string[]): string[] {
+  return tags.filter((tag) => {
+    const body = tag.replace(/^#/, "");
+    const words = body.replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, "$1 $2").replace(/_/g, " ");
+    let keep = true;
+    for (const m of run.matchers) {
+      m.re.lastIndex = 0;
+      const hit = m.re.test(body) || ((m.re.lastIndex = 0), m.re.test(words));
+      if (!hit) continue;
+      const action = run.config.policy[m.rule];
+      note(run, { field, rule: m.rule, action, term: m.term });
+      if (action === "sanitize") keep = false;
+    }
+    return keep;
+  });
+}
+
+const report = (run: Run): ModerationReport => ({ blocked: run.findings.some((f) => f.action === "block"), findings: run.findings });
+
+/* ========== stages ========== */
+// Brief fields that reach public copy or the image search queries.
+export const MODERATED_BRIEF_FIELDS = ["product", "category", "keyBenefit", "audience", "imageStyle", "imageQuery", "colorHint"] as const;
+
+// `imageKeywords` are the brand kit's search keywords, which also go to the stock-photo providers; a keyword that
+// sanitizing would change is dropped rather than edited.
+export function moderateBrief(
+  brief: GenReq,
+  config: ModerationConfig = DEFAULT_MODERATION,
+  imageKeywords: string[] = []
+): { brief: GenReq; imageKeywords: string[]; report: ModerationReport } {
+  const run: Run = { config, matchers: matchersFor(config), stage: "brief", findings: [] };
+  const out: GenReq = { ...brief };
+  for (const field of MODERATED_BRIEF_FIELDS) {
+    const value = brief[field];
+    if (typeof value === "string" && value) out[field] = moderateText(run, field, value);
+  }
+  const keywords = imageKeywords.filter((k) => moderateText(run, "brandKit.imageKeywords", k) === k);
+  // Nothing left to write about: whatever emptied the product name blocks the request.
+  if (!out.product.trim()) {
+    run.findings = run.findings.map((f) => (f.field === "product" ? { ...f, action: "block" } : f));
+    out.product = brief.product;
+  }
+  return { brief: out, imageKeywords: keywords, report: report(run) };
+}
+
+export function moderateCopy(copy: StrictCopy, config: ModerationConfig = DEFAULT_MODERATION): { copy: StrictCopy; report: ModerationReport } {
+  const run: Run = { config, matchers: matchersFor(config), stage: "copy", findings: [] };
+  return {
+    copy: {
+      tagline: moderateText(run, "tagline", copy.tagline),
+      caption: moderateText(run, "caption", copy.caption),
+      shortDescription: moderateText(run, "shortDescription", copy.shortDescription),
+      hashtags: moderateTags(run, "hashtags", copy.hashtags),
+    },
+    report: report(run),
+  };
+}
+
+export function moderateListing(listing: ProductListing, config: ModerationConfig = DEFAULT_MODERATION): { listing: ProductListing; report: ModerationReport } {
+  const run: Run = { config, matchers: matchersFor(config), stage: "copy", findings: [] };
+  return {
+    listing: {
+      ...listing,
+      title: moderateText(run, "listing.title", listing.title),
+      bullets: listing.bullets.map((b) => moderateText(run, "listing.bullets", b)).filter(Boolean),
+      description: listing.description.split("\n\n").map((p) => moderateText(run, "listing.description", p)).filter(Boolean).join("\n\n"),
+      metaDescription: moderateText(run, "listing.metaDescription", listing.metaDescription),
+      keywords: listing.keywords.filter((k) => moderateText(run, "listing.keywords", k) === k),
+    },
+    report: report(run),
+  };
+}
+
+// Carousel and Story frames: the composer fills them with the kit's audience, preferred words and voice.
+export function moderateFrames<T extends { headline: string; body: string }>(
+  frames: T[],
+  config: ModerationConfig = DEFAULT_MODERATION
+): { frames: T[]; report: ModerationReport } {
+  const run: Run = { config, matchers: matchersFor(config), stage: "copy", findings: [] };
+  return {
+    frames: frames.map((f, i) => ({
+      ...f,
+      headline: moderateText(run, `frames[${i}].headline`, f.headline),
+      body: moderateText(run, `frames[${i}].body`, f.body),
+    })),
+    report: report(run),
+  };
+}
+
+export const mergeReports = (...reports: (ModerationReport | null | undefined)[]): ModerationReport => {
+  const findings = reports.flatMap((r) => r?.findings || []);
+  return { blocked: findings.some((f) => f.action === "block"), findings };
+};
+
+/* ========== wording (UI and error messages) ========== */
+const RULE_LABELS: Record<ModerationRule, string> = {
+  profanity: "profanity",
+  competitor: "competitor name",
+  trademark: "trademark",
+  markup: "markup",
+};
+
+export function describeFinding(f: ModerationFinding): string {
+  const what = `${RULE_LABELS[f.rule]} "${f.term}"`;
+  if (f.action === "block") return `${f.field}: ${what} is blocked`;
+  if (f.action === "flag") return `${f.field}: ${what} flagged for review`;
+  return `${f.field}: ${what} ${f.replacement ? `replaced with "${f.replacement}"` : "removed"}`;
+}
+
+// The blocking findings as error fields; `prefix` nests brief fields ("brief.product").
+export const blockedFields = (report: ModerationReport, prefix = ""): FieldError[] =>
+  report.findings.filter((f) => f.action === "block").map((f) => ({ path: `${prefix}${f.field}`, message: `${RULE_LABELS[f.rule]} "${f.term}"` }));
+
+/* ========== config validation ========== */
+// Every list must be sent (an empty list is an explicit choice); only a policy left out falls back to the bundled action.
+export function validateModerationConfig(raw: unknown): { config: ModerationConfig } | { errors: string[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { errors: ["body: object with policy, profanity, competitors and trademarks"] };
+  const r = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const key of ["profanity", "competitors", "trademarks"]) if (r[key] === undefined) errors.push(`${key}: required`);
+  const terms = (v: unknown, at: string): string[] => {
+    if (!Array.isArray(v)) {
+      errors.push(`${at}: list of terms`);
+      return [];
+    }
+    if (v.length > MAX_TERMS) errors.push(`${at}: at most ${MAX_TERMS} terms`);
+    const out: string[] = [];
+    for (const t of v) {
+      const term = typeof t === "string" ? t.trim() : "";
+      if (!term || term.length > MAX_TERM_LEN) errors.push(`${at}: "${String(t)}" must be 1–${MAX_TERM_LEN} characters`);
+      else if (!out.some((x) => x.toLowerCase() === term.toLowerCase())) out.push(term);
+    }
+    return out;
+  };
+
+  const policy = { ...DEFAULT_MODERATION.policy };
+  const p = (r.policy ?? {}) as Record<string, unknown>;
+  if (typeof p !== "object" || Array.isArray(p)) errors.push("policy: object keyed by rule");
+  else {
+    for (const [rule, action] of Object.entries(p)) {
+      if (!MODERATION_RULES.includes(rule as ModerationRule)) errors.push(`policy.${rule}: unknown rule (${MODERATION_RULES.join(", ")})`);
+      else if (!MODERATION_ACTIONS.includes(action as ModerationAction)) errors.push(`policy.${rule}: must be one of ${MODERATION_ACTIONS.join(", ")}`);
+      else policy[rule as ModerationRule] = action as ModerationAction;
+    }
+  }
+
+  const profanity: ModerationConfig["profanity"] = {};
+  const langs = (r.profanity ?? {}) as Record<string, unknown>;
+  if (typeof langs !== "object" || Array.isArray(langs)) errors.push("profanity: object keyed by language");
+  else {
+    for (const [lang, words] of Object.entries(langs)) {
+      if (!LANGUAGES.some((l) => l.id === lang)) errors.push(`profanity.${lang}: unknown language`);
+      else profanity[lang as Language] = terms(words, `profanity.${lang}`);
+    }
+  }
+
+  const competitors = terms(r.competitors ?? [], "competitors");
+
+  const trademarks: Trademark[] = [];
+  if (!Array.isArray(r.trademarks ?? [])) errors.push("trademarks: list of { term, generic }");
+  else {
+    const list = (r.trademarks ?? []) as unknown[];
+    if (list.length > MAX_TERMS) errors.push(`trademarks: at most ${MAX_TERMS} terms`);
+    for (const [i, t] of list.entries()) {
+      const { term, generic } = (t || {}) as Record<string, unknown>;
+      if (typeof term !== "string" || !term.trim() || term.length > MAX_TERM_LEN) {
+        errors.push(`trademarks[${i}].term: 1–${MAX_TERM_LEN} characters`);
+      } else if (generic != null && (typeof generic !== "string" || generic.length > MAX_TERM_LEN)) {
+        errors.push(`trademarks[${i}].generic: at most ${MAX_TERM_LEN} characters`);
+      } else if (!trademarks.some((x) => x.term.toLowerCase() === term.trim().toLowerCase())) {
+        trademarks.push({ term: term.trim(), ...(typeof generic === "string" && generic.trim() ? { generic: generic.trim() } : {}) });
+      }
+    }
+  }
+
+  return errors.length ? { errors } : { config: { policy, profanity, competitors, trademarks } };
+}
@@ -0,0 +1,15 @@
+import { readJson, removeJson, writeJson } from "./store";
+import { DEFAULT_MODERATION, type ModerationConfig } from "./moderation";
+
+/* ------------ storage ------------ */
+// Same shape as the hashtag dictionary: a saved config replaces moderation/default.json until it is reset.
+const FILE = "moderation.json";
+
+export async function getModerationConfig(): Promise<{ config: ModerationConfig; custom: boolean }> {
+  const saved = await readJson<ModerationConfig | null>(FILE, null);
+  return saved ? { config: saved, custom: true } : { config: DEFAULT_MODERATION, custom: false };
+}
+
+export const saveModerationConfig = (config: ModerationConfig) => writeJson(FILE, config);
+
+export const resetModerationConfig = () => removeJson(FILE);
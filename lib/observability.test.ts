@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// LOG_LEVEL is read when the module is first imported; lines are captured below instead of printed.
+process.env.LOG_LEVEL = "info";
+const { cachedProbes, log, metricsSummary, metricsText, probeUrl, recordProviderCall, withRequest } = await import("./observability");
+
+let lines: Record<string, unknown>[] = [];
+beforeEach(() => {
+  lines = [];
+  const capture = (line: string) => void lines.push(JSON.parse(line));
+  vi.spyOn(console, "log").mockImplementation(capture);
+  vi.spyOn(console, "error").mockImplementation(capture);
+});
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("withRequest", () => {
+  it("tags logs with the request id and echoes it back", async () => {
+    const req = (id?: string) => new Request("http://x/api/test", { headers: id ? { "x-request-id": id } : {} });
+    const res = await withRequest(req("proxy-123"), "/api/test", async () => {
+      log("info", "inside");
+      return new Response("ok", { status: 201 });
+    });
+    expect(res.headers.get("X-Request-Id")).toBe("proxy-123");
+    expect(lines.map((l) => [l.event, l.requestId, l.route])).toEqual([
+      ["inside", "proxy-123", "/api/test"],
+      ["request", "proxy-123", "/api/test"],
+    ]);
+    expect(lines[1]).toMatchObject({ status: 201, method: "GET" });
+
+    const fresh = await withRequest(req("not a valid id!"), "/api/test", async () => new Response("ok"));
+    expect(fresh.headers.get("X-Request-Id")).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("counts a thrown handler as a 500 and rethrows", async () => {
+    await expect(withRequest(new Request("http://x/api/boom"), "/api/boom", async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    expect(lines.at(-1)).toMatchObject({ level: "error", event: "request", status: 500 });
+    expect(metricsText()).toContain('biab_requests_total{route="/api/boom",status="500"} 1');
+  });
+});
+
+describe("metrics", () => {
+  it("exposes counters, summaries and error ratios in Prometheus format", () => {
+    for (const ms of [10, 20, 30, 40]) recordProviderCall("image", "pexels", "ok", ms);
+    recordProviderCall("image", "pexels", "timeout", null);
+    recordProviderCall("llm", 'open"ai', "ok", 5);
+
+    const text = metricsText();
+    expect(text).toContain("# TYPE biab_provider_calls_total counter");
+    expect(text).toContain('biab_provider_calls_total{kind="image",provider="pexels",outcome="ok"} 4');
+    expect(text).toContain('biab_provider_latency_ms{kind="image",provider="pexels",quantile="0.5"} 20');
+    expect(text).toContain('biab_provider_latency_ms{kind="image",provider="pexels",quantile="0.95"} 40');
+    expect(text).toContain('biab_provider_latency_ms_count{kind="image",provider="pexels"} 4');
+    expect(text).toContain('biab_provider_error_ratio{kind="image",provider="pexels"} 0.2');
+    expect(text).toContain('provider="open\\"ai"');
+    expect(text.endsWith("\n")).toBe(true);
+
+    expect(metricsSummary().providers["image:pexels"]).toEqual({ count: 4, errorRate: 0.2, p50Ms: 20, p95Ms: 40 });
+    expect(lines.find((l) => l.outcome === "timeout")).toMatchObject({ level: "warn", event: "image_call" });
+  });
+});
+
+describe("probes", () => {
+  it("reports reachability, status and timeouts", async () => {
+    vi.stubGlobal("fetch", async (url: string, init: RequestInit) => {
+      if (url.endsWith("/ok")) return new Response("{}");
+      if (url.endsWith("/denied")) return new Response("no", { status: 401 });
+      if (url.endsWith("/down")) throw new TypeError("fetch failed");
+      return new Promise((_, reject) => init.signal!.addEventListener("abort", () => reject(new Error("aborted"))));
+    });
+    expect(await probeUrl("a", "llm", "https://p/ok")).toMatchObject({ reachable: true, ok: true, status: 200 });
+    expect(await probeUrl("a", "llm", "https://p/denied")).toMatchObject({ reachable: true, ok: false, status: 401, detail: "HTTP 401" });
+    expect(await probeUrl("a", "llm", "https://p/down")).toMatchObject({ reachable: false, status: null, detail: "TypeError: fetch failed" });
+    expect(await probeUrl("a", "llm", "https://p/hang", {}, 20)).toMatchObject({ reachable: false, detail: "no response after 20ms" });
+  });
+
+  it("reuses one run within the TTL", async () => {
+    const run = vi.fn(async () => [{ name: "a", kind: "llm" as const, reachable: true, ok: true, status: 200, latencyMs: 1 }]);
+    const [first, second] = await Promise.all([cachedProbes(run), cachedProbes(run)]);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,240 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { globalSingleton } from "./util";
+
+/* ------------ types ------------ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type ProbeResult = {
+  name: string;
+  kind: "llm" | "image";
+  reachable: boolean;  // any HTTP answer at all
+  ok: boolean;         // a 2xx: reachable and the key was accepted
+  status: number | null;
+  latencyMs: number;
+  detail?: string;
+};
+
+type Labels = Record<string, string>;
+type RequestCtx = { requestId: string; route: string };
+type Summary = { labels: Labels; samples: number[]; sum: number; count: number };
+type State = {
+  context: AsyncLocalStorage<RequestCtx>;
+  counters: Map<string, Map<string, { labels: Labels; value: number }>>;
+  summaries: Map<string, Map<string, Summary>>;
+  probes?: { at: number; results: Promise<ProbeResult[]> };
+};
+
+/* ------------ env ------------ */
+const LEVELS: Record<LogLevel | "silent", number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 99 };
+const MIN_LEVEL = LEVELS[(process.env.LOG_LEVEL || "info").toLowerCase() as LogLevel] ?? LEVELS.info;
+const WINDOW = 1024;            // latency samples kept per series for p50/p95
+const PROBE_TIMEOUT_MS = 5000;
+const PROBE_TTL_MS = 30_000;    // probes spend provider quota; repeat checks within this reuse the last run
+
+const state = globalSingleton<State>("__observability", () => ({ context: new AsyncLocalStorage(), counters: new Map(), summaries: new Map() }));
+
+/* ========== structured logs ========== */
+// One JSON object per line on stdout (stderr for warnings and errors), tagged with the current request.
+export function log(level: LogLevel, event: string, fields: Record<string, unknown> = {}) {
+  if (LEVELS[level] < MIN_LEVEL) return;
+  const ctx = state.context.getStore();
+  const line = JSON.stringify({ time: new Date().toISOString(), level, event, ...(ctx || {}), ...fields });
+  if (level === "warn" || level === "error") console.error(line);
+  else console.log(line);
+}
+
+export const errorFields = (e: unknown) => (e instanceof Error ? { error: e.message, stack: e.stack } : { error: String(e) });
+
+/* ========== metrics ========== */
+const seriesKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+function series<T>(store: Map<string, Map<string, T>>, name: string, labels: Labels, init: () => T): T {
+  if (!store.has(name)) store.set(name, new Map());
+  const byLabels = store.get(name)!;
+  const key = seriesKey(labels);
+  if (!byLabels.has(key)) byLabels.set(key, init());
+  return byLabels.get(key)!;
+}
+
+export function countMetric(name: string, labels: Labels, n = 1) {
+  series(state.counters, name, labels, () => ({ labels, value: 0 })).value += n;
+}
+
+export function observeMetric(name: string, labels: Labels, value: number) {
+  const s = series(state.summaries, name, labels, (): Summary => ({ labels, samples: [], sum: 0, count: 0 }));
+  s.samples.push(value);
+  if (s.samples.length > WINDOW) s.samples.shift();
+  s.sum += value;
+  s.count++;
+}
+
+// Nearest-rank quantile over the recent window.
+function quantile(samples: number[], q: number) {
+  if (!samples.length) return 0;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.max(Math.ceil(q * sorted.length) - 1, 0)];
+}
+
+/* ------------ recorders ------------ */
+// Lap timer for a pipeline: each call logs and times the stage since the previous one.
+export function stageClock() {
+  let last = Date.now();
+  return (stage: string, fields: Record<string, unknown> = {}) => {
+    const now = Date.now();
+    const ms = now - last;
+    last = now;
+    observeMetric("biab_stage_duration_ms", { stage }, ms);
+    log("info", "stage", { stage, ms, ...fields });
+  };
+}
+
+// Every outbound LLM or image call; `ms` is null when no request was sent (e.g. rate-limit backoff).
+export function recordProviderCall(kind: "llm" | "image", provider: string, outcome: string, ms: number | null, fields: Record<string, unknown> = {}) {
+  countMetric("biab_provider_calls_total", { kind, provider, outcome });
+  if (ms != null) observeMetric("biab_provider_latency_ms", { kind, provider }, ms);
+  log(outcome === "ok" ? "info" : "warn", `${kind}_call`, { provider, outcome, ...(ms != null ? { ms } : {}), ...fields });
+}
+
+/* ========== request wrapper ========== */
+const REQUEST_ID_RE = /^[\w.:-]{1,64}$/;
+
+// A caller's X-Request-Id is kept (so a proxy's id carries through); otherwise a fresh one. Echoed back as X-Request-Id.
+export async function withRequest(req: Request, route: string, handler: () => Promise<Response>): Promise<Response> {
+  const given = req.headers.get("x-request-id");
+  const ctx: RequestCtx = { requestId: given && REQUEST_ID_RE.test(given) ? given : randomUUID(), route };
+  const started = Date.now();
+  return state.context.run(ctx, async () => {
+    const finish = (status: number) => {
+      const ms = Date.now() - started;
+      countMetric("biab_requests_total", { route, status: String(status) });
+      observeMetric("biab_request_duration_ms", { route }, ms);
+      log(status >= 500 ? "error" : "info", "request", { method: req.method, status, ms });
+    };
+    try {
+      const res = await handler();
+      finish(res.status);
+      res.headers.set("X-Request-Id", ctx.requestId);
+      return res;
+    } catch (e) {
+      finish(500);
+      throw e;
+    }
+  });
+}
+
+/* ========== exposition ========== */
+const HELP: Record<string, [type: "counter" | "summary" | "gauge", help: string]> = {
+  biab_requests_total: ["counter", "Requests by route and HTTP status"],
+  biab_request_duration_ms: ["summary", "Request latency in milliseconds"],
+  biab_request_error_ratio: ["gauge", "Share of requests answered with a 5xx"],
+  biab_stage_duration_ms: ["summary", "Generate pipeline stage latency in milliseconds"],
+  biab_provider_calls_total: ["counter", "Outbound LLM and image provider calls by outcome"],
+  biab_provider_latency_ms: ["summary", "Outbound provider call latency in milliseconds"],
+  biab_provider_error_ratio: ["gauge", "Share of provider calls that did not succeed"],
+};
+
+const escapeLabel = (v: string) => v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+const labelText = (labels: Labels) => {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+};
+
+// Failure share per group of a counter, e.g. 5xx per route or non-"ok" outcomes per provider.
+function ratios(counter: string, groupBy: string[], failed: (labels: Labels) => boolean) {
+  const groups = new Map<string, { labels: Labels; total: number; failed: number }>();
+  for (const { labels, value } of state.counters.get(counter)?.values() || []) {
+    const key = Object.fromEntries(groupBy.map((k) => [k, labels[k]]));
+    const group = groups.get(seriesKey(key)) || { labels: key, total: 0, failed: 0 };
+    group.total += value;
+    if (failed(labels)) group.failed += value;
+    groups.set(seriesKey(key), group);
+  }
+  return [...groups.values()].map((group) => ({ labels: group.labels, value: group.total ? group.failed / group.total : 0 }));
+}
+
+const errorRatios = () => ({
+  biab_request_error_ratio: ratios("biab_requests_total", ["route"], (l) => Number(l.status) >= 500),
+  biab_provider_error_ratio: ratios("biab_provider_calls_total", ["kind", "provider"], (l) => l.outcome !== "ok"),
+});
+
+// Prometheus text exposition format 0.0.4.
+export function metricsText(): string {
+  const out: string[] = [];
+  const head = (name: string) => out.push(`# HELP ${name} ${HELP[name]?.[1] || name}`, `# TYPE ${name} ${HELP[name]?.[0] || "untyped"}`);
+
+  for (const [name, byLabels] of state.counters) {
+    head(name);
+    for (const { labels, value } of byLabels.values()) out.push(`${name}${labelText(labels)} ${value}`);
+  }
+  for (const [name, byLabels] of state.summaries) {
+    head(name);
+    for (const s of byLabels.values()) {
+      for (const q of [0.5, 0.95]) out.push(`${name}${labelText({ ...s.labels, quantile: String(q) })} ${quantile(s.samples, q)}`);
+      out.push(`${name}_sum${labelText(s.labels)} ${s.sum}`, `${name}_count${labelText(s.labels)} ${s.count}`);
+    }
+  }
+  for (const [name, values] of Object.entries(errorRatios())) {
+    if (!values.length) continue;
+    head(name);
+    for (const { labels, value } of values) out.push(`${name}${labelText(labels)} ${Number(value.toFixed(4))}`);
+  }
+  return out.join("\n") + "\n";
+}
+
+// The same numbers as JSON for /api/diag: count, error rate and p50/p95 per route and per provider.
+export function metricsSummary() {
+  const summarize = (name: string, ratioName: keyof ReturnType<typeof errorRatios>, key: (l: Labels) => string) => {
+    const rates = errorRatios()[ratioName];
+    return Object.fromEntries(
+      [...(state.summaries.get(name)?.values() || [])].map((s) => [
+        key(s.labels),
+        {
+          count: s.count,
+          errorRate: Number((rates.find((r) => key(r.labels) === key(s.labels))?.value || 0).toFixed(4)),
+          p50Ms: quantile(s.samples, 0.5),
+          p95Ms: quantile(s.samples, 0.95),
+        },
+      ])
+    );
+  };
+  return {
+    requests: summarize("biab_request_duration_ms", "biab_request_error_ratio", (l) => l.route),
+    providers: summarize("biab_provider_latency_ms", "biab_provider_error_ratio", (l) => `${l.kind}:${l.provider}`),
+  };
+}
+
+/* ========== health probes ========== */
+// One cheap GET with a timeout; callers pick the URL (a model list, a one-photo page) so no credits are spent on generation.
+export async function probeUrl(
+  name: string,
+  kind: ProbeResult["kind"],
+  url: string,
+  headers: Record<string, string> = {},
+  timeoutMs = PROBE_TIMEOUT_MS
+): Promise<ProbeResult> {
+  const started = Date.now();
+  const ctrl = new AbortController();
+  const timer = setTimeout(() => ctrl.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { headers, cache: "no-store", signal: ctrl.signal });
+    await res.body?.cancel().catch(() => undefined);
+    const latencyMs = Date.now() - started;
+    return { name, kind, reachable: true, ok: res.ok, status: res.status, latencyMs, ...(res.ok ? {} : { detail: `HTTP ${res.status}` }) };
+  } catch (e) {
+    const detail = ctrl.signal.aborted ? `no response after ${timeoutMs}ms` : String(e);
+    return { name, kind, reachable: false, ok: false, status: null, latencyMs: Date.now() - started, detail };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// One probe run at a time, reused for PROBE_TTL_MS; `checkedAt` says how fresh the answer is.
+export async function cachedProbes(run: () => Promise<ProbeResult[]>): Promise<{ checkedAt: string; probes: ProbeResult[] }> {
+  if (!state.probes || Date.now() - state.probes.at > PROBE_TTL_MS) {
+    const results = run();
+    state.probes = { at: Date.now(), results };
+    results.catch(() => (state.probes = undefined));
+  }
+  return { checkedAt: new Date(state.probes.at).toISOString(), probes: await state.probes.results };
+}
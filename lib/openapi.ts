@@ -0,0 +1,342 @@
+import { GEN_REQ_FIELDS, type FieldSpec } from "./validate";
+import { PLATFORM_PROFILES } from "./platforms";
+import { LANGUAGES } from "./languages";
+import { LISTING_LIMITS } from "./listing";
+import { PUNCTUATION_STYLES, SENTENCE_LENGTHS } from "./tone";
+import { MODERATION_ACTIONS, MODERATION_RULES } from "./moderation";
+
+/* ------------ schema helpers ------------ */
+type Schema = Record<string, unknown>;
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const str = (description?: string, extra: Schema = {}): Schema => ({ type: "string", ...(description ? { description } : {}), ...extra });
+const int = (description?: string): Schema => ({ type: "integer", ...(description ? { description } : {}) });
+const num = (description?: string): Schema => ({ type: "number", ...(description ? { description } : {}) });
+const bool = (description?: string): Schema => ({ type: "boolean", ...(description ? { description } : {}) });
+const arr = (items: Schema, description?: string): Schema => ({ type: "array", items, ...(description ? { description } : {}) });
+const oneOf = (values: readonly string[], description?: string) => str(description, { enum: [...values] });
+const nullable = (s: Schema): Schema => ({ oneOf: [s, { type: "null" }] });
+
+// Properties listed in `optional` may be absent; everything else is required.
+const obj = (properties: Record<string, Schema>, optional: string[] = [], description?: string): Schema => ({
+  type: "object",
+  ...(description ? { description } : {}),
+  required: Object.keys(properties).filter((k) => !optional.includes(k)),
+  properties,
+});
+
+function fromSpec(spec: FieldSpec): Schema {
+  if (spec.type === "array") {
+    return { type: "array", description: spec.description, items: spec.enum ? oneOf(spec.enum) : str(), uniqueItems: true };
+  }
+  return {
+    type: spec.type,
+    description: spec.description,
+    ...(spec.enum ? { enum: [...spec.enum] } : {}),
+    ...(spec.maxLength !== undefined ? { maxLength: spec.maxLength } : {}),
+    ...(spec.pattern ? { pattern: spec.pattern.source } : {}),
+    ...(spec.minimum !== undefined ? { minimum: spec.minimum } : {}),
+    ...(spec.maximum !== undefined ? { maximum: spec.maximum } : {}),
+  };
+}
+
+const LANGUAGE_IDS = LANGUAGES.map((l) => l.id);
+const PROVIDERS = ["openai", "groq", "ollama", "compatible", "local"];
+const ROLES = ["primary", "secondary", "accent", "light", "dark"];
+
+/* ========== components ========== */
+const schemas: Record<string, Schema> = {
+  GenReq: {
+    type: "object",
+    additionalProperties: false,
+    required: Object.entries(GEN_REQ_FIELDS).filter(([, s]) => s.required).map(([k]) => k),
+    properties: Object.fromEntries(Object.entries(GEN_REQ_FIELDS).map(([k, s]) => [k, fromSpec(s)])),
+  },
+  StrictCopy: obj({
+    tagline: str("Short headline"),
+    caption: str("Post text, fitted to the platform"),
+    shortDescription: str("One- or two-sentence product description"),
+    hashtags: arr(str(undefined, { pattern: "^#" })),
+  }),
+  CopyVariant: obj({ seed: int(), templateIndex: int("Template used from the pack"), copy: ref("StrictCopy") }),
+  GenerateDebug: obj(
+    {
+      seed: int(),
+      templateIndex: int(),
+      language: oneOf(LANGUAGE_IDS),
+      templatePack: str(),
+      platform: str(),
+      normCat: str("Category after normalisation"),
+      chosenTone1: str(),
+      chosenTone2: str(),
+      catPhrase: str(),
+      benefitResolved: str(),
+      tone: obj(
+        {
+          input: str(),
+          descriptors: arr(
+            obj(
+              {
+                id: str('Pack tone key, or "voice:<id>" for a custom voice'),
+                weight: num("Share of the tone vocabulary; all sum to 1"),
+                via: oneOf(["exact", "synonym", "voice", "default"]),
+                word: str("What was typed, when it differs from id"),
+              },
+              ["word"]
+            )
+          ),
+          voice: nullable(obj({ id: str(), name: str() })),
+          unmatched: arr(str(), "Words that named no tone, synonym or voice"),
+          fallback: bool("Nothing matched; the default tone was used"),
+          sentenceLength: oneOf(SENTENCE_LENGTHS),
+          punctuation: oneOf(PUNCTUATION_STYLES),
+          summary: str('e.g. "playful 50% · luxury 50%"'),
+        },
+        [],
+        "How the tone text was read"
+      ),
+      providerReason: str("Why this copy provider was (or wasn't) used"),
+      model: str(),
+      llmLatencyMs: int(),
+    },
+    ["model", "llmLatencyMs"],
+    "Composer and provider internals; not a stable contract"
+  ),
+  PlatformProfile: obj(
+    {
+      id: oneOf(PLATFORM_PROFILES.map((p) => p.id)),
+      label: str(),
+      network: str(),
+      captionMax: int(),
+      visibleChars: int(),
+      taglineMaxWords: int(),
+      hashtagCount: int(),
+      hashtagPlacement: oneOf(["end", "inline", "separate"]),
+      emoji: oneOf(["none", "light", "rich"]),
+      aspect: str(),
+      orientation: oneOf(["square", "portrait", "landscape"]),
+      size: obj({ width: int(), height: int() }),
+    },
+    ["visibleChars"]
+  ),
+  PlatformReport: obj({
+    platform: str(),
+    ok: bool(),
+    fields: arr(
+      obj(
+        { field: oneOf(["tagline", "caption", "hashtags", "emoji", "post"]), ok: bool(), length: int(), limit: int(), message: str() },
+        ["length", "limit"]
+      )
+    ),
+  }),
+  LintReport: obj({
+    ok: bool("No errors (warnings and info allowed)"),
+    findings: arr(
+      obj(
+        {
+          field: oneOf(["tagline", "caption", "shortDescription", "hashtags"]),
+          rule: str(),
+          severity: oneOf(["error", "warning", "info"]),
+          message: str(),
+          match: str(),
+          suggestion: str(),
+          fix: obj({ from: str(), to: str() }),
+        },
+        ["match", "suggestion", "fix"]
+      )
+    ),
+    readability: arr(obj({ field: oneOf(["caption", "shortDescription"]), score: num(), label: str() })),
+  }),
+  ImageCandidate: obj({
+    id: str(),
+    source: oneOf(["upload", "pexels", "unsplash", "library", "generated"]),
+    url: str(),
+    thumbUrl: str(),
+    width: int(),
+    height: int(),
+    color: nullable(str()),
+    photographer: nullable(str()),
+    photographerUrl: nullable(str()),
+    sourceUrl: nullable(str()),
+    license: str(),
+    licenseUrl: nullable(str()),
+    alt: nullable(str()),
+    query: str(),
+  }),
+  ImageWarning: obj(
+    {
+      provider: str(),
+      query: str(),
+      reason: oneOf(["rate_limited", "timeout", "http_error", "network", "bad_json"]),
+      detail: str(),
+      retryAfterMs: int(),
+    },
+    ["retryAfterMs"]
+  ),
+  Palette: obj({
+    swatches: arr(
+      obj({ role: oneOf(ROLES), hex: str(), source: oneOf(["hint", "image", "derived"]), text: str(), contrast: num() })
+    ),
+    pairs: arr(
+      obj({
+        background: oneOf(ROLES),
+        text: oneOf([...ROLES, "white", "black"]),
+        ratio: num("WCAG contrast ratio"),
+        aa: bool(),
+        aaLarge: bool(),
+        aaa: bool(),
+      })
+    ),
+    hint: arr(obj({ hex: str(), token: str(), kind: oneOf(["hex", "rgb", "hsl", "name", "phrase"]) })),
+    image: arr(obj({ hex: str(), share: num() })),
+  }),
+  AltText: obj({
+    poster: str("Describes the poster: product, headline, text and background photo"),
+    candidates: { type: "object", additionalProperties: str(), description: "Alt text per image candidate id" },
+    categoryLabel: str("Localized category used in the poster alt text"),
+  }),
+  ProductListing: obj({
+    title: str(`SEO title, at most ${LISTING_LIMITS.title} characters`),
+    bullets: arr(str(), `${LISTING_LIMITS.minBullets}–${LISTING_LIMITS.maxBullets} benefit bullets`),
+    description: str("Long description; paragraphs separated by a blank line"),
+    metaDescription: str(`At most ${LISTING_LIMITS.meta} characters`),
+    slug: str("URL handle (ASCII, dashes)"),
+    keywords: arr(str(), "Search keywords, most specific first"),
+  }),
+  A11yReport: obj({
+    ok: bool("No errors (warnings and info allowed)"),
+    findings: arr(
+      obj(
+        {
+          check: oneOf(["contrast", "emoji", "hashtags", "alt-text"]),
+          field: oneOf(["tagline", "caption", "shortDescription", "hashtags", "poster"]),
+          severity: oneOf(["error", "warning", "info"]),
+          message: str(),
+          match: str(),
+          suggestion: str(),
+          fix: obj({ from: str(), to: str() }),
+        },
+        ["match", "suggestion", "fix"]
+      )
+    ),
+    contrast: arr(
+      obj({
+        element: oneOf(["tagline", "caption"]),
+        fill: str(),
+        background: str("Estimated colour behind the text"),
+        ratio: num("WCAG contrast ratio"),
+        fontSize: int("Pixels at the poster's own size"),
+        large: bool("WCAG large text at feed display size"),
+      })
+    ),
+  }),
+  ModerationReport: obj({
+    blocked: bool("Always false in a 200; a blocked request is a 422"),
+    findings: arr(
+      obj(
+        {
+          stage: oneOf(["brief", "copy"]),
+          field: str("Brief or copy field, e.g. product, caption, listing.title"),
+          rule: oneOf(MODERATION_RULES),
+          action: oneOf(MODERATION_ACTIONS, "What the policy did: sanitize removes or replaces, flag only reports"),
+          term: str("Listed term (profanity masked) or the markup found"),
+          replacement: str("Generic word written in place of a trademark"),
+        },
+        ["replacement"]
+      )
+    ),
+  }),
+  GenerateResponse: obj(
+    {
+      provider: oneOf(PROVIDERS),
+      demo: bool(),
+      copy: ref("StrictCopy"),
+      seed: int(),
+      language: oneOf(LANGUAGE_IDS),
+      templatePack: str(),
+      history: nullable(obj({ id: str(), threadId: str(), version: int() })),
+      platform: ref("PlatformProfile"),
+      validation: ref("PlatformReport"),
+      lint: ref("LintReport"),
+      variants: arr(ref("CopyVariant")),
+      brandKit: nullable(obj({ id: str(), name: str(), bannedRemoved: arr(str()) })),
+      imageDataUrl: nullable(str("Poster as a PNG data URL")),
+      palette: ref("Palette"),
+      altText: nullable(ref("AltText")),
+      accessibility: ref("A11yReport"),
+      listing: nullable(ref("ProductListing")),
+      moderation: ref("ModerationReport"),
+      candidates: arr(ref("ImageCandidate")),
+      photoUrls: arr(str()),
+      warnings: arr(ref("ImageWarning")),
+      fallback: nullable(obj({ from: str(), reason: str(), detail: str() })),
+      rawModelText: str(),
+      debug: ref("GenerateDebug"),
+      note: str(),
+    },
+    ["rawModelText"]
+  ),
+  Error: obj(
+    {
+      error: str("Human-readable summary"),
+      code: oneOf(["invalid_request", "unauthorized", "rate_limited", "not_found", "api_disabled", "blocked", "server_error"]),
+      fields: arr(obj({ path: str("Request field, e.g. product"), message: str() })),
+    },
+    ["fields"]
+  ),
+};
+
+const errorResponse = (description: string) => ({ description, content: { "application/json": { schema: ref("Error") } } });
+const RATE_HEADERS = {
+  "X-RateLimit-Limit": { schema: int(), description: "Requests allowed per minute for this key" },
+  "X-RateLimit-Remaining": { schema: int() },
+  "X-RateLimit-Reset": { schema: int(), description: "Unix time the window resets" },
+};
+
+/* ========== document ========== */
+export function openApiDocument(serverUrl?: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Brand-in-a-Box API",
+      version: "1.0.0",
+      description: "Marketing copy, image candidates, palette and poster from a short product brief.",
+    },
+    ...(serverUrl ? { servers: [{ url: serverUrl }] } : {}),
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      "/api/v1/generate": {
+        post: {
+          operationId: "generate",
+          summary: "Generate copy, images, palette and poster",
+          requestBody: { required: true, content: { "application/json": { schema: ref("GenReq") } } },
+          responses: {
+            200: { description: "Generated", headers: RATE_HEADERS, content: { "application/json": { schema: ref("GenerateResponse") } } },
+            400: errorResponse("Invalid request; `fields` lists each problem by path"),
+            401: errorResponse("Missing or invalid API key"),
+            404: errorResponse("Brand kit or template pack not found"),
+            422: errorResponse("Blocked by the moderation policy; `fields` names each blocked term"),
+            429: errorResponse("Rate limit exceeded; see Retry-After"),
+            500: errorResponse("Server error"),
+            503: errorResponse("API keys not configured"),
+          },
+        },
+      },
+      "/api/v1/openapi.json": {
+        get: {
+          operationId: "openapi",
+          summary: "This document",
+          security: [],
+          responses: { 200: { description: "OpenAPI 3.1 document", content: { "application/json": { schema: { type: "object" } } } } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas,
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+
+// PACKS_DIR is read when the module is first imported.
+const dir = mkdtempSync(path.join(tmpdir(), "packs-test-"));
+process.env.TEMPLATE_PACKS_DIR = dir;
+const { getPack, listPacks, validateDraftPack } = await import("./packFiles");
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const write = (file: string, data: unknown) => writeFileSync(path.join(dir, file), typeof data === "string" ? data : JSON.stringify(data));
+const child = (id: string, base: string) => ({ id, name: id, extends: base, languages: { en: { closers: [`${id} closer`] } } });
+
+describe("template pack files", () => {
+  it("loads packs, resolves extends and lists broken ones with their errors", async () => {
+    write("gifts.json", child("gifts", "default"));
+    write("loop-a.json", child("loop-a", "loop-b"));
+    write("loop-b.json", child("loop-b", "loop-a"));
+    write("renamed.json", child("other-id", "default"));
+    write("broken.json", "{ nope");
+    write("orphan.json", child("orphan", "broken"));
+
+    const byId = Object.fromEntries((await listPacks()).map((s) => [s.id, s]));
+    expect(byId.default).toMatchObject({ file: null, languages: ["en", "es", "fr", "de"] });
+    expect(byId.gifts).toMatchObject({ file: "gifts.json", extends: "default" });
+    expect(byId.gifts.errors).toBeUndefined();
+    expect(byId["loop-a"].errors).toEqual(["extends: cycle loop-a → loop-b → loop-a"]);
+    expect(byId["loop-b"].errors).toEqual(['extends: "loop-a" is missing or invalid']);
+    expect(byId.renamed.errors).toEqual(['id: must match the file name ("renamed")']);
+    expect(byId.broken.errors).toEqual([expect.stringMatching(/^invalid JSON: /)]);
+    expect(byId.orphan.errors).toEqual(['extends: "broken" is missing or invalid']);
+
+    expect((await getPack("gifts"))?.languages.en?.closers).toEqual(["gifts closer"]);
+    expect(await getPack("broken")).toBeNull();
+    expect((await getPack(undefined))?.id).toBe("default");
+  });
+
+  it("picks up new files without a restart", async () => {
+    expect(await getPack("fresh")).toBeNull();
+    write("fresh.json", child("fresh", "gifts"));
+    expect((await getPack("fresh"))?.languages.en?.closers).toEqual(["fresh closer"]);
+  });
+
+  it("validates drafts against the packs on disk", async () => {
+    expect(await validateDraftPack(child("draft", "gifts"))).toMatchObject({ pack: { id: "draft", extends: "gifts" } });
+    expect(await validateDraftPack(child("draft", "nowhere"))).toMatchObject({ errors: expect.arrayContaining(['extends: unknown pack "nowhere"']) });
+  });
+});
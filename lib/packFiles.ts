@@ -0,0 +1,125 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Language } from "./languages";
+import { DEFAULT_PACK, DEFAULT_PACK_ID, validatePack, type TemplatePack } from "./packs";
+import { globalSingleton } from "./util";
+
+/* ------------ env ------------ */
+// One JSON file per pack; the file name (minus .json) must match the pack id.
+export const PACKS_DIR = process.env.TEMPLATE_PACKS_DIR || path.join(process.cwd(), "template-packs");
+// Re-read changed files on every lookup outside production, so edits show up without a restart.
+const HOT_RELOAD = process.env.NODE_ENV !== "production";
+
+/* ------------ types ------------ */
+export type PackSummary = {
+  id: string;
+  file: string | null; // null for the bundled default when no file overrides it
+  name: string;
+  description?: string;
+  version?: number;
+  extends?: string;
+  languages: Language[];
+  categories: string[];
+  templates: Partial<Record<Language, number>>;
+  errors?: string[];
+};
+
+type PackState = { signature: string; packs: Map<string, TemplatePack>; summaries: PackSummary[] };
+
+const cached = globalSingleton<{ state?: PackState }>("__templatePacks", () => ({}));
+
+/* ========== loading ========== */
+async function packFiles(): Promise<{ file: string; mtime: number }[]> {
+  const names = await fs.readdir(PACKS_DIR).catch(() => [] as string[]);
+  const files = names.filter((n) => n.endsWith(".json")).sort();
+  return Promise.all(files.map(async (file) => ({ file, mtime: (await fs.stat(path.join(PACKS_DIR, file))).mtimeMs })));
+}
+
+const summarize = (pack: TemplatePack, file: string | null): PackSummary => {
+  const languages = Object.keys(pack.languages) as Language[];
+  return {
+    id: pack.id,
+    file,
+    name: pack.name,
+    description: pack.description,
+    version: pack.version,
+    extends: pack.extends,
+    languages,
+    categories: pack.categories.map((c) => c.id),
+    templates: Object.fromEntries(languages.map((l) => [l, pack.languages[l]?.templates.length || 0])),
+  };
+};
+
+async function load(files: { file: string }[]): Promise<Omit<PackState, "signature">> {
+  const raw = new Map<string, { file: string; data?: unknown; errors?: string[] }>();
+  for (const { file } of files) {
+    const id = file.replace(/\.json$/, "");
+    try {
+      const data = JSON.parse(await fs.readFile(path.join(PACKS_DIR, file), "utf8"));
+      const idErr = data?.id !== id ? [`id: must match the file name ("${id}")`] : [];
+      raw.set(id, { file, data, errors: idErr.length ? idErr : undefined });
+    } catch (e) {
+      raw.set(id, { file, errors: [`invalid JSON: ${(e as Error).message}`] });
+    }
+  }
+
+  const packs = new Map<string, TemplatePack>();
+  const failed = new Map<string, string[]>();
+  // Resolves `extends` depth-first; a pack whose base is broken (or loops back to itself) fails too.
+  const fail = (id: string, errors: string[]) => {
+    if (!failed.has(id)) failed.set(id, errors);
+    return null;
+  };
+  const resolve = (id: string, chain: string[] = []): TemplatePack | null => {
+    if (packs.has(id)) return packs.get(id) as TemplatePack;
+    const entry = raw.get(id);
+    if (!entry) return id === DEFAULT_PACK_ID ? DEFAULT_PACK : null;
+    if (failed.has(id)) return null;
+    if (entry.errors) return fail(id, entry.errors);
+    if (chain.includes(id)) return fail(id, [`extends: cycle ${[...chain, id].join(" → ")}`]);
+
+    const baseId = (entry.data as { extends?: unknown }).extends;
+    const base = typeof baseId === "string" ? resolve(baseId, [...chain, id]) : undefined;
+    if (base === null) return fail(id, [`extends: "${baseId}" is missing or invalid`]);
+    const result = validatePack(entry.data, base);
+    if ("errors" in result) return fail(id, result.errors);
+    packs.set(id, result.pack);
+    return result.pack;
+  };
+  for (const id of raw.keys()) resolve(id);
+
+  // The bundled default backs the composer even when default.json is missing or broken.
+  if (!packs.has(DEFAULT_PACK_ID)) packs.set(DEFAULT_PACK_ID, DEFAULT_PACK);
+
+  const summaries: PackSummary[] = [];
+  if (!raw.has(DEFAULT_PACK_ID)) summaries.push(summarize(DEFAULT_PACK, null));
+  for (const [id, entry] of raw) {
+    const errors = failed.get(id);
+    // Broken packs stay listed with their errors so authors can see what to fix.
+    if (errors) summaries.push({ id, file: entry.file, name: id, languages: [], categories: [], templates: {}, errors });
+    else summaries.push(summarize(packs.get(id) as TemplatePack, entry.file));
+  }
+  return { packs, summaries };
+}
+
+async function state(): Promise<PackState> {
+  if (cached.state && !HOT_RELOAD) return cached.state;
+  const files = await packFiles();
+  const signature = files.map((f) => `${f.file}:${f.mtime}`).join("|");
+  if (cached.state?.signature !== signature) cached.state = { signature, ...(await load(files)) };
+  return cached.state;
+}
+
+/* ========== lookups ========== */
+export const listPacks = async () => (await state()).summaries;
+
+export async function getPack(id?: string | null): Promise<TemplatePack | null> {
+  return (await state()).packs.get(id || DEFAULT_PACK_ID) || null;
+}
+
+// Validates a draft pack (e.g. from the preview API) against the packs on disk, so `extends` works.
+export async function validateDraftPack(raw: unknown) {
+  const baseId = (raw as { extends?: unknown } | null)?.extends;
+  const base = typeof baseId === "string" ? await getPack(baseId) : undefined;
+  return validatePack(raw, base || undefined);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PACK, normalizeCategory, renderTemplate, validatePack, type TemplateCtx } from "./packs";
+
+const ctx = { p: "Lumi", pe: "Lumi", t1: "bright", t2: "calm", v: "Meet", c1: "daily", uc: "mornings", cat: "serum", b: "glow", normCat: "skincare", catLabel: "" } as TemplateCtx;
+
+describe("renderTemplate", () => {
+  it("fills placeholders, fallbacks and sections", () => {
+    expect(renderTemplate("{v} {p}, {b}.", ctx)).toBe("Meet Lumi, glow.");
+    expect(renderTemplate("For {aud|everyone}", ctx)).toBe("For everyone");
+    expect(renderTemplate("For {aud|everyone}", { ...ctx, aud: "parents" })).toBe("For parents");
+    expect(renderTemplate("{#aud}Made for {aud}. {/aud}{^aud}Made for all. {/aud}{p}", ctx)).toBe("Made for all. Lumi");
+    expect(renderTemplate("{#catLabel}Quality {catLabel}{/catLabel}", ctx)).toBe("");
+  });
+});
+
+describe("normalizeCategory", () => {
+  it("maps a free-text category through the pack keywords", () => {
+    expect(normalizeCategory("Organic Face Serum")).toBe("skincare");
+    expect(normalizeCategory("Cold brew coffee")).toBe("beverage");
+    expect(normalizeCategory("Widgets")).toBe("other");
+    expect(normalizeCategory(undefined)).toBe("other");
+  });
+});
+
+describe("validatePack", () => {
+  const en = DEFAULT_PACK.languages.en!;
+
+  it("reports every problem with its path", () => {
+    const result = validatePack({
+      id: "Bad Id",
+      categories: [{ id: "other", keywords: [] }],
+      languages: {
+        en: { ...en, templates: [{ tagline: "{p} {oops}", taglineMaxWords: 0, caption: "{#aud}x", captionMaxWords: 5, shortDescription: "" }] },
+        xx: {},
+      },
+    });
+    expect("errors" in result && result.errors).toEqual([
+      "id: lowercase letters, digits and dashes",
+      "name: required",
+      'categories[0].id: required, not "other"',
+      "categories[0].keywords: non-empty list",
+      "languages.xx: unsupported (use en, es, fr, de)",
+      'languages.en.templates[0].tagline: unknown placeholder "{oops}"',
+      "languages.en.templates[0].caption: unbalanced {#…}/{^…} sections",
+      "languages.en.templates[0].shortDescription: must be non-empty text",
+      "languages.en.templates[0].taglineMaxWords: positive integer",
+    ]);
+  });
+
+  it("inherits categories and languages from its base", () => {
+    const result = validatePack({ id: "gifts", name: " Gifts ", extends: "default", languages: { en: { closers: ["wrapped and ready"] } } }, DEFAULT_PACK);
+    if ("errors" in result) throw new Error(result.errors.join("; "));
+    expect(result.pack.name).toBe("Gifts");
+    expect(result.pack.categories).toEqual(DEFAULT_PACK.categories);
+    expect(Object.keys(result.pack.languages)).toEqual(Object.keys(DEFAULT_PACK.languages));
+    expect(result.pack.languages.en!.closers).toEqual(["wrapped and ready"]);
+    expect(result.pack.languages.en!.templates).toBe(en.templates);
+  });
+
+  it("rejects listing and frame sections that are too thin", () => {
+    const result = validatePack({
+      id: "thin",
+      name: "Thin",
+      extends: "default",
+      languages: { en: { listing: { title: ["{p}"], bullets: ["{b}"], description: ["{p}"], meta: ["{p}"] }, frames: { hook: [] } } },
+    }, DEFAULT_PACK);
+    expect("errors" in result && result.errors).toEqual([
+      "languages.en.listing.bullets: at least 3 templates",
+      "languages.en.frames.hook: at least one template",
+      "languages.en.frames.benefit: at least one template",
+      "languages.en.frames.social-proof: at least one template",
+      "languages.en.frames.cta: at least one template",
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import type { Language } from "./languages";
+import defaultPackJson from "../template-packs/default.json";
+
+/* ------------ pack schema ------------ */
+// A template pack is plain JSON (see template-packs/*.json). Template strings use placeholders:
+//   {p} product (≤5 words)   {pe} product, capitalised   {b} benefit   {cat} category phrase
+//   {t1} {t2} tone words     {v} verb   {c1} closer   {uc} use case
+//   {normCat} category id    {catLabel} localized category name ("" for other)
+//   {aud} audience           {net} network name
+//   {launch} launch date ("14 March"), only set for content-calendar posts
+//   {name|fallback} uses the fallback when empty; {#name}…{/name} renders only when set, {^name}…{/name} only when empty.
+export type PackTemplate = {
+  tagline: string;
+  taglineMaxWords: number;
+  caption: string;
+  captionMaxWords: number;
+  shortDescription: string;
+};
+
+// Content-calendar narrative, in order; a pack may give each phase its own templates.
+export type LaunchPhase = "teaser" | "launch" | "social-proof" | "reminder";
+export const LAUNCH_PHASES: LaunchPhase[] = ["teaser", "launch", "social-proof", "reminder"];
+
+// Carousel / Story frames, in swipe order; each role picks one of its templates per seed.
+export type FrameRole = "hook" | "benefit" | "social-proof" | "cta";
+export const FRAME_ROLES: FrameRole[] = ["hook", "benefit", "social-proof", "cta"];
+export type FrameTemplate = { headline: string; body: string };
+
+// Shop listing copy (e.g. Shopify/Amazon); each list is tried or used in order, see lib/listing.ts.
+export type ListingTemplate = {
+  title: string[];       // SEO title patterns, the first that fits the length limit wins
+  bullets: string[];     // benefit bullets; ones that render empty are skipped, 3–5 are kept (topped up from the default pack's)
+  description: string[]; // paragraphs of the long description
+  meta: string[];        // meta description patterns, like `title`
+};
+
+export type PackLanguage = {
+  toneWords: Record<string, string[]>; // must include "friendly" (the default tone)
+  verbs: string[];
+  closers: string[];
+  useCases: string[];
+  catBits: Record<string, string[]>;   // per category id, plus "other"
+  catLabels: Record<string, string>;
+  catTags: Record<string, string>;
+  extraTags: string[];
+  templates: PackTemplate[];
+  phases?: Partial<Record<LaunchPhase, PackTemplate[]>>; // used instead of `templates` for that phase
+  listing?: ListingTemplate; // falls back to the default pack's
+  frames?: Record<FrameRole, FrameTemplate[]>; // likewise
+};
+
+export type PackCategory = { id: string; keywords: string[] }; // first category with a matching keyword wins
+
+export type TemplatePack = {
+  id: string;
+  name: string;
+  description?: string;
+  version?: number;
+  extends?: string; // another pack id whose categories and language sections fill anything left out
+  categories: PackCategory[];
+  languages: Partial<Record<Language, PackLanguage>>;
+};
+
+export type TemplateCtx = Record<"p" | "pe" | "t1" | "t2" | "v" | "c1" | "uc" | "cat" | "b" | "normCat" | "catLabel", string> & {
+  aud?: string;
+  net?: string;
+  launch?: string;
+};
+
+const LANGS: Language[] = ["en", "es", "fr", "de"];
+const PLACEHOLDERS = new Set(["p", "pe", "t1", "t2", "v", "c1", "uc", "cat", "b", "normCat", "catLabel", "aud", "net", "launch"]);
+const MAX_TEMPLATES = 50;
+
+/* ========== rendering ========== */
+export function renderTemplate(tpl: string, ctx: TemplateCtx): string {
+  const val = (name: string) => (ctx as Record<string, string | undefined>)[name] || "";
+  return tpl
+    .replace(/\{([#^])(\w+)\}([\s\S]*?)\{\/\2\}/g, (_, kind: string, name: string, body: string) =>
+      (kind === "#") === !!val(name) ? body : ""
+    )
+    .replace(/\{(\w+)(?:\|([^}]*))?\}/g, (_, name: string, fallback?: string) => val(name) || fallback || "");
+}
+
+/* ========== validation ========== */
+const isStrList = (v: unknown, min = 1) => Array.isArray(v) && v.length >= min && v.every((x) => typeof x === "string" && x.trim());
+
+function checkTemplateString(s: unknown, where: string, errors: string[]) {
+  if (typeof s !== "string" || !s.trim()) return errors.push(`${where}: must be non-empty text`);
+  for (const m of s.matchAll(/\{[#^/]?(\w+)(?:\|[^}]*)?\}/g)) {
+    if (!PLACEHOLDERS.has(m[1])) errors.push(`${where}: unknown placeholder "${m[0]}"`);
+  }
+  const opens = (s.match(/\{[#^]\w+\}/g) || []).length;
+  const closes = (s.match(/\{\/\w+\}/g) || []).length;
+  if (opens !== closes) errors.push(`${where}: unbalanced {#…}/{^…} sections`);
+}
+
+function checkLanguage(lang: string, l: Record<string, unknown>, categoryIds: string[], errors: string[]) {
+  const at = `languages.${lang}`;
+  const tones = l.toneWords as Record<string, unknown> | undefined;
+  if (!tones || typeof tones !== "object") errors.push(`${at}.toneWords: required`);
+  else {
+    if (!tones.friendly) errors.push(`${at}.toneWords.friendly: required (default tone)`);
+    for (const [tone, words] of Object.entries(tones)) if (!isStrList(words)) errors.push(`${at}.toneWords.${tone}: list of words`);
+  }
+  for (const key of ["verbs", "closers", "useCases"]) if (!isStrList(l[key])) errors.push(`${at}.${key}: non-empty list of text`);
+  if (l.extraTags !== undefined && !isStrList(l.extraTags, 0)) errors.push(`${at}.extraTags: list of hashtags`);
+
+  const bits = (l.catBits || {}) as Record<string, unknown>;
+  for (const id of [...categoryIds, "other"]) if (!isStrList(bits[id])) errors.push(`${at}.catBits.${id}: non-empty list of phrases`);
+  for (const key of ["catLabels", "catTags"]) {
+    const m = l[key];
+    if (m !== undefined && (typeof m !== "object" || Object.values(m as object).some((v) => typeof v !== "string"))) {
+      errors.push(`${at}.${key}: map of category id → text`);
+    }
+  }
+
+  checkTemplates(l.templates, `${at}.templates`, errors);
+  if (l.listing !== undefined) checkListing(l.listing as Record<string, unknown>, `${at}.listing`, errors);
+  if (l.frames !== undefined) checkFrames(l.frames as Record<string, unknown>, `${at}.frames`, errors);
+  if (l.phases !== undefined) {
+    if (!l.phases || typeof l.phases !== "object" || Array.isArray(l.phases)) return errors.push(`${at}.phases: map of phase → templates`);
+    for (const [phase, list] of Object.entries(l.phases)) {
+      if (!LAUNCH_PHASES.includes(phase as LaunchPhase)) errors.push(`${at}.phases.${phase}: unknown phase (use ${LAUNCH_PHASES.join(", ")})`);
+      else checkTemplates(list, `${at}.phases.${phase}`, errors);
+    }
+  }
+}
+
+function checkTemplates(templates: unknown, at: string, errors: string[]) {
+  if (!Array.isArray(templates) || !templates.length) return errors.push(`${at}: at least one template`);
+  if (templates.length > MAX_TEMPLATES) errors.push(`${at}: at most ${MAX_TEMPLATES}`);
+  templates.forEach((t: Record<string, unknown>, i: number) => {
+    for (const key of ["tagline", "caption", "shortDescription"]) checkTemplateString(t?.[key], `${at}[${i}].${key}`, errors);
+    for (const key of ["taglineMaxWords", "captionMaxWords"]) {
+      if (!Number.isInteger(t?.[key]) || (t[key] as number) < 1) errors.push(`${at}[${i}].${key}: positive integer`);
+    }
+  });
+}
+
+function checkListing(l: Record<string, unknown>, at: string, errors: string[]) {
+  if (!l || typeof l !== "object" || Array.isArray(l)) return errors.push(`${at}: object with title, bullets, description and meta`);
+  for (const [key, min] of [["title", 1], ["bullets", 3], ["description", 1], ["meta", 1]] as const) {
+    const list = l[key];
+    if (!Array.isArray(list) || list.length < min) errors.push(`${at}.${key}: at least ${min} template${min > 1 ? "s" : ""}`);
+    else list.forEach((t, i) => checkTemplateString(t, `${at}.${key}[${i}]`, errors));
+  }
+}
+
+function checkFrames(f: Record<string, unknown>, at: string, errors: string[]) {
+  if (!f || typeof f !== "object" || Array.isArray(f)) return errors.push(`${at}: map of ${FRAME_ROLES.join(", ")} → templates`);
+  for (const role of Object.keys(f)) if (!FRAME_ROLES.includes(role as FrameRole)) errors.push(`${at}.${role}: unknown frame role`);
+  for (const role of FRAME_ROLES) {
+    const list = f[role];
+    if (!Array.isArray(list) || !list.length) errors.push(`${at}.${role}: at least one template`);
+    else {
+      list.forEach((t: Record<string, unknown>, i) => {
+        for (const key of ["headline", "body"]) checkTemplateString(t?.[key], `${at}.${role}[${i}].${key}`, errors);
+      });
+    }
+  }
+}
+
+// Merges `extends` (if any) and checks the result; returns every problem found, not just the first.
+export function validatePack(raw: unknown, base?: TemplatePack): { pack: TemplatePack } | { errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { errors: ["pack must be a JSON object"] };
+  const r = raw as Record<string, unknown>;
+
+  if (typeof r.id !== "string" || !/^[a-z0-9][a-z0-9-]{0,39}$/.test(r.id)) errors.push("id: lowercase letters, digits and dashes");
+  if (typeof r.name !== "string" || !r.name.trim()) errors.push("name: required");
+  if (r.extends !== undefined && base === undefined) errors.push(`extends: unknown pack "${r.extends}"`);
+
+  const categories = (r.categories ?? base?.categories) as unknown;
+  if (!Array.isArray(categories)) errors.push("categories: list of { id, keywords }");
+  const cats = Array.isArray(categories) ? (categories as PackCategory[]) : [];
+  cats.forEach((c, i) => {
+    if (typeof c?.id !== "string" || !c.id || c.id === "other") errors.push(`categories[${i}].id: required, not "other"`);
+    if (!isStrList(c?.keywords)) errors.push(`categories[${i}].keywords: non-empty list`);
+  });
+
+  const langsIn = (r.languages || {}) as Record<string, Record<string, unknown>>;
+  if (typeof langsIn !== "object") errors.push("languages: map of language → phrase banks");
+  const languages: Partial<Record<Language, PackLanguage>> = {};
+  for (const lang of Object.keys(langsIn)) {
+    if (!LANGS.includes(lang as Language)) errors.push(`languages.${lang}: unsupported (use ${LANGS.join(", ")})`);
+  }
+  for (const lang of LANGS) {
+    const own = langsIn[lang];
+    const inherited = base?.languages[lang];
+    if (!own && !inherited) continue;
+    const merged = { catLabels: {}, catTags: {}, extraTags: [], ...(inherited || {}), ...(own || {}) } as Record<string, unknown>;
+    checkLanguage(lang, merged, cats.map((c) => c.id), errors);
+    languages[lang] = merged as PackLanguage;
+  }
+  if (!Object.keys(languages).length) errors.push("languages: at least one language");
+
+  if (errors.length) return { errors };
+  return {
+    pack: {
+      id: r.id as string,
+      name: (r.name as string).trim(),
+      description: typeof r.description === "string" ? r.description : undefined,
+      version: typeof r.version === "number" ? r.version : undefined,
+      extends: typeof r.extends === "string" ? r.extends : undefined,
+      categories: cats.map((c) => ({ id: c.id, keywords: c.keywords.map((k) => k.toLowerCase()) })),
+      languages,
+    },
+  };
+}
+
+/* ========== built-in default ========== */
+// Bundled (not read from disk) so the composer and client-side lint always have a pack.
+const builtIn = validatePack(defaultPackJson);
+if ("errors" in builtIn) throw new Error(`template-packs/default.json is invalid: ${builtIn.errors.join("; ")}`);
+export const DEFAULT_PACK: TemplatePack = builtIn.pack;
+export const DEFAULT_PACK_ID = DEFAULT_PACK.id;
+
+// Keywords are lowercase substrings of the brief's category, checked in pack order.
+export function normalizeCategory(category?: string, pack: TemplatePack = DEFAULT_PACK): string {
+  const c = (category || "").toLowerCase();
+  return pack.categories.find((cat) => cat.keywords.some((k) => c.includes(k)))?.id || "other";
+}
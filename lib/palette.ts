@@ -0,0 +1,52 @@
+import sharp from "sharp";
+import { buildPalette, colorDistance, parseColorHint, rgbToHex, type ImageColor, type Palette } from "./color";
+
+/* ------------ tuning ------------ */
+const SAMPLE = 64;        // photos are shrunk to SAMPLE×SAMPLE before counting
+const LEVELS = 8;         // per-channel quantisation buckets (8³ = 512 bins)
+const MERGE_DISTANCE = 12; // Lab ΔE under which two bins are one colour
+const MAX_COLORS = 6;
+
+/* ========== dominant colours ========== */
+// Bucket pixels, average each bucket, then fold perceptually close buckets together.
+export async function extractImageColors(image: Buffer): Promise<ImageColor[]> {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .resize(SAMPLE, SAMPLE, { fit: "inside" })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const bins = new Map<number, { n: number; r: number; g: number; b: number }>();
+  const step = 256 / LEVELS;
+  for (let i = 0; i + 2 < data.length; i += info.channels) {
+    const [r, g, b] = [data[i], data[i + 1], data[i + 2]];
+    const key = (Math.floor(r / step) * LEVELS + Math.floor(g / step)) * LEVELS + Math.floor(b / step);
+    const bin = bins.get(key) || { n: 0, r: 0, g: 0, b: 0 };
+    bin.n++;
+    bin.r += r;
+    bin.g += g;
+    bin.b += b;
+    bins.set(key, bin);
+  }
+
+  const total = info.width * info.height || 1;
+  const merged: { hex: string; n: number }[] = [];
+  const sorted = [...bins.values()].sort((a, b) => b.n - a.n);
+  for (const bin of sorted) {
+    const hex = rgbToHex([bin.r / bin.n, bin.g / bin.n, bin.b / bin.n]);
+    const near = merged.find((m) => colorDistance(m.hex, hex) < MERGE_DISTANCE);
+    if (near) near.n += bin.n;
+    else merged.push({ hex, n: bin.n });
+  }
+  return merged
+    .sort((a, b) => b.n - a.n)
+    .slice(0, MAX_COLORS)
+    .map((m) => ({ hex: m.hex, share: Math.round((m.n / total) * 1000) / 1000 }));
+}
+
+// Hint + photo → palette. A photo that can't be decoded just leaves the hint to carry the palette.
+export async function paletteFor(colorHint: string | undefined, image: Buffer | null): Promise<Palette> {
+  const imageColors = image ? await extractImageColors(image).catch(() => []) : [];
+  return buildPalette(parseColorHint(colorHint), imageColors);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { assemblePost, fitToPlatform, previewPost, resolvePlatform, validateForPlatform } from "./platforms";
+import type { StrictCopy } from "./types";
+
+const copy = (fields: Partial<StrictCopy>): StrictCopy => ({
+  tagline: "Glow",
+  caption: "Bright skin every morning.",
+  shortDescription: "A serum.",
+  hashtags: ["#glow", "#serum", "#skincare", "#selfcare", "#morning", "#routine"],
+  ...fields,
+});
+
+describe("resolvePlatform", () => {
+  it("accepts ids, labels and the names people type", () => {
+    expect(resolvePlatform("linkedin").id).toBe("linkedin");
+    expect(resolvePlatform("Instagram Story").id).toBe("instagram-story");
+    expect(resolvePlatform("Twitter").id).toBe("x");
+    expect(resolvePlatform("IG reel").id).toBe("instagram-story");
+    expect(resolvePlatform("fb").id).toBe("facebook");
+    expect(resolvePlatform("Tik Tok").id).toBe("tiktok");
+    expect(resolvePlatform("").id).toBe("instagram-feed");
+    expect(resolvePlatform("myspace").id).toBe("instagram-feed");
+  });
+});
+
+describe("fitToPlatform", () => {
+  it("trims the tagline and hashtags and adds category emoji", () => {
+    const fitted = fitToPlatform(copy({ tagline: "one two three four five six seven eight nine" }), resolvePlatform("tiktok"), "skincare");
+    expect(fitted.tagline).toBe("one two three four five six");
+    expect(fitted.hashtags).toHaveLength(4);
+    expect(fitted.caption).toBe("✨ Bright skin every morning. 💧");
+  });
+
+  it("strips emoji where the profile uses none", () => {
+    const fitted = fitToPlatform(copy({ tagline: "Glow ✨", caption: "Bright ✨ skin 💧" }), resolvePlatform("linkedin"));
+    expect([fitted.tagline, fitted.caption]).toEqual(["Glow", "Bright skin"]);
+  });
+
+  it("cuts the caption at a word so caption and tags fit together", () => {
+    const x = resolvePlatform("x");
+    const fitted = fitToPlatform(copy({ caption: "glow ".repeat(80) + "✨" }), x);
+    expect(fitted.caption.endsWith("glow…")).toBe(true);
+    expect(assemblePost(fitted, x).length).toBeLessThanOrEqual(x.captionMax);
+    expect(validateForPlatform(fitted, x).ok).toBe(true);
+  });
+});
+
+describe("validateForPlatform", () => {
+  it("reports each limit that is exceeded", () => {
+    const report = validateForPlatform(copy({ caption: "x".repeat(130), tagline: "a b c d e f g" }), resolvePlatform("instagram-story"));
+    expect(report.ok).toBe(false);
+    expect(report.fields.filter((f) => !f.ok).map((f) => f.field)).toEqual(["tagline", "caption", "hashtags", "post"]);
+  });
+});
+
+describe("assemblePost and previewPost", () => {
+  it("places hashtags the way each platform expects", () => {
+    const c = copy({ hashtags: ["#glow", "#serum"] });
+    expect(assemblePost(c, resolvePlatform("instagram-feed"))).toBe("Bright skin every morning.\n\n#glow #serum");
+    expect(assemblePost(c, resolvePlatform("instagram-story"))).toBe("Bright skin every morning. #glow #serum");
+    expect(assemblePost(c, resolvePlatform("pinterest"))).toBe("Bright skin every morning.");
+    expect(previewPost(c, resolvePlatform("pinterest")).separateTags).toEqual(["#glow", "#serum"]);
+  });
+
+  it("shows what the feed shows before \"…more\"", () => {
+    const preview = previewPost(copy({ caption: "Bright skin ".repeat(20), hashtags: [] }), resolvePlatform("tiktok"));
+    expect(preview.truncated).toBe(true);
+    expect(preview.visible.length).toBeLessThanOrEqual(100);
+    expect(preview.visible.endsWith("skin")).toBe(true);
+    expect(previewPost(copy({ hashtags: [] }), resolvePlatform("tiktok"))).toMatchObject({ truncated: false, visible: "Bright skin every morning." });
+  });
+});
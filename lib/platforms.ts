@@ -0,0 +1,185 @@
+import type { StrictCopy } from "./types";
+
+/* ------------ profile types (pure data, safe to import from the client) ------------ */
+export type PlatformId =
+  | "instagram-feed"
+  | "instagram-story"
+  | "x"
+  | "linkedin"
+  | "facebook"
+  | "tiktok"
+  | "pinterest";
+
+export type HashtagPlacement = "end" | "inline" | "separate"; // separate = first comment / own field
+export type EmojiPolicy = "none" | "light" | "rich";
+export type Orientation = "square" | "portrait" | "landscape";
+
+export type PlatformProfile = {
+  id: PlatformId;
+  label: string;
+  network: string;        // name used in copy sentences
+  captionMax: number;     // characters in the posted text, hashtags included when placed in it
+  visibleChars?: number;  // where the platform cuts off with "…more"
+  taglineMaxWords: number;
+  hashtagCount: number;
+  hashtagPlacement: HashtagPlacement;
+  emoji: EmojiPolicy;
+  aspect: string;
+  orientation: Orientation; // Pexels `orientation` param
+  size: { width: number; height: number };
+};
+
+export type FieldCheck = {
+  field: "tagline" | "caption" | "hashtags" | "emoji" | "post";
+  ok: boolean;
+  length?: number;
+  limit?: number;
+  message: string;
+};
+
+export type PlatformReport = { platform: PlatformId; ok: boolean; fields: FieldCheck[] };
+
+/* ========== profiles ========== */
+export const PLATFORM_PROFILES: PlatformProfile[] = [
+  { id: "instagram-feed", label: "Instagram feed", network: "Instagram", captionMax: 2200, visibleChars: 125, taglineMaxWords: 8, hashtagCount: 5, hashtagPlacement: "end", emoji: "light", aspect: "1:1", orientation: "square", size: { width: 1080, height: 1080 } },
+  { id: "instagram-story", label: "Instagram Story", network: "Instagram", captionMax: 125, taglineMaxWords: 6, hashtagCount: 2, hashtagPlacement: "inline", emoji: "rich", aspect: "9:16", orientation: "portrait", size: { width: 1080, height: 1920 } },
+  { id: "x", label: "X", network: "X", captionMax: 280, taglineMaxWords: 8, hashtagCount: 2, hashtagPlacement: "end", emoji: "light", aspect: "16:9", orientation: "landscape", size: { width: 1600, height: 900 } },
+  { id: "linkedin", label: "LinkedIn", network: "LinkedIn", captionMax: 3000, visibleChars: 210, taglineMaxWords: 10, hashtagCount: 3, hashtagPlacement: "end", emoji: "none", aspect: "1.91:1", orientation: "landscape", size: { width: 1200, height: 627 } },
+  { id: "facebook", label: "Facebook", network: "Facebook", captionMax: 500, visibleChars: 125, taglineMaxWords: 8, hashtagCount: 2, hashtagPlacement: "end", emoji: "light", aspect: "1.91:1", orientation: "landscape", size: { width: 1200, height: 630 } },
+  { id: "tiktok", label: "TikTok", network: "TikTok", captionMax: 2200, visibleChars: 100, taglineMaxWords: 6, hashtagCount: 4, hashtagPlacement: "end", emoji: "rich", aspect: "9:16", orientation: "portrait", size: { width: 1080, height: 1920 } },
+  { id: "pinterest", label: "Pinterest", network: "Pinterest", captionMax: 500, taglineMaxWords: 10, hashtagCount: 3, hashtagPlacement: "separate", emoji: "none", aspect: "2:3", orientation: "portrait", size: { width: 1000, height: 1500 } },
+];
+
+export const DEFAULT_PLATFORM: PlatformId = "instagram-feed";
+
+// Accepts a profile id or the free-text names people type ("Instagram", "Twitter", "IG story").
+export function resolvePlatform(platform?: string): PlatformProfile {
+  const p = (platform || "").trim().toLowerCase();
+  const byId = PLATFORM_PROFILES.find((x) => x.id === p || x.label.toLowerCase() === p);
+  if (byId) return byId;
+  const id: PlatformId =
+    /story|reel/.test(p) ? "instagram-story"
+    : /insta|\big\b/.test(p) ? "instagram-feed"
+    : /twitter|^x$|\bx\b/.test(p) ? "x"
+    : /linked/.test(p) ? "linkedin"
+    : /facebook|\bfb\b|meta/.test(p) ? "facebook"
+    : /tiktok|tik tok/.test(p) ? "tiktok"
+    : /pin/.test(p) ? "pinterest"
+    : DEFAULT_PLATFORM;
+  return PLATFORM_PROFILES.find((x) => x.id === id)!;
+}
+
+/* ========== emoji ========== */
+const EMOJI_RE = /\p{Extended_Pictographic}/gu;
+const CATEGORY_EMOJI: Record<string, string[]> = {
+  beverage: ["☕", "🧊"],
+  skincare: ["✨", "💧"],
+  apparel: ["👕", "🧵"],
+  gadget: ["⚡", "📱"],
+  pet: ["🐾", "🐶"],
+  home: ["🏡", "🕯️"],
+  food: ["🥣", "😋"],
+  other: ["✨", "🎉"],
+};
+export const countEmoji = (s: string) => (s.match(EMOJI_RE) || []).length;
+const stripEmoji = (s: string) => s.replace(/\p{Extended_Pictographic}️?/gu, "").replace(/\s{2,}/g, " ").trim();
+
+/* ========== post assembly ========== */
+// The text that actually gets pasted into the platform.
+export function assemblePost(copy: StrictCopy, profile: PlatformProfile): string {
+  const tags = copy.hashtags.slice(0, profile.hashtagCount).join(" ");
+  if (!tags || profile.hashtagPlacement === "separate") return copy.caption;
+  return profile.hashtagPlacement === "inline" ? `${copy.caption} ${tags}` : `${copy.caption}\n\n${tags}`;
+}
+
+const truncateChars = (s: string, n: number) => {
+  if (s.length <= n) return s;
+  const cut = s.slice(0, Math.max(0, n - 1));
+  const atWord = cut.replace(/\s+\S*$/, "");
+  return `${(atWord.length > n * 0.6 ? atWord : cut).replace(/[\s,;:—-]+$/, "")}…`;
+};
+
+// Shapes any StrictCopy (composer or LLM) to the profile's hashtag, emoji and length rules.
+export function fitToPlatform(copy: StrictCopy, profile: PlatformProfile, normCat = "other"): StrictCopy {
+  const hashtags = copy.hashtags.slice(0, profile.hashtagCount);
+  let caption = copy.caption;
+  let tagline = copy.tagline.trim().split(/\s+/).slice(0, profile.taglineMaxWords).join(" ");
+
+  if (profile.emoji === "none") {
+    caption = stripEmoji(caption);
+    tagline = stripEmoji(tagline);
+  } else if (countEmoji(caption) === 0) {
+    const [e1, e2] = CATEGORY_EMOJI[normCat] || CATEGORY_EMOJI.other;
+    caption = profile.emoji === "rich" ? `${e1} ${caption} ${e2}` : `${caption} ${e1}`;
+  }
+
+  const tagsLen = profile.hashtagPlacement === "separate" ? 0 : hashtags.join(" ").length + 2;
+  caption = truncateChars(caption, profile.captionMax - tagsLen);
+  return { ...copy, tagline, caption, hashtags };
+}
+
+/* ========== validation report ========== */
+export function validateForPlatform(copy: StrictCopy, profile: PlatformProfile): PlatformReport {
+  const post = assemblePost(copy, profile);
+  const taglineWords = copy.tagline.trim().split(/\s+/).filter(Boolean).length;
+  const emojiCount = countEmoji(`${copy.tagline} ${copy.caption}`);
+  const fields: FieldCheck[] = [
+    {
+      field: "tagline",
+      ok: taglineWords <= profile.taglineMaxWords,
+      length: taglineWords,
+      limit: profile.taglineMaxWords,
+      message: `${taglineWords}/${profile.taglineMaxWords} words`,
+    },
+    {
+      field: "caption",
+      ok: copy.caption.length <= profile.captionMax,
+      length: copy.caption.length,
+      limit: profile.captionMax,
+      message:
+        profile.visibleChars && copy.caption.length > profile.visibleChars
+          ? `${copy.caption.length}/${profile.captionMax} chars; cut off after ${profile.visibleChars} with "…more"`
+          : `${copy.caption.length}/${profile.captionMax} chars`,
+    },
+    {
+      field: "hashtags",
+      ok: copy.hashtags.length <= profile.hashtagCount,
+      length: copy.hashtags.length,
+      limit: profile.hashtagCount,
+      message: `${copy.hashtags.length}/${profile.hashtagCount} hashtags, placed ${profile.hashtagPlacement === "separate" ? "separately" : profile.hashtagPlacement === "inline" ? "inline after the caption" : "at the end of the post"}`,
+    },
+    {
+      field: "emoji",
+      ok: profile.emoji !== "none" || emojiCount === 0,
+      length: emojiCount,
+      message: profile.emoji === "none" ? (emojiCount ? `${emojiCount} emoji; ${profile.label} profile uses none` : "no emoji") : `${emojiCount} emoji (${profile.emoji})`,
+    },
+    {
+      field: "post",
+      ok: post.length <= profile.captionMax,
+      length: post.length,
+      limit: profile.captionMax,
+      message: `${post.length}/${profile.captionMax} chars as posted`,
+    },
+  ];
+  return { platform: profile.id, ok: fields.every((f) => f.ok), fields };
+}
+
+/* ========== feed preview ========== */
+export type PostPreview = {
+  text: string;       // the full post as pasted (assemblePost)
+  visible: string;    // what the feed shows before "…more"
+  truncated: boolean;
+  separateTags: string[]; // hashtags that go in their own field or first comment
+};
+
+// Cut at the last word that fits, as the apps do; the UI adds the "…more" link.
+export function previewPost(copy: StrictCopy, profile: PlatformProfile): PostPreview {
+  const text = assemblePost(copy, profile);
+  const separateTags = profile.hashtagPlacement === "separate" ? copy.hashtags.slice(0, profile.hashtagCount) : [];
+  const limit = profile.visibleChars;
+  if (!limit || text.length <= limit) return { text, visible: text, truncated: false, separateTags };
+  const cut = text.slice(0, limit);
+  const atWord = /\s/.test(text[limit] || "") ? cut : cut.replace(/\s+\S*$/, "");
+  return { text, visible: (atWord || cut).trimEnd(), truncated: true, separateTags };
+}
@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import sharp from "sharp";
+import { afterAll, describe, expect, it } from "vitest";
+
+// The image library and uploads read DATA_DIR when they are first imported.
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "poster-test-"));
+const { checkImage, decodeDataUrl, renderPoster, wrapText } = await import("./poster");
+afterAll(() => rmSync(process.env.DATA_DIR!, { recursive: true, force: true }));
+
+describe("wrapText", () => {
+  it("fills lines up to the estimated width", () => {
+    // 20px regular ≈ 11px a glyph, so 120px holds 10 characters.
+    expect(wrapText("Glow every single morning", 20, 120)).toEqual(["Glow every", "single", "morning"]);
+    expect(wrapText("  one   two  ", 20, 1000)).toEqual(["one two"]);
+    expect(wrapText("", 20, 120)).toEqual([]);
+  });
+
+  it("wraps bold text sooner", () => {
+    expect(wrapText("Glow every day", 20, 120)).toEqual(["Glow every", "day"]);
+    expect(wrapText("Glow every day", 20, 120, 700)).toEqual(["Glow", "every day"]);
+  });
+
+  it("hyphenates words longer than a line", () => {
+    expect(wrapText("a Donaudampfschifffahrt", 20, 120)).toEqual(["a", "Donaudamp-", "fschifffa-", "hrt"]);
+  });
+});
+
+describe("decodeDataUrl and checkImage", () => {
+  it("accepts decodable images and rejects anything else", async () => {
+    const png = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#ff0000" } }).png().toBuffer();
+    await expect(checkImage(decodeDataUrl(`data:image/png;base64,${png.toString("base64")}`))).resolves.toEqual(png);
+    await expect(checkImage(Buffer.from("not an image"))).rejects.toThrow(/Not a readable image/);
+    expect(() => decodeDataUrl("data:text/plain;base64,aGk=")).toThrow(/base64 image data URL/);
+  });
+});
+
+describe("renderPoster", () => {
+  it("escapes the text and reports contrast", async () => {
+    const poster = await renderPoster({ tagline: "Glow & <shine>", caption: "Every day", colorHint: "navy", layout: "split" });
+    expect(poster.svg).toMatch(/>Glow &amp;<\/tspan><tspan [^>]*>&lt;shine&gt;</);
+    expect(poster.svg).not.toContain("<shine>");
+    expect(poster.text.map((t) => t.element)).toEqual(["tagline", "caption"]);
+    for (const t of poster.text) expect(t.ratio).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it("clamps the size", async () => {
+    const poster = await renderPoster({ tagline: "Glow", width: 100, height: 4000 });
+    expect([poster.width, poster.height]).toEqual([256, 2048]);
+    expect(await sharp(poster.png).metadata()).toMatchObject({ width: 256, height: 2048, format: "png" });
+  });
+
+  it("falls back to the bottom band and skips an empty caption", async () => {
+    const poster = await renderPoster({ tagline: "Glow", layout: "diagonal" as never, width: 400, height: 400 });
+    expect(poster.layout).toBe("bottom-band");
+    expect(poster.text.map((t) => t.element)).toEqual(["tagline"]);
+  });
+});
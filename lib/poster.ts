@@ -0,0 +1,241 @@
+import sharp from "sharp";
+import { accentFromHint, contrastRatio, mixHex, normalizeHex, rgbToHex, textOn } from "./color";
+import { readLibraryFile } from "./images";
+import { readUploadFile } from "./uploads";
+import { escapeXml } from "./util";
+
+/* ------------ types ------------ */
+export type PosterLayout = "bottom-band" | "centered" | "split";
+export const POSTER_LAYOUTS: PosterLayout[] = ["bottom-band", "centered", "split"];
+
+export type PosterInput = {
+  tagline: string;
+  caption?: string;
+  colorHint?: string;
+  accent?: string; // palette primary; overrides the colorHint lookup
+  layout?: PosterLayout;
+  width?: number;
+  height?: number;
+  image?: Buffer | null; // raw photo bytes; null => gradient background
+};
+
+// Text colour against the estimated colour behind it (panel, scrim and photo average blended).
+export type PosterText = {
+  element: "tagline" | "caption";
+  fill: string;
+  background: string;
+  ratio: number;    // WCAG contrast ratio
+  fontSize: number; // px at the poster's own size
+  large: boolean;   // WCAG large text at feed display size (see DISPLAY_WIDTH)
+};
+
+export type Poster = { svg: string; png: Buffer; width: number; height: number; layout: PosterLayout; text: PosterText[] };
+
+type Box = { x: number; y: number; w: number; h: number };
+
+/* ------------ env ------------ */
+const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+const DISPLAY_WIDTH = 400; // CSS px a feed shows the poster at on a phone; text size is judged there
+const IMAGE_HOSTS = (
+  process.env.POSTER_IMAGE_HOSTS || "images.pexels.com,images.unsplash.com,picsum.photos,fastly.picsum.photos"
+)
+  .split(",")
+  .map((h) => h.trim().toLowerCase())
+  .filter(Boolean);
+
+/* ========== text layout ========== */
+// Average glyph width for a sans face (~0.55em regular, ~0.62em bold); good enough to wrap without a font engine.
+const charEm = (weight: number) => (weight >= 700 ? 0.62 : 0.55);
+
+export function wrapText(text: string, fontSize: number, maxWidth: number, weight = 400): string[] {
+  const maxChars = Math.max(4, Math.floor(maxWidth / (fontSize * charEm(weight))));
+  const lines: string[] = [];
+  let line = "";
+  for (let word of text.trim().split(/\s+/).filter(Boolean)) {
+    while (word.length > maxChars) {
+      if (line) lines.push(line);
+      lines.push(word.slice(0, maxChars - 1) + "-");
+      word = word.slice(maxChars - 1);
+      line = "";
+    }
+    if (!line) line = word;
+    else if ((line + " " + word).length <= maxChars) line += " " + word;
+    else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Largest font size (max → min) whose wrapped lines fit the box; truncates at min.
+function fitText(text: string, box: Box, max: number, min: number, weight: number, lineHeight = 1.2) {
+  for (let size = max; size >= min; size -= 2) {
+    const lines = wrapText(text, size, box.w, weight);
+    if (lines.length * size * lineHeight <= box.h) return { size, lines };
+  }
+  const lines = wrapText(text, min, box.w, weight);
+  const fit = Math.max(1, Math.floor(box.h / (min * lineHeight)));
+  if (lines.length > fit) {
+    lines.length = fit;
+    lines[fit - 1] = lines[fit - 1].replace(/[\s\S]$/, "…");
+  }
+  return { size: min, lines };
+}
+
+function textBlock(
+  text: string,
+  box: Box,
+  opts: { max: number; min: number; weight: number; fill: string; align: "start" | "middle"; valign: "top" | "middle" }
+) {
+  if (!text.trim()) return { svg: "", height: 0, size: 0 };
+  const lh = 1.2;
+  const { size, lines } = fitText(text, box, opts.max, opts.min, opts.weight, lh);
+  const height = lines.length * size * lh;
+  const top = opts.valign === "middle" ? box.y + (box.h - height) / 2 : box.y;
+  const x = opts.align === "middle" ? box.x + box.w / 2 : box.x;
+  const tspans = lines
+    .map((l, i) => `<tspan x="${x}" y="${(top + size * (i + 0.85) * lh).toFixed(1)}">${escapeXml(l)}</tspan>`)
+    .join("");
+  return {
+    svg: `<text font-family="Inter, Arial, Helvetica, sans-serif" font-size="${size}" font-weight="${opts.weight}" fill="${opts.fill}" text-anchor="${opts.align}">${tspans}</text>`,
+    height,
+    size,
+  };
+}
+
+/* ========== images ========== */
+// Accepts allow-listed https URLs, image data URLs, /library/<file> paths and uploaded photos.
+export async function fetchPosterImage(url: string): Promise<Buffer> {
+  if (url.startsWith("data:")) return decodeDataUrl(url);
+  if (url.startsWith("/library/")) return readLibraryFile(url);
+  if (url.startsWith("/api/uploads/")) return readUploadFile(url);
+  const u = new URL(url);
+  if (u.protocol !== "https:" || !IMAGE_HOSTS.includes(u.hostname.toLowerCase())) {
+    throw new Error(`Image host not allowed: ${u.hostname}`);
+  }
+  const res = await fetch(u, { cache: "no-store", signal: AbortSignal.timeout(15000) });
+  if (!res.ok) throw new Error(`Image fetch failed (${res.status})`);
+  if (!(res.headers.get("content-type") || "").startsWith("image/")) throw new Error("URL is not an image");
+  const buf = Buffer.from(await res.arrayBuffer());
+  if (buf.length > MAX_IMAGE_BYTES) throw new Error("Image too large");
+  return buf;
+}
+
+export function decodeDataUrl(dataUrl: string): Buffer {
+  const m = dataUrl.match(/^data:image\/[a-z0-9.+-]+;base64,(.+)$/i);
+  if (!m) throw new Error("Expected a base64 image data URL");
+  const buf = Buffer.from(m[1], "base64");
+  if (buf.length > MAX_IMAGE_BYTES) throw new Error("Image too large");
+  return buf;
+}
+
+// Throws for bytes sharp can't decode, so callers can answer 400 before rendering starts.
+export async function checkImage(buf: Buffer): Promise<Buffer> {
+  const meta = await sharp(buf).metadata().catch(() => null);
+  if (!meta?.width || !meta.height) throw new Error("Not a readable image (JPEG, PNG, WebP, GIF or SVG)");
+  return buf;
+}
+
+// Crop/scale the photo to exactly the area it will occupy, so the SVG stays small.
+async function photoHref(image: Buffer, w: number, h: number) {
+  const jpg = await sharp(image).rotate().resize(w, h, { fit: "cover" }).jpeg({ quality: 84 }).toBuffer();
+  return `data:image/jpeg;base64,${jpg.toString("base64")}`;
+}
+
+// Average colour of the photo under `region`, with the photo cropped to `area` as in the poster.
+async function photoMean(image: Buffer, area: Box, region: Box): Promise<string> {
+  const scale = 64 / Math.max(area.w, area.h);
+  const [w, h] = [Math.max(1, Math.round(area.w * scale)), Math.max(1, Math.round(area.h * scale))];
+  const left = Math.min(w - 1, Math.max(0, Math.round((region.x - area.x) * scale)));
+  const top = Math.min(h - 1, Math.max(0, Math.round((region.y - area.y) * scale)));
+  const width = Math.max(1, Math.min(w - left, Math.round(region.w * scale)));
+  const height = Math.max(1, Math.min(h - top, Math.round(region.h * scale)));
+  const { channels } = await sharp(image).rotate().resize(w, h, { fit: "cover" }).extract({ left, top, width, height }).stats();
+  const [r, g, b] = [channels[0], channels[1] ?? channels[0], channels[2] ?? channels[0]].map((c) => c.mean);
+  return rgbToHex([r, g, b]);
+}
+
+function textReport(element: PosterText["element"], fill: string, background: string, size: number, weight: number, W: number): PosterText {
+  const shown = (size * DISPLAY_WIDTH) / W;
+  return {
+    element,
+    fill,
+    background,
+    ratio: Math.round(contrastRatio(fill, background) * 100) / 100,
+    fontSize: size,
+    large: weight >= 700 ? shown >= 18.66 : shown >= 24,
+  };
+}
+
+/* ========== compositor ========== */
+export async function renderPoster(input: PosterInput): Promise<Poster> {
+  const W = clampDim(input.width, 1080);
+  const H = clampDim(input.height, 1080);
+  const layout: PosterLayout = POSTER_LAYOUTS.includes(input.layout as PosterLayout)
+    ? (input.layout as PosterLayout)
+    : "bottom-band";
+  const accent = (input.accent && normalizeHex(input.accent)) || accentFromHint(input.colorHint);
+  const tagline = input.tagline || "";
+  const caption = input.caption || "";
+  const pad = Math.round(Math.min(W, H) * 0.06);
+
+  const photoArea: Box = layout === "split" ? { x: 0, y: 0, w: Math.round(W / 2), h: H } : { x: 0, y: 0, w: W, h: H };
+  const background = input.image
+    ? `<image href="${await photoHref(input.image, photoArea.w, photoArea.h)}" x="${photoArea.x}" y="${photoArea.y}" width="${photoArea.w}" height="${photoArea.h}" preserveAspectRatio="xMidYMid slice"/>`
+    : `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${accent}"/><stop offset="1" stop-color="#222222"/></linearGradient></defs>` +
+      `<rect x="${photoArea.x}" y="${photoArea.y}" width="${photoArea.w}" height="${photoArea.h}" fill="url(#bg)"/>`;
+
+  // What sits under the overlay: the photo's average there, or the gradient's midpoint.
+  const under = (region: Box) =>
+    input.image ? photoMean(input.image, photoArea, region).catch(() => "#808080") : Promise.resolve(mixHex(accent, "#222222", 0.5));
+
+  let overlay = "";
+  const text: PosterText[] = [];
+  if (layout === "bottom-band") {
+    const bandH = Math.round(H * 0.34);
+    const band: Box = { x: pad, y: H - bandH + pad * 0.8, w: W - pad * 2, h: bandH - pad * 1.6 };
+    const fill = textOn(accent);
+    const t = textBlock(tagline, { ...band, h: band.h * 0.55 }, { max: Math.round(H * 0.075), min: 24, weight: 700, fill, align: "start", valign: "top" });
+    const c = textBlock(caption, { ...band, y: band.y + t.height + pad * 0.4, h: band.h - t.height - pad * 0.4 }, { max: Math.round(H * 0.036), min: 16, weight: 400, fill, align: "start", valign: "top" });
+    overlay = `<rect x="0" y="${H - bandH}" width="${W}" height="${bandH}" fill="${accent}" opacity="0.9"/>${t.svg}${c.svg}`;
+    const bg = mixHex(accent, await under({ x: 0, y: H - bandH, w: W, h: bandH }), 0.9);
+    if (t.size) text.push(textReport("tagline", fill, bg, t.size, 700, W));
+    if (c.size) text.push(textReport("caption", fill, bg, c.size, 400, W));
+  } else if (layout === "centered") {
+    // Dark scrim keeps white text readable over any photo.
+    const area: Box = { x: pad * 1.5, y: H * 0.25, w: W - pad * 3, h: H * 0.5 };
+    const t = textBlock(tagline, { ...area, h: area.h * 0.6 }, { max: Math.round(H * 0.09), min: 28, weight: 800, fill: "#ffffff", align: "middle", valign: "top" });
+    const c = textBlock(caption, { ...area, y: area.y + t.height + pad * 0.5, h: area.h - t.height - pad * 0.5 }, { max: Math.round(H * 0.038), min: 16, weight: 400, fill: "#ffffff", align: "middle", valign: "top" });
+    const shift = (area.h - t.height - (c.height ? c.height + pad * 0.5 : 0)) / 2;
+    overlay =
+      `<rect width="${W}" height="${H}" fill="#000000" opacity="0.45"/>` +
+      `<rect x="0" y="${H * 0.92}" width="${W}" height="${H * 0.08}" fill="${accent}"/>` +
+      `<g transform="translate(0 ${shift.toFixed(1)})">${t.svg}${c.svg}</g>`;
+    const bg = mixHex("#000000", await under(area), 0.45);
+    if (t.size) text.push(textReport("tagline", "#ffffff", bg, t.size, 800, W));
+    if (c.size) text.push(textReport("caption", "#ffffff", bg, c.size, 400, W));
+  } else {
+    const panel: Box = { x: photoArea.w, y: 0, w: W - photoArea.w, h: H };
+    const inner: Box = { x: panel.x + pad, y: pad * 2, w: panel.w - pad * 2, h: H - pad * 4 };
+    const fill = textOn(accent);
+    const t = textBlock(tagline, { ...inner, h: inner.h * 0.55 }, { max: Math.round(H * 0.07), min: 24, weight: 700, fill, align: "start", valign: "top" });
+    const c = textBlock(caption, { ...inner, y: inner.y + t.height + pad * 0.6, h: inner.h - t.height - pad * 0.6 }, { max: Math.round(H * 0.034), min: 16, weight: 400, fill, align: "start", valign: "top" });
+    overlay = `<rect x="${panel.x}" y="0" width="${panel.w}" height="${H}" fill="${accent}"/>${t.svg}${c.svg}`;
+    if (t.size) text.push(textReport("tagline", fill, accent, t.size, 700, W));
+    if (c.size) text.push(textReport("caption", fill, accent, c.size, 400, W));
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${W}" height="${H}" viewBox="0 0 ${W} ${H}">${background}${overlay}</svg>`;
+  const png = await sharp(Buffer.from(svg)).png().toBuffer();
+  return { svg, png, width: W, height: H, layout, text };
+}
+
+function clampDim(v: number | undefined, fallback: number) {
+  const n = Math.floor(Number(v) || fallback);
+  return Math.min(Math.max(n, 256), 2048);
+}
+
+export const pngDataUrl = (png: Buffer) => `data:image/png;base64,${png.toString("base64")}`;
+export const svgDataUrl = (svg: string) => `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
@@ -0,0 +1,51 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+/* ------------ env ------------ */
+// Vercel only allows writes under /tmp; locally keep data next to the app.
+export const DATA_DIR =
+  process.env.DATA_DIR ||
+  (process.env.VERCEL === "1" ? "/tmp/brand-in-a-box" : path.join(process.cwd(), ".data"));
+
+/* ========== JSON file store ========== */
+const queues = new Map<string, Promise<unknown>>();
+
+export const dataPath = (...parts: string[]) => path.join(DATA_DIR, ...parts);
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(dataPath(name), "utf8")) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw e;
+  }
+}
+
+export async function writeJson(name: string, data: unknown) {
+  const file = dataPath(name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write-then-rename so a crash never leaves half a file behind; each write gets its own temp file
+  // so overlapping saves of the same file can't interleave in it (the last rename wins).
+  const tmp = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2));
+  await fs.rename(tmp, file);
+}
+
+// Serialises read-modify-write cycles per file so concurrent requests don't lose updates.
+// Returning `current` itself as `next` means "no change": nothing is written (and a missing file stays missing).
+export function updateJson<T, R>(name: string, fallback: T, fn: (current: T) => { next: T; result: R }): Promise<R> {
+  const prev = queues.get(name) || Promise.resolve();
+  const run = prev.then(async () => {
+    const current = await readJson(name, fallback);
+    const { next, result } = fn(current);
+    if (next !== current) await writeJson(name, next);
+    return result;
+  });
+  queues.set(name, run.catch(() => undefined));
+  return run;
+}
+
+export async function removeJson(name: string) {
+  await fs.rm(dataPath(name), { force: true });
+}
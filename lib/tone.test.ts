@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseTone, punctuate, type CustomVoice } from "./tone";
+
+const KNOWN = ["friendly", "playful", "luxury", "bold", "calm"];
+
+const voice: CustomVoice = {
+  id: "acme",
+  name: "Acme",
+  words: ["crisp", "bright"],
+  base: "calm",
+  sentenceLength: "short",
+  punctuation: "none",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("parseTone", () => {
+  it("weights blends and intensity words", () => {
+    const reading = parseTone("very playful, slightly luxurious", KNOWN);
+    expect(reading.descriptors).toEqual([
+      { id: "playful", weight: 0.8, via: "exact" },
+      { id: "luxury", weight: 0.2, via: "synonym", word: "luxurious" },
+    ]);
+    expect(reading.fallback).toBe(false);
+  });
+
+  it("drops negated tones and keeps unmatched words", () => {
+    const reading = parseTone("not bold, calmly sparkly", KNOWN);
+    expect(reading.descriptors.map((d) => d.id)).toEqual(["calm"]);
+    expect(reading.unmatched).toEqual(["sparkly"]);
+  });
+
+  it("falls back to the default tone, and only reports a miss for typed text", () => {
+    expect(parseTone("", KNOWN)).toMatchObject({ descriptors: [{ id: "friendly", weight: 1, via: "default" }], fallback: false });
+    expect(parseTone("zesty", KNOWN)).toMatchObject({ descriptors: [{ id: "friendly" }], fallback: true, unmatched: ["zesty"] });
+  });
+
+  it("treats Object.prototype names as plain words", () => {
+    const reading = parseTone("constructor toString playful", KNOWN);
+    expect(reading.descriptors).toEqual([{ id: "playful", weight: 1, via: "exact" }]);
+    expect(reading.unmatched).toEqual(["constructor", "tostring"]);
+  });
+
+  it("matches a custom voice by name and blends in its base at half weight", () => {
+    const reading = parseTone("Acme, but playful", KNOWN, [voice]);
+    expect(reading.voice).toEqual({ id: "acme", name: "Acme" });
+    expect(reading.descriptors.map((d) => [d.id, d.weight])).toEqual([["voice:acme", 0.4], ["playful", 0.4], ["calm", 0.2]]);
+    expect(reading).toMatchObject({ sentenceLength: "short", punctuation: "none" });
+  });
+});
+
+describe("punctuate", () => {
+  it("applies the voice's punctuation", () => {
+    expect(punctuate("Glow on!", "none")).not.toContain("!");
+    expect(punctuate("Glow on!", "default")).toBe("Glow on!");
+  });
+});
@@ -0,0 +1,158 @@
+import { escapeRe } from "./util";
+
+/* ------------ tone types (pure, safe to import from the client) ------------ */
+export type SentenceLength = "short" | "medium" | "long";
+export const SENTENCE_LENGTHS: SentenceLength[] = ["short", "medium", "long"];
+
+// "exclamation": sentences end with "!"; "none": no exclamation marks at all; "default": as the template wrote it.
+export type Punctuation = "default" | "exclamation" | "none";
+export const PUNCTUATION_STYLES: Punctuation[] = ["default", "exclamation", "none"];
+
+// A team's named voice, matched by name anywhere in the tone text ("Acme voice", "acme, but calm").
+export type CustomVoice = {
+  id: string;
+  name: string;
+  words: string[];   // tone vocabulary used in place of (or blended with) the pack's tone words
+  base?: string;     // pack tones it leans on, parsed like tone text ("playful luxury")
+  sentenceLength: SentenceLength;
+  punctuation: Punctuation;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ToneDescriptor = {
+  id: string;       // pack tone key, or "voice:<id>"
+  weight: number;   // share of the vocabulary, all descriptors sum to 1
+  via: "exact" | "synonym" | "voice" | "default";
+  word?: string;    // what was typed, when it differs from id
+};
+
+export type ToneReading = {
+  input: string;
+  descriptors: ToneDescriptor[];
+  voice: { id: string; name: string } | null;
+  unmatched: string[];   // words that named no tone, synonym or voice
+  fallback: boolean;     // nothing matched; the default tone was used
+  sentenceLength: SentenceLength;
+  punctuation: Punctuation;
+};
+
+/* ========== vocabulary ========== */
+// Synonyms for the default pack's tones; a pack with other tone keys still matches those exactly.
+const SYNONYMS: Record<string, string[]> = {
+  friendly: [
+    "warm", "approachable", "casual", "kind", "welcoming", "relatable", "cheerful", "upbeat", "helpful", "neighbourly",
+    "neighborly", "down-to-earth", "conversational", "human", "honest", "genuine",
+    "cercano", "amigable", "amical", "chaleureux", "freundlich", "herzlich",
+  ],
+  playful: [
+    "fun", "witty", "cheeky", "quirky", "whimsical", "humorous", "funny", "silly", "lighthearted", "light-hearted", "jokey", "irreverent",
+    "youthful", "sassy", "divertido", "desenfadado", "ludique", "espiègle", "verspielt", "frech",
+  ],
+  luxury: [
+    "luxurious", "premium", "elegant", "upscale", "sophisticated", "refined", "posh", "high-end", "exclusive", "classy", "opulent",
+    "chic", "glamorous", "indulgent", "lux", "luxe",
+    "lujoso", "elegante", "luxueux", "élégant", "raffiné", "luxuriös", "edel",
+  ],
+  bold: [
+    "confident", "daring", "energetic", "edgy", "strong", "punchy", "loud", "fearless", "powerful", "assertive", "dynamic", "urgent",
+    "hype", "exciting", "excited", "audaz", "atrevido", "audacieux", "percutant", "mutig", "markant",
+  ],
+  calm: [
+    "relaxed", "serene", "soothing", "minimal", "minimalist", "gentle", "soft", "quiet", "peaceful", "mindful", "understated",
+    "professional", "trustworthy", "clean", "clinical", "informative", "factual", "neutral", "corporate", "formal", "expert",
+    "tranquilo", "sereno", "calme", "apaisé", "doux", "ruhig", "sanft",
+  ],
+};
+const SYNONYM_OF = new Map(Object.entries(SYNONYMS).flatMap(([tone, words]) => words.map((w) => [w, tone] as const)));
+
+// Intensity words scale the tone that follows them: "very playful, slightly luxury"; "not bold" drops it.
+// A Map, not an object: typed words like "constructor" must not hit Object.prototype.
+const MODIFIERS = new Map(Object.entries({
+  very: 2, really: 2, super: 2, extra: 2, highly: 2, mostly: 2, mainly: 2, primarily: 2,
+  slightly: 0.5, somewhat: 0.5, bit: 0.5, little: 0.5, touch: 0.5, hint: 0.5, dash: 0.5,
+  not: 0, no: 0, never: 0, without: 0, non: 0,
+}));
+const FILLER = new Set(["and", "but", "with", "yet", "a", "an", "the", "of", "tone", "voice", "style", "feel", "vibe", "vibes", "more", "plus", "also", "too"]);
+
+const DEFAULT_TONE = "friendly";
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/* ========== parsing ========== */
+// Free-text tone → weighted descriptors over the pack's tone keys (`known`) and any named custom voice.
+export function parseTone(input: string | undefined, known: string[], voices: CustomVoice[] = []): ToneReading {
+  const raw = (input || "").trim();
+  let rest = raw.normalize("NFC").toLowerCase();
+  const weights = new Map<string, ToneDescriptor>();
+  const add = (id: string, weight: number, via: ToneDescriptor["via"], word?: string) => {
+    const prev = weights.get(id);
+    if (prev) prev.weight += weight;
+    else weights.set(id, { id, weight, via, ...(word && word !== id ? { word } : {}) });
+  };
+
+  // Longest voice name first, so "Acme Bold" wins over "Acme"; one voice per brief.
+  let voice: CustomVoice | null = null;
+  for (const v of [...voices].sort((a, b) => b.name.length - a.name.length)) {
+    const re = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRe(v.name.toLowerCase())}(?=$|[^\\p{L}\\p{N}])`, "u");
+    if (!re.test(rest)) continue;
+    voice = v;
+    rest = rest.replace(re, "$1 ");
+    if (v.words.length) add(`voice:${v.id}`, 1, "voice", v.name);
+    break;
+  }
+
+  const unmatched: string[] = [];
+  const read = (text: string, scale: number) => {
+    let boost = 1;
+    for (const token of text.split(/[^\p{L}\p{N}-]+/u).filter(Boolean)) {
+      const modifier = MODIFIERS.get(token);
+      if (modifier !== undefined) {
+        boost = modifier;
+        continue;
+      }
+      if (FILLER.has(token)) continue;
+      const stem = token.replace(/ly$/, ""); // "playfully", "calmly"
+      const tone = known.includes(token) ? token : SYNONYM_OF.get(token) ?? (known.includes(stem) ? stem : SYNONYM_OF.get(stem));
+      if (tone && known.includes(tone)) {
+        if (boost) add(tone, boost * scale, tone === token ? "exact" : "synonym", token);
+      } else unmatched.push(token);
+      boost = 1;
+    }
+  };
+  read(rest, 1);
+  if (voice?.base) read(voice.base.toLowerCase(), 0.5); // the voice's own leanings count half as much as what was typed
+
+  let descriptors = [...weights.values()].filter((d) => d.weight > 0);
+  const fallback = !descriptors.length && !!raw; // a blank tone is just the default, not a miss
+  if (!descriptors.length) descriptors = [{ id: known.includes(DEFAULT_TONE) ? DEFAULT_TONE : known[0] || DEFAULT_TONE, weight: 1, via: "default" }];
+  const total = descriptors.reduce((n, d) => n + d.weight, 0);
+  descriptors = descriptors.map((d) => ({ ...d, weight: round2(d.weight / total) })).sort((a, b) => b.weight - a.weight);
+
+  return {
+    input: raw,
+    descriptors,
+    voice: voice ? { id: voice.id, name: voice.name } : null,
+    unmatched: [...new Set(unmatched)],
+    fallback,
+    sentenceLength: voice?.sentenceLength || "long",
+    punctuation: voice?.punctuation || "default",
+  };
+}
+
+// Short for the UI and the debug report: "playful 50% · luxury 50%".
+export const describeTone = (t: ToneReading) =>
+  t.descriptors.map((d) => `${d.via === "voice" ? d.word : d.id} ${Math.round(d.weight * 100)}%`).join(" · ");
+
+/* ========== voice styling ========== */
+// Longest sentence a voice's template may have; "long" keeps every template.
+export const SENTENCE_WORDS: Record<SentenceLength, number> = { short: 12, medium: 20, long: Infinity };
+
+export const longestSentence = (s: string) =>
+  Math.max(0, ...s.split(/[.!?…]+(?:\s|$)/).map((x) => x.trim().split(/\s+/).filter(Boolean).length));
+
+// Only sentence-final marks change; "3.5" and "…" are left alone.
+export function punctuate(s: string, style: Punctuation): string {
+  if (style === "none") return s.replace(/\?!+/g, "?").replace(/\s*!+/g, ".").replace(/\.{2,}/g, ".");
+  if (style === "exclamation") return s.replace(/(\p{L}|\p{N}|[)"»”])\.(?=\s|$)/gu, "$1!");
+  return s;
+}
@@ -0,0 +1,39 @@
+import type { PosterLayout } from "./poster";
+import type { Language } from "./languages";
+import type { OutputFormat } from "./listing";
+
+/* ------------ request & data types (shared by routes) ------------ */
+export type GenReq = {
+  product: string;
+  category?: string;
+  keyBenefit?: string;
+  audience?: string;
+  tone?: string;
+  platform?: string;
+  imageStyle?: string;
+  colorHint?: string;
+  includeImage?: boolean;
+  imageQuery?: string;
+  variants?: number;   // how many distinct template variants to return (default 1)
+  seed?: number;       // explicit base seed; defaults to a hash of the brief
+  localOnly?: boolean; // skip the LLM provider and use the local composer only
+  posterLayout?: PosterLayout;
+  brandKitId?: string; // saved brand kit whose values fill blank fields
+  language?: Language; // copy language (default "en")
+  templatePack?: string; // template pack id for the local composer (default "default")
+  saveHistory?: boolean; // false skips the history entry (e.g. single-field regenerations)
+  formats?: OutputFormat[]; // extra outputs next to the social copy, e.g. ["social", "listing"] (default ["social"])
+};
+
+export type StrictCopy = {
+  tagline: string;
+  caption: string;
+  shortDescription: string;
+  hashtags: string[];
+};
+
+export type CopyVariant = {
+  seed: number;
+  templateIndex: number;
+  copy: StrictCopy;
+};
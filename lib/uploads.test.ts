@@ -0,0 +1,58 @@
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import sharp from "sharp";
+import { afterAll, describe, expect, it } from "vitest";
+
+// The store reads DATA_DIR, and uploads UPLOAD_MAX_BYTES, when first imported.
+process.env.DATA_DIR = mkdtempSync(path.join(tmpdir(), "uploads-test-"));
+process.env.UPLOAD_MAX_BYTES = "100000";
+const { deleteUpload, findUploads, readUploadFile, saveUpload, uploadCandidate } = await import("./uploads");
+afterAll(() => rmSync(process.env.DATA_DIR!, { recursive: true, force: true }));
+
+const image = (width: number, height: number, format: "png" | "jpeg" | "gif" = "png") =>
+  sharp({ create: { width, height, channels: 3, background: "#204080" } }).toFormat(format).toBuffer();
+
+const save = async (product?: string, brandKitId?: string) => {
+  const result = await saveUpload(await image(300, 240), { name: "photo.png", product, brandKitId });
+  if ("error" in result) throw new Error(result.error);
+  return result.upload;
+};
+
+describe("saveUpload", () => {
+  it("refuses files that aren't usable photos", async () => {
+    expect(await saveUpload(Buffer.alloc(0), { name: "a" })).toEqual({ error: "File is empty" });
+    expect(await saveUpload(Buffer.alloc(100001), { name: "a" })).toEqual({ error: expect.stringMatching(/^File is larger than/) });
+    expect(await saveUpload(Buffer.from("hello"), { name: "a.png" })).toEqual({ error: "Not an image" });
+    expect(await saveUpload(await image(300, 300, "gif"), { name: "a.gif" })).toEqual({ error: "Only JPEG, PNG and WebP images are accepted" });
+    expect(await saveUpload(await image(300, 120), { name: "a.png" })).toEqual({ error: "Image must be at least 200×200 pixels" });
+  });
+
+  it("stores the photo, a JPEG thumbnail and its dominant colour", async () => {
+    const u = await save("Lumi Serum");
+    expect(u).toMatchObject({ mime: "image/png", width: 300, height: 240, product: "Lumi Serum", productKey: "lumi serum", name: "photo.png" });
+    expect(u.color).toMatch(/^#[0-9a-f]{6}$/);
+    expect(await sharp(await readUploadFile(`/api/uploads/${u.id}/file?size=thumb`)).metadata()).toMatchObject({ format: "jpeg" });
+    expect(uploadCandidate(u, "serum")).toMatchObject({ id: `upload:${u.id}`, source: "upload", url: `/api/uploads/${u.id}/file`, query: "Lumi Serum" });
+  });
+});
+
+describe("findUploads and deleteUpload", () => {
+  it("lists the product's photos before the kit's shared ones, newest first", async () => {
+    const older = await save("Glow Oil", "kit-1");
+    const shared = await save(undefined, "kit-1");
+    const newer = await save("glow-oil!", "kit-1");
+    await save(undefined, "kit-2");
+    expect((await findUploads("Glow  Oil", "kit-1")).map((u) => u.id)).toEqual([newer.id, older.id, shared.id]);
+  });
+
+  it("removes the record and both files", async () => {
+    const u = await save("Gone");
+    const files = [u.file, u.thumb].map((f) => path.join(process.env.DATA_DIR!, "uploads", f));
+    expect(files.every((f) => existsSync(f))).toBe(true);
+    expect(await deleteUpload(u.id)).toBe(true);
+    expect(files.some((f) => existsSync(f))).toBe(false);
+    expect(await deleteUpload(u.id)).toBe(false);
+    await expect(readUploadFile(`/api/uploads/${u.id}/file`)).rejects.toThrow("Uploaded image not found");
+  });
+});
@@ -0,0 +1,155 @@
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import type { ImageCandidate } from "./images";
+import { dataPath, readJson, updateJson } from "./store";
+import { rgbToHex } from "./color";
+
+/* ------------ types ------------ */
+// A photo is kept for one product, or (with no product) for every product of its brand kit.
+export type UploadedPhoto = {
+  id: string;
+  file: string;  // under DATA_DIR/uploads
+  thumb: string;
+  mime: string;
+  width: number;
+  height: number;
+  bytes: number;
+  color: string | null;
+  product: string | null;
+  productKey: string | null;
+  brandKitId: string | null;
+  alt: string | null;
+  name: string;  // original file name, for the UI
+  createdAt: string;
+};
+
+export type UploadInput = { name: string; product?: string; brandKitId?: string; alt?: string };
+
+/* ------------ env ------------ */
+const FILE = "uploads.json";
+const DIR = "uploads";
+export const UPLOAD_MAX_BYTES = Number(process.env.UPLOAD_MAX_BYTES || 8 * 1024 * 1024);
+export const UPLOAD_MAX_FILES = 10; // per request
+const MIN_SIDE = 200;     // smaller than this looks broken on a 1080px poster
+const MAX_SIDE = 4096;    // stored copies are scaled down to this
+const THUMB_SIDE = 400;
+
+// sharp format → stored extension and MIME type; anything else is refused.
+const FORMATS: Record<string, { ext: string; mime: string }> = {
+  jpeg: { ext: "jpg", mime: "image/jpeg" },
+  png: { ext: "png", mime: "image/png" },
+  webp: { ext: "webp", mime: "image/webp" },
+};
+
+/* ========== storage ========== */
+export const listUploads = () => readJson<UploadedPhoto[]>(FILE, []);
+
+export async function getUpload(id: string) {
+  return (await listUploads()).find((u) => u.id === id) || null;
+}
+
+export const productKey = (s: string) => s.normalize("NFKC").toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+
+// Product photos first, then the kit's shared ones; newest first within each.
+export async function findUploads(product?: string, brandKitId?: string) {
+  const key = product ? productKey(product) : "";
+  const all = await listUploads();
+  if (!key && !brandKitId) return [...all].reverse();
+  const forProduct = all.filter((u) => key && u.productKey === key).reverse();
+  const forKit = all.filter((u) => !u.productKey && brandKitId && u.brandKitId === brandKitId).reverse();
+  return [...forProduct, ...forKit];
+}
+
+// Checks the bytes, not the declared type: the file is decoded, EXIF-rotated and re-encoded, which also drops
+// metadata such as GPS position. Returns an error message for anything we won't keep.
+export async function saveUpload(buf: Buffer, input: UploadInput): Promise<{ upload: UploadedPhoto } | { error: string }> {
+  if (!buf.length) return { error: "File is empty" };
+  if (buf.length > UPLOAD_MAX_BYTES) return { error: `File is larger than ${Math.round(UPLOAD_MAX_BYTES / 1024 / 1024)} MB` };
+
+  let meta: sharp.Metadata;
+  try {
+    meta = await sharp(buf).metadata();
+  } catch {
+    return { error: "Not an image" };
+  }
+  const format = FORMATS[meta.format || ""];
+  if (!format) return { error: "Only JPEG, PNG and WebP images are accepted" };
+  if (Math.min(meta.width || 0, meta.height || 0) < MIN_SIDE) return { error: `Image must be at least ${MIN_SIDE}×${MIN_SIDE} pixels` };
+
+  const id = randomUUID();
+  const file = `${id}.${format.ext}`;
+  const thumb = `${id}-thumb.jpg`;
+  const base = () => sharp(buf).rotate();
+  const [full, small, stats] = await Promise.all([
+    base().resize(MAX_SIDE, MAX_SIDE, { fit: "inside", withoutEnlargement: true }).toFormat(meta.format as keyof sharp.FormatEnum).toBuffer({ resolveWithObject: true }),
+    base().resize(THUMB_SIDE, THUMB_SIDE, { fit: "inside", withoutEnlargement: true }).flatten({ background: "#ffffff" }).jpeg({ quality: 80 }).toBuffer(),
+    sharp(buf).stats(),
+  ]);
+  await fs.mkdir(dataPath(DIR), { recursive: true });
+  await Promise.all([fs.writeFile(dataPath(DIR, file), full.data), fs.writeFile(dataPath(DIR, thumb), small)]);
+
+  const { r, g, b } = stats.dominant;
+  const upload: UploadedPhoto = {
+    id,
+    file,
+    thumb,
+    mime: format.mime,
+    width: full.info.width,
+    height: full.info.height,
+    bytes: full.data.length,
+    color: rgbToHex([r, g, b]),
+    product: input.product || null,
+    productKey: input.product ? productKey(input.product) : null,
+    brandKitId: input.brandKitId || null,
+    alt: input.alt || null,
+    name: input.name,
+    createdAt: new Date().toISOString(),
+  };
+  await updateJson(FILE, [] as UploadedPhoto[], (uploads) => ({ next: [...uploads, upload], result: null }));
+  return { upload };
+}
+
+export async function deleteUpload(id: string) {
+  const removed = await updateJson(FILE, [] as UploadedPhoto[], (uploads) => ({
+    next: uploads.filter((u) => u.id !== id),
+    result: uploads.find((u) => u.id === id) || null,
+  }));
+  if (removed) await Promise.all([removed.file, removed.thumb].map((f) => fs.rm(dataPath(DIR, f), { force: true })));
+  return !!removed;
+}
+
+/* ========== serving ========== */
+export const uploadUrl = (id: string, thumb = false) => `/api/uploads/${id}/file${thumb ? "?size=thumb" : ""}`;
+
+export async function readUpload(id: string, thumb = false): Promise<{ buffer: Buffer; mime: string } | null> {
+  const u = await getUpload(id);
+  if (!u) return null;
+  const buffer = await fs.readFile(dataPath(DIR, thumb ? u.thumb : u.file)).catch(() => null);
+  return buffer && { buffer, mime: thumb ? "image/jpeg" : u.mime };
+}
+
+// Reads an /api/uploads/<id>/file URL straight from disk (no HTTP round trip), like readLibraryFile.
+export async function readUploadFile(url: string): Promise<Buffer> {
+  const m = url.match(/^\/api\/uploads\/([\w-]+)\/file(\?size=thumb)?$/);
+  const found = m && (await readUpload(m[1], !!m[2]));
+  if (!found) throw new Error("Uploaded image not found");
+  return found.buffer;
+}
+
+export const uploadCandidate = (u: UploadedPhoto, query: string): ImageCandidate => ({
+  id: `upload:${u.id}`,
+  source: "upload",
+  url: uploadUrl(u.id),
+  thumbUrl: uploadUrl(u.id, true),
+  width: u.width,
+  height: u.height,
+  color: u.color,
+  photographer: null,
+  photographerUrl: null,
+  sourceUrl: null,
+  license: "Own photo",
+  licenseUrl: null,
+  alt: u.alt,
+  query: u.product || query,
+});
@@ -0,0 +1,28 @@
+import type { ImageCandidate } from "./images";
+
+/* ------------ shared helpers (pure, safe to import from the client) ------------ */
+
+/* ========== text ========== */
+export const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const escapeXml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export const cap = (s: string, locale?: string) => s.charAt(0).toLocaleUpperCase(locale) + s.slice(1);
+
+// Cuts at the last whole word that fits (dropping a trailing comma or dash) and adds an ellipsis.
+export const clip = (s: string, n: number) => (s.length <= n ? s : `${s.slice(0, n - 1).replace(/[\s,;:–-]+\S*$/, "")}…`);
+
+/* ========== images ========== */
+export const attribution = (c: ImageCandidate) =>
+  c.photographer
+    ? `Photo by ${c.photographer}${c.source === "pexels" ? " on Pexels" : c.source === "unsplash" ? " on Unsplash" : ""}`
+    : c.license;
+
+/* ========== process-wide state ========== */
+// Next bundles each route separately, so module-level state would be per route; globalThis is shared by all of them
+// (e.g. /api/metrics sees what /api/generate did). `key` must be unique across the app.
+export function globalSingleton<T>(key: string, init: () => T): T {
+  const g = globalThis as typeof globalThis & Record<string, unknown>;
+  return (g[key] ??= init()) as T;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { invalidRequest, lineFields, moderationBlocked, validateGenReq } from "./validate";
+
+describe("validateGenReq", () => {
+  it("accepts a minimal brief and drops nulls and blank enum fields", () => {
+    expect(validateGenReq({ product: "Lumi serum", platform: "", tone: null, variants: 2 })).toEqual({
+      value: { product: "Lumi serum", variants: 2 },
+    });
+  });
+
+  it("rejects non-objects", () => {
+    for (const raw of [null, "brief", [], 3]) expect(validateGenReq(raw)).toEqual({ errors: [{ path: "", message: "expected a JSON object" }] });
+  });
+
+  it("reports every problem with its path", () => {
+    const result = validateGenReq({ product: " ", platform: "myspace", variants: 1.5, includeImage: "yes", formats: [], constructor: 1 });
+    expect("errors" in result && result.errors).toEqual([
+      { path: "constructor", message: "unknown field" },
+      { path: "product", message: "required" },
+      { path: "platform", message: expect.stringMatching(/^must be one of /) },
+      { path: "includeImage", message: "expected true or false" },
+      { path: "variants", message: "expected an integer" },
+      { path: "formats", message: "expected a non-empty array" },
+    ]);
+  });
+
+  it("checks lengths and patterns", () => {
+    const result = validateGenReq({ product: "x".repeat(121), brandKitId: "../kit" });
+    expect("errors" in result && result.errors.map((e) => e.path)).toEqual(["product", "brandKitId"]);
+  });
+});
+
+describe("error bodies", () => {
+  it("summarise the first field and count the rest", () => {
+    const fields = [{ path: "product", message: "required" }, { path: "tone", message: "expected a string" }];
+    expect(invalidRequest(fields)).toEqual({ error: "product: required (+1 more)", code: "invalid_request", fields });
+    expect(invalidRequest([])).toEqual({ error: "Invalid request", code: "invalid_request" });
+    expect(moderationBlocked(fields.slice(0, 1)).error).toBe("Blocked by moderation: product contains required");
+  });
+
+  it("turn \"path: message\" lines into fields", () => {
+    expect(lineFields(["languages.en.tea: list of hashtags", "body: object with banned and languages", "no path"])).toEqual([
+      { path: "languages.en.tea", message: "list of hashtags" },
+      { path: "body", message: "object with banned and languages" },
+      { path: "", message: "no path" },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import type { GenReq } from "./types";
+import { LANGUAGES } from "./languages";
+import { PLATFORM_PROFILES } from "./platforms";
+import { MAX_VARIANTS } from "./compose";
+import { POSTER_LAYOUTS } from "./poster";
+import { OUTPUT_FORMATS } from "./listing";
+
+/* ------------ error types ------------ */
+export type ErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "rate_limited"
+  | "not_found"
+  | "api_disabled"
+  | "blocked"
+  | "server_error";
+
+export type FieldError = { path: string; message: string };
+
+// Every JSON error body: `error` stays a plain string so existing callers keep working.
+export type ApiError = { error: string; code: ErrorCode; fields?: FieldError[] };
+
+export const apiError = (code: ErrorCode, error: string, fields?: FieldError[]): ApiError =>
+  fields?.length ? { error, code, fields } : { error, code };
+
+// Summary line names the first problem so clients that only show `error` still say something useful.
+export function invalidRequest(fields: FieldError[]): ApiError {
+  const [first] = fields;
+  const more = fields.length > 1 ? ` (+${fields.length - 1} more)` : "";
+  return apiError("invalid_request", first ? `${first.path || "body"}: ${first.message}${more}` : "Invalid request", fields);
+}
+
+// Validators that report "path: message" lines (hashtag dictionary, moderation config) → field errors.
+export const lineFields = (lines: string[]): FieldError[] =>
+  lines.map((line) => {
+    const at = line.indexOf(": ");
+    return at < 0 ? { path: "", message: line } : { path: line.slice(0, at), message: line.slice(at + 2) };
+  });
+
+// Moderation refused the brief or the copy (422); same summary style as invalidRequest.
+export function moderationBlocked(fields: FieldError[]): ApiError {
+  const [first] = fields;
+  const more = fields.length > 1 ? ` (+${fields.length - 1} more)` : "";
+  return apiError("blocked", first ? `Blocked by moderation: ${first.path} contains ${first.message}${more}` : "Blocked by moderation", fields);
+}
+
+/* ------------ GenReq schema ------------ */
+// One table drives runtime validation, batch length limits and the OpenAPI document.
+export type FieldSpec = {
+  type: "string" | "integer" | "boolean" | "array"; // arrays are of strings, `enum` applies to each item
+  description: string;
+  required?: boolean;
+  maxLength?: number;
+  pattern?: RegExp;
+  enum?: readonly string[];
+  minimum?: number;
+  maximum?: number;
+};
+
+const text = (description: string, maxLength = 160): FieldSpec => ({ type: "string", description, maxLength });
+
+export const GEN_REQ_FIELDS: Record<keyof GenReq, FieldSpec> = {
+  product: { ...text("Product name", 120), required: true },
+  category: text("Product category, e.g. Skincare or Beverage"),
+  keyBenefit: text("The one benefit the copy should lead with"),
+  audience: text("Who the copy is written for"),
+  tone: text('Tone words or a custom voice name; blends like "playful luxury" mix both vocabularies'),
+  platform: { type: "string", description: "Target platform profile", enum: PLATFORM_PROFILES.map((p) => p.id) },
+  imageStyle: text("Style words for the image search"),
+  colorHint: text("Colours as hex, rgb()/hsl(), CSS names or phrases like \"warm pastels\""),
+  includeImage: { type: "boolean", description: "Search photos and render a poster (default true)" },
+  imageQuery: text("Extra image search keywords", 200),
+  variants: { type: "integer", description: "Distinct template variants to return (default 1)", minimum: 1, maximum: MAX_VARIANTS },
+  seed: { type: "integer", description: "Base seed; defaults to a hash of the brief", minimum: 0, maximum: 2 ** 32 - 1 },
+  localOnly: { type: "boolean", description: "Skip the LLM provider and use the local composer" },
+  posterLayout: { type: "string", description: "Poster layout", enum: POSTER_LAYOUTS },
+  brandKitId: { type: "string", description: "Saved brand kit whose values fill blank fields", maxLength: 64, pattern: /^[\w-]+$/ },
+  language: { type: "string", description: "Copy language (default en)", enum: LANGUAGES.map((l) => l.id) },
+  templatePack: { type: "string", description: "Template pack id (default \"default\")", maxLength: 40, pattern: /^[a-z0-9][a-z0-9-]*$/ },
+  saveHistory: { type: "boolean", description: "false skips the history entry" },
+  formats: { type: "array", description: "Outputs to compose: social copy is always returned, \"listing\" adds a shop product listing", enum: OUTPUT_FORMATS },
+};
+
+/* ========== validation ========== */
+function checkField(spec: FieldSpec, v: unknown): string | null {
+  if (spec.type === "boolean") return typeof v === "boolean" ? null : "expected true or false";
+  if (spec.type === "array") {
+    if (!Array.isArray(v) || !v.length) return "expected a non-empty array";
+    return v.every((x) => typeof x === "string" && (!spec.enum || spec.enum.includes(x))) ? null : `items must be one of ${spec.enum?.join(", ")}`;
+  }
+  if (spec.type === "integer") {
+    if (typeof v !== "number" || !Number.isInteger(v)) return "expected an integer";
+    if (spec.minimum !== undefined && v < spec.minimum) return `must be at least ${spec.minimum}`;
+    if (spec.maximum !== undefined && v > spec.maximum) return `must be at most ${spec.maximum}`;
+    return null;
+  }
+  if (typeof v !== "string") return "expected a string";
+  if (spec.enum && !spec.enum.includes(v)) return `must be one of ${spec.enum.join(", ")}`;
+  if (spec.maxLength !== undefined && v.length > spec.maxLength) return `longer than ${spec.maxLength} characters`;
+  if (spec.pattern && !spec.pattern.test(v)) return `does not match ${spec.pattern.source}`;
+  if (spec.required && !v.trim()) return "required";
+  return null;
+}
+
+// null counts as "not sent" (JSON has no undefined); unknown keys are errors so typos don't vanish silently.
+export function validateGenReq(raw: unknown): { value: GenReq } | { errors: FieldError[] } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { errors: [{ path: "", message: "expected a JSON object" }] };
+  const body = raw as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const value: Record<string, unknown> = {};
+
+  for (const key of Object.keys(body)) {
+    if (!Object.hasOwn(GEN_REQ_FIELDS, key)) errors.push({ path: key, message: "unknown field" });
+  }
+  for (const [key, spec] of Object.entries(GEN_REQ_FIELDS) as [keyof GenReq, FieldSpec][]) {
+    const v = body[key];
+    // Blank enum fields fall back to their defaults, as the form sends "" for "not chosen".
+    if (v === undefined || v === null || (v === "" && !spec.required && (spec.enum || spec.pattern))) {
+      if (spec.required) errors.push({ path: key, message: "required" });
+      continue;
+    }
+    const problem = checkField(spec, v);
+    if (problem) errors.push({ path: key, message: problem });
+    else value[key] = v;
+  }
+  return errors.length ? { errors } : { value: value as GenReq };
+}
@@ -0,0 +1,76 @@
+import { randomUUID } from "crypto";
+import { readJson, updateJson } from "./store";
+import { PUNCTUATION_STYLES, SENTENCE_LENGTHS, type CustomVoice, type Punctuation, type SentenceLength } from "./tone";
+
+export type VoiceInput = Omit<CustomVoice, "id" | "createdAt" | "updatedAt">;
+
+/* ------------ storage ------------ */
+const FILE = "voices.json";
+
+export const listVoices = () => readJson<CustomVoice[]>(FILE, []);
+
+export async function getVoice(id: string) {
+  return (await listVoices()).find((v) => v.id === id) || null;
+}
+
+// Names are matched inside tone text, so two voices can't share one.
+const nameTaken = (voices: CustomVoice[], name: string, except?: string) =>
+  voices.some((v) => v.id !== except && v.name.toLowerCase() === name.toLowerCase());
+
+export function createVoice(input: VoiceInput) {
+  const now = new Date().toISOString();
+  const voice: CustomVoice = { ...input, id: randomUUID(), createdAt: now, updatedAt: now };
+  return updateJson(FILE, [] as CustomVoice[], (voices) =>
+    nameTaken(voices, input.name) ? { next: voices, result: null } : { next: [...voices, voice], result: voice }
+  );
+}
+
+export function updateVoice(id: string, input: VoiceInput) {
+  return updateJson(FILE, [] as CustomVoice[], (voices): { next: CustomVoice[]; result: CustomVoice | "missing" | "taken" } => {
+    const old = voices.find((v) => v.id === id);
+    if (!old) return { next: voices, result: "missing" };
+    if (nameTaken(voices, input.name, id)) return { next: voices, result: "taken" };
+    const voice: CustomVoice = { ...input, id, createdAt: old.createdAt, updatedAt: new Date().toISOString() };
+    return { next: voices.map((v) => (v.id === id ? voice : v)), result: voice };
+  });
+}
+
+export function deleteVoice(id: string) {
+  return updateJson(FILE, [] as CustomVoice[], (voices) => ({
+    next: voices.filter((v) => v.id !== id),
+    result: voices.some((v) => v.id === id),
+  }));
+}
+
+/* ========== input parsing ========== */
+const str = (v: unknown, max: number) => (typeof v === "string" ? v.trim().slice(0, max) : undefined) || undefined;
+const list = (v: unknown, max: number) =>
+  (Array.isArray(v) ? v : typeof v === "string" ? v.split(",") : [])
+    .filter((x): x is string => typeof x === "string")
+    .map((x) => x.trim())
+    .filter(Boolean)
+    .slice(0, max);
+
+export function parseVoiceInput(body: unknown): { input: VoiceInput } | { error: string } {
+  const b = (body || {}) as Record<string, unknown>;
+  const name = str(b.name, 60);
+  if (!name) return { error: "Missing name" };
+  const words = list(b.words, 30);
+  const base = str(b.base, 120);
+  if (!words.length && !base) return { error: "A voice needs vocabulary (words) or base tones" };
+  if (b.sentenceLength != null && !SENTENCE_LENGTHS.includes(b.sentenceLength as SentenceLength)) {
+    return { error: `sentenceLength must be one of ${SENTENCE_LENGTHS.join(", ")}` };
+  }
+  if (b.punctuation != null && !PUNCTUATION_STYLES.includes(b.punctuation as Punctuation)) {
+    return { error: `punctuation must be one of ${PUNCTUATION_STYLES.join(", ")}` };
+  }
+  return {
+    input: {
+      name,
+      words,
+      base,
+      sentenceLength: (b.sentenceLength as SentenceLength) || "long",
+      punctuation: (b.punctuation as Punctuation) || "default",
+    },
+  };
+}